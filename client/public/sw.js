@@ -0,0 +1,40 @@
+// Service worker for IPO alert notifications. The server sends
+// { title, body, url, tag } payloads (see server/services/push.ts).
+
+self.addEventListener("push", (event) => {
+  if (!event.data) return;
+
+  let payload;
+  try {
+    payload = event.data.json();
+  } catch {
+    payload = { title: "IPO Alert", body: event.data.text(), url: "/" };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title, {
+      body: payload.body,
+      icon: "/favicon.png",
+      badge: "/favicon.png",
+      tag: payload.tag,
+      renotify: !!payload.tag,
+      data: { url: payload.url || "/" },
+    }),
+  );
+});
+
+// Focus an open app tab on the IPO page, or open a new one
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/", self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => new URL(client.url).origin === self.location.origin);
+      if (existing) {
+        return existing.focus().then((client) => client.navigate(url));
+      }
+      return self.clients.openWindow(url);
+    }),
+  );
+});
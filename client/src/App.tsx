@@ -6,17 +6,25 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "@/hooks/use-auth";
 import { Navigation } from "@/components/Navigation";
 import { Footer } from "@/components/Footer";
+import { CompareTray } from "@/components/CompareTray";
 import { Loader2 } from "lucide-react";
 
 import Landing from "@/pages/Landing";
 import Dashboard from "@/pages/Dashboard";
 import Watchlist from "@/pages/Watchlist";
+import TeamWatchlists from "@/pages/TeamWatchlists";
+import TeamWatchlistDetail from "@/pages/TeamWatchlistDetail";
 import IpoDetail from "@/pages/IpoDetail";
 import Settings from "@/pages/Settings";
 import Admin from "@/pages/Admin";
 import Calendar from "@/pages/Calendar";
+import Screener from "@/pages/Screener";
+import Compare from "@/pages/Compare";
+import Portfolio from "@/pages/Portfolio";
+import Tax from "@/pages/Tax";
 import ApiDashboard from "@/pages/ApiDashboard";
 import ApiKeys from "@/pages/ApiKeys";
+import Webhooks from "@/pages/Webhooks";
 import Billing from "@/pages/Billing";
 import NotFound from "@/pages/not-found";
 
@@ -44,6 +52,7 @@ function PrivateRoute({ component: Component, hideFooter = false }: { component:
         </div>
       </main>
       {!hideFooter && <Footer />}
+      <CompareTray />
     </div>
   );
 }
@@ -64,12 +73,19 @@ function Router() {
       <Route path="/" component={user ? () => <PrivateRoute component={Dashboard} /> : Landing} />
       <Route path="/dashboard" component={() => <PrivateRoute component={Dashboard} />} />
       <Route path="/watchlist" component={() => <PrivateRoute component={Watchlist} />} />
+      <Route path="/team-watchlists" component={() => <PrivateRoute component={TeamWatchlists} />} />
+      <Route path="/team-watchlists/:id" component={() => <PrivateRoute component={TeamWatchlistDetail} />} />
+      <Route path="/portfolio" component={() => <PrivateRoute component={Portfolio} />} />
+      <Route path="/tax" component={() => <PrivateRoute component={Tax} />} />
       <Route path="/calendar" component={() => <PrivateRoute component={Calendar} />} />
+      <Route path="/screener" component={() => <PrivateRoute component={Screener} />} />
+      <Route path="/compare" component={() => <PrivateRoute component={Compare} />} />
       <Route path="/ipos/:id" component={() => <PrivateRoute component={IpoDetail} />} />
       <Route path="/settings" component={() => <PrivateRoute component={Settings} />} />
       <Route path="/admin" component={() => <PrivateRoute component={Admin} />} />
       <Route path="/api-dashboard" component={() => <PrivateRoute component={ApiDashboard} hideFooter />} />
       <Route path="/api-keys" component={() => <PrivateRoute component={ApiKeys} hideFooter />} />
+      <Route path="/webhooks" component={() => <PrivateRoute component={Webhooks} hideFooter />} />
       <Route path="/billing" component={() => <PrivateRoute component={Billing} hideFooter />} />
       <Route component={NotFound} />
     </Switch>
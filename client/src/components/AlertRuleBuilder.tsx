@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ConditionEditor, toConditions, toDraftConditions, type DraftCondition } from "@/components/ConditionEditor";
+import { useToast } from "@/hooks/use-toast";
+import { useScreens } from "@/hooks/use-screens";
+import { useTeamWatchlists } from "@/hooks/use-team-watchlists";
+import { Loader2, Plus, Pencil, Trash2 } from "lucide-react";
+import type { AlertRule } from "@shared/schema";
+import { MAX_ALERT_RULES, MAX_RULE_CONDITIONS, describeCondition } from "@shared/alert-rules";
+import { canEditTeamWatchlist } from "@shared/team-watchlists";
+
+interface DraftRule {
+  id?: number;
+  name: string;
+  screenId: number | null;
+  conditions: DraftCondition[];
+  watchlistOnly: boolean;
+  teamWatchlistId: number | null;
+}
+
+interface RulePreview {
+  count: number;
+  ipos: Array<{ id: number; companyName: string; status: string }>;
+}
+
+const EMPTY_RULE: DraftRule = {
+  name: "",
+  screenId: null,
+  conditions: [{ field: "gmpPercentage", operator: "gt", value: "" }],
+  watchlistOnly: false,
+  teamWatchlistId: null,
+};
+
+function toDraft(rule: AlertRule): DraftRule {
+  return {
+    id: rule.id,
+    name: rule.name,
+    screenId: rule.screenId,
+    conditions: toDraftConditions(rule.conditions),
+    watchlistOnly: rule.watchlistOnly ?? false,
+    teamWatchlistId: rule.teamWatchlistId,
+  };
+}
+
+export function AlertRuleBuilder() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<DraftRule | null>(null);
+
+  const { data: rules, isLoading } = useQuery<AlertRule[]>({
+    queryKey: ["/api/alerts/rules"],
+  });
+  const { data: screens } = useScreens();
+  const screenNames = new Map(screens?.map(screen => [screen.id, screen.name]));
+  const { data: teamLists } = useTeamWatchlists();
+  const teamNames = new Map(teamLists?.map(list => [list.id, list.name]));
+  // Only lists the user can edit may scope a rule that notifies the whole team
+  const scopeLists = teamLists?.filter(list => canEditTeamWatchlist(list.role) || list.id === draft?.teamWatchlistId) ?? [];
+
+  // A rule needs at least one condition of its own or a saved screen
+  const parsed = draft ? toConditions(draft.conditions) : null;
+  const conditions = parsed && (parsed.length > 0 || draft?.screenId) ? parsed : null;
+
+  const { data: preview, isFetching: previewLoading } = useQuery<RulePreview>({
+    queryKey: ["/api/alerts/rules/preview", JSON.stringify(conditions), draft?.screenId],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/alerts/rules/preview", { conditions, screenId: draft?.screenId });
+      return res.json();
+    },
+    enabled: !!conditions,
+  });
+
+  const saveRule = useMutation({
+    mutationFn: async (rule: DraftRule) => {
+      const body = {
+        name: rule.name,
+        screenId: rule.screenId,
+        conditions: toConditions(rule.conditions),
+        watchlistOnly: rule.watchlistOnly,
+        teamWatchlistId: rule.teamWatchlistId,
+      };
+      return rule.id
+        ? apiRequest("PATCH", `/api/alerts/rules/${rule.id}`, body)
+        : apiRequest("POST", "/api/alerts/rules", body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts/rules"] });
+      setDraft(null);
+      toast({ title: "Rule saved", description: "It is checked every time IPO data changes" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const toggleRule = useMutation({
+    mutationFn: async ({ id, enabled }: { id: number; enabled: boolean }) => {
+      return apiRequest("PATCH", `/api/alerts/rules/${id}`, { enabled });
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/alerts/rules"] }),
+    onError: () => {
+      toast({ title: "Error", description: "Failed to update rule", variant: "destructive" });
+    },
+  });
+
+  const deleteRule = useMutation({
+    mutationFn: async (id: number) => apiRequest("DELETE", `/api/alerts/rules/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts/rules"] });
+      toast({ title: "Rule deleted" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="py-4 flex justify-center">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {rules && rules.length > 0 ? (
+        <div className="divide-y divide-border rounded-lg border border-border">
+          {rules.map(rule => (
+            <div key={rule.id} className="flex items-center justify-between gap-3 p-3" data-testid={`row-alert-rule-${rule.id}`}>
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-foreground truncate">{rule.name}</span>
+                  {rule.watchlistOnly && <Badge variant="secondary">Watchlist</Badge>}
+                  {rule.teamWatchlistId && (
+                    <Badge variant="secondary">Team: {teamNames.get(rule.teamWatchlistId) ?? "…"}</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {[
+                    ...(rule.screenId ? [`Screen "${screenNames.get(rule.screenId) ?? "…"}"`] : []),
+                    ...rule.conditions.map(describeCondition),
+                  ].join(" and ")}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <Switch
+                  data-testid={`switch-alert-rule-${rule.id}`}
+                  checked={rule.enabled ?? true}
+                  onCheckedChange={(enabled) => toggleRule.mutate({ id: rule.id, enabled })}
+                />
+                <Button variant="ghost" size="icon" onClick={() => setDraft(toDraft(rule))} data-testid={`button-edit-alert-rule-${rule.id}`}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteRule.mutate(rule.id)}
+                  disabled={deleteRule.isPending}
+                  data-testid={`button-delete-alert-rule-${rule.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : !draft && (
+        <p className="text-sm text-muted-foreground">
+          No rules yet. Example: GMP % above 30 for Technology IPOs, or retail subscription above 5x on your watchlist.
+        </p>
+      )}
+
+      {draft ? (
+        <div className="space-y-4 p-4 rounded-lg bg-muted" data-testid="form-alert-rule">
+          <div className="space-y-2">
+            <Label htmlFor="rule-name" className="text-muted-foreground text-sm">Rule name</Label>
+            <Input
+              id="rule-name"
+              data-testid="input-alert-rule-name"
+              placeholder="Hot tech IPOs"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className="bg-background"
+            />
+          </div>
+
+          {screens && screens.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-muted-foreground text-sm">Based on screen</Label>
+              <Select
+                value={draft.screenId ? String(draft.screenId) : "none"}
+                onValueChange={(value) => {
+                  const screenId = value === "none" ? null : Number(value);
+                  // Without a screen the rule needs a condition of its own again
+                  const conditions = !screenId && draft.conditions.length === 0 ? EMPTY_RULE.conditions : draft.conditions;
+                  setDraft({ ...draft, screenId, conditions });
+                }}
+              >
+                <SelectTrigger className="w-64 bg-background" data-testid="select-alert-rule-screen">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No screen</SelectItem>
+                  {screens.map(screen => (
+                    <SelectItem key={screen.id} value={String(screen.id)}>{screen.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label className="text-muted-foreground text-sm">
+              {draft.screenId ? "Alert when the screen matches and all of these hold" : "Alert when all of these hold"}
+            </Label>
+            <ConditionEditor
+              conditions={draft.conditions}
+              onChange={(conditions) => setDraft({ ...draft, conditions })}
+              max={MAX_RULE_CONDITIONS}
+              min={draft.screenId ? 0 : 1}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-muted-foreground text-sm">Watch</Label>
+            <Select
+              value={draft.teamWatchlistId ? `team-${draft.teamWatchlistId}` : draft.watchlistOnly ? "watchlist" : "all"}
+              onValueChange={(value) => setDraft({
+                ...draft,
+                watchlistOnly: value === "watchlist",
+                teamWatchlistId: value.startsWith("team-") ? Number(value.slice(5)) : null,
+              })}
+            >
+              <SelectTrigger className="w-64 bg-background" data-testid="select-alert-rule-scope">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All IPOs</SelectItem>
+                <SelectItem value="watchlist">Only IPOs on my watchlist</SelectItem>
+                {scopeLists.map(list => (
+                  <SelectItem key={list.id} value={`team-${list.id}`}>Team: {list.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {draft.teamWatchlistId && (
+              <p className="text-xs text-muted-foreground">Every member of the list is notified when this rule fires.</p>
+            )}
+          </div>
+
+          <p className="text-xs text-muted-foreground" data-testid="text-alert-rule-preview">
+            {!conditions ? (
+              "Fill in every condition to see which IPOs match."
+            ) : previewLoading || !preview ? (
+              "Checking current IPOs…"
+            ) : preview.count === 0 ? (
+              "No IPOs match right now."
+            ) : (
+              `Matches ${preview.count} IPO${preview.count === 1 ? "" : "s"} right now: ${preview.ipos.map(ipo => ipo.companyName).join(", ")}${preview.count > preview.ipos.length ? "…" : ""}`
+            )}
+          </p>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setDraft(null)} data-testid="button-cancel-alert-rule">Cancel</Button>
+            <Button
+              data-testid="button-save-alert-rule"
+              onClick={() => saveRule.mutate(draft)}
+              disabled={!conditions || !draft.name.trim() || saveRule.isPending}
+              className="bg-primary text-white hover:bg-primary/90"
+            >
+              {saveRule.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save rule"}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button
+          variant="outline"
+          onClick={() => setDraft(EMPTY_RULE)}
+          disabled={(rules?.length ?? 0) >= MAX_ALERT_RULES}
+          data-testid="button-new-alert-rule"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          New rule
+        </Button>
+      )}
+    </div>
+  );
+}
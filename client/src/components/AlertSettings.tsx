@@ -1,29 +1,97 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Mail, Loader2 } from "lucide-react";
+import { Mail, Send, Loader2, ListFilter, Bell } from "lucide-react";
+import { AlertRuleBuilder } from "@/components/AlertRuleBuilder";
+import { isPushSupported, getPushSubscription, enablePushNotifications, disablePushNotifications } from "@/lib/push";
+
+interface TelegramLink {
+  token: string;
+  command: string;
+  deepLink: string | null;
+  expiresAt: string;
+}
 
 interface AlertPreferences {
   id?: number;
   emailEnabled: boolean;
   email: string | null;
+  telegramEnabled: boolean;
+  telegramChatId: string | null;
+  pushEnabled: boolean;
   alertOnNewIpo: boolean;
   alertOnGmpChange: boolean;
   alertOnOpenDate: boolean;
   alertOnWatchlistOnly: boolean;
+  digestMode: "off" | "daily" | "weekly";
+  digestTime: string;
+  digestDay: number;
+  timezone: string;
 }
 
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
 export function AlertSettings() {
   const { toast } = useToast();
   const [email, setEmail] = useState("");
+  const [digestTime, setDigestTime] = useState("");
+  const [telegramLink, setTelegramLink] = useState<TelegramLink | null>(null);
+  // Whether this browser has a push subscription; notifications are per device
+  const [pushSubscribed, setPushSubscribed] = useState(false);
+
+  useEffect(() => {
+    getPushSubscription().then((subscription) => setPushSubscribed(!!subscription)).catch(() => {});
+  }, []);
 
   const { data: prefs, isLoading } = useQuery<AlertPreferences>({
     queryKey: ["/api/alerts/preferences"],
+    // Poll while waiting for the user to send the link command to the bot
+    refetchInterval: (query) => telegramLink && !query.state.data?.telegramChatId ? 3000 : false,
+  });
+
+  const linkTelegram = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/alerts/telegram/link");
+      return res.json() as Promise<TelegramLink>;
+    },
+    onSuccess: (link) => setTelegramLink(link),
+    onError: () => {
+      toast({ title: "Error", description: "Could not start Telegram linking. Is the bot configured?", variant: "destructive" });
+    },
+  });
+
+  const unlinkTelegram = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/alerts/telegram/unlink"),
+    onSuccess: () => {
+      setTelegramLink(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts/preferences"] });
+      toast({ title: "Telegram disconnected" });
+    },
+  });
+
+  const togglePush = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      if (enabled) {
+        await enablePushNotifications();
+      } else {
+        await disablePushNotifications();
+      }
+      return enabled;
+    },
+    onSuccess: (enabled) => {
+      setPushSubscribed(enabled);
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts/preferences"] });
+      toast({ title: enabled ? "Browser notifications enabled" : "Browser notifications disabled" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
   });
 
   const updatePrefs = useMutation({
@@ -87,9 +155,162 @@ export function AlertSettings() {
               </Button>
             </div>
             <p className="text-xs text-muted-foreground">
-              Email alerts require a Resend API key to be configured on the server.
+              Email alerts require an email provider (Resend or SMTP) to be configured on the server.
+            </p>
+          </div>
+        )}
+
+        {prefs?.emailEnabled && (
+          <div className="space-y-2">
+            <Label className="text-muted-foreground text-sm">Delivery</Label>
+            <div className="flex flex-wrap items-center gap-2">
+              <Select
+                value={prefs.digestMode || "off"}
+                // The schedule follows the browser's time zone
+                onValueChange={(digestMode) => updatePrefs.mutate({
+                  digestMode: digestMode as AlertPreferences["digestMode"],
+                  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+                })}
+              >
+                <SelectTrigger className="w-48 bg-background" data-testid="select-digest-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">Every alert</SelectItem>
+                  <SelectItem value="daily">Daily digest</SelectItem>
+                  <SelectItem value="weekly">Weekly digest</SelectItem>
+                </SelectContent>
+              </Select>
+              {prefs.digestMode === "weekly" && (
+                <Select
+                  value={String(prefs.digestDay ?? 1)}
+                  onValueChange={(day) => updatePrefs.mutate({ digestDay: Number(day) })}
+                >
+                  <SelectTrigger className="w-36 bg-background" data-testid="select-digest-day">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAYS.map((day, index) => (
+                      <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {prefs.digestMode && prefs.digestMode !== "off" && (
+                <Input
+                  type="time"
+                  data-testid="input-digest-time"
+                  value={digestTime || prefs.digestTime || "08:00"}
+                  onChange={(e) => setDigestTime(e.target.value)}
+                  onBlur={() => {
+                    if (digestTime && digestTime !== prefs.digestTime) {
+                      updatePrefs.mutate({ digestTime, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone });
+                    }
+                  }}
+                  className="w-32 bg-background"
+                />
+              )}
+            </div>
+            {prefs.digestMode && prefs.digestMode !== "off" && (
+              <p className="text-xs text-muted-foreground">
+                One summary email ({prefs.timezone}) instead of an email per alert: IPOs opening and closing, GMP movers,
+                new listings and your watchlist. Custom rule alerts are still sent right away.{" "}
+                <a
+                  href={`/api/alerts/digest/preview?period=${prefs.digestMode}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-primary underline"
+                  data-testid="link-digest-preview"
+                >
+                  Preview
+                </a>
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="border-t border-border pt-6 space-y-4">
+        <div className="flex items-center gap-2 text-foreground font-medium">
+          <Send className="h-4 w-4 text-primary" />
+          Telegram Alerts
+        </div>
+
+        {prefs?.telegramChatId ? (
+          <>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="telegram-enabled" className="text-muted-foreground">Enable Telegram alerts</Label>
+              <Switch
+                id="telegram-enabled"
+                data-testid="switch-telegram-enabled"
+                checked={prefs.telegramEnabled || false}
+                onCheckedChange={(checked) => updatePrefs.mutate({ telegramEnabled: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs text-muted-foreground">Linked to chat {prefs.telegramChatId}</p>
+              <Button
+                variant="ghost"
+                size="sm"
+                data-testid="button-unlink-telegram"
+                onClick={() => unlinkTelegram.mutate()}
+                disabled={unlinkTelegram.isPending}
+              >
+                Disconnect
+              </Button>
+            </div>
+          </>
+        ) : telegramLink ? (
+          <div className="space-y-2 p-3 rounded-lg bg-muted">
+            <p className="text-sm text-foreground">
+              {telegramLink.deepLink ? (
+                <>Open <a href={telegramLink.deepLink} target="_blank" rel="noreferrer" className="text-primary underline" data-testid="link-telegram-bot">the bot in Telegram</a> and press Start, or send it:</>
+              ) : (
+                <>Send this message to the bot:</>
+              )}
+            </p>
+            <code className="block text-xs bg-background rounded px-2 py-1.5 break-all" data-testid="text-telegram-command">{telegramLink.command}</code>
+            <p className="text-xs text-muted-foreground flex items-center gap-2">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Waiting for the bot to confirm…
             </p>
           </div>
+        ) : (
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm text-muted-foreground">Get alerts as Telegram messages from our bot</p>
+            <Button
+              variant="outline"
+              data-testid="button-link-telegram"
+              onClick={() => linkTelegram.mutate()}
+              disabled={linkTelegram.isPending}
+            >
+              {linkTelegram.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Connect Telegram"}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="border-t border-border pt-6 space-y-4">
+        <div className="flex items-center gap-2 text-foreground font-medium">
+          <Bell className="h-4 w-4 text-primary" />
+          Browser Notifications
+        </div>
+        {isPushSupported() ? (
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="push-enabled" className="text-muted-foreground">Enable browser notifications</Label>
+              <p className="text-xs text-muted-foreground">Applies to this browser; enable it on each device you use</p>
+            </div>
+            <Switch
+              id="push-enabled"
+              data-testid="switch-push-enabled"
+              checked={pushSubscribed && (prefs?.pushEnabled || false)}
+              onCheckedChange={(checked) => togglePush.mutate(checked)}
+              disabled={togglePush.isPending}
+            />
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">This browser does not support push notifications.</p>
         )}
       </div>
 
@@ -137,7 +358,7 @@ export function AlertSettings() {
           <div className="flex items-center justify-between">
             <div>
               <Label className="text-foreground">Watchlist only</Label>
-              <p className="text-xs text-muted-foreground">Only get alerts for watchlisted IPOs</p>
+              <p className="text-xs text-muted-foreground">Only get alerts for IPOs on your watchlist or your team watchlists</p>
             </div>
             <Switch
               data-testid="switch-alert-watchlist-only"
@@ -147,6 +368,15 @@ export function AlertSettings() {
           </div>
         </div>
       </div>
+
+      <div className="border-t border-border pt-6 space-y-4">
+        <div className="flex items-center gap-2 text-foreground font-medium">
+          <ListFilter className="h-4 w-4 text-primary" />
+          Custom Rules
+        </div>
+        <p className="text-sm text-muted-foreground">Get alerted when an IPO meets your own conditions</p>
+        <AlertRuleBuilder />
+      </div>
     </div>
   );
 }
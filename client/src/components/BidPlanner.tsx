@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calculator, Info, Loader2 } from "lucide-react";
+import type { Ipo } from "@shared/schema";
+import { BID_CATEGORIES, MAX_PLANNED_APPLICATIONS, type BidCategory, type BidPlan } from "@shared/allotment";
+
+interface BidPlannerProps {
+  ipo: Ipo;
+}
+
+const CATEGORY_ENTRIES = Object.entries(BID_CATEGORIES) as Array<[BidCategory, typeof BID_CATEGORIES[BidCategory]]>;
+
+function formatRupees(value: number | null): string {
+  if (value === null) return "-";
+  return `₹${Math.round(value).toLocaleString("en-IN")}`;
+}
+
+function formatPercent(value: number | null): string {
+  if (value === null) return "-";
+  return `${(value * 100).toLocaleString("en-IN", { maximumFractionDigits: value < 0.1 ? 2 : 1 })}%`;
+}
+
+export function BidPlanner({ ipo }: BidPlannerProps) {
+  const [category, setCategory] = useState<BidCategory>("retail");
+  const [lots, setLots] = useState(""); // Empty means the category's minimum bid
+  const [applications, setApplications] = useState(1);
+
+  const { data: plan, error, isFetching } = useQuery<BidPlan>({
+    queryKey: ["/api/ipos", ipo.id, "bid-plan", category, lots, applications],
+    queryFn: async () => {
+      const params = new URLSearchParams({ category, applications: String(applications) });
+      if (lots) params.set("lots", lots);
+      const res = await fetch(`/api/ipos/${ipo.id}/bid-plan?${params.toString()}`);
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.message || "Failed to plan bid");
+      return body;
+    },
+    placeholderData: keepPreviousData,
+    retry: false,
+  });
+
+  const last = plan?.rows[plan.rows.length - 1];
+  const perApplicationProfit = plan?.rows[0]?.expectedProfit ?? null;
+  const lotteryApplies = plan !== undefined && plan.subscription !== null && plan.subscription > 1;
+
+  return (
+    <div className="bg-card rounded-lg border border-border p-6" data-testid="card-bid-planner">
+      <h3 className="text-lg font-bold text-foreground mb-1 flex items-center gap-2">
+        <Calculator className="w-5 h-5 text-primary" />
+        Bid Planner
+        {isFetching && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+      </h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        Estimate your allotment odds from the latest subscription figures, and whether applying from more accounts is worth it.
+      </p>
+
+      <div className="grid sm:grid-cols-3 gap-3 mb-4">
+        <div className="space-y-1.5">
+          <Label className="text-xs text-muted-foreground">Category</Label>
+          <Select
+            value={category}
+            onValueChange={(value) => {
+              setCategory(value as BidCategory);
+              setLots("");
+            }}
+          >
+            <SelectTrigger className="bg-background" data-testid="select-bid-category">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CATEGORY_ENTRIES.map(([key, { label }]) => (
+                <SelectItem key={key} value={key}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-muted-foreground">Lots per application</Label>
+          <Input
+            type="number"
+            min={1}
+            placeholder={plan ? String(plan.minLots) : "1"}
+            value={lots}
+            onChange={(e) => setLots(e.target.value)}
+            className="bg-background"
+            data-testid="input-bid-lots"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-muted-foreground">Applications (family PANs)</Label>
+          <Select value={String(applications)} onValueChange={(value) => setApplications(Number(value))}>
+            <SelectTrigger className="bg-background" data-testid="select-bid-applications">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: MAX_PLANNED_APPLICATIONS }, (_, i) => i + 1).map(count => (
+                <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600" data-testid="text-bid-plan-error">{error.message}</p>
+      ) : plan && last ? (
+        <div className="space-y-4">
+          <p className="text-xs text-muted-foreground">
+            {plan.lots} lot{plan.lots === 1 ? "" : "s"} × {plan.lotSize} shares at {formatRupees(plan.issuePrice)} = {formatRupees(plan.lots * plan.lotPrice)} per application.
+            {" "}{BID_CATEGORIES[plan.category].label} bids are {plan.maxLots !== null ? `${plan.minLots}-${plan.maxLots}` : `${plan.minLots}+`} lots.
+          </p>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="bg-muted rounded-lg p-3">
+              <p className="text-xs text-muted-foreground mb-1">Chance of allotment</p>
+              <p className="font-semibold text-foreground" data-testid="text-bid-chance">{formatPercent(last.chanceOfAllotment)}</p>
+              <p className="text-xs text-muted-foreground">{formatPercent(plan.probability)} per application</p>
+            </div>
+            <div className="bg-muted rounded-lg p-3">
+              <p className="text-xs text-muted-foreground mb-1">Expected shares</p>
+              <p className="font-semibold text-foreground" data-testid="text-bid-expected-shares">{last.expectedShares ?? "-"}</p>
+              <p className="text-xs text-muted-foreground">{plan.sharesIfAllotted} if allotted</p>
+            </div>
+            <div className="bg-muted rounded-lg p-3">
+              <p className="text-xs text-muted-foreground mb-1">Blocked capital</p>
+              <p className="font-semibold text-foreground" data-testid="text-bid-blocked">{formatRupees(last.blockedCapital)}</p>
+              <p className="text-xs text-muted-foreground">Until allotment</p>
+            </div>
+            <div className="bg-muted rounded-lg p-3">
+              <p className="text-xs text-muted-foreground mb-1">Expected profit</p>
+              <p className={`font-semibold ${(last.expectedProfit ?? 0) < 0 ? "text-red-600" : "text-green-600"}`} data-testid="text-bid-expected-profit">
+                {formatRupees(last.expectedProfit)}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {plan.gmp !== null ? `At GMP ₹${plan.gmp}` : "No GMP yet"}
+              </p>
+            </div>
+          </div>
+
+          {plan.rows.length > 1 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border text-muted-foreground">
+                    <th className="text-left py-2 font-medium">Applications</th>
+                    <th className="text-right py-2 font-medium">Chance</th>
+                    <th className="text-right py-2 font-medium">Expected shares</th>
+                    <th className="text-right py-2 font-medium">Blocked</th>
+                    <th className="text-right py-2 font-medium">Expected profit</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.rows.map(row => (
+                    <tr key={row.applications} className="border-b border-border last:border-b-0" data-testid={`row-bid-plan-${row.applications}`}>
+                      <td className="py-2">{row.applications}</td>
+                      <td className="py-2 text-right tabular-nums">{formatPercent(row.chanceOfAllotment)}</td>
+                      <td className="py-2 text-right tabular-nums">{row.expectedShares ?? "-"}</td>
+                      <td className="py-2 text-right tabular-nums">{formatRupees(row.blockedCapital)}</td>
+                      <td className="py-2 text-right tabular-nums">{formatRupees(row.expectedProfit)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex gap-2 text-xs text-muted-foreground bg-muted/50 rounded-lg p-3">
+            <Info className="w-4 h-4 shrink-0 mt-0.5" />
+            <div className="space-y-1">
+              {plan.subscription === null ? (
+                <p>No subscription figures for this category yet, so the odds cannot be estimated. Check again once bidding opens.</p>
+              ) : (
+                <p>
+                  {BID_CATEGORIES[plan.category].label} is subscribed {plan.subscription.toFixed(2)}x
+                  {plan.subscriptionRecordedAt && ` (updated ${formatDistanceToNow(new Date(plan.subscriptionRecordedAt), { addSuffix: true })})`}.
+                  {lotteryApplies
+                    ? " Allotment is by lottery, and each winning application gets the minimum bid."
+                    : " Every bid should be allotted in full."}
+                </p>
+              )}
+              {lotteryApplies && plan.lots > plan.minLots && (
+                <p className="text-orange-700">
+                  Bidding {plan.lots} lots instead of {plan.minLots} blocks more money without improving your odds.
+                </p>
+              )}
+              {lotteryApplies && perApplicationProfit !== null && (
+                <p>
+                  Each extra application adds about {formatRupees(perApplicationProfit)} of expected profit for {formatRupees(plan.lots * plan.lotPrice)} more blocked capital.
+                </p>
+              )}
+              {plan.estimatedWinners !== null && (
+                <p>About {plan.estimatedWinners.toLocaleString("en-IN")} applications can be allotted in this category, based on the issue size.</p>
+              )}
+              <p>Estimates assume most applicants bid the minimum size; GMP is unofficial and can change before listing.</p>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      )}
+    </div>
+  );
+}
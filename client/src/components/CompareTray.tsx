@@ -0,0 +1,40 @@
+import { Link, useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { useCompareList } from "@/hooks/use-compare";
+import { useIpos } from "@/hooks/use-ipos";
+import { GitCompareArrows, X } from "lucide-react";
+
+// Bar along the bottom of the screen while IPOs are picked for comparison
+export function CompareTray() {
+  const [location] = useLocation();
+  const compare = useCompareList();
+  const { data: ipos } = useIpos();
+
+  if (compare.ids.length === 0 || location === "/compare") return null;
+
+  const symbols = new Map(ipos?.map(ipo => [ipo.id, ipo.symbol]));
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 bg-card border border-border rounded-lg shadow-lg px-4 py-3 flex items-center gap-3" data-testid="tray-compare">
+      <GitCompareArrows className="w-4 h-4 text-primary shrink-0" />
+      <div className="flex flex-wrap items-center gap-1.5">
+        {compare.ids.map(id => (
+          <span key={id} className="inline-flex items-center gap-1 text-xs font-medium bg-muted px-2 py-1 rounded-md">
+            {symbols.get(id) ?? `#${id}`}
+            <button onClick={() => compare.toggle(id)} className="text-muted-foreground hover:text-foreground" data-testid={`button-tray-remove-${id}`}>
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+      <Button variant="ghost" size="sm" onClick={compare.clear} data-testid="button-tray-clear">
+        Clear
+      </Button>
+      <Link href={`/compare?ids=${compare.ids.join(",")}`}>
+        <Button size="sm" className="bg-foreground text-background hover:bg-foreground/90" data-testid="button-tray-compare">
+          Compare {compare.ids.length}
+        </Button>
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+import {
+  ALERT_RULE_FIELDS,
+  ALERT_RULE_OPERATORS,
+  OPERATORS_BY_TYPE,
+  type AlertRuleCondition,
+  type AlertRuleField,
+  type AlertRuleFieldInfo,
+  type AlertRuleOperator,
+} from "@shared/alert-rules";
+
+// Values are edited as text and converted when the conditions are used
+export interface DraftCondition {
+  field: AlertRuleField;
+  operator: AlertRuleOperator;
+  value: string;
+}
+
+export const FIELD_ENTRIES = Object.entries(ALERT_RULE_FIELDS) as Array<[AlertRuleField, AlertRuleFieldInfo]>;
+
+function fieldInfo(field: AlertRuleField): AlertRuleFieldInfo {
+  return ALERT_RULE_FIELDS[field];
+}
+
+// Null until every condition has a usable value
+export function toConditions(draft: DraftCondition[]): AlertRuleCondition[] | null {
+  const conditions: AlertRuleCondition[] = [];
+  for (const condition of draft) {
+    const value = condition.value.trim();
+    if (!value) return null;
+    if (fieldInfo(condition.field).type === "number") {
+      const number = Number(value);
+      if (!Number.isFinite(number)) return null;
+      conditions.push({ field: condition.field, operator: condition.operator, value: number });
+    } else {
+      conditions.push({ field: condition.field, operator: condition.operator, value });
+    }
+  }
+  return conditions;
+}
+
+export function toDraftConditions(conditions: AlertRuleCondition[]): DraftCondition[] {
+  return conditions.map(c => ({ field: c.field, operator: c.operator, value: String(c.value) }));
+}
+
+interface ConditionEditorProps {
+  conditions: DraftCondition[];
+  onChange: (conditions: DraftCondition[]) => void;
+  max: number;
+  min?: number; // Rows that cannot be removed
+}
+
+// Rows of field / operator / value pickers shared by the alert rule builder
+// and the screener
+export function ConditionEditor({ conditions, onChange, max, min = 1 }: ConditionEditorProps) {
+  const updateCondition = (index: number, change: Partial<DraftCondition>) => {
+    onChange(conditions.map((condition, i) => {
+      if (i !== index) return condition;
+      const updated = { ...condition, ...change };
+      // A new field may not support the old operator or value
+      if (change.field && change.field !== condition.field) {
+        const info = fieldInfo(change.field);
+        updated.operator = OPERATORS_BY_TYPE[info.type][0];
+        updated.value = info.options ? info.options[0] : "";
+      }
+      return updated;
+    }));
+  };
+
+  return (
+    <>
+      {conditions.map((condition, index) => {
+        const info = fieldInfo(condition.field);
+        return (
+          <div key={index} className="flex flex-wrap items-center gap-2" data-testid={`row-alert-condition-${index}`}>
+            <Select value={condition.field} onValueChange={(field) => updateCondition(index, { field: field as AlertRuleField })}>
+              <SelectTrigger className="w-52 bg-background" data-testid={`select-condition-field-${index}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FIELD_ENTRIES.map(([field, { label }]) => (
+                  <SelectItem key={field} value={field}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={condition.operator} onValueChange={(operator) => updateCondition(index, { operator: operator as AlertRuleOperator })}>
+              <SelectTrigger className="w-20 bg-background" data-testid={`select-condition-operator-${index}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OPERATORS_BY_TYPE[info.type].map(operator => (
+                  <SelectItem key={operator} value={operator}>{ALERT_RULE_OPERATORS[operator]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {info.options ? (
+              <Select value={condition.value} onValueChange={(value) => updateCondition(index, { value })}>
+                <SelectTrigger className="w-40 bg-background capitalize" data-testid={`select-condition-value-${index}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {info.options.map(option => (
+                    <SelectItem key={option} value={option} className="capitalize">{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                data-testid={`input-condition-value-${index}`}
+                type={info.type === "number" ? "number" : "text"}
+                placeholder={info.type === "number" ? "30" : "Technology"}
+                value={condition.value}
+                onChange={(e) => updateCondition(index, { value: e.target.value })}
+                className="w-40 bg-background"
+              />
+            )}
+            {conditions.length > min && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange(conditions.filter((_, i) => i !== index))}
+                data-testid={`button-remove-condition-${index}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        );
+      })}
+      {conditions.length < max && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange([...conditions, { field: "overallScore", operator: "gte", value: "" }])}
+          data-testid="button-add-condition"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add condition
+        </Button>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, RotateCw } from "lucide-react";
+import { format } from "date-fns";
+import type { OutboxEmail, OutboxEmailSummary } from "@shared/schema";
+
+interface OutboxResponse {
+  transport: string | null;
+  emails: OutboxEmailSummary[];
+}
+
+const ALL_STATUSES = "all";
+
+const EMAIL_STATUS_STYLES: Record<string, string> = {
+  pending: "bg-blue-500/10 text-blue-500 border-blue-500/30",
+  sent: "bg-green-500/10 text-green-500 border-green-500/30",
+  captured: "bg-muted text-muted-foreground",
+  retrying: "bg-yellow-500/10 text-yellow-600 border-yellow-500/30",
+  failed: "bg-red-500/10 text-red-500 border-red-500/30",
+};
+
+// Recent emails with their delivery status; click a row to preview the email
+export function EmailOutbox() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState(ALL_STATUSES);
+  const [previewId, setPreviewId] = useState<number | null>(null);
+
+  const outboxUrl = status === ALL_STATUSES ? "/api/admin/email/outbox" : `/api/admin/email/outbox?status=${status}`;
+  const { data, isLoading } = useQuery<OutboxResponse>({ queryKey: [outboxUrl] });
+
+  const { data: preview, isLoading: previewLoading } = useQuery<OutboxEmail>({
+    queryKey: [`/api/admin/email/outbox/${previewId}`],
+    enabled: previewId !== null,
+  });
+
+  const retry = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/admin/email/outbox/${id}/retry`);
+      return res.json() as Promise<OutboxEmailSummary>;
+    },
+    onSuccess: (email) => {
+      queryClient.invalidateQueries({ queryKey: [outboxUrl] });
+      toast({
+        title: email.status === "failed" ? "Retry failed" : "Email retried",
+        description: email.lastError && email.status !== "sent" ? email.lastError : `Status: ${email.status}`,
+        variant: email.status === "failed" ? "destructive" : "default",
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Retry failed", description: err.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground" data-testid="text-email-transport">
+          {data?.transport ? (
+            <>Sending with <code>{data.transport}</code>{data.transport === "outbox" && " (emails are captured here, not sent)"}</>
+          ) : (
+            "Email is not configured; nothing is sent."
+          )}
+        </p>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-36" data-testid="select-outbox-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_STATUSES}>All</SelectItem>
+            {Object.keys(EMAIL_STATUS_STYLES).map((value) => (
+              <SelectItem key={value} value={value} className="capitalize">{value}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      ) : !data?.emails.length ? (
+        <p className="text-sm text-muted-foreground">No emails yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Created</TableHead>
+              <TableHead>To</TableHead>
+              <TableHead>Subject</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Attempts</TableHead>
+              <TableHead>Last Error</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.emails.map((email) => (
+              <TableRow
+                key={email.id}
+                className="cursor-pointer"
+                onClick={() => setPreviewId(email.id)}
+                data-testid={`row-email-${email.id}`}
+              >
+                <TableCell className="whitespace-nowrap">
+                  {email.createdAt ? format(new Date(email.createdAt), "d MMM, h:mm a") : "-"}
+                </TableCell>
+                <TableCell>{email.toAddress}</TableCell>
+                <TableCell className="max-w-xs truncate">{email.subject}</TableCell>
+                <TableCell>
+                  <Badge variant="outline" className={`capitalize ${EMAIL_STATUS_STYLES[email.status] || ""}`}>
+                    {email.status}
+                  </Badge>
+                  {email.status === "retrying" && email.nextAttemptAt && (
+                    <span className="block text-xs text-muted-foreground mt-1">
+                      next {format(new Date(email.nextAttemptAt), "h:mm a")}
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{email.attempts}</TableCell>
+                <TableCell className="max-w-xs truncate text-sm text-red-500" title={email.lastError || undefined}>
+                  {email.lastError || ""}
+                </TableCell>
+                <TableCell className="text-right">
+                  {(email.status === "failed" || email.status === "retrying") && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      data-testid={`button-retry-email-${email.id}`}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        retry.mutate(email.id);
+                      }}
+                      disabled={retry.isPending}
+                    >
+                      <RotateCw className="h-4 w-4" />
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={previewId !== null} onOpenChange={(open) => !open && setPreviewId(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{preview?.subject || "Email"}</DialogTitle>
+            <DialogDescription>
+              {preview ? `From ${preview.fromAddress} to ${preview.toAddress}` : ""}
+            </DialogDescription>
+          </DialogHeader>
+          {previewLoading || !preview ? (
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          ) : (
+            // Sandboxed so the email's HTML cannot run scripts in the admin page
+            <iframe
+              title="Email preview"
+              sandbox=""
+              srcDoc={preview.html}
+              className="w-full h-[60vh] rounded border bg-white"
+              data-testid="iframe-email-preview"
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
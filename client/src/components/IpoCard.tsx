@@ -1,11 +1,13 @@
 import { type Ipo } from "@shared/schema";
 import { format } from "date-fns";
-import { ArrowRight, Calendar, Layers, Plus, Check, TrendingUp, TrendingDown, AlertTriangle } from "lucide-react";
+import { ArrowRight, Calendar, Layers, Plus, Check, TrendingUp, TrendingDown, AlertTriangle, GitCompareArrows } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useAddToWatchlist, useWatchlist } from "@/hooks/use-ipos";
+import { useCompareList } from "@/hooks/use-compare";
 import { useToast } from "@/hooks/use-toast";
 import { Link } from "wouter";
+import { MAX_COMPARE_IPOS } from "@shared/routes";
 
 interface IpoCardProps {
   ipo: Ipo;
@@ -73,9 +75,22 @@ function GmpBadge({ gmp }: { gmp: number | null }) {
 export function IpoCard({ ipo, compact = false }: IpoCardProps) {
   const { mutate: addToWatchlist, isPending } = useAddToWatchlist();
   const { data: watchlist } = useWatchlist();
+  const compare = useCompareList();
   const { toast } = useToast();
 
   const isWatching = watchlist?.some(item => item.ipoId === ipo.id);
+  const isComparing = compare.has(ipo.id);
+
+  const handleCompare = (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (!compare.toggle(ipo.id)) {
+      toast({
+        title: "Comparison is full",
+        description: `You can compare up to ${MAX_COMPARE_IPOS} IPOs at a time.`,
+        variant: "destructive",
+      });
+    }
+  };
 
   const handleWatch = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -195,6 +210,20 @@ export function IpoCard({ ipo, compact = false }: IpoCardProps) {
             <ArrowRight className="w-4 h-4" />
           </Button>
         </Link>
+        <Button
+          size="icon"
+          variant="outline"
+          className={`shrink-0 ${
+            isComparing
+              ? 'bg-primary/10 text-primary border-primary/30'
+              : 'text-muted-foreground border-border hover:bg-muted'
+          }`}
+          onClick={handleCompare}
+          title={isComparing ? "Remove from comparison" : "Add to comparison"}
+          data-testid={`button-compare-${ipo.id}`}
+        >
+          <GitCompareArrows className="w-4 h-4" />
+        </Button>
         <Button
           size="icon"
           variant="outline"
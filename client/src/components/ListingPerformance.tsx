@@ -0,0 +1,152 @@
+import { useQuery } from "@tanstack/react-query";
+import { LineChart as LineChartIcon, Target } from "lucide-react";
+import { format } from "date-fns";
+import type { Ipo } from "@shared/schema";
+
+interface ListingPerformanceEntry {
+  id: number;
+  ipoId: number;
+  exchangeSymbol: string | null;
+  issuePrice: number | null;
+  listingDate: string | null;
+  listingOpen: number | null;
+  listingHigh: number | null;
+  listingLow: number | null;
+  listingClose: number | null;
+  listingGain: number | null;
+  listingCloseGain: number | null;
+  return1w: number | null;
+  return1m: number | null;
+  return3m: number | null;
+  return6m: number | null;
+  currentPrice: number | null;
+  updatedAt: string;
+}
+
+interface ListingPerformanceProps {
+  ipo: Ipo;
+}
+
+function formatPercent(value: number | null): string {
+  if (value === null) return "Pending";
+  return `${value > 0 ? "+" : ""}${value.toFixed(2)}%`;
+}
+
+function percentColor(value: number | null): string {
+  if (value === null) return "text-muted-foreground";
+  return value >= 0 ? "text-green-600" : "text-red-600";
+}
+
+export function ListingPerformance({ ipo }: ListingPerformanceProps) {
+  const { data: performance, isLoading } = useQuery<ListingPerformanceEntry | null>({
+    queryKey: ["/api/ipos", ipo.id, "listing-performance"],
+    queryFn: async () => {
+      const res = await fetch(`/api/ipos/${ipo.id}/listing-performance`);
+      return res.json();
+    },
+  });
+
+  if (isLoading) return null;
+
+  const prices = performance ? [
+    { label: "Issue Price", value: performance.issuePrice },
+    { label: "Open", value: performance.listingOpen },
+    { label: "High", value: performance.listingHigh },
+    { label: "Low", value: performance.listingLow },
+    { label: "Close", value: performance.listingClose },
+  ] : [];
+
+  const returns = performance ? [
+    { label: "1 Week", value: performance.return1w },
+    { label: "1 Month", value: performance.return1m },
+    { label: "3 Months", value: performance.return3m },
+    { label: "6 Months", value: performance.return6m },
+  ] : [];
+
+  // What the grey market expected on listing, to compare with the actual listing gain
+  const gmpImpliedGain = performance?.issuePrice && ipo.gmp !== null
+    ? (ipo.gmp / performance.issuePrice) * 100
+    : null;
+
+  return (
+    <div className="bg-card rounded-lg border border-border p-6" data-testid="section-listing-performance">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-foreground flex items-center gap-2">
+          <LineChartIcon className="w-5 h-5 text-primary" />
+          Post-Listing Performance
+        </h3>
+        {performance?.listingDate && (
+          <span className="text-xs text-muted-foreground">
+            Listed {format(new Date(performance.listingDate), "d MMM yyyy")}
+            {performance.exchangeSymbol && ` · ${performance.exchangeSymbol}`}
+          </span>
+        )}
+      </div>
+
+      {!performance ? (
+        <div className="text-center py-8 text-muted-foreground text-sm">
+          Listing performance will appear once the shares start trading
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+            <div className="rounded-lg bg-muted/50 p-3">
+              <div className={`text-xl font-bold ${percentColor(performance.listingGain)}`} data-testid="text-listing-gain">
+                {formatPercent(performance.listingGain)}
+              </div>
+              <div className="text-xs text-muted-foreground">Listing Gain (open)</div>
+            </div>
+            <div className="rounded-lg bg-muted/50 p-3">
+              <div className={`text-xl font-bold ${percentColor(performance.listingCloseGain)}`}>
+                {formatPercent(performance.listingCloseGain)}
+              </div>
+              <div className="text-xs text-muted-foreground">Listing-day Close</div>
+            </div>
+            <div className="rounded-lg bg-muted/50 p-3">
+              <div className="text-xl font-bold text-foreground">
+                {gmpImpliedGain !== null ? formatPercent(Math.round(gmpImpliedGain * 100) / 100) : "N/A"}
+              </div>
+              <div className="text-xs text-muted-foreground">GMP Implied Gain</div>
+            </div>
+            <div className="rounded-lg bg-muted/50 p-3">
+              <div className="text-xl font-bold text-foreground">
+                {ipo.overallScore !== null ? `${ipo.overallScore.toFixed(1)}/10` : "N/A"}
+              </div>
+              <div className="text-xs text-muted-foreground">Our Score</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-5 gap-2 mb-4 text-center">
+            {prices.map((price) => (
+              <div key={price.label}>
+                <div className="text-sm font-semibold text-foreground">
+                  {price.value !== null ? `₹${price.value.toFixed(2)}` : "-"}
+                </div>
+                <div className="text-xs text-muted-foreground">{price.label}</div>
+              </div>
+            ))}
+          </div>
+
+          <h4 className="text-xs font-semibold text-muted-foreground uppercase mb-2 flex items-center gap-1">
+            <Target className="w-3 h-3" />
+            Returns vs Issue Price
+          </h4>
+          <div className="grid grid-cols-4 gap-2 text-center">
+            {returns.map((entry) => (
+              <div key={entry.label} className="rounded-lg border border-border p-2">
+                <div className={`text-sm font-bold ${percentColor(entry.value)}`}>{formatPercent(entry.value)}</div>
+                <div className="text-xs text-muted-foreground">{entry.label}</div>
+              </div>
+            ))}
+          </div>
+
+          {performance.currentPrice !== null && (
+            <p className="text-xs text-muted-foreground mt-3">
+              Last close ₹{performance.currentPrice.toFixed(2)} · updated {format(new Date(performance.updatedAt), "d MMM, h:mm a")}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
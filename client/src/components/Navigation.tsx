@@ -11,7 +11,10 @@ import {
   Shield,
   ChevronDown,
   CalendarDays,
-  Wrench
+  Wrench,
+  Filter,
+  Briefcase,
+  Users
 } from "lucide-react";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
@@ -28,8 +31,11 @@ export function Navigation() {
 
   const navItems = [
     { href: "/dashboard", label: "Dashboard", icon: LayoutDashboard },
+    { href: "/screener", label: "Screener", icon: Filter },
     { href: "/calendar", label: "Calendar", icon: CalendarDays },
     { href: "/watchlist", label: "Watchlist", icon: Bookmark },
+    { href: "/team-watchlists", label: "Teams", icon: Users },
+    { href: "/portfolio", label: "Portfolio", icon: Briefcase },
     { href: "/settings", label: "Settings", icon: Settings },
     { href: "/admin", label: "Admin", icon: Wrench },
   ];
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, ReferenceLine } from "recharts";
+import { ListTree } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { ScoreBreakdownResponse, ScoreContribution, ScoreSection } from "@shared/schema";
+
+interface ScoreWaterfallProps {
+  ipoId: number;
+}
+
+type View = "overall" | ScoreSection;
+
+interface WaterfallStep {
+  name: string;
+  start: number;
+  end: number;
+  kind: "total" | "up" | "down";
+}
+
+const VIEWS: Array<{ value: View; label: string }> = [
+  { value: "overall", label: "Overall" },
+  { value: "fundamentals", label: "Fundamentals" },
+  { value: "valuation", label: "Valuation" },
+  { value: "governance", label: "Governance" },
+];
+
+const SECTIONS: ScoreSection[] = ["fundamentals", "valuation", "governance"];
+
+const METRIC_LABELS: Record<string, string> = {
+  revenueGrowth: "Revenue growth",
+  roe: "ROE",
+  ebitdaMargin: "EBITDA margin",
+  debtToEquity: "Debt/Equity",
+  peVsSector: "P/E vs sector",
+  peRatio: "P/E",
+  gmp: "GMP",
+  ofsRatio: "OFS ratio",
+  promoterHolding: "Promoter holding",
+  promoterDilution: "Promoter dilution",
+};
+
+const STEP_COLORS = {
+  total: "hsl(var(--primary))",
+  up: "#16a34a",
+  down: "#dc2626",
+};
+
+function metricLabel(contribution: ScoreContribution): string {
+  return METRIC_LABELS[contribution.metric] || contribution.metric;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatDelta(value: number): string {
+  return `${value > 0 ? "+" : ""}${round(value)}`;
+}
+
+// Section view: base score, each rule's points, clamping, section score.
+// Overall view: the same steps scaled by each section's weight.
+function buildSteps(breakdown: ScoreBreakdownResponse, view: View): WaterfallStep[] {
+  const sections = view === "overall" ? SECTIONS : [view];
+  const scale = (section: ScoreSection) => view === "overall" ? breakdown.weights[section] : 1;
+
+  let running = round(sections.reduce((sum, section) => sum + breakdown.baseScores[section] * scale(section), 0));
+  const steps: WaterfallStep[] = [{ name: "Base", start: 0, end: running, kind: "total" }];
+
+  const push = (name: string, delta: number) => {
+    if (delta === 0) return;
+    const end = round(running + delta);
+    steps.push({ name, start: running, end, kind: delta > 0 ? "up" : "down" });
+    running = end;
+  };
+
+  for (const contribution of breakdown.contributions) {
+    if (!sections.includes(contribution.bucket)) continue;
+    push(metricLabel(contribution), contribution.delta * scale(contribution.bucket));
+  }
+  for (const section of sections) {
+    push(view === "overall" ? `Clamp (${section})` : "Clamp to 0-10", breakdown.clampAdjustments[section] * scale(section));
+  }
+
+  const label = VIEWS.find(v => v.value === view)!.label;
+  steps.push({ name: label, start: 0, end: running, kind: "total" });
+  return steps;
+}
+
+export function ScoreWaterfall({ ipoId }: ScoreWaterfallProps) {
+  const [view, setView] = useState<View>("overall");
+
+  const { data: breakdown, isLoading } = useQuery<ScoreBreakdownResponse>({
+    queryKey: ["/api/ipos", ipoId, "score-breakdown"],
+    queryFn: async () => {
+      const res = await fetch(`/api/ipos/${ipoId}/score-breakdown`);
+      return res.json();
+    },
+  });
+
+  if (isLoading || !breakdown?.contributions) return null;
+
+  const steps = buildSteps(breakdown, view);
+  const chartData = steps.map(step => ({
+    ...step,
+    offset: step.kind === "total" ? 0 : Math.min(step.start, step.end),
+    size: step.kind === "total" ? step.end : Math.abs(step.end - step.start),
+  }));
+  const rules = breakdown.contributions.filter(c => view === "overall" || c.bucket === view);
+
+  return (
+    <div className="bg-card rounded-lg border border-border p-6" data-testid="section-score-breakdown">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-bold text-foreground flex items-center gap-2">
+          <ListTree className="w-5 h-5 text-primary" />
+          Score Breakdown
+        </h3>
+        <div className="flex flex-wrap gap-1">
+          {VIEWS.map(option => (
+            <Button
+              key={option.value}
+              size="sm"
+              variant={view === option.value ? "default" : "ghost"}
+              onClick={() => setView(option.value)}
+              data-testid={`button-breakdown-${option.value}`}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData} margin={{ top: 5, right: 5, left: -20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" vertical={false} />
+            <XAxis
+              dataKey="name"
+              interval={0}
+              angle={-30}
+              textAnchor="end"
+              height={60}
+              tick={{ fontSize: 10, fill: "hsl(var(--muted-foreground))" }}
+            />
+            <YAxis domain={[0, 10]} tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }} />
+            <ReferenceLine y={0} stroke="hsl(var(--border))" />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: "hsl(var(--card))",
+                border: "1px solid hsl(var(--border))",
+                borderRadius: "8px",
+                fontSize: "12px"
+              }}
+              formatter={(_value: number, _name: string, item: { payload?: WaterfallStep }) => {
+                const step = item.payload!;
+                return step.kind === "total"
+                  ? [step.end.toFixed(2), "Score"]
+                  : [`${formatDelta(step.end - step.start)} (${step.start.toFixed(2)} → ${step.end.toFixed(2)})`, "Change"];
+              }}
+            />
+            <Bar dataKey="offset" stackId="waterfall" fill="transparent" tooltipType="none" />
+            <Bar dataKey="size" stackId="waterfall" radius={[4, 4, 0, 0]}>
+              {chartData.map((step, index) => (
+                <Cell key={`cell-${index}`} fill={STEP_COLORS[step.kind]} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="mt-4 divide-y divide-border text-sm">
+        {rules.length === 0 ? (
+          <p className="py-2 text-muted-foreground">No scoring rules fired; the score is the section base.</p>
+        ) : rules.map((rule, index) => (
+          <div key={index} className="flex items-center justify-between gap-3 py-2" data-testid={`row-score-rule-${index}`}>
+            <div>
+              <span className="font-medium text-foreground">{metricLabel(rule)}</span>
+              <span className="text-muted-foreground">
+                {" "}{rule.value} {rule.comparison} {rule.threshold} · {rule.rule}
+                {view === "overall" && <span className="capitalize"> · {rule.bucket}</span>}
+              </span>
+            </div>
+            <span className={rule.delta > 0 ? "text-green-600 font-medium" : rule.delta < 0 ? "text-red-600 font-medium" : "text-muted-foreground"}>
+              {formatDelta(rule.delta)}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <p className="mt-3 text-xs text-muted-foreground">
+        Points are added to a section base score,
+        sections are clamped to 0-10 and the overall score weights them {SECTIONS.map(s => `${Math.round(breakdown.weights[s] * 100)}%`).join(" / ")}.
+      </p>
+    </div>
+  );
+}
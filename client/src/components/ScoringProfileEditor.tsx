@@ -0,0 +1,200 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Save } from "lucide-react";
+import { format } from "date-fns";
+import { api } from "@shared/routes";
+import { DEFAULT_SCORING_PROFILE, scoringConfigSchema } from "@shared/scoring";
+import type { ScoringProfile } from "@shared/schema";
+
+const NEW_PROFILE = "__new__";
+
+interface PublishResult {
+  profile: ScoringProfile;
+  rescored: number;
+}
+
+// Edits a scoring profile as JSON; every save is stored as a new version
+export function ScoringProfileEditor() {
+  const { toast } = useToast();
+  const [slug, setSlug] = useState(DEFAULT_SCORING_PROFILE);
+  const [newSlug, setNewSlug] = useState("");
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [configText, setConfigText] = useState("");
+  const [configError, setConfigError] = useState<string | null>(null);
+
+  // All versions, newest first within each profile
+  const { data: versions, isLoading } = useQuery<ScoringProfile[]>({
+    queryKey: ["/api/admin/scoring-profiles"],
+  });
+
+  const latestBySlug = new Map<string, ScoringProfile>();
+  for (const version of versions || []) {
+    if (!latestBySlug.has(version.slug)) latestBySlug.set(version.slug, version);
+  }
+  const history = (versions || []).filter(version => version.slug === slug);
+  const latest = latestBySlug.get(slug);
+
+  // Start from the latest version (or the default profile for a new one)
+  useEffect(() => {
+    const base = latest ?? latestBySlug.get(DEFAULT_SCORING_PROFILE);
+    if (!base) return;
+    setName(latest ? latest.name : "");
+    setDescription(latest?.description || "");
+    setConfigText(JSON.stringify(base.config, null, 2));
+    setConfigError(null);
+  }, [slug, latest?.id, versions]);
+
+  const publish = useMutation({
+    mutationFn: async (payload: { slug: string; body: unknown }) => {
+      const res = await apiRequest("POST", `/api/admin/scoring-profiles/${payload.slug}`, payload.body);
+      return res.json() as Promise<PublishResult>;
+    },
+    onSuccess: ({ profile, rescored }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/scoring-profiles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/scoring/profiles"] });
+      queryClient.invalidateQueries({ queryKey: [api.ipos.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.ipos.get.path] });
+      setSlug(profile.slug);
+      setNewSlug("");
+      toast({
+        title: "Profile Saved",
+        description: `${profile.name} v${profile.version}${rescored ? `, ${rescored} IPOs rescored` : ""}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(configText);
+    } catch {
+      setConfigError("Config is not valid JSON");
+      return;
+    }
+    const result = scoringConfigSchema.safeParse(parsed);
+    if (!result.success) {
+      const issue = result.error.errors[0];
+      setConfigError(`${issue.path.join(".") || "config"}: ${issue.message}`);
+      return;
+    }
+    setConfigError(null);
+    const targetSlug = slug === NEW_PROFILE ? newSlug.trim().toLowerCase() : slug;
+    publish.mutate({ slug: targetSlug, body: { name, description: description || null, config: result.data } });
+  };
+
+  if (isLoading) {
+    return <Loader2 className="h-5 w-5 animate-spin text-primary" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Profile</Label>
+          <Select value={slug} onValueChange={setSlug}>
+            <SelectTrigger data-testid="select-admin-scoring-profile">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from(latestBySlug.values()).map(profile => (
+                <SelectItem key={profile.slug} value={profile.slug}>
+                  {profile.name} ({profile.slug})
+                </SelectItem>
+              ))}
+              <SelectItem value={NEW_PROFILE}>New profile…</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {slug === NEW_PROFILE && (
+          <div className="space-y-2">
+            <Label htmlFor="profile-slug">Slug</Label>
+            <Input
+              id="profile-slug"
+              placeholder="e.g. momentum"
+              value={newSlug}
+              onChange={(e) => setNewSlug(e.target.value)}
+              data-testid="input-profile-slug"
+            />
+          </div>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor="profile-name">Name</Label>
+          <Input
+            id="profile-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            data-testid="input-profile-name"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="profile-description">Description</Label>
+          <Input
+            id="profile-description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            data-testid="input-profile-description"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="profile-config">Thresholds and weights</Label>
+        <Textarea
+          id="profile-config"
+          value={configText}
+          onChange={(e) => setConfigText(e.target.value)}
+          className="font-mono text-xs min-h-[320px]"
+          spellCheck={false}
+          data-testid="textarea-profile-config"
+        />
+        {configError && <p className="text-sm text-red-500" data-testid="text-config-error">{configError}</p>}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          {slug === DEFAULT_SCORING_PROFILE
+            ? "Saving the default profile rescores every stored IPO."
+            : "Users who picked this profile see the new version immediately."}
+        </p>
+        <Button
+          onClick={handleSave}
+          disabled={publish.isPending || !name || (slug === NEW_PROFILE && !newSlug.trim())}
+          data-testid="button-save-profile"
+        >
+          {publish.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Save className="mr-2 h-4 w-4" />
+          )}
+          Save as v{(latest?.version ?? 0) + 1}
+        </Button>
+      </div>
+
+      {history.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {history.map(version => (
+            <Badge key={version.id} variant="outline" title={version.createdAt ? format(new Date(version.createdAt), "d MMM yyyy, h:mm a") : undefined}>
+              v{version.version}{version.id === latest?.id ? " (current)" : ""}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
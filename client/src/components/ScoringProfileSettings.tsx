@@ -0,0 +1,71 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import { api } from "@shared/routes";
+import type { ScoringProfile } from "@shared/schema";
+
+export function ScoringProfileSettings() {
+  const { toast } = useToast();
+
+  const { data: profiles, isLoading: profilesLoading } = useQuery<ScoringProfile[]>({
+    queryKey: ["/api/scoring/profiles"],
+  });
+
+  const { data: current, isLoading: currentLoading } = useQuery<ScoringProfile>({
+    queryKey: ["/api/scoring/profile"],
+  });
+
+  const selectProfile = useMutation({
+    mutationFn: async (slug: string) => {
+      const res = await apiRequest("PUT", "/api/scoring/profile", { slug });
+      return res.json() as Promise<ScoringProfile>;
+    },
+    onSuccess: (profile) => {
+      queryClient.setQueryData(["/api/scoring/profile"], profile);
+      // Scores in every IPO view are recomputed under the new profile
+      queryClient.invalidateQueries({ queryKey: [api.ipos.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.ipos.get.path] });
+      queryClient.invalidateQueries({ queryKey: [api.watchlist.list.path] });
+      toast({ title: "Scoring profile updated", description: `Scores now use ${profile.name}` });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to change scoring profile", variant: "destructive" });
+    },
+  });
+
+  if (profilesLoading || currentLoading) {
+    return (
+      <div className="py-8 flex justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const selected = profiles?.find(profile => profile.slug === current?.slug);
+
+  return (
+    <div className="space-y-3">
+      <Select
+        value={current?.slug}
+        onValueChange={(slug) => selectProfile.mutate(slug)}
+        disabled={selectProfile.isPending}
+      >
+        <SelectTrigger className="w-full md:w-72" data-testid="select-scoring-profile">
+          <SelectValue placeholder="Choose a profile" />
+        </SelectTrigger>
+        <SelectContent>
+          {profiles?.map(profile => (
+            <SelectItem key={profile.slug} value={profile.slug} data-testid={`option-scoring-profile-${profile.slug}`}>
+              {profile.name} (v{profile.version})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {selected?.description && (
+        <p className="text-sm text-muted-foreground">{selected.description}</p>
+      )}
+    </div>
+  );
+}
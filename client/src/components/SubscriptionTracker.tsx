@@ -1,5 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from "recharts";
+import { BarChart, Bar, LineChart, Line, Legend, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from "recharts";
 import { Users, Clock, TrendingUp } from "lucide-react";
 import { format } from "date-fns";
 import type { Ipo } from "@shared/schema";
@@ -9,11 +9,45 @@ interface SubscriptionUpdate {
   ipoId: number;
   qibSubscription: number | null;
   niiSubscription: number | null;
+  bniiSubscription: number | null;
+  sniiSubscription: number | null;
   retailSubscription: number | null;
+  employeeSubscription: number | null;
+  shareholderSubscription: number | null;
   totalSubscription: number | null;
   recordedAt: string;
 }
 
+const tooltipStyle = {
+  backgroundColor: "hsl(var(--card))",
+  border: "1px solid hsl(var(--border))",
+  borderRadius: "8px",
+  fontSize: "12px"
+};
+
+// Keeps the last snapshot of each day, oldest day first
+function toDailySeries(updates: SubscriptionUpdate[]) {
+  const byDay = new Map<string, SubscriptionUpdate>();
+  for (const update of updates) {
+    const day = format(new Date(update.recordedAt), "yyyy-MM-dd");
+    const current = byDay.get(day);
+    if (!current || new Date(update.recordedAt) > new Date(current.recordedAt)) {
+      byDay.set(day, update);
+    }
+  }
+  
+  return Array.from(byDay.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([day, update], index) => ({
+      label: `Day ${index + 1}`,
+      date: format(new Date(day), "d MMM"),
+      total: update.totalSubscription,
+      qib: update.qibSubscription,
+      nii: update.niiSubscription,
+      retail: update.retailSubscription,
+    }));
+}
+
 interface SubscriptionTrackerProps {
   ipo: Ipo;
 }
@@ -32,7 +66,11 @@ export function SubscriptionTracker({ ipo }: SubscriptionTrackerProps) {
   const displayData = latestUpdate || {
     qibSubscription: ipo.subscriptionQib || 0,
     niiSubscription: ipo.subscriptionHni || 0,
+    bniiSubscription: null,
+    sniiSubscription: null,
     retailSubscription: ipo.subscriptionRetail || 0,
+    employeeSubscription: null,
+    shareholderSubscription: null,
     totalSubscription: ((ipo.subscriptionQib || 0) + (ipo.subscriptionHni || 0) + (ipo.subscriptionRetail || 0)) / 3,
     recordedAt: new Date().toISOString(),
   };
@@ -43,6 +81,16 @@ export function SubscriptionTracker({ ipo }: SubscriptionTrackerProps) {
     { name: "Retail", value: displayData.retailSubscription || 0, color: "#22c55e" },
   ];
 
+  // Categories only some issues reserve for; shown when the source reports them
+  const extraCategories = [
+    { name: "bNII (>₹10L)", value: displayData.bniiSubscription },
+    { name: "sNII (<₹10L)", value: displayData.sniiSubscription },
+    { name: "Employee", value: displayData.employeeSubscription },
+    { name: "Shareholder", value: displayData.shareholderSubscription },
+  ].filter((category): category is { name: string; value: number } => category.value !== null && category.value !== undefined);
+
+  const dailySeries = updates && updates.length > 0 ? toDailySeries(updates) : [];
+
   const total = displayData.totalSubscription || 
     (chartData.reduce((sum, d) => sum + d.value, 0) / 3);
 
@@ -101,12 +149,7 @@ export function SubscriptionTracker({ ipo }: SubscriptionTrackerProps) {
                   width={50}
                 />
                 <Tooltip
-                  contentStyle={{ 
-                    backgroundColor: "hsl(var(--card))",
-                    border: "1px solid hsl(var(--border))",
-                    borderRadius: "8px",
-                    fontSize: "12px"
-                  }}
+                  contentStyle={tooltipStyle}
                   formatter={(value: number) => [`${value.toFixed(2)}x`, "Subscription"]}
                 />
                 <Bar dataKey="value" radius={[0, 4, 4, 0]}>
@@ -132,6 +175,45 @@ export function SubscriptionTracker({ ipo }: SubscriptionTrackerProps) {
               <div className="text-xs text-muted-foreground">Retail</div>
             </div>
           </div>
+
+          {extraCategories.length > 0 && (
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              {extraCategories.map((category) => (
+                <div key={category.name} className="flex items-center justify-between rounded-lg bg-muted/50 px-3 py-1.5 text-xs">
+                  <span className="text-muted-foreground">{category.name}</span>
+                  <span className="font-semibold text-foreground">{category.value.toFixed(2)}x</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {dailySeries.length > 0 && (
+            <div className="mt-6">
+              <h5 className="text-xs font-semibold text-muted-foreground uppercase mb-2">Day-by-day Demand</h5>
+              <div className="h-44" data-testid="chart-subscription-daily">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={dailySeries} margin={{ left: -20, right: 10, top: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" vertical={false} />
+                    <XAxis dataKey="label" tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }} />
+                    <YAxis
+                      tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
+                      tickFormatter={(value) => `${value}x`}
+                    />
+                    <Tooltip
+                      contentStyle={tooltipStyle}
+                      labelFormatter={(label, payload) => payload?.[0] ? `${label} (${payload[0].payload.date})` : label}
+                      formatter={(value: number) => value !== null ? `${value.toFixed(2)}x` : "-"}
+                    />
+                    <Legend wrapperStyle={{ fontSize: "11px" }} />
+                    <Line type="monotone" dataKey="total" name="Total" stroke="hsl(var(--foreground))" strokeWidth={2} connectNulls />
+                    <Line type="monotone" dataKey="qib" name="QIB" stroke="#3b82f6" connectNulls />
+                    <Line type="monotone" dataKey="nii" name="NII/HNI" stroke="#8b5cf6" connectNulls />
+                    <Line type="monotone" dataKey="retail" name="Retail" stroke="#22c55e" connectNulls />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          )}
         </>
       ) : (
         <div className="text-center py-8 text-muted-foreground text-sm">
@@ -140,7 +222,7 @@ export function SubscriptionTracker({ ipo }: SubscriptionTrackerProps) {
       )}
 
       <p className="text-xs text-muted-foreground mt-3 text-center">
-        {ipo.status === "open" ? "Updated every hour during subscription period" : "Final subscription numbers"}
+        {ipo.status === "open" ? "Updated every two hours during subscription period" : "Final subscription numbers"}
       </p>
     </div>
   );
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import type { UserPlan } from "@shared/schema";
+import { plans, getPlan, type PlanId } from "@shared/plans";
+
+// Assigns an API plan to a user by email; an empty period end means no expiry
+export function UserPlanForm() {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [planId, setPlanId] = useState<PlanId>("free");
+  const [periodEnd, setPeriodEnd] = useState("");
+
+  const assign = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", "/api/admin/user-plans", {
+        email,
+        planId,
+        currentPeriodEnd: periodEnd || null,
+      });
+      return res.json() as Promise<UserPlan>;
+    },
+    onSuccess: (plan) => {
+      toast({ title: "Plan assigned", description: `${email} is now on ${getPlan(plan.planId).name}` });
+      setEmail("");
+      setPeriodEnd("");
+    },
+    onError: (err: Error) => {
+      toast({ title: "Could not assign plan", description: err.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="flex flex-wrap items-end gap-3">
+      <div className="space-y-2">
+        <Label htmlFor="plan-email" className="text-muted-foreground text-sm">User email</Label>
+        <Input
+          id="plan-email"
+          data-testid="input-plan-email"
+          type="email"
+          placeholder="user@example.com"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className="w-64"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label className="text-muted-foreground text-sm">Plan</Label>
+        <Select value={planId} onValueChange={(value) => setPlanId(value as PlanId)}>
+          <SelectTrigger className="w-56" data-testid="select-plan">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.values(plans).map(plan => (
+              <SelectItem key={plan.id} value={plan.id}>{plan.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="plan-period-end" className="text-muted-foreground text-sm">Paid until (optional)</Label>
+        <Input
+          id="plan-period-end"
+          data-testid="input-plan-period-end"
+          type="date"
+          value={periodEnd}
+          onChange={(e) => setPeriodEnd(e.target.value)}
+          className="w-44"
+        />
+      </div>
+      <Button
+        data-testid="button-assign-plan"
+        onClick={() => assign.mutate()}
+        disabled={!email.trim() || assign.isPending}
+      >
+        {assign.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Assign plan"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+
+export function useApiKeys() {
+  return useQuery({
+    queryKey: [api.apiKeys.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.apiKeys.list.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch API keys");
+      return api.apiKeys.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useCreateApiKey() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (identifier: string) => {
+      const validated = api.apiKeys.create.input.parse({ identifier });
+      const res = await fetch(api.apiKeys.create.path, {
+        method: api.apiKeys.create.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(validated),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        if (res.status === 400) {
+          const error = api.apiKeys.create.responses[400].parse(await res.json());
+          throw new Error(error.message);
+        }
+        if (res.status === 403) {
+          const error = api.apiKeys.create.responses[403].parse(await res.json());
+          throw new Error(error.message);
+        }
+        throw new Error("Failed to create API key");
+      }
+      return api.apiKeys.create.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.apiKeys.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.usage.get.path] });
+    },
+  });
+}
+
+export function useRotateApiKey() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const url = buildUrl(api.apiKeys.rotate.path, { id });
+      const res = await fetch(url, {
+        method: api.apiKeys.rotate.method,
+        credentials: "include",
+      });
+
+      if (!res.ok) throw new Error("Failed to rotate API key");
+      return api.apiKeys.rotate.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.apiKeys.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.usage.get.path] });
+    },
+  });
+}
+
+export function useRevokeApiKey() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const url = buildUrl(api.apiKeys.revoke.path, { id });
+      const res = await fetch(url, {
+        method: api.apiKeys.revoke.method,
+        credentials: "include",
+      });
+
+      if (!res.ok) throw new Error("Failed to revoke API key");
+      return api.apiKeys.revoke.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.apiKeys.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.usage.get.path] });
+    },
+  });
+}
+
+export function useApiUsage() {
+  return useQuery({
+    queryKey: [api.usage.get.path],
+    queryFn: async () => {
+      const res = await fetch(api.usage.get.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch API usage");
+      return api.usage.get.responses[200].parse(await res.json());
+    },
+  });
+}
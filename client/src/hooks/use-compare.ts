@@ -0,0 +1,73 @@
+import { useSyncExternalStore } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { api, MAX_COMPARE_IPOS } from "@shared/routes";
+
+// IPOs picked for comparison, kept in localStorage so the selection survives
+// navigation and reloads, and shared by every component that uses it
+const STORAGE_KEY = "compare-ipo-ids";
+const listeners = new Set<() => void>();
+let cached: number[] | null = null;
+
+function readIds(): number[] {
+  if (cached) return cached;
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    cached = Array.isArray(parsed) ? parsed.filter((id): id is number => Number.isInteger(id)).slice(0, MAX_COMPARE_IPOS) : [];
+  } catch {
+    cached = [];
+  }
+  return cached;
+}
+
+function writeIds(ids: number[]) {
+  cached = ids.slice(0, MAX_COMPARE_IPOS);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(cached));
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useCompareList() {
+  const ids = useSyncExternalStore(subscribe, readIds);
+  return {
+    ids,
+    isFull: ids.length >= MAX_COMPARE_IPOS,
+    has: (id: number) => ids.includes(id),
+    // Returns false when the list is already full
+    toggle: (id: number) => {
+      if (ids.includes(id)) {
+        writeIds(ids.filter(other => other !== id));
+        return true;
+      }
+      if (ids.length >= MAX_COMPARE_IPOS) return false;
+      writeIds([...ids, id]);
+      return true;
+    },
+    set: writeIds,
+    clear: () => writeIds([]),
+  };
+}
+
+export function useIpoComparison(ids: number[]) {
+  const url = `${api.compare.get.path}?ids=${ids.join(",")}`;
+  return useQuery({
+    queryKey: [api.compare.get.path, ids.join(",")],
+    queryFn: async () => {
+      const res = await fetch(url, { credentials: "include" });
+      if (!res.ok) {
+        if (res.status === 400) {
+          const error = api.compare.get.responses[400].parse(await res.json());
+          throw new Error(error.message);
+        }
+        throw new Error("Failed to fetch comparison");
+      }
+      return api.compare.get.responses[200].parse(await res.json());
+    },
+    enabled: ids.length > 0,
+  });
+}
@@ -1,19 +1,47 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { api, buildUrl } from "@shared/routes";
+import { keepPreviousData, useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { api, buildUrl, IPO_TOTAL_COUNT_HEADER, type IpoListParams } from "@shared/routes";
 import { type Ipo, type WatchlistItem } from "@shared/schema";
 
-export function useIpos(filters?: { status?: 'upcoming' | 'open' | 'closed'; sector?: string }) {
+type UpdateWatchlistItemInput = z.infer<typeof api.watchlist.update.input>;
+
+function ipoListUrl(params?: IpoListParams) {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params ?? {})) {
+    if (value !== undefined && value !== null && value !== '') search.set(key, String(value));
+  }
+  const query = search.toString();
+  return query ? `${api.ipos.list.path}?${query}` : api.ipos.list.path;
+}
+
+async function fetchIpoList(params?: IpoListParams) {
+  const res = await fetch(ipoListUrl(params), { credentials: "include" });
+  if (!res.ok) {
+    if (res.status === 400) {
+      const error = api.ipos.list.responses[400].parse(await res.json());
+      throw new Error(error.message);
+    }
+    throw new Error("Failed to fetch IPOs");
+  }
+  const ipos = api.ipos.list.responses[200].parse(await res.json());
+  const total = Number(res.headers.get(IPO_TOTAL_COUNT_HEADER) ?? ipos.length);
+  return { ipos, total };
+}
+
+export function useIpos(params?: IpoListParams) {
   return useQuery({
-    queryKey: [api.ipos.list.path, filters],
-    queryFn: async () => {
-      const url = filters 
-        ? buildUrl(api.ipos.list.path) + '?' + new URLSearchParams(filters as any).toString()
-        : api.ipos.list.path;
-        
-      const res = await fetch(url, { credentials: "include" });
-      if (!res.ok) throw new Error("Failed to fetch IPOs");
-      return api.ipos.list.responses[200].parse(await res.json());
-    },
+    queryKey: [api.ipos.list.path, params],
+    queryFn: async () => (await fetchIpoList(params)).ipos,
+  });
+}
+
+// One page of results plus the total number of matches, for paged lists.
+// The previous page stays on screen while the next one loads.
+export function useIpoPage(params: IpoListParams) {
+  return useQuery({
+    queryKey: [api.ipos.list.path, 'page', params],
+    queryFn: () => fetchIpoList(params),
+    placeholderData: keepPreviousData,
   });
 }
 
@@ -69,6 +97,34 @@ export function useAddToWatchlist() {
   });
 }
 
+export function useUpdateWatchlistItem() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, ...input }: UpdateWatchlistItemInput & { id: number }) => {
+      const validated = api.watchlist.update.input.parse(input);
+      const res = await fetch(buildUrl(api.watchlist.update.path, { id }), {
+        method: api.watchlist.update.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(validated),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        if (res.status === 400) {
+          const error = api.watchlist.update.responses[400].parse(await res.json());
+          throw new Error(error.message);
+        }
+        throw new Error("Failed to update watchlist item");
+      }
+      return api.watchlist.update.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.watchlist.list.path] });
+      // The Dashboard tag filter depends on the tags
+      queryClient.invalidateQueries({ queryKey: [api.ipos.list.path] });
+    },
+  });
+}
+
 export function useRemoveFromWatchlist() {
   const queryClient = useQueryClient();
   return useMutation({
@@ -0,0 +1,89 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { api, buildUrl } from "@shared/routes";
+
+type CreateApplicationInput = z.infer<typeof api.applications.create.input>;
+type UpdateApplicationInput = z.infer<typeof api.applications.update.input>;
+
+export function usePortfolio() {
+  return useQuery({
+    queryKey: [api.portfolio.get.path],
+    queryFn: async () => {
+      const res = await fetch(api.portfolio.get.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch portfolio");
+      return api.portfolio.get.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useCreateApplication() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (input: CreateApplicationInput) => {
+      const validated = api.applications.create.input.parse(input);
+      const res = await fetch(api.applications.create.path, {
+        method: api.applications.create.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(validated),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        if (res.status === 400 || res.status === 404) {
+          const error = api.applications.create.responses[res.status].parse(await res.json());
+          throw new Error(error.message);
+        }
+        throw new Error("Failed to log application");
+      }
+      return api.applications.create.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.portfolio.get.path] });
+    },
+  });
+}
+
+export function useUpdateApplication() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, ...input }: UpdateApplicationInput & { id: number }) => {
+      const validated = api.applications.update.input.parse(input);
+      const url = buildUrl(api.applications.update.path, { id });
+      const res = await fetch(url, {
+        method: api.applications.update.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(validated),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        if (res.status === 400) {
+          const error = api.applications.update.responses[400].parse(await res.json());
+          throw new Error(error.message);
+        }
+        throw new Error("Failed to update application");
+      }
+      return api.applications.update.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.portfolio.get.path] });
+    },
+  });
+}
+
+export function useDeleteApplication() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const url = buildUrl(api.applications.remove.path, { id });
+      const res = await fetch(url, {
+        method: api.applications.remove.method,
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to delete application");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.portfolio.get.path] });
+    },
+  });
+}
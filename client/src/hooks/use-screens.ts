@@ -0,0 +1,124 @@
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import { z } from "zod";
+import { api, buildUrl } from "@shared/routes";
+import type { AlertRuleCondition } from "@shared/alert-rules";
+
+type CreateScreenInput = z.infer<typeof api.screens.create.input>;
+type UpdateScreenInput = z.infer<typeof api.screens.update.input>;
+
+export function useScreens() {
+  return useQuery({
+    queryKey: [api.screens.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.screens.list.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch screens");
+      return api.screens.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+// IPOs matching the conditions; null conditions (still being edited) keep the
+// last results on screen
+export function useScreenerResults(conditions: AlertRuleCondition[] | null) {
+  return useQuery({
+    queryKey: [api.screener.run.path, JSON.stringify(conditions)],
+    queryFn: async () => {
+      const res = await fetch(api.screener.run.path, {
+        method: api.screener.run.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ conditions }),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        if (res.status === 400) {
+          const error = api.screener.run.responses[400].parse(await res.json());
+          throw new Error(error.message);
+        }
+        throw new Error("Failed to run screen");
+      }
+      return api.screener.run.responses[200].parse(await res.json());
+    },
+    enabled: conditions !== null,
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useCreateScreen() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (input: CreateScreenInput) => {
+      const validated = api.screens.create.input.parse(input);
+      const res = await fetch(api.screens.create.path, {
+        method: api.screens.create.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(validated),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        if (res.status === 400) {
+          const error = api.screens.create.responses[400].parse(await res.json());
+          throw new Error(error.message);
+        }
+        throw new Error("Failed to save screen");
+      }
+      return api.screens.create.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.screens.list.path] });
+    },
+  });
+}
+
+export function useUpdateScreen() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, ...input }: UpdateScreenInput & { id: number }) => {
+      const validated = api.screens.update.input.parse(input);
+      const url = buildUrl(api.screens.update.path, { id });
+      const res = await fetch(url, {
+        method: api.screens.update.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(validated),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        if (res.status === 400) {
+          const error = api.screens.update.responses[400].parse(await res.json());
+          throw new Error(error.message);
+        }
+        throw new Error("Failed to update screen");
+      }
+      return api.screens.update.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.screens.list.path] });
+    },
+  });
+}
+
+export function useDeleteScreen() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const url = buildUrl(api.screens.remove.path, { id });
+      const res = await fetch(url, {
+        method: api.screens.remove.method,
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        if (res.status === 400) {
+          const error = api.screens.remove.responses[400].parse(await res.json());
+          throw new Error(error.message);
+        }
+        throw new Error("Failed to delete screen");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.screens.list.path] });
+    },
+  });
+}
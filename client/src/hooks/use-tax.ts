@@ -0,0 +1,23 @@
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { api } from "@shared/routes";
+
+// Report for the financial year starting in `fy`; the latest year with a sale when undefined
+export function useTaxReport(fy?: number) {
+  return useQuery({
+    queryKey: [api.tax.report.path, fy],
+    queryFn: async () => {
+      const url = fy === undefined ? api.tax.report.path : `${api.tax.report.path}?fy=${fy}`;
+      const res = await fetch(url, { credentials: "include" });
+
+      if (!res.ok) {
+        if (res.status === 400) {
+          const error = api.tax.report.responses[400].parse(await res.json());
+          throw new Error(error.message);
+        }
+        throw new Error("Failed to fetch tax report");
+      }
+      return api.tax.report.responses[200].parse(await res.json());
+    },
+    placeholderData: keepPreviousData,
+  });
+}
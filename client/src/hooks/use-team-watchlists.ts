@@ -0,0 +1,215 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { api, buildUrl } from "@shared/routes";
+
+type InviteInput = z.infer<typeof api.teamWatchlists.invite.input>;
+type MemberRole = z.infer<typeof api.teamWatchlists.updateMember.input>["role"];
+
+// Team routes answer 400, 403 and 404 with a message worth showing as is
+async function teamRequest(method: string, url: string, fallback: string, body?: unknown): Promise<Response> {
+  const res = await fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    credentials: "include",
+  });
+  if (!res.ok) {
+    if ([400, 403, 404].includes(res.status)) {
+      const error = api.teamWatchlists.update.responses[400].parse(await res.json());
+      throw new Error(error.message);
+    }
+    throw new Error(fallback);
+  }
+  return res;
+}
+
+export function useTeamWatchlists() {
+  return useQuery({
+    queryKey: [api.teamWatchlists.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.teamWatchlists.list.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch team watchlists");
+      return api.teamWatchlists.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useTeamWatchlist(id: number) {
+  return useQuery({
+    queryKey: [api.teamWatchlists.get.path, id],
+    queryFn: async () => {
+      const res = await fetch(buildUrl(api.teamWatchlists.get.path, { id }), { credentials: "include" });
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error("Failed to fetch team watchlist");
+      return api.teamWatchlists.get.responses[200].parse(await res.json());
+    },
+    enabled: !!id,
+  });
+}
+
+// Refreshes the summaries and the open list after any change to a team watchlist
+function useInvalidateTeam() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: [api.teamWatchlists.list.path] });
+    queryClient.invalidateQueries({ queryKey: [api.teamWatchlists.get.path] });
+  };
+}
+
+export function useCreateTeamWatchlist() {
+  const invalidate = useInvalidateTeam();
+  return useMutation({
+    mutationFn: async (name: string) => {
+      const validated = api.teamWatchlists.create.input.parse({ name });
+      const res = await teamRequest(api.teamWatchlists.create.method, api.teamWatchlists.create.path, "Failed to create team watchlist", validated);
+      return api.teamWatchlists.create.responses[201].parse(await res.json());
+    },
+    onSuccess: invalidate,
+  });
+}
+
+export function useRenameTeamWatchlist() {
+  const invalidate = useInvalidateTeam();
+  return useMutation({
+    mutationFn: async ({ id, name }: { id: number; name: string }) => {
+      const validated = api.teamWatchlists.update.input.parse({ name });
+      const url = buildUrl(api.teamWatchlists.update.path, { id });
+      const res = await teamRequest(api.teamWatchlists.update.method, url, "Failed to rename team watchlist", validated);
+      return api.teamWatchlists.update.responses[200].parse(await res.json());
+    },
+    onSuccess: invalidate,
+  });
+}
+
+export function useDeleteTeamWatchlist() {
+  const invalidate = useInvalidateTeam();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: number) => {
+      await teamRequest(api.teamWatchlists.remove.method, buildUrl(api.teamWatchlists.remove.path, { id }), "Failed to delete team watchlist");
+    },
+    onSuccess: () => {
+      invalidate();
+      // Rules scoped to the list were switched off
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts/rules"] });
+    },
+  });
+}
+
+export function useAddTeamWatchlistItem() {
+  const invalidate = useInvalidateTeam();
+  return useMutation({
+    mutationFn: async ({ id, ipoId }: { id: number; ipoId: number }) => {
+      const validated = api.teamWatchlists.addItem.input.parse({ ipoId });
+      const url = buildUrl(api.teamWatchlists.addItem.path, { id });
+      const res = await teamRequest(api.teamWatchlists.addItem.method, url, "Failed to add IPO", validated);
+      return api.teamWatchlists.addItem.responses[201].parse(await res.json());
+    },
+    onSuccess: invalidate,
+  });
+}
+
+export function useRemoveTeamWatchlistItem() {
+  const invalidate = useInvalidateTeam();
+  return useMutation({
+    mutationFn: async ({ id, itemId }: { id: number; itemId: number }) => {
+      const url = buildUrl(api.teamWatchlists.removeItem.path, { id, itemId });
+      await teamRequest(api.teamWatchlists.removeItem.method, url, "Failed to remove IPO");
+    },
+    onSuccess: invalidate,
+  });
+}
+
+export function useInviteTeamMember() {
+  const invalidate = useInvalidateTeam();
+  return useMutation({
+    mutationFn: async ({ id, ...input }: InviteInput & { id: number }) => {
+      const validated = api.teamWatchlists.invite.input.parse(input);
+      const url = buildUrl(api.teamWatchlists.invite.path, { id });
+      const res = await teamRequest(api.teamWatchlists.invite.method, url, "Failed to send invite", validated);
+      return api.teamWatchlists.invite.responses[201].parse(await res.json());
+    },
+    onSuccess: invalidate,
+  });
+}
+
+export function useRevokeTeamInvite() {
+  const invalidate = useInvalidateTeam();
+  return useMutation({
+    mutationFn: async ({ id, inviteId }: { id: number; inviteId: number }) => {
+      const url = buildUrl(api.teamWatchlists.revokeInvite.path, { id, inviteId });
+      await teamRequest(api.teamWatchlists.revokeInvite.method, url, "Failed to revoke invite");
+    },
+    onSuccess: invalidate,
+  });
+}
+
+export function useUpdateTeamMember() {
+  const invalidate = useInvalidateTeam();
+  return useMutation({
+    mutationFn: async ({ id, userId, role }: { id: number; userId: string; role: MemberRole }) => {
+      const validated = api.teamWatchlists.updateMember.input.parse({ role });
+      const url = buildUrl(api.teamWatchlists.updateMember.path, { id, userId });
+      const res = await teamRequest(api.teamWatchlists.updateMember.method, url, "Failed to change role", validated);
+      return api.teamWatchlists.updateMember.responses[200].parse(await res.json());
+    },
+    onSuccess: invalidate,
+  });
+}
+
+// Removing yourself leaves the list
+export function useRemoveTeamMember() {
+  const invalidate = useInvalidateTeam();
+  return useMutation({
+    mutationFn: async ({ id, userId }: { id: number; userId: string }) => {
+      const url = buildUrl(api.teamWatchlists.removeMember.path, { id, userId });
+      await teamRequest(api.teamWatchlists.removeMember.method, url, "Failed to remove member");
+    },
+    onSuccess: invalidate,
+  });
+}
+
+export function useReceivedTeamInvites() {
+  return useQuery({
+    queryKey: [api.teamInvites.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.teamInvites.list.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch invites");
+      return api.teamInvites.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+// The invite behind an emailed link; null once it expired or was used. An
+// invite sent to another email fails with the server's message.
+export function useTeamInvite(token: string | null) {
+  return useQuery({
+    queryKey: [api.teamInvites.get.path, token],
+    queryFn: async () => {
+      const res = await fetch(buildUrl(api.teamInvites.get.path, { token: token! }), { credentials: "include" });
+      if (res.status === 404) return null;
+      if (res.status === 403) {
+        throw new Error(api.teamInvites.get.responses[403].parse(await res.json()).message);
+      }
+      if (!res.ok) throw new Error("Failed to fetch invite");
+      return api.teamInvites.get.responses[200].parse(await res.json());
+    },
+    enabled: !!token,
+  });
+}
+
+export function useRespondToTeamInvite() {
+  const invalidate = useInvalidateTeam();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ token, accept }: { token: string; accept: boolean }) => {
+      const route = accept ? api.teamInvites.accept : api.teamInvites.decline;
+      await teamRequest(route.method, buildUrl(route.path, { token }), "Failed to answer invite");
+    },
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: [api.teamInvites.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.teamInvites.get.path] });
+    },
+  });
+}
@@ -0,0 +1,147 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { api, buildUrl } from "@shared/routes";
+
+type CreateWebhookInput = z.infer<typeof api.webhooks.create.input>;
+type UpdateWebhookInput = z.infer<typeof api.webhooks.update.input>;
+
+export function useWebhooks() {
+  return useQuery({
+    queryKey: [api.webhooks.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.webhooks.list.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch webhooks");
+      return api.webhooks.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useCreateWebhook() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (input: CreateWebhookInput) => {
+      const validated = api.webhooks.create.input.parse(input);
+      const res = await fetch(api.webhooks.create.path, {
+        method: api.webhooks.create.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(validated),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        if (res.status === 400) {
+          const error = api.webhooks.create.responses[400].parse(await res.json());
+          throw new Error(error.message);
+        }
+        if (res.status === 403) {
+          const error = api.webhooks.create.responses[403].parse(await res.json());
+          throw new Error(error.message);
+        }
+        throw new Error("Failed to create webhook");
+      }
+      return api.webhooks.create.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.webhooks.list.path] });
+    },
+  });
+}
+
+export function useUpdateWebhook() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, ...input }: UpdateWebhookInput & { id: number }) => {
+      const validated = api.webhooks.update.input.parse(input);
+      const url = buildUrl(api.webhooks.update.path, { id });
+      const res = await fetch(url, {
+        method: api.webhooks.update.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(validated),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        if (res.status === 400) {
+          const error = api.webhooks.update.responses[400].parse(await res.json());
+          throw new Error(error.message);
+        }
+        throw new Error("Failed to update webhook");
+      }
+      return api.webhooks.update.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.webhooks.list.path] });
+    },
+  });
+}
+
+export function useRotateWebhookSecret() {
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const url = buildUrl(api.webhooks.rotateSecret.path, { id });
+      const res = await fetch(url, {
+        method: api.webhooks.rotateSecret.method,
+        credentials: "include",
+      });
+
+      if (!res.ok) throw new Error("Failed to rotate webhook secret");
+      return api.webhooks.rotateSecret.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useDeleteWebhook() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const url = buildUrl(api.webhooks.remove.path, { id });
+      const res = await fetch(url, {
+        method: api.webhooks.remove.method,
+        credentials: "include",
+      });
+
+      if (!res.ok) throw new Error("Failed to delete webhook");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.webhooks.list.path] });
+    },
+  });
+}
+
+export function useWebhookDeliveries(id: number | null) {
+  const url = id !== null ? buildUrl(api.webhooks.deliveries.path, { id }) : null;
+  return useQuery({
+    queryKey: [url],
+    queryFn: async () => {
+      const res = await fetch(url!, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch webhook deliveries");
+      return api.webhooks.deliveries.responses[200].parse(await res.json());
+    },
+    enabled: url !== null,
+  });
+}
+
+export function useRedeliverWebhook() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (deliveryId: number) => {
+      const url = buildUrl(api.webhooks.redeliver.path, { id: deliveryId });
+      const res = await fetch(url, {
+        method: api.webhooks.redeliver.method,
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        if (res.status === 403) {
+          const error = api.webhooks.redeliver.responses[403].parse(await res.json());
+          throw new Error(error.message);
+        }
+        throw new Error("Failed to redeliver webhook");
+      }
+      return api.webhooks.redeliver.responses[200].parse(await res.json());
+    },
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey: [buildUrl(api.webhooks.deliveries.path, { id: delivery.endpointId })] });
+    },
+  });
+}
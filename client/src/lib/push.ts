@@ -0,0 +1,48 @@
+import { apiRequest } from "./queryClient";
+
+const SERVICE_WORKER_URL = "/sw.js";
+
+export function isPushSupported(): boolean {
+  return "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+}
+
+// VAPID keys are base64url; the Push API wants the raw bytes
+function urlBase64ToUint8Array(base64Url: string): Uint8Array {
+  const base64 = (base64Url + "=".repeat((4 - (base64Url.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+// This browser's current subscription, if notifications were enabled here
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return (await registration?.pushManager.getSubscription()) ?? null;
+}
+
+// Asks for permission, subscribes this browser and registers it with the server
+export async function enablePushNotifications(): Promise<void> {
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") {
+    throw new Error("Notifications are blocked in this browser's site settings");
+  }
+
+  const res = await apiRequest("GET", "/api/alerts/push/key");
+  const { publicKey } = await res.json() as { publicKey: string };
+
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription()
+    ?? await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(publicKey),
+    });
+
+  await apiRequest("POST", "/api/alerts/push/subscribe", subscription.toJSON());
+}
+
+export async function disablePushNotifications(): Promise<void> {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+  await apiRequest("POST", "/api/alerts/push/unsubscribe", { endpoint: subscription.endpoint });
+  await subscription.unsubscribe();
+}
@@ -3,9 +3,15 @@ import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { RefreshCw, Database, Activity, BarChart3, CheckCircle, XCircle, Loader2 } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { RefreshCw, Database, Activity, BarChart3, CheckCircle, XCircle, Loader2, Clock, Users } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { format, formatDistanceStrict } from "date-fns";
+import type { SyncRun } from "@shared/schema";
+import { ScoringProfileEditor } from "@/components/ScoringProfileEditor";
+import { EmailOutbox } from "@/components/EmailOutbox";
+import { UserPlanForm } from "@/components/UserPlanForm";
 
 interface SyncResult {
   success: boolean;
@@ -16,6 +22,34 @@ interface SyncResult {
   error?: string;
 }
 
+interface SubscriptionRefreshResult {
+  success: boolean;
+  checked: number;
+  recorded: number;
+  errors: Array<{ symbol: string; error: string }>;
+}
+
+interface SyncHistory {
+  runs: SyncRun[];
+  schedule: {
+    enabled: boolean;
+    running: boolean;
+    timezone: string;
+    cron: string;
+    subscriptionDayCron: string;
+    subscriptionSnapshotCron: string;
+    subscriptionDay: boolean;
+    nextRunAt: string | null;
+  };
+}
+
+const RUN_STATUS_STYLES: Record<string, string> = {
+  running: "bg-blue-500/10 text-blue-500 border-blue-500/30",
+  success: "bg-green-500/10 text-green-500 border-green-500/30",
+  partial: "bg-yellow-500/10 text-yellow-600 border-yellow-500/30",
+  failed: "bg-red-500/10 text-red-500 border-red-500/30",
+};
+
 interface Stats {
   total: number;
   upcoming: number;
@@ -33,8 +67,21 @@ interface TestResult {
     companyName: string;
     status: string;
   }>;
+  sources: Array<{
+    source: string;
+    success: boolean;
+    count: number;
+    error?: string;
+  }>;
 }
 
+const DATA_SOURCES = [
+  { name: "chittorgarh", title: "Chittorgarh IPO Dashboard", description: "IPO listings, issue size, detail pages for financials, and live GMP" },
+  { name: "nse", title: "NSE Issue Information", description: "Authoritative issue dates, price bands and lot sizes" },
+  { name: "bse", title: "BSE Public Issues", description: "Issue dates and offer prices for mainboard IPOs" },
+  { name: "file", title: "Local File", description: "Offline JSON/CSV fixture set via IPO_SOURCE_FILE; overrides other sources" },
+];
+
 export default function Admin() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -44,6 +91,12 @@ export default function Admin() {
     queryKey: ["/api/admin/stats"],
   });
 
+  const { data: syncHistory, isLoading: historyLoading } = useQuery<SyncHistory>({
+    queryKey: ["/api/admin/sync/runs"],
+    // Poll while a sync is in progress so the history updates when it finishes
+    refetchInterval: (query) => query.state.data?.schedule.running ? 5000 : false,
+  });
+
   const testMutation = useMutation<TestResult>({
     mutationFn: async () => {
       const res = await fetch("/api/admin/sync/test");
@@ -53,7 +106,7 @@ export default function Admin() {
       if (data.success) {
         toast({
           title: "Test Successful",
-          description: `Found ${data.count} IPOs from Chittorgarh`,
+          description: `Found ${data.count} IPOs across ${data.sources.filter(source => source.success).length} data source(s)`,
         });
       } else {
         toast({
@@ -80,8 +133,10 @@ export default function Admin() {
         queryClient.invalidateQueries({ queryKey: ["/api/ipos"] });
         refetchStats();
       }
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/sync/runs"] });
     },
     onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/sync/runs"] });
       toast({
         title: "Sync Failed",
         description: error instanceof Error ? error.message : "Unknown error",
@@ -90,13 +145,34 @@ export default function Admin() {
     },
   });
 
+  const subscriptionMutation = useMutation<SubscriptionRefreshResult>({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/subscriptions/refresh");
+      return res.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Subscriptions Refreshed",
+        description: `${data.recorded} new snapshot(s) across ${data.checked} open IPO(s)${data.errors.length ? `, ${data.errors.length} failed` : ""}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/ipos"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Subscription Refresh Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
   return (
     <div className="min-h-screen bg-background p-6">
       <div className="max-w-4xl mx-auto space-y-6">
         <div>
           <h1 className="text-3xl font-bold text-foreground">Admin Panel</h1>
           <p className="text-muted-foreground mt-1">
-            Manage IPO data and trigger manual syncs
+            Manage IPO data, trigger manual syncs and review sync history
           </p>
         </div>
 
@@ -154,7 +230,7 @@ export default function Admin() {
           <CardHeader>
             <CardTitle>Data Sync</CardTitle>
             <CardDescription>
-              Fetch latest IPO data from Chittorgarh. This will update existing records
+              Fetch latest IPO data from all configured sources. This will update existing records
               and add new IPOs to the database.
             </CardDescription>
           </CardHeader>
@@ -186,6 +262,20 @@ export default function Admin() {
                 )}
                 Sync IPO Data
               </Button>
+
+              <Button
+                variant="outline"
+                onClick={() => subscriptionMutation.mutate()}
+                disabled={subscriptionMutation.isPending}
+                data-testid="button-refresh-subscriptions"
+              >
+                {subscriptionMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Users className="mr-2 h-4 w-4" />
+                )}
+                Refresh Subscriptions
+              </Button>
             </div>
 
             {testMutation.data && (
@@ -236,37 +326,170 @@ export default function Admin() {
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader>
+            <CardTitle>Sync History</CardTitle>
+            <CardDescription>
+              {syncHistory?.schedule.enabled ? (
+                <>
+                  Scheduled with <code>{syncHistory.schedule.cron}</code>, and{" "}
+                  <code>{syncHistory.schedule.subscriptionDayCron}</code> on subscription days, when
+                  category-wise subscription is also recorded at <code>{syncHistory.schedule.subscriptionSnapshotCron}</code> ({syncHistory.schedule.timezone}).
+                </>
+              ) : (
+                "The sync scheduler is disabled; data only refreshes on manual syncs."
+              )}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {syncHistory?.schedule.enabled && (
+              <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                <Clock className="h-4 w-4" />
+                {syncHistory.schedule.running ? (
+                  <span data-testid="text-sync-running">A sync is running now</span>
+                ) : syncHistory.schedule.nextRunAt ? (
+                  <span data-testid="text-next-sync">
+                    Next sync {format(new Date(syncHistory.schedule.nextRunAt), "d MMM, h:mm a")}
+                  </span>
+                ) : null}
+                {syncHistory.schedule.subscriptionDay && (
+                  <Badge variant="outline" className="bg-green-500/10 text-green-500 border-green-500/30">
+                    Subscription day
+                  </Badge>
+                )}
+              </div>
+            )}
+
+            {historyLoading ? (
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            ) : !syncHistory?.runs.length ? (
+              <p className="text-sm text-muted-foreground">No sync runs yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Trigger</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Duration</TableHead>
+                    <TableHead className="text-right">Created</TableHead>
+                    <TableHead className="text-right">Updated</TableHead>
+                    <TableHead>Errors</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {syncHistory.runs.map((run) => (
+                    <TableRow key={run.id} data-testid={`row-sync-run-${run.id}`}>
+                      <TableCell className="whitespace-nowrap">
+                        {run.startedAt ? format(new Date(run.startedAt), "d MMM, h:mm a") : "-"}
+                      </TableCell>
+                      <TableCell className="capitalize">{run.trigger}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={`capitalize ${RUN_STATUS_STYLES[run.status] || ""}`}>
+                          {run.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {run.startedAt && run.finishedAt
+                          ? formatDistanceStrict(new Date(run.finishedAt), new Date(run.startedAt))
+                          : "-"}
+                      </TableCell>
+                      <TableCell className="text-right">{run.created}</TableCell>
+                      <TableCell className="text-right">{run.updated}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {run.message ? (
+                          <span className="text-red-500">{run.message}</span>
+                        ) : run.errors && run.errors.length > 0 ? (
+                          <span title={run.errors.map((e) => `${e.symbol}: ${e.error}`).join("\n")}>
+                            {run.errors.length} IPO(s): {run.errors.slice(0, 3).map((e) => e.symbol).join(", ")}
+                            {run.errors.length > 3 ? "…" : ""}
+                          </span>
+                        ) : (
+                          "None"
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Scoring Profiles</CardTitle>
+            <CardDescription>
+              Thresholds and weights used to score IPOs. Edits are saved as a new version; each IPO
+              records the version its stored score came from.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ScoringProfileEditor />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Email Outbox</CardTitle>
+            <CardDescription>
+              Every alert and digest email with its delivery status. Transient failures are retried
+              automatically with increasing delays.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <EmailOutbox />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>API Plans</CardTitle>
+            <CardDescription>
+              Put a user on a paid API plan. Quotas and features follow the plan straight away; after
+              the paid-until date the user falls back to Free.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <UserPlanForm />
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <CardTitle>Data Sources</CardTitle>
             <CardDescription>
-              Current data providers used for IPO information
+              Data providers used for IPO information. Run Test Connection to check each configured source.
             </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
-              <div className="flex items-center justify-between p-3 rounded-lg border">
-                <div>
-                  <p className="font-medium">Chittorgarh IPO Dashboard</p>
-                  <p className="text-sm text-muted-foreground">
-                    Main source for IPO listings, dates, and basic info
-                  </p>
-                </div>
-                <Badge variant="outline" className="bg-green-500/10 text-green-500 border-green-500/30">
-                  Active
-                </Badge>
-              </div>
-              <div className="flex items-center justify-between p-3 rounded-lg border">
-                <div>
-                  <p className="font-medium">Grey Market Premium (GMP)</p>
-                  <p className="text-sm text-muted-foreground">
-                    Live GMP data from Chittorgarh GMP page
-                  </p>
-                </div>
-                <Badge variant="outline" className="bg-green-500/10 text-green-500 border-green-500/30">
-                  Active
-                </Badge>
-              </div>
+              {DATA_SOURCES.map((dataSource) => {
+                const result = testMutation.data?.sources?.find((source) => source.source === dataSource.name);
+                return (
+                  <div key={dataSource.name} className="flex items-center justify-between p-3 rounded-lg border">
+                    <div>
+                      <p className="font-medium">{dataSource.title}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {result?.error || dataSource.description}
+                      </p>
+                    </div>
+                    {!result ? (
+                      <Badge variant="outline" data-testid={`badge-source-${dataSource.name}`}>
+                        Not tested
+                      </Badge>
+                    ) : result.success ? (
+                      <Badge variant="outline" className="bg-green-500/10 text-green-500 border-green-500/30" data-testid={`badge-source-${dataSource.name}`}>
+                        {result.count} IPOs
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" className="bg-red-500/10 text-red-500 border-red-500/30" data-testid={`badge-source-${dataSource.name}`}>
+                        Failed
+                      </Badge>
+                    )}
+                  </div>
+                );
+              })}
             </div>
           </CardContent>
         </Card>
@@ -1,20 +1,37 @@
+import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/use-auth";
-import { Check, ChevronDown } from "lucide-react";
+import { useApiUsage } from "@/hooks/use-api-keys";
+import { Check, ChevronDown, ChevronUp, Loader2 } from "lucide-react";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { getPlan, describePlanFeatures } from "@shared/plans";
+
+function UsageBar({ used, limit }: { used: number; limit: number | null }) {
+  const percentage = limit ? Math.min(100, (used / limit) * 100) : 0;
+  return (
+    <div className="h-2 bg-muted rounded-full mb-2">
+      <div className="h-2 bg-foreground rounded-full" style={{ width: `${percentage}%` }}></div>
+    </div>
+  );
+}
 
 export default function ApiDashboard() {
   const { user } = useAuth();
-  
-  const planFeatures = [
-    "1 API Key",
-    "Up to 750 requests per month",
-    "Request cap at 25 requests per day",
-    "Basic usage analytics",
-    "Basic query params (only currently open ipos)",
-    "Max Limit: 1 IPO / request",
-    "Community support"
-  ];
+  const { data: usage, isLoading } = useApiUsage();
+  const [showFeatures, setShowFeatures] = useState(false);
+
+  const plan = getPlan(usage?.planId);
+  const planFeatures = describePlanFeatures(plan);
+
+  // Show the window that limits the plan: daily for capped plans, monthly otherwise
+  const quota = usage ? (usage.daily.limit !== null ? usage.daily : usage.monthly) : null;
+  const quotaPeriod = usage?.daily.limit !== null ? "daily" : "monthly";
+  const keysRemaining = usage && usage.apiKeys.limit !== null
+    ? Math.max(0, usage.apiKeys.limit - usage.apiKeys.active)
+    : null;
 
   return (
     <div className="space-y-8">
@@ -26,17 +43,35 @@ export default function ApiDashboard() {
       <div className="grid md:grid-cols-3 gap-6">
         <Card>
           <CardHeader className="pb-2">
-            <CardTitle className="text-base font-medium">Free</CardTitle>
+            <CardTitle className="text-base font-medium">{plan.name}</CardTitle>
           </CardHeader>
           <CardContent>
-            <p className="text-sm text-muted-foreground mb-4">Start for free. No credit card required.</p>
-            <div className="flex items-center justify-between mb-4">
+            <p className="text-sm text-muted-foreground mb-4">{plan.description}</p>
+            <button
+              className="flex w-full items-center justify-between mb-4"
+              onClick={() => setShowFeatures(!showFeatures)}
+              data-testid="button-toggle-plan-features"
+            >
               <span className="text-sm font-medium">Plan Features</span>
-              <ChevronDown className="w-4 h-4 text-muted-foreground" />
-            </div>
-            <Button className="w-full bg-foreground text-background hover:bg-foreground/90">
-              Upgrade Plan
-            </Button>
+              {showFeatures
+                ? <ChevronUp className="w-4 h-4 text-muted-foreground" />
+                : <ChevronDown className="w-4 h-4 text-muted-foreground" />}
+            </button>
+            {showFeatures && (
+              <ul className="space-y-1.5 text-sm mb-4">
+                {planFeatures.map((feature) => (
+                  <li key={feature} className="flex items-center gap-2">
+                    <Check className="w-4 h-4 text-green-600" />
+                    {feature}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <Link href="/billing">
+              <Button className="w-full bg-foreground text-background hover:bg-foreground/90">
+                Upgrade Plan
+              </Button>
+            </Link>
           </CardContent>
         </Card>
 
@@ -45,11 +80,24 @@ export default function ApiDashboard() {
             <CardTitle className="text-base font-medium">API Keys</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="h-2 bg-foreground rounded-full mb-2"></div>
-            <p className="text-2xl font-bold mb-1">1 / 1</p>
-            <p className="text-xs text-muted-foreground">
-              You've created 1 API Key(s) and have <span className="text-primary font-medium">0</span> remaining based on your current plan.
-            </p>
+            {isLoading || !usage ? (
+              <Loader2 className="w-5 h-5 animate-spin text-primary" />
+            ) : (
+              <>
+                <UsageBar used={usage.apiKeys.active} limit={usage.apiKeys.limit} />
+                <p className="text-2xl font-bold mb-1" data-testid="text-api-keys-used">
+                  {usage.apiKeys.active} / {usage.apiKeys.limit ?? "∞"}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  You've created {usage.apiKeys.active} API Key(s)
+                  {keysRemaining !== null ? (
+                    <> and have <span className="text-primary font-medium">{keysRemaining}</span> remaining based on your current plan.</>
+                  ) : (
+                    <>. Your plan allows unlimited keys.</>
+                  )}
+                </p>
+              </>
+            )}
           </CardContent>
         </Card>
 
@@ -58,16 +106,20 @@ export default function ApiDashboard() {
             <CardTitle className="text-base font-medium">API Usage</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="h-2 bg-muted rounded-full mb-2">
-              <div className="h-2 bg-foreground rounded-full w-0"></div>
-            </div>
-            <div className="flex justify-between items-baseline mb-1">
-              <p className="text-2xl font-bold">0 / 25</p>
-              <p className="text-xs text-muted-foreground">Renews on 23/1/2026</p>
-            </div>
-            <p className="text-xs text-muted-foreground">
-              You've used <span className="text-primary font-medium">0</span> requests. You have a <strong>daily</strong> quota of <span className="text-primary font-medium">25</span> requests based on your current plan.
-            </p>
+            {isLoading || !quota ? (
+              <Loader2 className="w-5 h-5 animate-spin text-primary" />
+            ) : (
+              <>
+                <UsageBar used={quota.used} limit={quota.limit} />
+                <div className="flex justify-between items-baseline mb-1">
+                  <p className="text-2xl font-bold" data-testid="text-api-usage">{quota.used} / {quota.limit}</p>
+                  <p className="text-xs text-muted-foreground">Renews on {format(new Date(quota.resetsAt), "d/M/yyyy")}</p>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  You've used <span className="text-primary font-medium">{quota.used}</span> requests. You have a <strong>{quotaPeriod}</strong> quota of <span className="text-primary font-medium">{quota.limit}</span> requests based on your current plan.
+                </p>
+              </>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -77,9 +129,53 @@ export default function ApiDashboard() {
           <CardTitle className="text-base font-medium">Usage Trend</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="h-48 flex items-center justify-center text-muted-foreground">
-            Upgrade to a paid plan to see your usage trend over time.
-          </div>
+          {plan.advancedAnalytics && usage && usage.trend.length > 0 ? (
+            <div className="h-48">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={usage.trend} margin={{ top: 5, right: 5, left: -20, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" vertical={false} />
+                  <XAxis
+                    dataKey="date"
+                    tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
+                    tickFormatter={(value) => format(new Date(value), "MMM dd")}
+                  />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "8px",
+                      fontSize: "12px"
+                    }}
+                    formatter={(value: number) => [value, "Requests"]}
+                  />
+                  <Bar dataKey="count" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          ) : (
+            <div className="h-48 flex items-center justify-center text-muted-foreground">
+              {plan.advancedAnalytics
+                ? "No API requests in the last 30 days."
+                : "Upgrade to a paid plan to see your usage trend over time."}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base font-medium">Webhooks</CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            {plan.webhooks
+              ? "Receive signed events when IPOs are added, change status, move in GMP, update subscription or list, and review every delivery."
+              : "Upgrade to a paid plan to receive IPO data changes as signed webhook events instead of polling."}
+          </p>
+          <Link href="/webhooks">
+            <Button variant="outline" data-testid="button-manage-webhooks">Manage Webhooks</Button>
+          </Link>
         </CardContent>
       </Card>
     </div>
@@ -1,50 +1,72 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { useState } from "react";
-import { Plus, Eye, EyeOff, Copy, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { Plus, Copy, Trash2, RefreshCw, Loader2, KeyRound } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-
-interface ApiKey {
-  id: string;
-  identifier: string;
-  key: string;
-  createdAt: string;
-  lastUsed: string | null;
-  status: "active" | "revoked";
-}
+import { useApiKeys, useCreateApiKey, useRotateApiKey, useRevokeApiKey } from "@/hooks/use-api-keys";
 
 export default function ApiKeys() {
   const { toast } = useToast();
-  const [keys, setKeys] = useState<ApiKey[]>([
-    {
-      id: "1",
-      identifier: "IPO-ANALYSIS-APP",
-      key: "410f9xxxxxxxxxxxx",
-      createdAt: "January 22nd, 2026",
-      lastUsed: null,
-      status: "active"
-    }
-  ]);
-  const [visibleKeys, setVisibleKeys] = useState<Set<string>>(new Set());
+  const { data: keys, isLoading } = useApiKeys();
+  const createKey = useCreateApiKey();
+  const rotateKey = useRotateApiKey();
+  const revokeKey = useRevokeApiKey();
 
-  const toggleKeyVisibility = (id: string) => {
-    const newVisible = new Set(visibleKeys);
-    if (newVisible.has(id)) {
-      newVisible.delete(id);
-    } else {
-      newVisible.add(id);
-    }
-    setVisibleKeys(newVisible);
-  };
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [identifier, setIdentifier] = useState("");
+  // Plaintext key from the last create/rotate - the server never returns it again
+  const [revealedKey, setRevealedKey] = useState<string | null>(null);
 
   const copyKey = (key: string) => {
     navigator.clipboard.writeText(key);
     toast({ title: "API key copied to clipboard" });
   };
 
-  const maskKey = (key: string) => {
-    return key.slice(0, 5) + "••••••••••••";
+  const maskKey = (prefix: string) => {
+    return prefix + "••••••••••••";
+  };
+
+  const handleCreate = () => {
+    createKey.mutate(identifier, {
+      onSuccess: (created) => {
+        setIsCreateOpen(false);
+        setIdentifier("");
+        setRevealedKey(created.key);
+      },
+      onError: (err) => {
+        toast({ title: "Error", description: err.message, variant: "destructive" });
+      },
+    });
+  };
+
+  const handleRotate = (id: number) => {
+    rotateKey.mutate(id, {
+      onSuccess: (rotated) => setRevealedKey(rotated.key),
+      onError: (err) => {
+        toast({ title: "Error", description: err.message, variant: "destructive" });
+      },
+    });
+  };
+
+  const handleRevoke = (id: number, name: string) => {
+    revokeKey.mutate(id, {
+      onSuccess: () => toast({ title: "API key revoked", description: `${name} can no longer be used.` }),
+      onError: (err) => {
+        toast({ title: "Error", description: err.message, variant: "destructive" });
+      },
+    });
   };
 
   return (
@@ -57,68 +79,153 @@ export default function ApiKeys() {
       <Card className="bg-[#f8faf9]">
         <CardContent className="pt-6">
           <div className="mb-6">
-            <Button className="gap-2 bg-foreground text-background hover:bg-foreground/90">
+            <Button
+              className="gap-2 bg-foreground text-background hover:bg-foreground/90"
+              onClick={() => setIsCreateOpen(true)}
+              data-testid="button-create-key"
+            >
               <Plus className="w-4 h-4" />
               Create API Key
             </Button>
           </div>
 
-          <div className="overflow-x-auto">
-            <table className="w-full">
-              <thead>
-                <tr className="text-left text-sm text-muted-foreground border-b">
-                  <th className="pb-3 font-medium">Identifier</th>
-                  <th className="pb-3 font-medium">API Key</th>
-                  <th className="pb-3 font-medium">Created At</th>
-                  <th className="pb-3 font-medium">Last Used</th>
-                  <th className="pb-3 font-medium">Status</th>
-                  <th className="pb-3 font-medium">Actions</th>
-                </tr>
-              </thead>
-              <tbody>
-                {keys.map((apiKey) => (
-                  <tr key={apiKey.id} className="border-b last:border-b-0">
-                    <td className="py-4 font-medium text-sm">{apiKey.identifier}</td>
-                    <td className="py-4">
-                      <div className="flex items-center gap-2">
-                        <code className="text-sm font-mono">
-                          {visibleKeys.has(apiKey.id) ? apiKey.key : maskKey(apiKey.key)}
-                        </code>
-                        <button
-                          onClick={() => toggleKeyVisibility(apiKey.id)}
-                          className="text-muted-foreground hover:text-foreground"
-                          data-testid="button-toggle-key-visibility"
-                        >
-                          {visibleKeys.has(apiKey.id) ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                        </button>
-                        <button
-                          onClick={() => copyKey(apiKey.key)}
-                          className="text-muted-foreground hover:text-foreground"
-                          data-testid="button-copy-key"
-                        >
-                          <Copy className="w-4 h-4" />
-                        </button>
-                      </div>
-                    </td>
-                    <td className="py-4 text-sm text-muted-foreground">{apiKey.createdAt}</td>
-                    <td className="py-4 text-sm text-muted-foreground">{apiKey.lastUsed || "Never"}</td>
-                    <td className="py-4">
-                      <Badge variant="outline" className="bg-green-50 text-green-600 border-green-200">
-                        Active
-                      </Badge>
-                    </td>
-                    <td className="py-4">
-                      <button className="text-red-500 hover:text-red-600" data-testid="button-delete-key">
-                        <Trash2 className="w-4 h-4" />
-                      </button>
-                    </td>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : keys?.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+              <KeyRound className="w-12 h-12 mb-4 opacity-50" />
+              <p className="font-medium">No API keys yet</p>
+              <p className="text-sm">Create a key and send it in the <code>X-API-Key</code> header.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="text-left text-sm text-muted-foreground border-b">
+                    <th className="pb-3 font-medium">Identifier</th>
+                    <th className="pb-3 font-medium">API Key</th>
+                    <th className="pb-3 font-medium">Created At</th>
+                    <th className="pb-3 font-medium">Last Used</th>
+                    <th className="pb-3 font-medium">Status</th>
+                    <th className="pb-3 font-medium">Actions</th>
                   </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
+                </thead>
+                <tbody>
+                  {keys?.map((apiKey) => {
+                    const isActive = apiKey.status === "active";
+                    return (
+                      <tr key={apiKey.id} className="border-b last:border-b-0">
+                        <td className="py-4 font-medium text-sm">{apiKey.identifier}</td>
+                        <td className="py-4">
+                          <code className="text-sm font-mono">{maskKey(apiKey.keyPrefix)}</code>
+                        </td>
+                        <td className="py-4 text-sm text-muted-foreground">
+                          {apiKey.createdAt ? format(new Date(apiKey.createdAt), "MMMM do, yyyy") : "-"}
+                        </td>
+                        <td className="py-4 text-sm text-muted-foreground">
+                          {apiKey.lastUsedAt ? format(new Date(apiKey.lastUsedAt), "MMM d, yyyy h:mm a") : "Never"}
+                        </td>
+                        <td className="py-4">
+                          {isActive ? (
+                            <Badge variant="outline" className="bg-green-50 text-green-600 border-green-200">
+                              Active
+                            </Badge>
+                          ) : (
+                            <Badge variant="outline" className="bg-gray-50 text-gray-600 border-gray-200">
+                              Revoked
+                            </Badge>
+                          )}
+                        </td>
+                        <td className="py-4">
+                          {isActive && (
+                            <div className="flex items-center gap-3">
+                              <button
+                                onClick={() => handleRotate(apiKey.id)}
+                                disabled={rotateKey.isPending}
+                                className="text-muted-foreground hover:text-foreground"
+                                title="Rotate key"
+                                data-testid={`button-rotate-key-${apiKey.id}`}
+                              >
+                                <RefreshCw className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => handleRevoke(apiKey.id, apiKey.identifier)}
+                                disabled={revokeKey.isPending}
+                                className="text-red-500 hover:text-red-600"
+                                title="Revoke key"
+                                data-testid={`button-delete-key-${apiKey.id}`}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
         </CardContent>
       </Card>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create API Key</DialogTitle>
+            <DialogDescription>Give the key a name so you can recognise where it is used.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="key-identifier">Identifier</Label>
+            <Input
+              id="key-identifier"
+              placeholder="IPO-ANALYSIS-APP"
+              value={identifier}
+              onChange={(e) => setIdentifier(e.target.value)}
+              data-testid="input-key-identifier"
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={handleCreate}
+              disabled={createKey.isPending || !identifier.trim()}
+              className="bg-foreground text-background hover:bg-foreground/90"
+              data-testid="button-confirm-create-key"
+            >
+              {createKey.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={revealedKey !== null} onOpenChange={(open) => !open && setRevealedKey(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Copy your API key</DialogTitle>
+            <DialogDescription>
+              This is the only time the full key will be shown. Store it somewhere safe.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-muted">
+            <code className="text-sm font-mono break-all flex-1" data-testid="text-revealed-key">{revealedKey}</code>
+            <button
+              onClick={() => revealedKey && copyKey(revealedKey)}
+              className="text-muted-foreground hover:text-foreground"
+              data-testid="button-copy-key"
+            >
+              <Copy className="w-4 h-4" />
+            </button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setRevealedKey(null)} data-testid="button-close-revealed-key">
+              Done
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -1,53 +1,14 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Check, CreditCard } from "lucide-react";
-
-const plans = [
-  {
-    name: "Pro 1000 (Monthly)",
-    price: 499,
-    description: "Ideal for mobile and web applications with growing user base.",
-    features: [
-      "Up to 1000 requests / month (Rs 0.50 / request)",
-      "Unlimited API Keys",
-      "No daily request cap",
-      "Advanced usage analytics",
-      "Advanced query params",
-      "Max Limit: 3 IPOs / request",
-      "Community Support"
-    ]
-  },
-  {
-    name: "Pro 2500 (Monthly)",
-    price: 999,
-    description: "Ideal for mobile and web applications with growing user base.",
-    features: [
-      "Up to 2500 requests / month (Rs 0.40 / request)",
-      "Unlimited API Keys",
-      "No daily request cap",
-      "Advanced usage analytics",
-      "Advanced query params",
-      "Max Limit: 3 IPOs / request",
-      "Community Support"
-    ]
-  },
-  {
-    name: "Pro 5000 (Monthly)",
-    price: 1499,
-    description: "Ideal for mobile and web applications with growing user base.",
-    features: [
-      "Up to 5000 requests / month (Rs 0.30 / request)",
-      "Unlimited API Keys",
-      "No daily request cap",
-      "Advanced usage analytics",
-      "Advanced query params",
-      "Max Limit: 3 IPOs / request",
-      "Community Support"
-    ]
-  }
-];
+import { plans, paidPlans, describePlanFeatures } from "@shared/plans";
+import { useApiUsage } from "@/hooks/use-api-keys";
 
 export default function Billing() {
+  const { data: usage } = useApiUsage();
+  const freePlan = plans.free;
+
   return (
     <div className="space-y-8">
       <div>
@@ -57,41 +18,24 @@ export default function Billing() {
 
       <Card>
         <CardHeader>
-          <CardTitle className="text-lg font-semibold">Free</CardTitle>
+          <CardTitle className="text-lg font-semibold flex items-center gap-2">
+            {freePlan.name}
+            {usage?.planId === freePlan.id && (
+              <Badge variant="outline" className="bg-green-50 text-green-600 border-green-200">Current plan</Badge>
+            )}
+          </CardTitle>
         </CardHeader>
         <CardContent>
-          <p className="text-sm text-muted-foreground mb-4">Start for free. No credit card required.</p>
+          <p className="text-sm text-muted-foreground mb-4">{freePlan.description}</p>
           <div className="space-y-2 mb-4">
             <p className="font-medium">Plan Features</p>
             <ul className="space-y-1.5 text-sm">
-              <li className="flex items-center gap-2">
-                <Check className="w-4 h-4 text-green-600" />
-                1 API Key
-              </li>
-              <li className="flex items-center gap-2">
-                <Check className="w-4 h-4 text-green-600" />
-                Up to 750 requests per month
-              </li>
-              <li className="flex items-center gap-2">
-                <Check className="w-4 h-4 text-green-600" />
-                Request cap at 25 requests per day
-              </li>
-              <li className="flex items-center gap-2">
-                <Check className="w-4 h-4 text-green-600" />
-                Basic usage analytics
-              </li>
-              <li className="flex items-center gap-2">
-                <Check className="w-4 h-4 text-green-600" />
-                Basic query params (only currently open ipos)
-              </li>
-              <li className="flex items-center gap-2">
-                <Check className="w-4 h-4 text-green-600" />
-                Max Limit: 1 IPO / request
-              </li>
-              <li className="flex items-center gap-2">
-                <Check className="w-4 h-4 text-green-600" />
-                Community support
-              </li>
+              {describePlanFeatures(freePlan).map((feature) => (
+                <li key={feature} className="flex items-center gap-2">
+                  <Check className="w-4 h-4 text-green-600" />
+                  {feature}
+                </li>
+              ))}
             </ul>
           </div>
         </CardContent>
@@ -108,8 +52,8 @@ export default function Billing() {
         </CardHeader>
         <CardContent>
           <div className="grid md:grid-cols-3 gap-6">
-            {plans.map((plan, idx) => (
-              <Card key={idx} className="border-border">
+            {paidPlans.map((plan) => (
+              <Card key={plan.id} className={usage?.planId === plan.id ? "border-primary" : "border-border"}>
                 <CardContent className="pt-6">
                   <div className="flex items-baseline justify-between mb-2">
                     <h3 className="font-semibold">{plan.name}</h3>
@@ -120,15 +64,18 @@ export default function Billing() {
                   </div>
                   <p className="text-sm text-muted-foreground mb-4">{plan.description}</p>
                   <ul className="space-y-2 text-sm mb-6">
-                    {plan.features.map((feature, i) => (
+                    {describePlanFeatures(plan).map((feature, i) => (
                       <li key={i} className="flex items-start gap-2">
                         <Check className="w-4 h-4 text-green-600 mt-0.5 shrink-0" />
                         <span>{feature}</span>
                       </li>
                     ))}
                   </ul>
-                  <Button className="w-full bg-foreground text-background hover:bg-foreground/90">
-                    Upgrade to {plan.name.split(' ')[0]} {plan.name.split(' ')[1]}
+                  <Button
+                    className="w-full bg-foreground text-background hover:bg-foreground/90"
+                    disabled={usage?.planId === plan.id}
+                  >
+                    {usage?.planId === plan.id ? "Current plan" : `Upgrade to ${plan.name.split(' ')[0]} ${plan.name.split(' ')[1]}`}
                   </Button>
                 </CardContent>
               </Card>
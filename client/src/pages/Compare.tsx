@@ -0,0 +1,350 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import {
+  RadarChart,
+  PolarGrid,
+  PolarAngleAxis,
+  PolarRadiusAxis,
+  Radar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCompareList, useIpoComparison } from "@/hooks/use-compare";
+import { useIpos } from "@/hooks/use-ipos";
+import { Loader2, GitCompareArrows, X } from "lucide-react";
+import type { IpoComparison } from "@shared/schema";
+import { MAX_COMPARE_IPOS } from "@shared/routes";
+
+const COLORS = ["hsl(var(--primary))", "#f59e0b", "#0ea5e9", "#a855f7"];
+
+interface MetricRow {
+  label: string;
+  value: (comparison: IpoComparison) => number | null;
+  better?: "higher" | "lower"; // Which end is highlighted; unset rows are informational
+  suffix?: string;
+}
+
+interface MetricSection {
+  title: string;
+  rows: MetricRow[];
+}
+
+function gmpChange(comparison: IpoComparison): number | null {
+  const history = comparison.gmpHistory;
+  if (history.length < 2) return null;
+  const sorted = [...history].sort((a, b) => new Date(a.recordedAt!).getTime() - new Date(b.recordedAt!).getTime());
+  return sorted[sorted.length - 1].gmp - sorted[0].gmp;
+}
+
+const SECTIONS: MetricSection[] = [
+  {
+    title: "Scores",
+    rows: [
+      { label: "Overall", value: c => c.ipo.overallScore, better: "higher" },
+      { label: "Fundamentals", value: c => c.ipo.fundamentalsScore, better: "higher" },
+      { label: "Valuation", value: c => c.ipo.valuationScore, better: "higher" },
+      { label: "Governance", value: c => c.ipo.governanceScore, better: "higher" },
+    ],
+  },
+  {
+    title: "Financials",
+    rows: [
+      { label: "Revenue growth (3Y CAGR)", value: c => c.ipo.revenueGrowth, better: "higher", suffix: "%" },
+      { label: "EBITDA margin", value: c => c.ipo.ebitdaMargin, better: "higher", suffix: "%" },
+      { label: "PAT margin", value: c => c.ipo.patMargin, better: "higher", suffix: "%" },
+      { label: "ROE", value: c => c.ipo.roe, better: "higher", suffix: "%" },
+      { label: "ROCE", value: c => c.ipo.roce, better: "higher", suffix: "%" },
+      { label: "Debt/Equity", value: c => c.ipo.debtToEquity, better: "lower" },
+    ],
+  },
+  {
+    title: "Valuation",
+    rows: [
+      { label: "P/E ratio", value: c => c.ipo.peRatio, better: "lower" },
+      { label: "Sector median P/E", value: c => c.ipo.sectorPeMedian },
+      { label: "P/E premium to sector", value: c => c.values.peVsSectorMedian as number | null, better: "lower", suffix: "%" },
+      { label: "P/B ratio", value: c => c.ipo.pbRatio, better: "lower" },
+      { label: "Issue size (₹ Cr)", value: c => c.values.issueSizeCr as number | null },
+    ],
+  },
+  {
+    title: "Governance",
+    rows: [
+      { label: "Pre-IPO promoter holding", value: c => c.ipo.promoterHolding, suffix: "%" },
+      { label: "Post-IPO promoter holding", value: c => c.ipo.postIpoPromoterHolding, better: "higher", suffix: "%" },
+      { label: "Fresh issue", value: c => c.ipo.freshIssue === null ? null : c.ipo.freshIssue * 100, better: "higher", suffix: "%" },
+      { label: "OFS ratio", value: c => c.ipo.ofsRatio, better: "lower" },
+      { label: "Red flags", value: c => c.ipo.redFlags?.length ?? 0, better: "lower" },
+    ],
+  },
+  {
+    title: "Grey Market",
+    rows: [
+      { label: "GMP (₹)", value: c => c.ipo.gmp, better: "higher" },
+      { label: "GMP % of issue price", value: c => c.values.gmpPercentage as number | null, better: "higher", suffix: "%" },
+      { label: "GMP change, 7 days (₹)", value: gmpChange, better: "higher" },
+    ],
+  },
+  {
+    title: "Subscription",
+    rows: [
+      { label: "QIB", value: c => c.subscription?.qibSubscription ?? c.ipo.subscriptionQib, better: "higher", suffix: "x" },
+      { label: "NII / HNI", value: c => c.subscription?.niiSubscription ?? c.ipo.subscriptionHni, better: "higher", suffix: "x" },
+      { label: "Retail", value: c => c.subscription?.retailSubscription ?? c.ipo.subscriptionRetail, better: "higher", suffix: "x" },
+      { label: "Total", value: c => c.subscription?.totalSubscription ?? null, better: "higher", suffix: "x" },
+    ],
+  },
+];
+
+function normalizeValue(value: number | null, min: number, max: number): number {
+  if (value === null) return 0;
+  const normalized = ((value - min) / (max - min)) * 100;
+  return Math.max(0, Math.min(100, normalized));
+}
+
+// Same scales as the peer comparison radar, plus governance and GMP
+const RADAR_AXES: Array<{ metric: string; value: (c: IpoComparison) => number }> = [
+  { metric: "Revenue Growth", value: c => normalizeValue(c.ipo.revenueGrowth, -20, 80) },
+  { metric: "EBITDA Margin", value: c => normalizeValue(c.ipo.ebitdaMargin, -30, 40) },
+  { metric: "ROE", value: c => normalizeValue(c.ipo.roe, -20, 50) },
+  { metric: "ROCE", value: c => normalizeValue(c.ipo.roce, -20, 50) },
+  { metric: "P/E Ratio", value: c => normalizeValue(100 - (c.ipo.peRatio || 50), 0, 100) },
+  { metric: "Governance", value: c => normalizeValue(c.ipo.governanceScore, 0, 10) },
+  { metric: "GMP %", value: c => normalizeValue(c.values.gmpPercentage as number | null, 0, 100) },
+];
+
+// Index of the best value in a row, when at least two IPOs have one
+function bestIndex(values: Array<number | null>, better?: "higher" | "lower"): number | null {
+  if (!better) return null;
+  let best: number | null = null;
+  let count = 0;
+  values.forEach((value, index) => {
+    if (value === null) return;
+    count++;
+    if (best === null || (better === "higher" ? value > values[best]! : value < values[best]!)) best = index;
+  });
+  return count >= 2 ? best : null;
+}
+
+function formatMetric(value: number | null, suffix = ""): string {
+  if (value === null) return "-";
+  return `${value.toLocaleString("en-IN", { maximumFractionDigits: 2 })}${suffix}`;
+}
+
+export default function Compare() {
+  const compare = useCompareList();
+  const { data: allIpos } = useIpos();
+
+  // A shared /compare?ids=… link replaces the current selection
+  const [fromUrl] = useState(() => new URLSearchParams(window.location.search).get("ids"));
+  useEffect(() => {
+    if (!fromUrl) return;
+    const ids = fromUrl.split(",").map(Number).filter(id => Number.isInteger(id) && id > 0);
+    if (ids.length > 0) compare.set(ids);
+  }, [fromUrl]);
+
+  useEffect(() => {
+    window.history.replaceState(null, "", compare.ids.length > 0 ? `/compare?ids=${compare.ids.join(",")}` : "/compare");
+  }, [compare.ids]);
+
+  const { data: comparisons, isLoading, error } = useIpoComparison(compare.ids);
+  const columns = comparisons ?? [];
+  const candidates = (allIpos ?? []).filter(ipo => !compare.has(ipo.id));
+
+  const radarData = RADAR_AXES.map(axis => ({
+    metric: axis.metric,
+    ...Object.fromEntries(columns.map(c => [c.ipo.symbol, axis.value(c)])),
+  }));
+
+  // One point per day, with each IPO's GMP that day
+  const trendByDay = new Map<string, { time: number; date: string } & Record<string, number | string>>();
+  for (const c of columns) {
+    for (const entry of c.gmpHistory) {
+      const recordedAt = new Date(entry.recordedAt!);
+      const key = format(recordedAt, "yyyy-MM-dd");
+      const point = trendByDay.get(key) ?? { time: recordedAt.getTime(), date: format(recordedAt, "MMM dd") };
+      point[c.ipo.symbol] = entry.gmp;
+      trendByDay.set(key, point);
+    }
+  }
+  const trendData = Array.from(trendByDay.values()).sort((a, b) => a.time - b.time);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Compare IPOs</h1>
+          <p className="text-muted-foreground">Put up to {MAX_COMPARE_IPOS} IPOs side by side; the best value in each row is highlighted</p>
+        </div>
+        {!compare.isFull && (
+          <Select value="" onValueChange={(value) => compare.toggle(Number(value))}>
+            <SelectTrigger className="w-64 bg-background" data-testid="select-compare-add">
+              <SelectValue placeholder="Add an IPO…" />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map(ipo => (
+                <SelectItem key={ipo.id} value={String(ipo.id)}>{ipo.companyName} ({ipo.status})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {compare.ids.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-16 text-muted-foreground text-center">
+            <GitCompareArrows className="w-12 h-12 mb-4 opacity-50" />
+            <p className="font-medium">Nothing to compare yet</p>
+            <p className="text-sm">
+              Use the compare button on IPO cards in the <Link href="/dashboard" className="underline">Dashboard</Link>, or add IPOs above.
+            </p>
+          </CardContent>
+        </Card>
+      ) : isLoading ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error.message}</p>
+      ) : (
+        <>
+          <Card>
+            <CardContent className="pt-6 overflow-x-auto">
+              <table className="w-full text-sm" data-testid="table-compare">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left py-3 pr-4 font-medium text-muted-foreground w-56">Metric</th>
+                    {columns.map((c, index) => (
+                      <th key={c.ipo.id} className="text-right py-3 px-3 font-semibold align-top">
+                        <div className="flex items-start justify-end gap-2">
+                          <div>
+                            <Link href={`/ipos/${c.ipo.id}`} className="hover:underline" style={{ color: COLORS[index] }}>
+                              {c.ipo.symbol}
+                            </Link>
+                            <p className="text-xs font-normal text-muted-foreground">{c.ipo.companyName}</p>
+                            <Badge variant="outline" className="mt-1 text-xs capitalize">{c.ipo.status}</Badge>
+                          </div>
+                          <button
+                            onClick={() => compare.toggle(c.ipo.id)}
+                            className="text-muted-foreground hover:text-foreground"
+                            title="Remove from comparison"
+                            data-testid={`button-compare-remove-${c.ipo.id}`}
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                {SECTIONS.map(section => (
+                  <tbody key={section.title}>
+                    <tr>
+                      <td colSpan={columns.length + 1} className="pt-5 pb-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                        {section.title}
+                      </td>
+                    </tr>
+                    {section.rows.map(row => {
+                      const values = columns.map(row.value);
+                      const best = bestIndex(values, row.better);
+                      return (
+                        <tr key={row.label} className="border-b border-border last:border-b-0">
+                          <td className="py-2 pr-4 text-muted-foreground">{row.label}</td>
+                          {values.map((value, index) => (
+                            <td
+                              key={columns[index].ipo.id}
+                              className={`py-2 px-3 text-right tabular-nums ${index === best ? "font-semibold text-green-700 bg-green-50" : "text-foreground"}`}
+                              data-testid={index === best ? `cell-best-${row.label}` : undefined}
+                            >
+                              {formatMetric(value, row.suffix)}
+                            </td>
+                          ))}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                ))}
+              </table>
+            </CardContent>
+          </Card>
+
+          <div className="grid lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base font-medium">Profile Overlay</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="h-72">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <RadarChart data={radarData}>
+                      <PolarGrid stroke="hsl(var(--border))" />
+                      <PolarAngleAxis dataKey="metric" tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }} />
+                      <PolarRadiusAxis angle={30} domain={[0, 100]} tick={{ fontSize: 10, fill: "hsl(var(--muted-foreground))" }} />
+                      {columns.map((c, index) => (
+                        <Radar
+                          key={c.ipo.id}
+                          name={c.ipo.symbol}
+                          dataKey={c.ipo.symbol}
+                          stroke={COLORS[index]}
+                          fill={COLORS[index]}
+                          fillOpacity={0.15}
+                        />
+                      ))}
+                      <Legend />
+                    </RadarChart>
+                  </ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base font-medium">GMP Trend (7 days)</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {trendData.length < 2 ? (
+                  <div className="h-72 flex items-center justify-center text-sm text-muted-foreground">
+                    Not enough GMP history yet.
+                  </div>
+                ) : (
+                  <div className="h-72">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={trendData}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                        <XAxis dataKey="date" tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }} />
+                        <YAxis tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }} />
+                        <Tooltip formatter={(value: number) => [`₹${value}`, "GMP"]} />
+                        <Legend />
+                        {columns.map((c, index) => (
+                          <Line
+                            key={c.ipo.id}
+                            type="monotone"
+                            dataKey={c.ipo.symbol}
+                            stroke={COLORS[index]}
+                            strokeWidth={2}
+                            dot={false}
+                            connectNulls
+                          />
+                        ))}
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
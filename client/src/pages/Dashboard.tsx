@@ -1,6 +1,7 @@
-import { useState } from "react";
-import { useIpos } from "@/hooks/use-ipos";
+import { useEffect, useState } from "react";
+import { useIpoPage, useIpos, useWatchlist } from "@/hooks/use-ipos";
 import { IpoCard } from "@/components/IpoCard";
+import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { 
   Select, 
@@ -9,24 +10,61 @@ import {
   SelectTrigger, 
   SelectValue 
 } from "@/components/ui/select";
-import { Search, Loader2, TrendingUp, Clock, CheckCircle2, ArrowUpRight } from "lucide-react";
+import { Search, Loader2, TrendingUp, Clock, CheckCircle2, ArrowUpRight, ChevronLeft, ChevronRight } from "lucide-react";
+
+const PAGE_SIZE = 12;
+
+const SORT_OPTIONS = [
+  { value: "-expectedDate", label: "Newest first" },
+  { value: "expectedDate", label: "Oldest first" },
+  { value: "-overallScore", label: "Highest score" },
+  { value: "-gmp", label: "Highest GMP" },
+  { value: "-subscriptionRetail", label: "Most subscribed" },
+  { value: "-issueSize", label: "Largest issue" },
+  { value: "companyName", label: "Company A-Z" },
+];
 
 export default function Dashboard() {
   const [filter, setFilter] = useState<'upcoming' | 'open' | 'closed' | 'all'>('all');
   const [sector, setSector] = useState<string>('');
+  const [riskLevel, setRiskLevel] = useState<'conservative' | 'moderate' | 'aggressive' | 'all'>('all');
+  const [minScore, setMinScore] = useState<string>('all');
+  const [tag, setTag] = useState<string>('all');
+  const [sort, setSort] = useState(SORT_OPTIONS[0].value);
   const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [page, setPage] = useState(0);
 
-  const { data: ipos, isLoading } = useIpos(
-    filter === 'all' ? undefined : { status: filter }
-  );
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  // Any change to the filters starts again from the first page
+  useEffect(() => {
+    setPage(0);
+  }, [filter, sector, riskLevel, minScore, tag, sort, debouncedSearch]);
+
+  // Unfiltered list for the stats and the sector options
+  const { data: ipos } = useIpos();
+  const { data: watchlist } = useWatchlist();
+  const watchlistTags = Array.from(new Set(watchlist?.flatMap(item => item.tags) ?? [])).sort();
 
-  const filteredIpos = ipos?.filter(ipo => {
-    const matchesSearch = 
-      ipo.symbol.toLowerCase().includes(search.toLowerCase()) || 
-      ipo.companyName.toLowerCase().includes(search.toLowerCase());
-    const matchesSector = sector && sector !== 'all' ? ipo.sector === sector : true;
-    return matchesSearch && matchesSector;
+  const { data: results, isLoading } = useIpoPage({
+    q: debouncedSearch || undefined,
+    status: filter === 'all' ? undefined : filter,
+    sector: sector && sector !== 'all' ? sector : undefined,
+    riskLevel: riskLevel === 'all' ? undefined : riskLevel,
+    minScore: minScore === 'all' ? undefined : Number(minScore),
+    // A tag removed from every watchlist item no longer filters
+    tag: tag !== 'all' && watchlistTags.includes(tag) ? tag : undefined,
+    sort,
+    limit: PAGE_SIZE,
+    offset: page * PAGE_SIZE,
   });
+  const filteredIpos = results?.ipos;
+  const total = results?.total ?? 0;
+  const pageCount = Math.ceil(total / PAGE_SIZE);
 
   const uniqueSectors = Array.from(new Set(ipos?.map(i => i.sector).filter(Boolean)));
 
@@ -103,7 +141,7 @@ export default function Dashboard() {
             data-testid="input-search"
           />
         </div>
-        <div className="flex gap-3">
+        <div className="flex flex-wrap gap-3">
           <Select value={filter} onValueChange={(val: 'upcoming' | 'open' | 'closed' | 'all') => setFilter(val)}>
             <SelectTrigger 
               className="w-[140px] bg-background border-border"
@@ -133,6 +171,68 @@ export default function Dashboard() {
               ))}
             </SelectContent>
           </Select>
+
+          <Select value={riskLevel} onValueChange={(val: 'conservative' | 'moderate' | 'aggressive' | 'all') => setRiskLevel(val)}>
+            <SelectTrigger 
+              className="w-[140px] bg-background border-border"
+              data-testid="select-risk"
+            >
+              <SelectValue placeholder="Risk" />
+            </SelectTrigger>
+            <SelectContent className="bg-card border-border">
+              <SelectItem value="all">All Risk Levels</SelectItem>
+              <SelectItem value="conservative">Conservative</SelectItem>
+              <SelectItem value="moderate">Moderate</SelectItem>
+              <SelectItem value="aggressive">Aggressive</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <Select value={minScore} onValueChange={setMinScore}>
+            <SelectTrigger 
+              className="w-[140px] bg-background border-border"
+              data-testid="select-min-score"
+            >
+              <SelectValue placeholder="Score" />
+            </SelectTrigger>
+            <SelectContent className="bg-card border-border">
+              <SelectItem value="all">Any Score</SelectItem>
+              <SelectItem value="5">Score 5+</SelectItem>
+              <SelectItem value="6">Score 6+</SelectItem>
+              <SelectItem value="7">Score 7+</SelectItem>
+              <SelectItem value="8">Score 8+</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {watchlistTags.length > 0 && (
+            <Select value={tag} onValueChange={setTag}>
+              <SelectTrigger 
+                className="w-[140px] bg-background border-border"
+                data-testid="select-watchlist-tag"
+              >
+                <SelectValue placeholder="Tag" />
+              </SelectTrigger>
+              <SelectContent className="bg-card border-border">
+                <SelectItem value="all">Any Tag</SelectItem>
+                {watchlistTags.map(t => (
+                  <SelectItem key={t} value={t}>{t}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <Select value={sort} onValueChange={setSort}>
+            <SelectTrigger 
+              className="w-[160px] bg-background border-border"
+              data-testid="select-sort"
+            >
+              <SelectValue placeholder="Sort" />
+            </SelectTrigger>
+            <SelectContent className="bg-card border-border">
+              {SORT_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
       </div>
 
@@ -157,6 +257,36 @@ export default function Dashboard() {
           )}
         </div>
       )}
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground" data-testid="text-results-range">
+            Showing {page * PAGE_SIZE + 1}-{Math.min((page + 1) * PAGE_SIZE, total)} of {total}
+          </p>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(p => p - 1)}
+              disabled={page === 0}
+              data-testid="button-prev-page"
+            >
+              <ChevronLeft className="w-4 h-4 mr-1" />
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(p => p + 1)}
+              disabled={page + 1 >= pageCount}
+              data-testid="button-next-page"
+            >
+              Next
+              <ChevronRight className="w-4 h-4 ml-1" />
+            </Button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
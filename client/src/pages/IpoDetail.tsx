@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useRoute, Link } from "wouter";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useIpo, useAddToWatchlist, useWatchlist } from "@/hooks/use-ipos";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -32,6 +32,10 @@ import { GmpTrendChart } from "@/components/GmpTrendChart";
 import { PeerComparison } from "@/components/PeerComparison";
 import { SubscriptionTracker } from "@/components/SubscriptionTracker";
 import { FundUtilization } from "@/components/FundUtilization";
+import { ListingPerformance } from "@/components/ListingPerformance";
+import { ScoreWaterfall } from "@/components/ScoreWaterfall";
+import { BidPlanner } from "@/components/BidPlanner";
+import type { MetricSource, ScoringProfile } from "@shared/schema";
 
 function ScoreBar({ label, score, icon: Icon }: { label: string; score: number | null; icon: React.ElementType }) {
   if (score === null || score === undefined) return null;
@@ -154,26 +158,41 @@ function RiskBadge({ riskLevel }: { riskLevel: string | null }) {
   );
 }
 
-function MetricRow({ label, value, suffix = "", highlight = false }: { 
+function MetricRow({ label, value, suffix = "", highlight = false, source }: { 
   label: string; 
   value: number | string | null | undefined; 
   suffix?: string;
   highlight?: boolean;
+  source?: MetricSource;
 }) {
-  if (value === null || value === undefined) return null;
+  if ((value === null || value === undefined) && !source) return null;
+  
+  // Metrics that could not be extracted are shown as such rather than hidden
+  if (value === null || value === undefined) {
+    return (
+      <div className="flex items-center justify-between py-2 border-b border-border last:border-0">
+        <span className="text-sm text-muted-foreground">{label}</span>
+        <span className="text-xs text-muted-foreground italic" data-testid={`text-unavailable-${label}`}>Unavailable</span>
+      </div>
+    );
+  }
   
   const displayValue = typeof value === 'number' ? value.toFixed(1) : value;
   const isNegative = typeof value === 'number' && value < 0;
+  const sourceHint = source && source.status !== "unavailable"
+    ? `${source.status === "derived" ? "Derived" : "Extracted"} from ${source.label || source.source} (${Math.round(source.confidence * 100)}% confidence)`
+    : undefined;
   
   return (
     <div className="flex items-center justify-between py-2 border-b border-border last:border-0">
       <span className="text-sm text-muted-foreground">{label}</span>
-      <span className={`font-semibold ${
+      <span title={sourceHint} className={`font-semibold ${
         highlight 
           ? isNegative ? "text-red-600" : "text-green-600"
           : "text-foreground"
       }`}>
         {displayValue}{suffix}
+        {source?.status === "derived" && <span className="text-xs text-muted-foreground font-normal ml-1">*</span>}
       </span>
     </div>
   );
@@ -199,6 +218,10 @@ export default function IpoDetail() {
   const [match, params] = useRoute("/ipos/:id");
   const id = parseInt(params?.id || "0");
   const { data: ipo, isLoading } = useIpo(id);
+  const { data: scoringProfile } = useQuery<ScoringProfile>({
+    queryKey: ["/api/scoring/profiles", ipo?.scoringProfileId],
+    enabled: !!ipo?.scoringProfileId,
+  });
   const { data: watchlist } = useWatchlist();
   const { mutate: addToWatchlist, isPending } = useAddToWatchlist();
   const { toast } = useToast();
@@ -349,8 +372,13 @@ export default function IpoDetail() {
               </div>
             </div>
             
-            <div className="mt-6">
+            <div className="mt-6 flex flex-wrap items-center justify-between gap-3">
               <RiskBadge riskLevel={ipo.riskLevel} />
+              {scoringProfile && (
+                <span className="text-xs text-muted-foreground" data-testid="text-scoring-profile">
+                  Scored with {scoringProfile.name} v{scoringProfile.version}
+                </span>
+              )}
             </div>
           </div>
 
@@ -390,6 +418,8 @@ export default function IpoDetail() {
             )}
           </div>
 
+          <ScoreWaterfall ipoId={ipo.id} />
+
           <div className="bg-card rounded-lg border border-border p-6">
             <h3 className="text-lg font-bold text-foreground mb-4 flex items-center gap-2">
               <FileText className="h-5 w-5 text-primary" />
@@ -451,9 +481,13 @@ export default function IpoDetail() {
             )}
           </div>
 
+          {ipo.status !== "closed" && <BidPlanner ipo={ipo} />}
+
           <PeerComparison ipo={ipo} />
           
           <FundUtilization ipo={ipo} />
+
+          {ipo.status === "closed" && <ListingPerformance ipo={ipo} />}
         </div>
 
         <div className="space-y-6">
@@ -467,12 +501,12 @@ export default function IpoDetail() {
               Financial Metrics
             </h4>
             <div className="space-y-1">
-              <MetricRow label="Revenue Growth (CAGR)" value={ipo.revenueGrowth} suffix="%" highlight />
-              <MetricRow label="EBITDA Margin" value={ipo.ebitdaMargin} suffix="%" highlight />
-              <MetricRow label="PAT Margin" value={ipo.patMargin} suffix="%" highlight />
-              <MetricRow label="ROE" value={ipo.roe} suffix="%" highlight />
-              <MetricRow label="ROCE" value={ipo.roce} suffix="%" highlight />
-              <MetricRow label="Debt/Equity" value={ipo.debtToEquity} />
+              <MetricRow label="Revenue Growth (CAGR)" value={ipo.revenueGrowth} suffix="%" highlight source={ipo.metricSources?.revenueGrowth} />
+              <MetricRow label="EBITDA Margin" value={ipo.ebitdaMargin} suffix="%" highlight source={ipo.metricSources?.ebitdaMargin} />
+              <MetricRow label="PAT Margin" value={ipo.patMargin} suffix="%" highlight source={ipo.metricSources?.patMargin} />
+              <MetricRow label="ROE" value={ipo.roe} suffix="%" highlight source={ipo.metricSources?.roe} />
+              <MetricRow label="ROCE" value={ipo.roce} suffix="%" highlight source={ipo.metricSources?.roce} />
+              <MetricRow label="Debt/Equity" value={ipo.debtToEquity} source={ipo.metricSources?.debtToEquity} />
             </div>
           </div>
 
@@ -482,9 +516,9 @@ export default function IpoDetail() {
               Valuation
             </h4>
             <div className="space-y-1">
-              <MetricRow label="P/E Ratio" value={ipo.peRatio} suffix="x" />
-              <MetricRow label="P/B Ratio" value={ipo.pbRatio} suffix="x" />
-              <MetricRow label="Sector P/E Median" value={ipo.sectorPeMedian} suffix="x" />
+              <MetricRow label="P/E Ratio" value={ipo.peRatio} suffix="x" source={ipo.metricSources?.peRatio} />
+              <MetricRow label="P/B Ratio" value={ipo.pbRatio} suffix="x" source={ipo.metricSources?.pbRatio} />
+              <MetricRow label="Sector P/E Median" value={ipo.sectorPeMedian} suffix="x" source={ipo.metricSources?.sectorPeMedian} />
             </div>
           </div>
 
@@ -494,10 +528,10 @@ export default function IpoDetail() {
               Offer Structure
             </h4>
             <div className="space-y-1">
-              <MetricRow label="Fresh Issue" value={ipo.freshIssue !== null && ipo.freshIssue !== undefined ? (ipo.freshIssue * 100) : null} suffix="%" />
-              <MetricRow label="OFS Ratio" value={ipo.ofsRatio !== null && ipo.ofsRatio !== undefined ? (ipo.ofsRatio * 100) : null} suffix="%" />
-              <MetricRow label="Promoter Holding (Pre)" value={ipo.promoterHolding} suffix="%" />
-              <MetricRow label="Promoter Holding (Post)" value={ipo.postIpoPromoterHolding} suffix="%" />
+              <MetricRow label="Fresh Issue" value={ipo.freshIssue !== null && ipo.freshIssue !== undefined ? (ipo.freshIssue * 100) : null} suffix="%" source={ipo.metricSources?.freshIssue} />
+              <MetricRow label="OFS Ratio" value={ipo.ofsRatio !== null && ipo.ofsRatio !== undefined ? (ipo.ofsRatio * 100) : null} suffix="%" source={ipo.metricSources?.ofsRatio} />
+              <MetricRow label="Promoter Holding (Pre)" value={ipo.promoterHolding} suffix="%" source={ipo.metricSources?.promoterHolding} />
+              <MetricRow label="Promoter Holding (Post)" value={ipo.postIpoPromoterHolding} suffix="%" source={ipo.metricSources?.postIpoPromoterHolding} />
             </div>
           </div>
 
@@ -0,0 +1,593 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useIpos } from "@/hooks/use-ipos";
+import { usePortfolio, useCreateApplication, useUpdateApplication, useDeleteApplication } from "@/hooks/use-portfolio";
+import { Loader2, Briefcase, Plus, Download, Pencil, Trash2, Receipt } from "lucide-react";
+import type { Ipo, PortfolioPosition, PortfolioSummaryRow } from "@shared/schema";
+import { api } from "@shared/routes";
+import { BID_CATEGORIES, type BidCategory } from "@shared/allotment";
+import {
+  ALLOTMENT_STATUSES,
+  UPI_MANDATE_STATUSES,
+  type AllotmentStatus,
+  type UpiMandateStatus,
+} from "@shared/portfolio";
+
+type ApplicationForm = {
+  ipoId: string;
+  accountLabel: string;
+  category: BidCategory;
+  lots: string;
+  bidPrice: string;
+  upiMandateStatus: UpiMandateStatus;
+  appliedOn: string;
+  allotmentStatus: AllotmentStatus;
+  allottedShares: string;
+  allottedOn: string;
+  grandfatheredFmv: string;
+  salePrice: string;
+  saleDate: string;
+};
+
+const EMPTY_FORM: ApplicationForm = {
+  ipoId: "",
+  accountLabel: "Self",
+  category: "retail",
+  lots: "1",
+  bidPrice: "",
+  upiMandateStatus: "pending",
+  appliedOn: "",
+  allotmentStatus: "pending",
+  allottedShares: "",
+  allottedOn: "",
+  grandfatheredFmv: "",
+  salePrice: "",
+  saleDate: "",
+};
+
+const MANDATE_STYLES: Record<string, string> = {
+  pending: "bg-yellow-50 text-yellow-700 border-yellow-200",
+  accepted: "bg-green-50 text-green-700 border-green-200",
+  rejected: "bg-red-50 text-red-600 border-red-200",
+  expired: "bg-gray-50 text-gray-600 border-gray-200",
+};
+
+const ALLOTMENT_STYLES: Record<string, string> = {
+  pending: "bg-blue-50 text-blue-700 border-blue-200",
+  allotted: "bg-green-50 text-green-700 border-green-200",
+  not_allotted: "bg-gray-50 text-gray-600 border-gray-200",
+};
+
+// Cut-off bids are made at the upper end of the band, e.g. "₹285 - ₹300" -> 300
+function upperBand(priceRange: string): string {
+  const prices = priceRange.match(/\d+(?:,\d+)*(?:\.\d+)?/g);
+  return prices ? prices[prices.length - 1].replace(/,/g, "") : "";
+}
+
+function toForm(position: PortfolioPosition): ApplicationForm {
+  const { application } = position;
+  return {
+    ipoId: String(application.ipoId),
+    accountLabel: application.accountLabel,
+    category: application.category as BidCategory,
+    lots: String(application.lots),
+    bidPrice: String(application.bidPrice),
+    upiMandateStatus: application.upiMandateStatus as UpiMandateStatus,
+    appliedOn: application.appliedOn ?? "",
+    allotmentStatus: application.allotmentStatus as AllotmentStatus,
+    allottedShares: application.allottedShares !== null ? String(application.allottedShares) : "",
+    allottedOn: application.allottedOn ?? "",
+    grandfatheredFmv: application.grandfatheredFmv !== null ? String(application.grandfatheredFmv) : "",
+    salePrice: application.salePrice !== null ? String(application.salePrice) : "",
+    saleDate: application.saleDate ?? "",
+  };
+}
+
+function formatRupees(value: number | null): string {
+  if (value === null) return "-";
+  return `₹${value.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+}
+
+function PnlValue({ value, testId }: { value: number | null; testId?: string }) {
+  if (value === null) return <span className="text-muted-foreground">-</span>;
+  return (
+    <span className={value < 0 ? "text-red-600" : "text-green-600"} data-testid={testId}>
+      {value > 0 ? "+" : ""}{formatRupees(value)}
+    </span>
+  );
+}
+
+function SummaryTable({ title, rows, keyLabel }: { title: string; rows: PortfolioSummaryRow[]; keyLabel: string }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border text-muted-foreground">
+                <th className="text-left py-2 font-medium">{keyLabel}</th>
+                <th className="text-right py-2 font-medium">Allotted</th>
+                <th className="text-right py-2 font-medium">Invested</th>
+                <th className="text-right py-2 font-medium">Realized</th>
+                <th className="text-right py-2 font-medium">Unrealized</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.key} className="border-b border-border last:border-b-0">
+                  <td className="py-2 font-medium">{row.key}</td>
+                  <td className="py-2 text-right tabular-nums">{row.allotted}/{row.applications}</td>
+                  <td className="py-2 text-right tabular-nums">{formatRupees(row.invested)}</td>
+                  <td className="py-2 text-right tabular-nums"><PnlValue value={row.realizedPnl} /></td>
+                  <td className="py-2 text-right tabular-nums"><PnlValue value={row.unrealizedPnl} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Portfolio() {
+  const { toast } = useToast();
+  const { data: portfolio, isLoading } = usePortfolio();
+  const { data: ipos } = useIpos();
+  const createApplication = useCreateApplication();
+  const updateApplication = useUpdateApplication();
+  const deleteApplication = useDeleteApplication();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<ApplicationForm>(EMPTY_FORM);
+
+  const showError = (err: Error) => {
+    toast({ title: "Error", description: err.message, variant: "destructive" });
+  };
+
+  const setField = <K extends keyof ApplicationForm>(key: K, value: ApplicationForm[K]) => {
+    setForm(current => ({ ...current, [key]: value }));
+  };
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm({ ...EMPTY_FORM, appliedOn: format(new Date(), "yyyy-MM-dd") });
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (position: PortfolioPosition) => {
+    setEditingId(position.application.id);
+    setForm(toForm(position));
+    setIsFormOpen(true);
+  };
+
+  const selectIpo = (ipo: Ipo | undefined) => {
+    if (!ipo) return;
+    setForm(current => ({ ...current, ipoId: String(ipo.id), bidPrice: current.bidPrice || upperBand(ipo.priceRange) }));
+  };
+
+  // Shares allotted before 1 Feb 2018 may use their 31 Jan 2018 price as cost
+  const isGrandfathered = form.allottedOn !== "" && form.allottedOn <= "2018-01-31";
+
+  const handleSave = () => {
+    const allotted = form.allotmentStatus === "allotted";
+    const input = {
+      accountLabel: form.accountLabel,
+      category: form.category,
+      lots: Number(form.lots),
+      bidPrice: Number(form.bidPrice),
+      upiMandateStatus: form.upiMandateStatus,
+      appliedOn: form.appliedOn || null,
+      allotmentStatus: form.allotmentStatus,
+      allottedShares: allotted && form.allottedShares ? Number(form.allottedShares) : null,
+      allottedOn: allotted && form.allottedOn ? form.allottedOn : null,
+      grandfatheredFmv: allotted && isGrandfathered && form.grandfatheredFmv ? Number(form.grandfatheredFmv) : null,
+      salePrice: allotted && form.salePrice ? Number(form.salePrice) : null,
+      saleDate: allotted && form.saleDate ? form.saleDate : null,
+    };
+    const onSuccess = () => {
+      setIsFormOpen(false);
+      toast({ title: editingId === null ? "Application logged" : "Application updated" });
+    };
+
+    if (editingId === null) {
+      createApplication.mutate({ ...input, ipoId: Number(form.ipoId) }, { onSuccess, onError: showError });
+    } else {
+      updateApplication.mutate({ id: editingId, ...input }, { onSuccess, onError: showError });
+    }
+  };
+
+  const handleDelete = (position: PortfolioPosition) => {
+    deleteApplication.mutate(position.application.id, {
+      onSuccess: () => toast({ title: "Application deleted", description: `${position.ipo.symbol} (${position.application.accountLabel})` }),
+      onError: showError,
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-[50vh]">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const totals = portfolio?.totals;
+  const isSaving = createApplication.isPending || updateApplication.isPending;
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground mb-1">Portfolio</h1>
+          <p className="text-muted-foreground">Track every application across your family accounts, from bid to sale.</p>
+        </div>
+        <div className="flex gap-2">
+          <Link href="/tax">
+            <Button variant="outline" data-testid="button-tax-report">
+              <Receipt className="w-4 h-4 mr-2" />
+              Tax Report
+            </Button>
+          </Link>
+          {portfolio && portfolio.positions.length > 0 && (
+            <a href={api.portfolio.export.path} download>
+              <Button variant="outline" data-testid="button-export-portfolio">
+                <Download className="w-4 h-4 mr-2" />
+                Export CSV
+              </Button>
+            </a>
+          )}
+          <Button onClick={openCreate} className="bg-foreground text-background hover:bg-foreground/90" data-testid="button-log-application">
+            <Plus className="w-4 h-4 mr-2" />
+            Log Application
+          </Button>
+        </div>
+      </div>
+
+      {!portfolio || portfolio.positions.length === 0 ? (
+        <div className="text-center py-16 bg-card rounded-lg border border-border">
+          <div className="h-16 w-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-6">
+            <Briefcase className="h-7 w-7 text-muted-foreground" />
+          </div>
+          <h2 className="text-xl font-bold text-foreground mb-2">No applications yet</h2>
+          <p className="text-muted-foreground max-w-sm mx-auto">
+            Log each IPO bid you place, then record the allotment and sale to see your realized and unrealized P&L.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-xs text-muted-foreground mb-1">Allotted</p>
+                <p className="text-xl font-bold" data-testid="text-portfolio-allotted">{totals?.allotted}/{totals?.applications}</p>
+                <p className="text-xs text-muted-foreground">
+                  {totals && totals.applications > 0 ? `${Math.round((totals.allotted / totals.applications) * 100)}% allotment rate` : "-"}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-xs text-muted-foreground mb-1">Invested</p>
+                <p className="text-xl font-bold" data-testid="text-portfolio-invested">{formatRupees(totals?.invested ?? 0)}</p>
+                <p className="text-xs text-muted-foreground">Allotted shares at issue price</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-xs text-muted-foreground mb-1">Realized P&L</p>
+                <p className="text-xl font-bold"><PnlValue value={totals?.realizedPnl ?? 0} testId="text-portfolio-realized" /></p>
+                <p className="text-xs text-muted-foreground">Sold positions</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-xs text-muted-foreground mb-1">Unrealized P&L</p>
+                <p className="text-xl font-bold"><PnlValue value={totals?.unrealizedPnl ?? 0} testId="text-portfolio-unrealized" /></p>
+                <p className="text-xs text-muted-foreground">Held shares at the latest price</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Applications</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border text-muted-foreground">
+                      <th className="text-left py-2 font-medium">IPO</th>
+                      <th className="text-left py-2 font-medium">Account</th>
+                      <th className="text-right py-2 font-medium">Bid</th>
+                      <th className="text-left py-2 pl-4 font-medium">UPI mandate</th>
+                      <th className="text-left py-2 font-medium">Allotment</th>
+                      <th className="text-right py-2 font-medium">Cost</th>
+                      <th className="text-right py-2 font-medium">At listing</th>
+                      <th className="text-right py-2 font-medium">P&L</th>
+                      <th className="py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {portfolio.positions.map(position => {
+                      const { application, ipo } = position;
+                      const sold = position.realizedPnl !== null;
+                      return (
+                        <tr key={application.id} className="border-b border-border last:border-b-0" data-testid={`row-application-${application.id}`}>
+                          <td className="py-2">
+                            <Link href={`/ipos/${ipo.id}`} className="font-medium hover:underline">{ipo.symbol}</Link>
+                            <p className="text-xs text-muted-foreground">
+                              {application.appliedOn ? format(new Date(application.appliedOn), "MMM d, yyyy") : ipo.companyName}
+                            </p>
+                          </td>
+                          <td className="py-2">
+                            {application.accountLabel}
+                            <p className="text-xs text-muted-foreground">{BID_CATEGORIES[application.category as BidCategory]?.label ?? application.category}</p>
+                          </td>
+                          <td className="py-2 text-right tabular-nums">
+                            {application.lots} × {formatRupees(application.bidPrice)}
+                            <p className="text-xs text-muted-foreground">{formatRupees(position.blockedAmount)} blocked</p>
+                          </td>
+                          <td className="py-2 pl-4">
+                            <Badge variant="outline" className={MANDATE_STYLES[application.upiMandateStatus]}>
+                              {UPI_MANDATE_STATUSES[application.upiMandateStatus as UpiMandateStatus] ?? application.upiMandateStatus}
+                            </Badge>
+                          </td>
+                          <td className="py-2">
+                            <Badge variant="outline" className={ALLOTMENT_STYLES[application.allotmentStatus]}>
+                              {ALLOTMENT_STATUSES[application.allotmentStatus as AllotmentStatus] ?? application.allotmentStatus}
+                            </Badge>
+                            {application.allottedShares !== null && application.allotmentStatus === "allotted" && (
+                              <p className="text-xs text-muted-foreground mt-1">{application.allottedShares} shares</p>
+                            )}
+                          </td>
+                          <td className="py-2 text-right tabular-nums">{position.invested > 0 ? formatRupees(position.invested) : "-"}</td>
+                          <td className="py-2 text-right tabular-nums"><PnlValue value={position.listingPnl} /></td>
+                          <td className="py-2 text-right tabular-nums">
+                            <PnlValue value={sold ? position.realizedPnl : position.unrealizedPnl} />
+                            {(sold || position.unrealizedPnl !== null) && (
+                              <p className="text-xs text-muted-foreground">
+                                {sold ? `Sold ${format(new Date(application.saleDate!), "MMM d, yyyy")}` : "Unrealized"}
+                              </p>
+                            )}
+                          </td>
+                          <td className="py-2 text-right whitespace-nowrap">
+                            <Button variant="ghost" size="icon" onClick={() => openEdit(position)} data-testid={`button-edit-application-${application.id}`}>
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleDelete(position)}
+                              disabled={deleteApplication.isPending}
+                              data-testid={`button-delete-application-${application.id}`}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="grid lg:grid-cols-2 gap-6">
+            <SummaryTable title="By Account" rows={portfolio.byAccount} keyLabel="Account" />
+            <SummaryTable title="By Financial Year" rows={portfolio.byYear} keyLabel="Year" />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Sold applications count in the financial year of the sale; unsold ones in the year you applied.
+          </p>
+        </>
+      )}
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId === null ? "Log Application" : "Edit Application"}</DialogTitle>
+            <DialogDescription>
+              {editingId === null
+                ? "One application per PAN/demat account. Add the allotment and sale once you know them."
+                : "Record the allotment result and, once sold, the sale price and date."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            {editingId === null && (
+              <div className="space-y-2 col-span-2">
+                <Label>IPO</Label>
+                <Select value={form.ipoId} onValueChange={(value) => selectIpo(ipos?.find(ipo => ipo.id === Number(value)))}>
+                  <SelectTrigger data-testid="select-application-ipo">
+                    <SelectValue placeholder="Choose an IPO" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ipos?.map(ipo => (
+                      <SelectItem key={ipo.id} value={String(ipo.id)}>{ipo.companyName} ({ipo.symbol})</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="application-account">Account</Label>
+              <Input
+                id="application-account"
+                placeholder="Self"
+                value={form.accountLabel}
+                onChange={(e) => setField("accountLabel", e.target.value)}
+                data-testid="input-application-account"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={form.category} onValueChange={(value) => setField("category", value as BidCategory)}>
+                <SelectTrigger data-testid="select-application-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(BID_CATEGORIES).map(([key, { label }]) => (
+                    <SelectItem key={key} value={key}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="application-lots">Lots</Label>
+              <Input
+                id="application-lots"
+                type="number"
+                min={1}
+                value={form.lots}
+                onChange={(e) => setField("lots", e.target.value)}
+                data-testid="input-application-lots"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="application-bid-price">Bid price (₹/share)</Label>
+              <Input
+                id="application-bid-price"
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.bidPrice}
+                onChange={(e) => setField("bidPrice", e.target.value)}
+                data-testid="input-application-bid-price"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>UPI mandate</Label>
+              <Select value={form.upiMandateStatus} onValueChange={(value) => setField("upiMandateStatus", value as UpiMandateStatus)}>
+                <SelectTrigger data-testid="select-application-mandate">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(UPI_MANDATE_STATUSES).map(([key, label]) => (
+                    <SelectItem key={key} value={key}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="application-applied-on">Applied on</Label>
+              <Input
+                id="application-applied-on"
+                type="date"
+                value={form.appliedOn}
+                onChange={(e) => setField("appliedOn", e.target.value)}
+                data-testid="input-application-applied-on"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Allotment</Label>
+              <Select value={form.allotmentStatus} onValueChange={(value) => setField("allotmentStatus", value as AllotmentStatus)}>
+                <SelectTrigger data-testid="select-application-allotment">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ALLOTMENT_STATUSES).map(([key, label]) => (
+                    <SelectItem key={key} value={key}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {form.allotmentStatus === "allotted" && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="application-shares">Shares allotted</Label>
+                  <Input
+                    id="application-shares"
+                    type="number"
+                    min={1}
+                    value={form.allottedShares}
+                    onChange={(e) => setField("allottedShares", e.target.value)}
+                    data-testid="input-application-shares"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="application-allotted-on">Allotted on</Label>
+                  <Input
+                    id="application-allotted-on"
+                    type="date"
+                    value={form.allottedOn}
+                    onChange={(e) => setField("allottedOn", e.target.value)}
+                    data-testid="input-application-allotted-on"
+                  />
+                </div>
+                {isGrandfathered && (
+                  <div className="space-y-2">
+                    <Label htmlFor="application-fmv">Price on 31 Jan 2018 (₹/share)</Label>
+                    <Input
+                      id="application-fmv"
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={form.grandfatheredFmv}
+                      onChange={(e) => setField("grandfatheredFmv", e.target.value)}
+                      data-testid="input-application-fmv"
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="application-sale-price">Sale price (₹/share)</Label>
+                  <Input
+                    id="application-sale-price"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    placeholder="Not sold"
+                    value={form.salePrice}
+                    onChange={(e) => setField("salePrice", e.target.value)}
+                    data-testid="input-application-sale-price"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="application-sale-date">Sale date</Label>
+                  <Input
+                    id="application-sale-date"
+                    type="date"
+                    value={form.saleDate}
+                    onChange={(e) => setField("saleDate", e.target.value)}
+                    data-testid="input-application-sale-date"
+                  />
+                </div>
+              </>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || (editingId === null && !form.ipoId) || !form.accountLabel.trim() || !form.lots || !form.bidPrice}
+              className="bg-foreground text-background hover:bg-foreground/90"
+              data-testid="button-save-application"
+            >
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : editingId === null ? "Log Application" : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ConditionEditor, toConditions, toDraftConditions, type DraftCondition } from "@/components/ConditionEditor";
+import { useToast } from "@/hooks/use-toast";
+import { useScreens, useScreenerResults, useCreateScreen, useUpdateScreen, useDeleteScreen } from "@/hooks/use-screens";
+import { Loader2, Filter, ArrowUp, ArrowDown, Link2, Save, Trash2 } from "lucide-react";
+import type { ScreenerRow } from "@shared/schema";
+import { ALERT_RULE_FIELDS, type AlertRuleField } from "@shared/alert-rules";
+import {
+  DEFAULT_SCREENER_COLUMNS,
+  MAX_SAVED_SCREENS,
+  MAX_SCREEN_CONDITIONS,
+  decodeScreenParams,
+  encodeScreenParams,
+  type ScreenSort,
+} from "@shared/screener";
+
+function formatValue(value: number | string | null): string {
+  if (value === null) return "-";
+  if (typeof value === "number") return value.toLocaleString("en-IN", { maximumFractionDigits: 2 });
+  return value;
+}
+
+// Missing values always sort last
+function sortRows(rows: ScreenerRow[], sort: ScreenSort): ScreenerRow[] {
+  return [...rows].sort((a, b) => {
+    const left = a.values[sort.field];
+    const right = b.values[sort.field];
+    if (left === right) return a.ipo.companyName.localeCompare(b.ipo.companyName);
+    if (left === null) return 1;
+    if (right === null) return -1;
+    const order = typeof left === "string" || typeof right === "string"
+      ? String(left).localeCompare(String(right))
+      : left - right;
+    return sort.direction === "desc" ? -order : order;
+  });
+}
+
+export default function Screener() {
+  const { toast } = useToast();
+  const [initial] = useState(() => {
+    const params = new URLSearchParams(window.location.search);
+    return { ...decodeScreenParams(params), screenId: Number(params.get("screen")) || null };
+  });
+  const [draft, setDraft] = useState<DraftCondition[]>(toDraftConditions(initial.conditions));
+  const [sort, setSort] = useState<ScreenSort>(initial.sort);
+  const [screenId, setScreenId] = useState<number | null>(initial.screenId);
+  const [name, setName] = useState("");
+
+  const { data: screens } = useScreens();
+  const createScreen = useCreateScreen();
+  const updateScreen = useUpdateScreen();
+  const deleteScreen = useDeleteScreen();
+  const activeScreen = screens?.find(screen => screen.id === screenId);
+
+  // Opening /screener?screen=<id> loads the saved screen once the list arrives
+  const [loadedScreenId, setLoadedScreenId] = useState<number | null>(null);
+  useEffect(() => {
+    if (activeScreen && loadedScreenId !== activeScreen.id) {
+      setDraft(toDraftConditions(activeScreen.conditions));
+      setSort(activeScreen.sort);
+      setName(activeScreen.name);
+      setLoadedScreenId(activeScreen.id);
+    }
+  }, [activeScreen, loadedScreenId]);
+
+  const conditions = toConditions(draft);
+  const { data: rows, isLoading, isFetching, error } = useScreenerResults(conditions);
+
+  // Keep the URL in step with the screen so it can be bookmarked or shared
+  useEffect(() => {
+    if (!conditions) return;
+    const params = encodeScreenParams(conditions, sort);
+    if (screenId) params.set("screen", String(screenId));
+    window.history.replaceState(null, "", `/screener?${params.toString()}`);
+  }, [JSON.stringify(conditions), sort, screenId]);
+
+  const columns = useMemo(() => {
+    const fields = [...DEFAULT_SCREENER_COLUMNS];
+    for (const condition of draft) {
+      if (!fields.includes(condition.field)) fields.push(condition.field);
+    }
+    return fields;
+  }, [draft]);
+
+  const sortedRows = rows ? sortRows(rows, sort) : [];
+
+  const showError = (err: Error) => {
+    toast({ title: "Error", description: err.message, variant: "destructive" });
+  };
+
+  const toggleSort = (field: AlertRuleField) => {
+    setSort(current => current.field === field
+      ? { field, direction: current.direction === "desc" ? "asc" : "desc" }
+      : { field, direction: "desc" });
+  };
+
+  const selectScreen = (value: string) => {
+    if (value === "new") {
+      setScreenId(null);
+      setLoadedScreenId(null);
+      setName("");
+      return;
+    }
+    setScreenId(Number(value));
+  };
+
+  const handleSaveNew = () => {
+    if (!conditions) return;
+    createScreen.mutate({ name, conditions, sort }, {
+      onSuccess: (screen) => {
+        setScreenId(screen.id);
+        setLoadedScreenId(screen.id);
+        toast({ title: "Screen saved", description: "Alert rules can now be based on it" });
+      },
+      onError: showError,
+    });
+  };
+
+  const handleUpdate = () => {
+    if (!conditions || !screenId) return;
+    updateScreen.mutate({ id: screenId, name, conditions, sort }, {
+      onSuccess: () => toast({ title: "Screen updated" }),
+      onError: showError,
+    });
+  };
+
+  const handleDelete = () => {
+    if (!screenId) return;
+    deleteScreen.mutate(screenId, {
+      onSuccess: () => {
+        selectScreen("new");
+        toast({ title: "Screen deleted" });
+      },
+      onError: showError,
+    });
+  };
+
+  // Share links carry the conditions rather than the screen id, so they work
+  // for people who do not own the screen
+  const copyShareLink = () => {
+    if (!conditions) return;
+    navigator.clipboard.writeText(`${window.location.origin}/screener?${encodeScreenParams(conditions, sort).toString()}`);
+    toast({ title: "Screen link copied to clipboard" });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Screener</h1>
+        <p className="text-muted-foreground">Filter every IPO on fundamentals, valuation, offer structure and demand, and save the screens you use</p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={screenId ? String(screenId) : "new"} onValueChange={selectScreen}>
+              <SelectTrigger className="w-56 bg-background" data-testid="select-screen">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="new">Unsaved screen</SelectItem>
+                {screens?.map(screen => (
+                  <SelectItem key={screen.id} value={String(screen.id)}>{screen.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Screen name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-56 bg-background"
+              data-testid="input-screen-name"
+            />
+            {activeScreen && (
+              <Button
+                variant="outline"
+                onClick={handleUpdate}
+                disabled={!conditions || !name.trim() || updateScreen.isPending}
+                data-testid="button-update-screen"
+              >
+                <Save className="w-4 h-4 mr-1" />
+                Update
+              </Button>
+            )}
+            <Button
+              className="bg-foreground text-background hover:bg-foreground/90"
+              onClick={handleSaveNew}
+              disabled={!conditions || !name.trim() || createScreen.isPending || (screens?.length ?? 0) >= MAX_SAVED_SCREENS}
+              data-testid="button-save-screen"
+            >
+              Save as new
+            </Button>
+            <Button variant="ghost" onClick={copyShareLink} disabled={!conditions} data-testid="button-share-screen">
+              <Link2 className="w-4 h-4 mr-1" />
+              Copy link
+            </Button>
+            {activeScreen && (
+              <Button
+                variant="ghost"
+                className="text-red-500 hover:text-red-600"
+                onClick={handleDelete}
+                disabled={deleteScreen.isPending}
+                data-testid="button-delete-screen"
+              >
+                <Trash2 className="w-4 h-4 mr-1" />
+                Delete
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-2 p-4 rounded-lg bg-muted" data-testid="form-screen-conditions">
+            <p className="text-sm text-muted-foreground">
+              {draft.length === 0 ? "Showing every IPO. Add conditions to narrow the list." : "Show IPOs where all of these hold"}
+            </p>
+            <ConditionEditor conditions={draft} onChange={setDraft} max={MAX_SCREEN_CONDITIONS} min={0} />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Saved screens can be used as the basis of alert rules in <Link href="/settings" className="underline">Settings</Link>.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base font-medium flex items-center gap-2">
+            Results
+            {rows && <span className="text-sm text-muted-foreground font-normal" data-testid="text-screen-count">{rows.length} IPO{rows.length === 1 ? "" : "s"}</span>}
+            {isFetching && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-600 py-6">{error.message}</p>
+          ) : sortedRows.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+              <Filter className="w-12 h-12 mb-4 opacity-50" />
+              <p className="font-medium">No IPOs match this screen</p>
+              <p className="text-sm">Loosen a condition or remove one.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="text-left text-sm text-muted-foreground border-b">
+                    <th className="pb-3 pr-4 font-medium">Company</th>
+                    {columns.map(field => (
+                      <th key={field} className="pb-3 pr-4 font-medium whitespace-nowrap">
+                        <button
+                          className="inline-flex items-center gap-1 hover:text-foreground"
+                          onClick={() => toggleSort(field)}
+                          data-testid={`button-sort-${field}`}
+                        >
+                          {ALERT_RULE_FIELDS[field].label}
+                          {sort.field === field && (sort.direction === "desc" ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortedRows.map(({ ipo, values }) => (
+                    <tr key={ipo.id} className="border-b last:border-b-0 text-sm" data-testid={`row-screen-ipo-${ipo.id}`}>
+                      <td className="py-3 pr-4">
+                        <Link href={`/ipos/${ipo.id}`} className="font-medium text-foreground hover:underline">
+                          {ipo.companyName}
+                        </Link>
+                        <p className="text-xs text-muted-foreground capitalize">{ipo.symbol} · {ipo.status}</p>
+                      </td>
+                      {columns.map(field => (
+                        <td key={field} className="py-3 pr-4 tabular-nums whitespace-nowrap capitalize">{formatValue(values[field])}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
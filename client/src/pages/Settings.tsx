@@ -6,10 +6,12 @@ import {
   Shield, 
   Bell, 
   LogOut,
+  Gauge,
   Settings as SettingsIcon
 } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
 import { AlertSettings } from "@/components/AlertSettings";
+import { ScoringProfileSettings } from "@/components/ScoringProfileSettings";
 
 export default function Settings() {
   const { user, logout } = useAuth();
@@ -81,6 +83,19 @@ export default function Settings() {
         </div>
       </div>
 
+      <div className="bg-card rounded-lg border border-border">
+        <div className="p-6 border-b border-border">
+          <h2 className="text-lg font-bold text-foreground flex items-center gap-2">
+            <Gauge className="h-5 w-5 text-primary" />
+            Scoring Profile
+          </h2>
+          <p className="text-sm text-muted-foreground mt-1">Choose how IPO scores are weighted across the app</p>
+        </div>
+        <div className="p-6">
+          <ScoringProfileSettings />
+        </div>
+      </div>
+
       <div className="bg-card rounded-lg border border-border">
         <div className="p-6 border-b border-border">
           <h2 className="text-lg font-bold text-foreground flex items-center gap-2">
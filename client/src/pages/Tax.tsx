@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useTaxReport } from "@/hooks/use-tax";
+import { Loader2, Receipt, FileText, Download, ArrowLeft } from "lucide-react";
+import { api } from "@shared/routes";
+import { GAIN_TYPES } from "@shared/tax";
+
+function formatRupees(value: number): string {
+  return `₹${value.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+}
+
+function fyLabel(fy: number): string {
+  return `FY ${fy}-${String((fy + 1) % 100).padStart(2, "0")}`;
+}
+
+export default function Tax() {
+  const [fy, setFy] = useState<number | undefined>(undefined);
+  const { data: report, isLoading, error } = useTaxReport(fy);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-[50vh]">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !report) {
+    return <p className="text-sm text-red-600">{error?.message ?? "Failed to load the tax report"}</p>;
+  }
+
+  const years = report.years.includes(report.fy) ? report.years : [report.fy, ...report.years];
+  const query = `?fy=${report.fy}`;
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <Link href="/portfolio" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground mb-2">
+            <ArrowLeft className="w-4 h-4" />
+            Portfolio
+          </Link>
+          <h1 className="text-2xl font-bold text-foreground mb-1">Capital Gains Tax</h1>
+          <p className="text-muted-foreground">STCG and LTCG on your IPO sales, per account, ready for your return.</p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={String(report.fy)} onValueChange={(value) => setFy(Number(value))}>
+            <SelectTrigger className="w-[140px]" data-testid="select-tax-year">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {years.map(year => (
+                <SelectItem key={year} value={String(year)}>{fyLabel(year)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <a href={`${api.tax.csv.path}${query}`} download>
+            <Button variant="outline" data-testid="button-tax-csv">
+              <Download className="w-4 h-4 mr-2" />
+              CSV
+            </Button>
+          </a>
+          <a href={`${api.tax.pdf.path}${query}`} download>
+            <Button variant="outline" data-testid="button-tax-pdf">
+              <FileText className="w-4 h-4 mr-2" />
+              PDF
+            </Button>
+          </a>
+        </div>
+      </div>
+
+      {report.sales.length === 0 ? (
+        <div className="text-center py-16 bg-card rounded-lg border border-border">
+          <div className="h-16 w-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-6">
+            <Receipt className="h-7 w-7 text-muted-foreground" />
+          </div>
+          <h2 className="text-xl font-bold text-foreground mb-2">No sales in {report.label}</h2>
+          <p className="text-muted-foreground max-w-sm mx-auto">
+            Record the sale price and date of your allotted shares on the portfolio page to see your capital gains here.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-xs text-muted-foreground mb-1">Taxable STCG</p>
+                <p className="text-xl font-bold" data-testid="text-tax-stcg">{formatRupees(report.totals.taxableShortTerm)}</p>
+                <p className="text-xs text-muted-foreground">Net {formatRupees(report.totals.shortTermGain)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-xs text-muted-foreground mb-1">Taxable LTCG</p>
+                <p className="text-xl font-bold" data-testid="text-tax-ltcg">{formatRupees(report.totals.taxableLongTerm)}</p>
+                <p className="text-xs text-muted-foreground">Net {formatRupees(report.totals.longTermGain)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-xs text-muted-foreground mb-1">LTCG exemption used</p>
+                <p className="text-xl font-bold">{formatRupees(report.totals.ltcgExemption)}</p>
+                <p className="text-xs text-muted-foreground">Per account (PAN)</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-xs text-muted-foreground mb-1">Estimated tax</p>
+                <p className="text-xl font-bold" data-testid="text-tax-total">{formatRupees(report.totals.totalTax)}</p>
+                <p className="text-xs text-muted-foreground">Including {formatRupees(report.totals.cess)} cess</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">By Account</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border text-muted-foreground">
+                      <th className="text-left py-2 font-medium">Account</th>
+                      <th className="text-right py-2 font-medium">Net STCG</th>
+                      <th className="text-right py-2 font-medium">Net LTCG</th>
+                      <th className="text-right py-2 font-medium">Loss set off</th>
+                      <th className="text-right py-2 font-medium">Exemption</th>
+                      <th className="text-right py-2 font-medium">Taxable STCG</th>
+                      <th className="text-right py-2 font-medium">Taxable LTCG</th>
+                      <th className="text-right py-2 font-medium">Tax</th>
+                      <th className="text-right py-2 font-medium">Loss carried forward</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.accounts.map(account => (
+                      <tr key={account.accountLabel} className="border-b border-border last:border-b-0" data-testid={`row-tax-account-${account.accountLabel}`}>
+                        <td className="py-2 font-medium">{account.accountLabel}</td>
+                        <td className="py-2 text-right tabular-nums">{formatRupees(account.shortTermGain)}</td>
+                        <td className="py-2 text-right tabular-nums">{formatRupees(account.longTermGain)}</td>
+                        <td className="py-2 text-right tabular-nums">{formatRupees(account.setOffLoss)}</td>
+                        <td className="py-2 text-right tabular-nums">{formatRupees(account.ltcgExemption)}</td>
+                        <td className="py-2 text-right tabular-nums">{formatRupees(account.taxableShortTerm)}</td>
+                        <td className="py-2 text-right tabular-nums">{formatRupees(account.taxableLongTerm)}</td>
+                        <td className="py-2 text-right tabular-nums font-semibold">{formatRupees(account.totalTax)}</td>
+                        <td className="py-2 text-right tabular-nums">{account.carriedForwardLoss > 0 ? formatRupees(account.carriedForwardLoss) : "-"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Sales</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border text-muted-foreground">
+                      <th className="text-left py-2 font-medium">IPO</th>
+                      <th className="text-left py-2 font-medium">Account</th>
+                      <th className="text-left py-2 font-medium">Held</th>
+                      <th className="text-left py-2 font-medium">Type</th>
+                      <th className="text-right py-2 font-medium">Shares</th>
+                      <th className="text-right py-2 font-medium">Cost</th>
+                      <th className="text-right py-2 font-medium">Sale value</th>
+                      <th className="text-right py-2 font-medium">Gain</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.sales.map(sale => (
+                      <tr key={sale.applicationId} className="border-b border-border last:border-b-0" data-testid={`row-tax-sale-${sale.applicationId}`}>
+                        <td className="py-2 font-medium">{sale.symbol}</td>
+                        <td className="py-2">{sale.accountLabel}</td>
+                        <td className="py-2">
+                          {format(new Date(sale.acquiredOn), "MMM d, yyyy")} → {format(new Date(sale.soldOn), "MMM d, yyyy")}
+                          <p className="text-xs text-muted-foreground">{sale.holdingDays} days</p>
+                        </td>
+                        <td className="py-2">
+                          <Badge variant="outline" className={sale.gainType === "long_term" ? "bg-blue-50 text-blue-700 border-blue-200" : "bg-orange-50 text-orange-700 border-orange-200"}>
+                            {GAIN_TYPES[sale.gainType]}
+                          </Badge>
+                        </td>
+                        <td className="py-2 text-right tabular-nums">{sale.shares}</td>
+                        <td className="py-2 text-right tabular-nums">
+                          {formatRupees(sale.cost)}
+                          {sale.grandfathered && <p className="text-xs text-muted-foreground">Grandfathered at {formatRupees(sale.costPrice)}</p>}
+                        </td>
+                        <td className="py-2 text-right tabular-nums">{formatRupees(sale.saleValue)}</td>
+                        <td className={`py-2 text-right tabular-nums ${sale.gain < 0 ? "text-red-600" : "text-green-600"}`}>{formatRupees(sale.gain)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <div className="text-xs text-muted-foreground space-y-1">
+        {report.skipped > 0 && (
+          <p className="text-orange-700">
+            {report.skipped} sale{report.skipped === 1 ? " is" : "s are"} left out because no allotment, listing or application date is recorded.
+          </p>
+        )}
+        {report.rules.map(rule => (
+          <p key={rule.id}>
+            From {format(new Date(rule.effectiveFrom), "d MMM yyyy")}: STCG {rule.stcgRate}%, LTCG {rule.ltcgRate}% above {formatRupees(rule.ltcgExemption)} a year, cess {rule.cessRate}%.
+          </p>
+        ))}
+        <p>
+          Shares held more than 12 months from allotment are long-term. Short-term losses are set off against long-term gains first; the exemption applies per account.
+          Tax is an estimate before surcharge and rebates, and losses brought forward from earlier years are not included.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,397 @@
+import { useState } from "react";
+import { Link, useLocation, useRoute } from "wouter";
+import { format, formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useIpos } from "@/hooks/use-ipos";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  useTeamWatchlist,
+  useRenameTeamWatchlist,
+  useDeleteTeamWatchlist,
+  useAddTeamWatchlistItem,
+  useRemoveTeamWatchlistItem,
+  useInviteTeamMember,
+  useRevokeTeamInvite,
+  useUpdateTeamMember,
+  useRemoveTeamMember,
+} from "@/hooks/use-team-watchlists";
+import { Loader2, ArrowLeft, Trash2, Pencil, UserPlus, LogOut, X, Check } from "lucide-react";
+import type { TeamActivityEntry } from "@shared/schema";
+import { TEAM_ROLES, canEditTeamWatchlist, canManageTeamWatchlist, type TeamRole } from "@shared/team-watchlists";
+
+type MemberRole = Exclude<TeamRole, "owner">;
+
+function describeActivity(entry: TeamActivityEntry): string {
+  const ipo = entry.ipo ? entry.ipo.symbol : "an IPO";
+  switch (entry.action) {
+    case "created": return "created the list";
+    case "renamed": return `renamed the list to "${entry.subject}"`;
+    case "ipo_added": return `added ${ipo}`;
+    case "ipo_removed": return `removed ${ipo}`;
+    case "member_invited": return `invited ${entry.subject}`;
+    case "invite_revoked": return `revoked the invite for ${entry.subject}`;
+    case "member_joined": return `joined as ${entry.subject?.toLowerCase()}`;
+    case "role_changed": return `changed a role (${entry.subject})`;
+    case "member_removed": return `removed ${entry.subject ?? "a member"}`;
+    case "member_left": return "left the list";
+    default: return entry.action;
+  }
+}
+
+export default function TeamWatchlistDetail() {
+  const [, params] = useRoute("/team-watchlists/:id");
+  const id = Number(params?.id);
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: detail, isLoading } = useTeamWatchlist(id);
+  const { data: ipos } = useIpos();
+  const renameList = useRenameTeamWatchlist();
+  const deleteList = useDeleteTeamWatchlist();
+  const addItem = useAddTeamWatchlistItem();
+  const removeItem = useRemoveTeamWatchlistItem();
+  const invite = useInviteTeamMember();
+  const revokeInvite = useRevokeTeamInvite();
+  const updateMember = useUpdateTeamMember();
+  const removeMember = useRemoveTeamMember();
+
+  const [newName, setNewName] = useState<string | null>(null);
+  const [ipoId, setIpoId] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<MemberRole>("editor");
+
+  const onError = (title: string) => (error: Error) => toast({ title, description: error.message, variant: "destructive" });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-[50vh]">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!detail) {
+    return (
+      <div className="max-w-5xl mx-auto text-center py-16">
+        <h2 className="text-xl font-bold text-foreground mb-2">Team watchlist not found</h2>
+        <p className="text-muted-foreground mb-6">It may have been deleted, or you are no longer a member.</p>
+        <Link href="/team-watchlists">
+          <Button variant="outline">Back to team watchlists</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const { list, role } = detail;
+  const canEdit = canEditTeamWatchlist(role);
+  const canManage = canManageTeamWatchlist(role);
+  const listedIds = new Set(detail.items.map(item => item.ipoId));
+
+  const handleRename = () => {
+    if (!newName?.trim()) return;
+    renameList.mutate({ id: list.id, name: newName }, {
+      onSuccess: () => setNewName(null),
+      onError: onError("Could not rename list"),
+    });
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete "${list.name}" for everyone? Alert rules scoped to it are switched off.`)) return;
+    deleteList.mutate(list.id, {
+      onSuccess: () => {
+        toast({ title: "Team watchlist deleted" });
+        setLocation("/team-watchlists");
+      },
+      onError: onError("Could not delete list"),
+    });
+  };
+
+  const handleLeave = () => {
+    if (!user || !window.confirm(`Leave "${list.name}"?`)) return;
+    removeMember.mutate({ id: list.id, userId: user.id }, {
+      onSuccess: () => {
+        toast({ title: `You left "${list.name}"` });
+        setLocation("/team-watchlists");
+      },
+      onError: onError("Could not leave list"),
+    });
+  };
+
+  const handleAdd = () => {
+    addItem.mutate({ id: list.id, ipoId: Number(ipoId) }, {
+      onSuccess: () => setIpoId(""),
+      onError: onError("Could not add IPO"),
+    });
+  };
+
+  const handleInvite = () => {
+    invite.mutate({ id: list.id, email: inviteEmail, role: inviteRole }, {
+      onSuccess: (created) => {
+        toast({
+          title: "Invite sent",
+          description: created.emailSent
+            ? `${created.email} will get an email with a link to join.`
+            : `Email is not configured; ${created.email} will see the invite on their Team Watchlists page.`,
+        });
+        setInviteEmail("");
+      },
+      onError: onError("Could not send invite"),
+    });
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <Link href="/team-watchlists" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground mb-2">
+            <ArrowLeft className="w-4 h-4" />
+            Team Watchlists
+          </Link>
+          {newName === null ? (
+            <div className="flex items-center gap-2">
+              <h1 className="text-2xl font-bold text-foreground" data-testid="text-team-watchlist-name">{list.name}</h1>
+              <Badge variant="secondary">{TEAM_ROLES[role]}</Badge>
+              {canManage && (
+                <Button variant="ghost" size="icon" onClick={() => setNewName(list.name)} data-testid="button-rename-team-watchlist">
+                  <Pencil className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ) : (
+            <div className="flex items-center gap-2">
+              <Input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleRename()}
+                className="w-72"
+                data-testid="input-rename-team-watchlist"
+              />
+              <Button variant="ghost" size="icon" onClick={handleRename} disabled={renameList.isPending}>
+                <Check className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => setNewName(null)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+        {canManage ? (
+          <Button variant="outline" onClick={handleDelete} disabled={deleteList.isPending} className="text-red-600" data-testid="button-delete-team-watchlist">
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete list
+          </Button>
+        ) : (
+          <Button variant="outline" onClick={handleLeave} disabled={removeMember.isPending} data-testid="button-leave-team-watchlist">
+            <LogOut className="w-4 h-4 mr-2" />
+            Leave list
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">IPOs ({detail.items.length})</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {canEdit && (
+                <div className="flex gap-2">
+                  <Select value={ipoId} onValueChange={setIpoId}>
+                    <SelectTrigger className="flex-1" data-testid="select-team-watchlist-ipo">
+                      <SelectValue placeholder="Add an IPO to the list" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ipos?.filter(ipo => !listedIds.has(ipo.id)).map(ipo => (
+                        <SelectItem key={ipo.id} value={String(ipo.id)}>{ipo.companyName} ({ipo.symbol})</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    onClick={handleAdd}
+                    disabled={!ipoId || addItem.isPending}
+                    className="bg-primary text-white hover:bg-primary/90"
+                    data-testid="button-add-team-watchlist-ipo"
+                  >
+                    Add
+                  </Button>
+                </div>
+              )}
+              {detail.items.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No IPOs on this list yet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-border text-muted-foreground">
+                        <th className="text-left py-2 font-medium">IPO</th>
+                        <th className="text-left py-2 font-medium">Status</th>
+                        <th className="text-left py-2 font-medium">Opens</th>
+                        <th className="text-right py-2 font-medium">GMP</th>
+                        <th className="text-left py-2 pl-4 font-medium">Added by</th>
+                        {canEdit && <th />}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {detail.items.map(item => (
+                        <tr key={item.id} className="border-b border-border last:border-b-0" data-testid={`row-team-item-${item.ipoId}`}>
+                          <td className="py-2">
+                            <Link href={`/ipos/${item.ipo.id}`} className="font-medium hover:text-primary">{item.ipo.symbol}</Link>
+                            <p className="text-xs text-muted-foreground truncate max-w-[200px]">{item.ipo.companyName}</p>
+                          </td>
+                          <td className="py-2 capitalize">{item.ipo.status}</td>
+                          <td className="py-2">{item.ipo.expectedDate ? format(new Date(item.ipo.expectedDate), "dd MMM yyyy") : "TBA"}</td>
+                          <td className="py-2 text-right tabular-nums">{item.ipo.gmp !== null ? `₹${item.ipo.gmp}` : "-"}</td>
+                          <td className="py-2 pl-4 text-muted-foreground">{item.addedByName ?? "-"}</td>
+                          {canEdit && (
+                            <td className="py-2 text-right">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="text-muted-foreground hover:text-red-600"
+                                onClick={() => removeItem.mutate({ id: list.id, itemId: item.id }, { onError: onError("Could not remove IPO") })}
+                                data-testid={`button-remove-team-item-${item.ipoId}`}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </td>
+                          )}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Activity</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2" data-testid="list-team-activity">
+                {detail.activity.map(entry => (
+                  <p key={entry.id} className="text-sm">
+                    <span className="font-medium text-foreground">{entry.actorName ?? "Someone"}</span>{" "}
+                    <span className="text-muted-foreground">{describeActivity(entry)}</span>
+                    {entry.createdAt && (
+                      <span className="text-xs text-muted-foreground"> · {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}</span>
+                    )}
+                  </p>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="h-fit">
+          <CardHeader>
+            <CardTitle className="text-base">Members ({detail.members.length})</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-3">
+              {detail.members.map(member => (
+                <div key={member.userId} className="flex items-center justify-between gap-2" data-testid={`row-team-member-${member.userId}`}>
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-foreground truncate">{member.name}{member.userId === user?.id ? " (you)" : ""}</p>
+                    {member.email && <p className="text-xs text-muted-foreground truncate">{member.email}</p>}
+                  </div>
+                  {canManage && member.role !== "owner" ? (
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Select
+                        value={member.role}
+                        onValueChange={(value: MemberRole) => updateMember.mutate({ id: list.id, userId: member.userId, role: value }, { onError: onError("Could not change role") })}
+                      >
+                        <SelectTrigger className="w-[100px] h-8" data-testid={`select-team-member-role-${member.userId}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="editor">{TEAM_ROLES.editor}</SelectItem>
+                          <SelectItem value="viewer">{TEAM_ROLES.viewer}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-muted-foreground hover:text-red-600"
+                        onClick={() => removeMember.mutate({ id: list.id, userId: member.userId }, { onError: onError("Could not remove member") })}
+                        data-testid={`button-remove-team-member-${member.userId}`}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <Badge variant="outline" className="shrink-0">{TEAM_ROLES[member.role]}</Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {canManage && (
+              <div className="space-y-2 border-t border-border pt-4">
+                <p className="text-sm font-medium text-foreground">Invite by email</p>
+                <Input
+                  type="email"
+                  placeholder="analyst@example.com"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  data-testid="input-team-invite-email"
+                />
+                <div className="flex gap-2">
+                  <Select value={inviteRole} onValueChange={(value: MemberRole) => setInviteRole(value)}>
+                    <SelectTrigger className="flex-1" data-testid="select-team-invite-role">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="editor">{TEAM_ROLES.editor}</SelectItem>
+                      <SelectItem value="viewer">{TEAM_ROLES.viewer}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    onClick={handleInvite}
+                    disabled={!inviteEmail.trim() || invite.isPending}
+                    className="bg-primary text-white hover:bg-primary/90"
+                    data-testid="button-send-team-invite"
+                  >
+                    <UserPlus className="w-4 h-4 mr-1" />
+                    Invite
+                  </Button>
+                </div>
+                {detail.invites.length > 0 && (
+                  <div className="space-y-2 pt-2">
+                    <p className="text-xs text-muted-foreground">Pending invites</p>
+                    {detail.invites.map(pending => (
+                      <div key={pending.id} className="flex items-center justify-between gap-2 text-sm" data-testid={`row-team-pending-invite-${pending.id}`}>
+                        <div className="min-w-0">
+                          <p className="truncate">{pending.email}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {TEAM_ROLES[pending.role as TeamRole]} · expires {format(new Date(pending.expiresAt), "d MMM")}
+                          </p>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => revokeInvite.mutate({ id: list.id, inviteId: pending.id }, { onError: onError("Could not revoke invite") })}
+                          data-testid={`button-revoke-team-invite-${pending.id}`}
+                        >
+                          Revoke
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
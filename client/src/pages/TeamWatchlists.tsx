@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useTeamWatchlists,
+  useCreateTeamWatchlist,
+  useReceivedTeamInvites,
+  useTeamInvite,
+  useRespondToTeamInvite,
+} from "@/hooks/use-team-watchlists";
+import { Loader2, Users, Plus, Mail } from "lucide-react";
+import type { ReceivedTeamInvite } from "@shared/schema";
+import { TEAM_ROLES, type TeamRole } from "@shared/team-watchlists";
+
+function InviteRow({ invite, onAnswered }: { invite: ReceivedTeamInvite; onAnswered: () => void }) {
+  const { toast } = useToast();
+  const { mutate: respond, isPending } = useRespondToTeamInvite();
+
+  const answer = (accept: boolean) => {
+    respond({ token: invite.token, accept }, {
+      onSuccess: () => {
+        toast({ title: accept ? "Joined" : "Invite declined", description: accept ? `You are now on "${invite.listName}".` : undefined });
+        onAnswered();
+      },
+      onError: (error) => toast({ title: "Could not answer invite", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 p-3" data-testid={`row-team-invite-${invite.id}`}>
+      <div>
+        <p className="font-medium text-foreground">{invite.listName}</p>
+        <p className="text-xs text-muted-foreground">
+          {invite.invitedByName} invited you as {TEAM_ROLES[invite.role as TeamRole].toLowerCase()} · expires {format(new Date(invite.expiresAt), "d MMM yyyy")}
+        </p>
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" disabled={isPending} onClick={() => answer(false)} data-testid={`button-decline-invite-${invite.id}`}>
+          Decline
+        </Button>
+        <Button
+          size="sm"
+          disabled={isPending}
+          onClick={() => answer(true)}
+          className="bg-primary text-white hover:bg-primary/90"
+          data-testid={`button-accept-invite-${invite.id}`}
+        >
+          Accept
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function TeamWatchlists() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [, setLocation] = useLocation();
+  const [inviteToken, setInviteToken] = useState(() => new URLSearchParams(window.location.search).get("invite"));
+
+  const { data: lists, isLoading } = useTeamWatchlists();
+  const { data: received } = useReceivedTeamInvites();
+  const { data: linkedInvite, isLoading: linkedLoading, error: linkedError } = useTeamInvite(inviteToken);
+  const { mutate: createList, isPending: isCreating } = useCreateTeamWatchlist();
+
+  const handleCreate = () => {
+    createList(name, {
+      onSuccess: (list) => {
+        toast({ title: "Team watchlist created", description: `Invite your team to "${list.name}".` });
+        setName("");
+      },
+      onError: (error) => toast({ title: "Could not create list", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-[50vh]">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  // The invite from the emailed link may also be addressed to the user's email
+  const invites = [
+    ...(linkedInvite ? [linkedInvite] : []),
+    ...(received ?? []).filter(invite => invite.id !== linkedInvite?.id),
+  ];
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground mb-1">Team Watchlists</h1>
+        <p className="text-muted-foreground">Curate IPO picks together. Owners manage members, editors add and remove IPOs, viewers follow along.</p>
+      </div>
+
+      {inviteToken && !linkedLoading && !linkedInvite && (
+        <p className="text-sm text-orange-700" data-testid="text-invite-expired">
+          {linkedError?.message ?? "This invite has expired or was already used. Ask the list owner to send a new one."}
+        </p>
+      )}
+
+      {invites.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <Mail className="w-4 h-4" />
+              Invites
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="divide-y divide-border rounded-lg border border-border">
+              {invites.map(invite => (
+                <InviteRow
+                  key={invite.id}
+                  invite={invite}
+                  onAnswered={() => {
+                    // Drop the used token from the address bar
+                    if (invite.token === inviteToken) {
+                      setInviteToken(null);
+                      setLocation("/team-watchlists");
+                    }
+                  }}
+                />
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="flex gap-3 bg-card p-4 rounded-lg border border-border">
+        <Input
+          placeholder="New list name, e.g. Q3 mainboard picks"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && name.trim() && handleCreate()}
+          className="bg-background border-border"
+          data-testid="input-team-watchlist-name"
+        />
+        <Button
+          onClick={handleCreate}
+          disabled={!name.trim() || isCreating}
+          className="bg-primary text-white hover:bg-primary/90 shrink-0"
+          data-testid="button-create-team-watchlist"
+        >
+          {isCreating ? <Loader2 className="h-4 w-4 animate-spin" /> : <><Plus className="w-4 h-4 mr-1" />Create list</>}
+        </Button>
+      </div>
+
+      {lists?.length === 0 ? (
+        <div className="text-center py-16 bg-card rounded-lg border border-border">
+          <div className="h-16 w-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-6">
+            <Users className="h-7 w-7 text-muted-foreground" />
+          </div>
+          <h2 className="text-xl font-bold text-foreground mb-2">No team watchlists yet</h2>
+          <p className="text-muted-foreground max-w-sm mx-auto">
+            Create a list and invite your team by email, or accept an invite you received.
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {lists?.map(list => (
+            <Link key={list.id} href={`/team-watchlists/${list.id}`}>
+              <Card className="cursor-pointer hover:border-primary transition-colors" data-testid={`card-team-watchlist-${list.id}`}>
+                <CardContent className="pt-6">
+                  <div className="flex items-start justify-between gap-2">
+                    <p className="font-bold text-foreground">{list.name}</p>
+                    <Badge variant="secondary">{TEAM_ROLES[list.role]}</Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {list.itemCount} IPO{list.itemCount === 1 ? "" : "s"} · {list.memberCount} member{list.memberCount === 1 ? "" : "s"}
+                  </p>
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,94 @@
-import { useWatchlist, useRemoveFromWatchlist } from "@/hooks/use-ipos";
+import { useState } from "react";
+import { useWatchlist, useRemoveFromWatchlist, useUpdateWatchlistItem } from "@/hooks/use-ipos";
 import { Button } from "@/components/ui/button";
-import { Loader2, Trash2, Bookmark } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, Trash2, Bookmark, Pencil, Target, X } from "lucide-react";
 import { Link } from "wouter";
 import { format } from "date-fns";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import type { Ipo, WatchlistItem } from "@shared/schema";
+import { MAX_WATCHLIST_NOTES_LENGTH, MAX_WATCHLIST_TAGS, SUGGESTED_WATCHLIST_TAGS } from "@shared/watchlist";
+
+type WatchlistEntry = WatchlistItem & { ipo: Ipo };
+type GroupBy = "none" | "tag" | "month";
+type SortBy = "date-asc" | "date-desc" | "tag" | "added";
+
+const UNTAGGED = "Untagged";
+const NO_DATE = "Date TBA";
+
+function openTime(entry: WatchlistEntry): number {
+  return entry.ipo.expectedDate ? new Date(entry.ipo.expectedDate).getTime() : Number.POSITIVE_INFINITY;
+}
+
+function compareEntries(sortBy: SortBy) {
+  return (a: WatchlistEntry, b: WatchlistEntry): number => {
+    switch (sortBy) {
+      case "date-asc": return openTime(a) - openTime(b);
+      case "date-desc": {
+        // Undated IPOs stay last either way
+        if (!a.ipo.expectedDate || !b.ipo.expectedDate) return openTime(a) - openTime(b);
+        return openTime(b) - openTime(a);
+      }
+      case "tag": {
+        // Untagged IPOs go last
+        if (!a.tags[0] || !b.tags[0]) return Number(!a.tags[0]) - Number(!b.tags[0]) || openTime(a) - openTime(b);
+        return a.tags[0].localeCompare(b.tags[0]) || openTime(a) - openTime(b);
+      }
+      case "added": return new Date(b.createdAt ?? 0).getTime() - new Date(a.createdAt ?? 0).getTime();
+    }
+  };
+}
+
+// An item with several tags shows up under each of them
+function groupEntries(entries: WatchlistEntry[], groupBy: GroupBy): { label: string; items: WatchlistEntry[] }[] {
+  if (groupBy === "none") return [{ label: "", items: entries }];
+  const groups = new Map<string, WatchlistEntry[]>();
+  for (const entry of entries) {
+    const labels = groupBy === "tag"
+      ? (entry.tags.length > 0 ? entry.tags : [UNTAGGED])
+      : [entry.ipo.expectedDate ? format(new Date(entry.ipo.expectedDate), "MMMM yyyy") : NO_DATE];
+    for (const label of labels) {
+      groups.set(label, [...(groups.get(label) ?? []), entry]);
+    }
+  }
+  const result = Array.from(groups, ([label, items]) => ({ label, items }));
+  if (groupBy === "tag") {
+    result.sort((a, b) => a.label === UNTAGGED ? 1 : b.label === UNTAGGED ? -1 : a.label.localeCompare(b.label));
+  } else {
+    const earliest = (items: WatchlistEntry[]) => Math.min(...items.map(openTime));
+    result.sort((a, b) => earliest(a.items) - earliest(b.items));
+  }
+  return result;
+}
 
 export default function Watchlist() {
   const { data: watchlist, isLoading } = useWatchlist();
   const { mutate: removeFromWatchlist } = useRemoveFromWatchlist();
+  const { mutate: updateItem, isPending: isSaving } = useUpdateWatchlistItem();
   const { toast } = useToast();
 
+  const [tagFilter, setTagFilter] = useState("all");
+  const [groupBy, setGroupBy] = useState<GroupBy>("none");
+  const [sortBy, setSortBy] = useState<SortBy>("date-asc");
+
+  const [editing, setEditing] = useState<WatchlistEntry | null>(null);
+  const [notes, setNotes] = useState("");
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState("");
+  const [targetGmp, setTargetGmp] = useState("");
+
   const handleRemove = (id: number, symbol: string) => {
     removeFromWatchlist(id, {
       onSuccess: () => {
@@ -22,6 +100,43 @@ export default function Watchlist() {
     });
   };
 
+  const openEditor = (entry: WatchlistEntry) => {
+    setEditing(entry);
+    setNotes(entry.notes ?? "");
+    setTags(entry.tags);
+    setTagInput("");
+    setTargetGmp(entry.targetGmp === null ? "" : String(entry.targetGmp));
+  };
+
+  const addTag = (value: string) => {
+    const tag = value.trim().toLowerCase();
+    if (tag && !tags.includes(tag) && tags.length < MAX_WATCHLIST_TAGS) setTags([...tags, tag]);
+    setTagInput("");
+  };
+
+  const handleSave = () => {
+    if (!editing) return;
+    // A tag typed but not yet added is saved too
+    const pending = tagInput.trim().toLowerCase();
+    updateItem(
+      {
+        id: editing.id,
+        notes: notes.trim() || null,
+        tags: pending && !tags.includes(pending) ? [...tags, pending] : tags,
+        targetGmp: targetGmp === "" ? null : Number(targetGmp),
+      },
+      {
+        onSuccess: () => {
+          toast({ title: "Saved", description: `${editing.ipo.symbol} updated.` });
+          setEditing(null);
+        },
+        onError: (error) => {
+          toast({ title: "Could not save", description: error.message, variant: "destructive" });
+        },
+      },
+    );
+  };
+
   const getStatusStyles = (status: string) => {
     switch(status.toLowerCase()) {
       case 'open': return "bg-green-50 text-green-700 border-green-200";
@@ -38,6 +153,12 @@ export default function Watchlist() {
     );
   }
 
+  const allTags = Array.from(new Set(watchlist?.flatMap(item => item.tags) ?? [])).sort();
+  const visible = (watchlist ?? [])
+    .filter(item => tagFilter === "all" || (tagFilter === UNTAGGED ? item.tags.length === 0 : item.tags.includes(tagFilter)))
+    .sort(compareEntries(sortBy));
+  const groups = groupEntries(visible, groupBy);
+
   return (
     <div className="max-w-5xl mx-auto space-y-6">
       <div>
@@ -55,8 +176,8 @@ export default function Watchlist() {
             Start tracking companies by browsing the dashboard and adding them to your list.
           </p>
           <Link href="/dashboard">
-            <Button 
-              size="lg" 
+            <Button
+              size="lg"
               className="bg-primary text-white hover:bg-primary/90"
               data-testid="button-browse-ipos"
             >
@@ -65,71 +186,238 @@ export default function Watchlist() {
           </Link>
         </div>
       ) : (
-        <div className="bg-card rounded-lg border border-border overflow-hidden">
-          <div className="grid grid-cols-12 gap-4 p-4 border-b border-border bg-muted text-xs font-medium text-muted-foreground uppercase tracking-wider">
-            <div className="col-span-4 sm:col-span-3">Company</div>
-            <div className="col-span-3 sm:col-span-2">Status</div>
-            <div className="col-span-3 sm:col-span-2 hidden sm:block">Date</div>
-            <div className="col-span-2 sm:col-span-2 hidden sm:block">Price Range</div>
-            <div className="col-span-2 sm:col-span-2 hidden sm:block">Sector</div>
-            <div className="col-span-5 sm:col-span-1 text-right">Actions</div>
+        <>
+          <div className="flex flex-wrap gap-3 bg-card p-4 rounded-lg border border-border">
+            <Select value={tagFilter} onValueChange={setTagFilter}>
+              <SelectTrigger className="w-[160px] bg-background border-border" data-testid="select-watchlist-tag">
+                <SelectValue placeholder="Tag" />
+              </SelectTrigger>
+              <SelectContent className="bg-card border-border">
+                <SelectItem value="all">All Tags</SelectItem>
+                {allTags.map(tag => (
+                  <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+                ))}
+                <SelectItem value={UNTAGGED}>{UNTAGGED}</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Select value={groupBy} onValueChange={(val: GroupBy) => setGroupBy(val)}>
+              <SelectTrigger className="w-[170px] bg-background border-border" data-testid="select-watchlist-group">
+                <SelectValue placeholder="Group" />
+              </SelectTrigger>
+              <SelectContent className="bg-card border-border">
+                <SelectItem value="none">No grouping</SelectItem>
+                <SelectItem value="tag">Group by tag</SelectItem>
+                <SelectItem value="month">Group by open month</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Select value={sortBy} onValueChange={(val: SortBy) => setSortBy(val)}>
+              <SelectTrigger className="w-[170px] bg-background border-border" data-testid="select-watchlist-sort">
+                <SelectValue placeholder="Sort" />
+              </SelectTrigger>
+              <SelectContent className="bg-card border-border">
+                <SelectItem value="date-asc">Opening soonest</SelectItem>
+                <SelectItem value="date-desc">Opening latest</SelectItem>
+                <SelectItem value="tag">Tag A-Z</SelectItem>
+                <SelectItem value="added">Recently added</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
-          
-          <div className="divide-y divide-border">
-            {watchlist?.map((item) => (
-              <div 
-                key={item.id}
-                className="grid grid-cols-12 gap-4 p-4 items-center hover:bg-muted/50 transition-colors"
-                data-testid={`watchlist-row-${item.ipo.id}`}
-              >
-                <div className="col-span-4 sm:col-span-3">
-                  <Link href={`/ipos/${item.ipo.id}`}>
-                    <div className="cursor-pointer group">
-                      <div className="font-bold text-foreground group-hover:text-primary transition-colors">
-                        {item.ipo.symbol}
-                      </div>
-                      <div className="text-sm text-muted-foreground truncate">{item.ipo.companyName}</div>
-                    </div>
-                  </Link>
-                </div>
-                
-                <div className="col-span-3 sm:col-span-2">
-                  <Badge 
-                    variant="outline" 
-                    className={`text-xs font-medium capitalize px-2.5 py-0.5 rounded-full border ${getStatusStyles(item.ipo.status)}`}
-                  >
-                    {item.ipo.status}
-                  </Badge>
-                </div>
-                
-                <div className="col-span-3 sm:col-span-2 hidden sm:block text-sm text-muted-foreground">
-                  {item.ipo.expectedDate ? format(new Date(item.ipo.expectedDate), "dd MMM yyyy") : "TBA"}
-                </div>
-                
-                <div className="col-span-2 sm:col-span-2 hidden sm:block text-sm font-medium text-foreground">
-                  {item.ipo.priceRange}
+
+          {visible.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No IPOs on your watchlist have this tag.</p>
+          ) : groups.map(group => (
+            <div key={group.label} className="space-y-2" data-testid={`watchlist-group-${group.label || "all"}`}>
+              {group.label && (
+                <h2 className="text-sm font-semibold text-foreground">
+                  {group.label} <span className="text-muted-foreground font-normal">({group.items.length})</span>
+                </h2>
+              )}
+              <div className="bg-card rounded-lg border border-border overflow-hidden">
+                <div className="grid grid-cols-12 gap-4 p-4 border-b border-border bg-muted text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                  <div className="col-span-4 sm:col-span-3">Company</div>
+                  <div className="col-span-3 sm:col-span-2">Status</div>
+                  <div className="col-span-3 sm:col-span-2 hidden sm:block">Date</div>
+                  <div className="col-span-2 sm:col-span-2 hidden sm:block">Price Range</div>
+                  <div className="col-span-2 sm:col-span-2 hidden sm:block">GMP / Target</div>
+                  <div className="col-span-5 sm:col-span-1 text-right">Actions</div>
                 </div>
-                
-                <div className="col-span-2 sm:col-span-2 hidden sm:block text-sm text-muted-foreground truncate">
-                  {item.ipo.sector || '-'}
+
+                <div className="divide-y divide-border">
+                  {group.items.map((item) => {
+                    const targetReached = item.targetGmp !== null && item.ipo.gmp !== null && item.ipo.gmp >= item.targetGmp;
+                    return (
+                      <div
+                        key={item.id}
+                        className={`grid grid-cols-12 gap-4 p-4 items-center hover:bg-muted/50 transition-colors ${targetReached ? "bg-green-50/60" : ""}`}
+                        data-testid={`watchlist-row-${item.ipo.id}`}
+                      >
+                        <div className="col-span-4 sm:col-span-3 min-w-0">
+                          <Link href={`/ipos/${item.ipo.id}`}>
+                            <div className="cursor-pointer group">
+                              <div className="font-bold text-foreground group-hover:text-primary transition-colors">
+                                {item.ipo.symbol}
+                              </div>
+                              <div className="text-sm text-muted-foreground truncate">{item.ipo.companyName}</div>
+                            </div>
+                          </Link>
+                          {item.tags.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {item.tags.map(tag => (
+                                <Badge key={tag} variant="secondary" className="text-[10px] px-1.5 py-0" data-testid={`tag-${item.ipo.id}-${tag}`}>
+                                  {tag}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
+                          {item.notes && (
+                            <p className="text-xs text-muted-foreground mt-1 line-clamp-2" title={item.notes}>{item.notes}</p>
+                          )}
+                        </div>
+
+                        <div className="col-span-3 sm:col-span-2">
+                          <Badge
+                            variant="outline"
+                            className={`text-xs font-medium capitalize px-2.5 py-0.5 rounded-full border ${getStatusStyles(item.ipo.status)}`}
+                          >
+                            {item.ipo.status}
+                          </Badge>
+                        </div>
+
+                        <div className="col-span-3 sm:col-span-2 hidden sm:block text-sm text-muted-foreground">
+                          {item.ipo.expectedDate ? format(new Date(item.ipo.expectedDate), "dd MMM yyyy") : "TBA"}
+                        </div>
+
+                        <div className="col-span-2 sm:col-span-2 hidden sm:block text-sm font-medium text-foreground">
+                          {item.ipo.priceRange}
+                        </div>
+
+                        <div className="col-span-2 sm:col-span-2 hidden sm:block text-sm">
+                          <span className="text-foreground">{item.ipo.gmp !== null ? `₹${item.ipo.gmp}` : "-"}</span>
+                          {item.targetGmp !== null && (
+                            <span
+                              className={`ml-1 inline-flex items-center gap-0.5 text-xs ${targetReached ? "text-green-700 font-semibold" : "text-muted-foreground"}`}
+                              data-testid={`target-gmp-${item.ipo.id}`}
+                            >
+                              <Target className="w-3 h-3" />
+                              ₹{item.targetGmp}
+                            </span>
+                          )}
+                        </div>
+
+                        <div className="col-span-5 sm:col-span-1 flex justify-end">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-muted-foreground hover:text-foreground transition-colors"
+                            onClick={() => openEditor(item)}
+                            data-testid={`button-edit-${item.ipo.id}`}
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-muted-foreground hover:text-red-600 hover:bg-red-50 transition-colors"
+                            onClick={() => handleRemove(item.id, item.ipo.symbol)}
+                            data-testid={`button-remove-${item.ipo.id}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
                 </div>
-                
-                <div className="col-span-5 sm:col-span-1 flex justify-end">
-                  <Button 
-                    variant="ghost" 
-                    size="icon" 
-                    className="text-muted-foreground hover:text-red-600 hover:bg-red-50 transition-colors"
-                    onClick={() => handleRemove(item.id, item.ipo.symbol)}
-                    data-testid={`button-remove-${item.ipo.id}`}
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </Button>
+              </div>
+            </div>
+          ))}
+        </>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing?.ipo.symbol}</DialogTitle>
+            <DialogDescription>Notes, tags and target GMP are only visible to you.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="watchlist-notes">Notes</Label>
+              <Textarea
+                id="watchlist-notes"
+                rows={4}
+                maxLength={MAX_WATCHLIST_NOTES_LENGTH}
+                placeholder="Why you are tracking this IPO"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                data-testid="input-watchlist-notes"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="watchlist-tag">Tags</Label>
+              {tags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {tags.map(tag => (
+                    <Badge key={tag} variant="secondary" className="gap-1">
+                      {tag}
+                      <button type="button" onClick={() => setTags(tags.filter(t => t !== tag))} aria-label={`Remove ${tag}`}>
+                        <X className="w-3 h-3" />
+                      </button>
+                    </Badge>
+                  ))}
                 </div>
+              )}
+              <Input
+                id="watchlist-tag"
+                placeholder="Type a tag and press Enter"
+                value={tagInput}
+                disabled={tags.length >= MAX_WATCHLIST_TAGS}
+                onChange={(e) => setTagInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" || e.key === ",") {
+                    e.preventDefault();
+                    addTag(tagInput);
+                  }
+                }}
+                data-testid="input-watchlist-tag"
+              />
+              <div className="flex flex-wrap gap-1">
+                {[...SUGGESTED_WATCHLIST_TAGS, ...allTags]
+                  .filter((tag, i, list) => list.indexOf(tag) === i && !tags.includes(tag))
+                  .map(tag => (
+                    <Button key={tag} type="button" variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={() => addTag(tag)}>
+                      + {tag}
+                    </Button>
+                  ))}
               </div>
-            ))}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="watchlist-target-gmp">Target GMP (₹)</Label>
+              <Input
+                id="watchlist-target-gmp"
+                type="number"
+                step="1"
+                placeholder="Highlight once the GMP reaches this"
+                value={targetGmp}
+                onChange={(e) => setTargetGmp(e.target.value)}
+                data-testid="input-watchlist-target-gmp"
+              />
+            </div>
           </div>
-        </div>
-      )}
+          <DialogFooter>
+            <Button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="bg-foreground text-background hover:bg-foreground/90"
+              data-testid="button-save-watchlist-item"
+            >
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,425 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useState } from "react";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { Plus, Copy, Trash2, RefreshCw, Loader2, Webhook, RotateCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useApiUsage } from "@/hooks/use-api-keys";
+import {
+  useWebhooks,
+  useCreateWebhook,
+  useUpdateWebhook,
+  useRotateWebhookSecret,
+  useDeleteWebhook,
+  useWebhookDeliveries,
+  useRedeliverWebhook,
+} from "@/hooks/use-webhooks";
+import { getPlan } from "@shared/plans";
+import { WEBHOOK_EVENT_TYPES, WEBHOOK_SIGNATURE_HEADER, type WebhookEventType } from "@shared/webhooks";
+import type { WebhookDelivery } from "@shared/schema";
+
+const EVENT_TYPES = Object.keys(WEBHOOK_EVENT_TYPES) as WebhookEventType[];
+
+const DELIVERY_STATUS_STYLES: Record<string, string> = {
+  pending: "bg-blue-50 text-blue-600 border-blue-200",
+  succeeded: "bg-green-50 text-green-600 border-green-200",
+  retrying: "bg-yellow-50 text-yellow-700 border-yellow-200",
+  failed: "bg-red-50 text-red-600 border-red-200",
+};
+
+export default function Webhooks() {
+  const { toast } = useToast();
+  const { data: usage } = useApiUsage();
+  const { data: endpoints, isLoading } = useWebhooks();
+  const createWebhook = useCreateWebhook();
+  const updateWebhook = useUpdateWebhook();
+  const rotateSecret = useRotateWebhookSecret();
+  const deleteWebhook = useDeleteWebhook();
+  const redeliver = useRedeliverWebhook();
+
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [events, setEvents] = useState<WebhookEventType[]>(EVENT_TYPES);
+  // Plaintext secret from the last create/rotate - the server never returns it again
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [openDelivery, setOpenDelivery] = useState<WebhookDelivery | null>(null);
+
+  const { data: deliveries, isLoading: deliveriesLoading } = useWebhookDeliveries(selectedId);
+  const selected = endpoints?.find((endpoint) => endpoint.id === selectedId);
+  const plan = getPlan(usage?.planId);
+
+  const showError = (err: Error) => {
+    toast({ title: "Error", description: err.message, variant: "destructive" });
+  };
+
+  const toggleEvent = (event: WebhookEventType, checked: boolean) => {
+    setEvents(checked ? [...events, event] : events.filter((e) => e !== event));
+  };
+
+  const handleCreate = () => {
+    createWebhook.mutate({ url, description: description || null, events }, {
+      onSuccess: (created) => {
+        setIsCreateOpen(false);
+        setUrl("");
+        setDescription("");
+        setEvents(EVENT_TYPES);
+        setSelectedId(created.id);
+        setRevealedSecret(created.secret);
+      },
+      onError: showError,
+    });
+  };
+
+  const handleRotate = (id: number) => {
+    rotateSecret.mutate(id, {
+      onSuccess: (rotated) => setRevealedSecret(rotated.secret),
+      onError: showError,
+    });
+  };
+
+  const handleDelete = (id: number) => {
+    deleteWebhook.mutate(id, {
+      onSuccess: () => {
+        if (selectedId === id) setSelectedId(null);
+        toast({ title: "Webhook endpoint deleted" });
+      },
+      onError: showError,
+    });
+  };
+
+  const handleRedeliver = (deliveryId: number) => {
+    redeliver.mutate(deliveryId, {
+      onSuccess: (delivery) => toast({
+        title: delivery.status === "succeeded" ? "Event redelivered" : "Redelivery failed",
+        description: delivery.error || `HTTP ${delivery.responseStatus}`,
+        variant: delivery.status === "succeeded" ? "default" : "destructive",
+      }),
+      onError: showError,
+    });
+  };
+
+  const copySecret = (secret: string) => {
+    navigator.clipboard.writeText(secret);
+    toast({ title: "Signing secret copied to clipboard" });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Webhooks</h1>
+        <p className="text-muted-foreground">Get IPO data changes pushed to your server instead of polling the API</p>
+      </div>
+
+      <Card className="bg-[#f8faf9]">
+        <CardContent className="pt-6">
+          {usage && !plan.webhooks ? (
+            <div className="flex flex-col items-center justify-center py-12 text-muted-foreground text-center">
+              <Webhook className="w-12 h-12 mb-4 opacity-50" />
+              <p className="font-medium">Webhooks are available on paid plans</p>
+              <p className="text-sm mb-4">You are on the {plan.name} plan.</p>
+              <Link href="/billing">
+                <Button className="bg-foreground text-background hover:bg-foreground/90">Upgrade Plan</Button>
+              </Link>
+            </div>
+          ) : (
+            <>
+              <div className="mb-6">
+                <Button
+                  className="gap-2 bg-foreground text-background hover:bg-foreground/90"
+                  onClick={() => setIsCreateOpen(true)}
+                  data-testid="button-create-webhook"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Endpoint
+                </Button>
+              </div>
+
+              {isLoading ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                </div>
+              ) : endpoints?.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+                  <Webhook className="w-12 h-12 mb-4 opacity-50" />
+                  <p className="font-medium">No webhook endpoints yet</p>
+                  <p className="text-sm">
+                    Deliveries are signed in the <code>{WEBHOOK_SIGNATURE_HEADER}</code> header with your endpoint secret.
+                  </p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="text-left text-sm text-muted-foreground border-b">
+                        <th className="pb-3 font-medium">Endpoint</th>
+                        <th className="pb-3 font-medium">Events</th>
+                        <th className="pb-3 font-medium">Created At</th>
+                        <th className="pb-3 font-medium">Active</th>
+                        <th className="pb-3 font-medium">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {endpoints?.map((endpoint) => (
+                        <tr
+                          key={endpoint.id}
+                          className={`border-b last:border-b-0 cursor-pointer ${selectedId === endpoint.id ? "bg-muted/50" : ""}`}
+                          onClick={() => setSelectedId(endpoint.id)}
+                          data-testid={`row-webhook-${endpoint.id}`}
+                        >
+                          <td className="py-4 pr-4">
+                            <code className="text-sm font-mono break-all">{endpoint.url}</code>
+                            {endpoint.description && (
+                              <p className="text-xs text-muted-foreground">{endpoint.description}</p>
+                            )}
+                          </td>
+                          <td className="py-4 pr-4">
+                            <div className="flex flex-wrap gap-1">
+                              {endpoint.events.map((event) => (
+                                <Badge key={event} variant="outline" className="font-mono text-xs">{event}</Badge>
+                              ))}
+                            </div>
+                          </td>
+                          <td className="py-4 text-sm text-muted-foreground whitespace-nowrap">
+                            {endpoint.createdAt ? format(new Date(endpoint.createdAt), "MMMM do, yyyy") : "-"}
+                          </td>
+                          <td className="py-4" onClick={(e) => e.stopPropagation()}>
+                            <Switch
+                              checked={endpoint.status === "active"}
+                              onCheckedChange={(checked) => updateWebhook.mutate(
+                                { id: endpoint.id, status: checked ? "active" : "disabled" },
+                                { onError: showError },
+                              )}
+                              data-testid={`switch-webhook-${endpoint.id}`}
+                            />
+                          </td>
+                          <td className="py-4" onClick={(e) => e.stopPropagation()}>
+                            <div className="flex items-center gap-3">
+                              <button
+                                onClick={() => handleRotate(endpoint.id)}
+                                disabled={rotateSecret.isPending}
+                                className="text-muted-foreground hover:text-foreground"
+                                title="Rotate signing secret"
+                                data-testid={`button-rotate-webhook-${endpoint.id}`}
+                              >
+                                <RefreshCw className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => handleDelete(endpoint.id)}
+                                disabled={deleteWebhook.isPending}
+                                className="text-red-500 hover:text-red-600"
+                                title="Delete endpoint"
+                                data-testid={`button-delete-webhook-${endpoint.id}`}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base font-medium">Recent Deliveries</CardTitle>
+            <p className="text-sm text-muted-foreground break-all">{selected.url}</p>
+          </CardHeader>
+          <CardContent>
+            {deliveriesLoading ? (
+              <Loader2 className="w-5 h-5 animate-spin text-primary" />
+            ) : !deliveries?.length ? (
+              <p className="text-sm text-muted-foreground">No deliveries yet. Events are sent when IPO data changes.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="text-left text-sm text-muted-foreground border-b">
+                      <th className="pb-3 font-medium">Sent</th>
+                      <th className="pb-3 font-medium">Event</th>
+                      <th className="pb-3 font-medium">Status</th>
+                      <th className="pb-3 font-medium">Response</th>
+                      <th className="pb-3 font-medium text-right">Attempts</th>
+                      <th className="pb-3" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {deliveries.map((delivery) => (
+                      <tr
+                        key={delivery.id}
+                        className="border-b last:border-b-0 cursor-pointer text-sm"
+                        onClick={() => setOpenDelivery(delivery)}
+                        data-testid={`row-delivery-${delivery.id}`}
+                      >
+                        <td className="py-3 text-muted-foreground whitespace-nowrap">
+                          {delivery.createdAt ? format(new Date(delivery.createdAt), "MMM d, h:mm:ss a") : "-"}
+                        </td>
+                        <td className="py-3"><code className="font-mono">{delivery.eventType}</code></td>
+                        <td className="py-3">
+                          <Badge variant="outline" className={`capitalize ${DELIVERY_STATUS_STYLES[delivery.status] || ""}`}>
+                            {delivery.status}
+                          </Badge>
+                          {delivery.status === "retrying" && delivery.nextAttemptAt && (
+                            <span className="block text-xs text-muted-foreground mt-1">
+                              next {format(new Date(delivery.nextAttemptAt), "h:mm a")}
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-3 text-muted-foreground">
+                          {delivery.responseStatus ?? delivery.error ?? "-"}
+                          {delivery.durationMs !== null && <span className="text-xs"> · {delivery.durationMs} ms</span>}
+                        </td>
+                        <td className="py-3 text-right">{delivery.attempts}</td>
+                        <td className="py-3 text-right" onClick={(e) => e.stopPropagation()}>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRedeliver(delivery.id)}
+                            disabled={redeliver.isPending}
+                            title="Redeliver"
+                            data-testid={`button-redeliver-${delivery.id}`}
+                          >
+                            <RotateCw className="w-4 h-4" />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Webhook Endpoint</DialogTitle>
+            <DialogDescription>We will POST a signed JSON event to this URL whenever a chosen event happens.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url">Endpoint URL</Label>
+              <Input
+                id="webhook-url"
+                placeholder="https://example.com/webhooks/ipo"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                data-testid="input-webhook-url"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-description">Description</Label>
+              <Input
+                id="webhook-description"
+                placeholder="Production app"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                data-testid="input-webhook-description"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Events</Label>
+              {EVENT_TYPES.map((event) => (
+                <label key={event} className="flex items-start gap-2 text-sm">
+                  <Checkbox
+                    checked={events.includes(event)}
+                    onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                    data-testid={`checkbox-event-${event}`}
+                  />
+                  <span>
+                    <code className="font-mono">{event}</code>
+                    <span className="block text-xs text-muted-foreground">{WEBHOOK_EVENT_TYPES[event]}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={handleCreate}
+              disabled={createWebhook.isPending || !url.trim() || events.length === 0}
+              className="bg-foreground text-background hover:bg-foreground/90"
+              data-testid="button-confirm-create-webhook"
+            >
+              {createWebhook.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Add Endpoint"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={revealedSecret !== null} onOpenChange={(open) => !open && setRevealedSecret(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Copy your signing secret</DialogTitle>
+            <DialogDescription>
+              This is the only time the secret will be shown. Use it to verify the <code>{WEBHOOK_SIGNATURE_HEADER}</code> header:
+              an HMAC-SHA256 of <code>{"{timestamp}.{body}"}</code>.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-muted">
+            <code className="text-sm font-mono break-all flex-1" data-testid="text-revealed-secret">{revealedSecret}</code>
+            <button
+              onClick={() => revealedSecret && copySecret(revealedSecret)}
+              className="text-muted-foreground hover:text-foreground"
+              data-testid="button-copy-secret"
+            >
+              <Copy className="w-4 h-4" />
+            </button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setRevealedSecret(null)} data-testid="button-close-revealed-secret">
+              Done
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={openDelivery !== null} onOpenChange={(open) => !open && setOpenDelivery(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="font-mono">{openDelivery?.eventType}</DialogTitle>
+            <DialogDescription>Event {openDelivery?.eventId}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <p className="text-sm font-medium mb-1">Payload</p>
+              <pre className="text-xs bg-muted rounded p-3 max-h-64 overflow-auto">
+                {JSON.stringify(openDelivery?.payload, null, 2)}
+              </pre>
+            </div>
+            <div>
+              <p className="text-sm font-medium mb-1">Response</p>
+              <p className="text-sm text-muted-foreground">
+                {openDelivery?.responseStatus ? `HTTP ${openDelivery.responseStatus}` : openDelivery?.error ?? "No response yet"}
+              </p>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
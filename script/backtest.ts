@@ -0,0 +1,83 @@
+import { runBacktest, type ScoreEvaluation } from "../server/services/backtest";
+import { storage } from "../server/storage";
+import { pool } from "../server/db";
+
+// Usage: npm run backtest -- [--threshold=6] [--profile=growth] [--json]
+function parseArgs(argv: string[]): { threshold?: number; profile?: string; json: boolean } {
+  const args = { threshold: undefined as number | undefined, profile: undefined as string | undefined, json: false };
+  for (const arg of argv) {
+    if (arg === "--json") {
+      args.json = true;
+    } else if (arg.startsWith("--profile=")) {
+      args.profile = arg.split("=")[1];
+    } else if (arg.startsWith("--threshold=")) {
+      const threshold = Number(arg.split("=")[1]);
+      if (!Number.isFinite(threshold)) throw new Error(`Invalid threshold: ${arg}`);
+      args.threshold = threshold;
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  return args;
+}
+
+function formatRate(value: number | null): string {
+  return value === null ? "n/a" : `${(value * 100).toFixed(1)}%`;
+}
+
+function formatNumber(value: number | null, digits: number = 3): string {
+  return value === null ? "n/a" : value.toFixed(digits);
+}
+
+function formatDelta(value: number | null, asRate: boolean): string {
+  if (value === null) return "n/a";
+  const sign = value > 0 ? "+" : "";
+  return asRate ? `${sign}${(value * 100).toFixed(1)}pp` : `${sign}${value.toFixed(3)}`;
+}
+
+function printEvaluation(title: string, evaluation: ScoreEvaluation) {
+  console.log(`\n${title} (n=${evaluation.sampleSize})`);
+  console.log(`  Hit rate:     ${formatRate(evaluation.hitRate)} of ${evaluation.applyCalls} apply calls listed at a gain`);
+  console.log(`  Avoid rate:   ${formatRate(evaluation.avoidRate)} of ${evaluation.avoidCalls} avoid calls listed flat or lower`);
+  console.log(`  Accuracy:     ${formatRate(evaluation.accuracy)}`);
+  console.log(`  Pearson r:    ${formatNumber(evaluation.pearson)}`);
+  console.log(`  Spearman rho: ${formatNumber(evaluation.spearman)}`);
+  console.log("  By risk level:");
+  console.table(evaluation.byRiskLevel);
+  console.log("  By score bucket:");
+  console.table(evaluation.byScoreBucket);
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const profile = args.profile ? await storage.getLatestScoringProfile(args.profile) : undefined;
+  if (args.profile && !profile) throw new Error(`Unknown scoring profile: ${args.profile}`);
+  const report = await runBacktest({ threshold: args.threshold, profile });
+  
+  if (args.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+  
+  console.log(`Backtest of ${report.sampleSize} listed IPOs (apply threshold ${report.threshold}, profile ${report.profile.slug} v${report.profile.version})`);
+  if (report.sampleSize === 0) {
+    console.log("No IPOs with listing performance yet. Run the listing performance job first.");
+    return;
+  }
+  
+  printEvaluation(`Scoring profile "${report.profile.slug}"`, report.current);
+  printEvaluation("Stored scores", report.stored);
+  
+  console.log("\nProfile vs stored");
+  console.log(`  Hit rate: ${formatDelta(report.delta.hitRate, true)}`);
+  console.log(`  Accuracy: ${formatDelta(report.delta.accuracy, true)}`);
+  console.log(`  Pearson:  ${formatDelta(report.delta.pearson, false)}`);
+  console.log(`  Spearman: ${formatDelta(report.delta.spearman, false)}`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
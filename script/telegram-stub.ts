@@ -0,0 +1,144 @@
+import http from "http";
+
+// Minimal local stand-in for the Telegram Bot API (getMe, sendMessage, getUpdates).
+//
+// Usage: npm run telegram:stub, then start the app with
+//   TELEGRAM_API_URL=http://localhost:8081 TELEGRAM_BOT_TOKEN=test
+//
+// Simulate a user messaging the bot:
+//   curl -X POST localhost:8081/stub/updates -H 'Content-Type: application/json' \
+//     -d '{"chatId": 1001, "text": "/start <token>"}'
+// Inspect what the app sent: curl localhost:8081/stub/messages
+const port = Number(process.env.TELEGRAM_STUB_PORT || 8081);
+const botUsername = process.env.TELEGRAM_STUB_USERNAME || "ipo_analyzer_stub_bot";
+
+interface Update {
+  update_id: number;
+  message: {
+    message_id: number;
+    date: number;
+    chat: { id: number; type: "private"; username?: string };
+    text: string;
+  };
+}
+
+const updates: Update[] = [];
+const sentMessages: Array<{ message_id: number; chat_id: string; text: string; parse_mode?: string; date: number }> = [];
+const waiters: Array<() => void> = [];
+let nextUpdateId = 1;
+let nextMessageId = 1;
+
+function readBody(req: http.IncomingMessage): Promise<Record<string, any>> {
+  return new Promise((resolve, reject) => {
+    let raw = "";
+    req.on("data", chunk => { raw += chunk; });
+    req.on("end", () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function send(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function pendingUpdates(offset: number): Update[] {
+  return updates.filter(update => update.update_id >= offset);
+}
+
+// Holds the request open until an update arrives or the timeout passes, like the real API
+async function getUpdates(offset: number, timeoutSeconds: number): Promise<Update[]> {
+  if (pendingUpdates(offset).length > 0 || timeoutSeconds <= 0) return pendingUpdates(offset);
+  await new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, timeoutSeconds * 1000);
+    waiters.push(() => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+  return pendingUpdates(offset);
+}
+
+async function handleBotMethod(method: string, params: Record<string, any>, res: http.ServerResponse) {
+  switch (method) {
+    case "getMe":
+      return send(res, 200, { ok: true, result: { id: 1, is_bot: true, first_name: "IPO Analyzer", username: botUsername } });
+
+    case "sendMessage": {
+      if (!params.chat_id || !params.text) {
+        return send(res, 400, { ok: false, error_code: 400, description: "Bad Request: chat_id and text are required" });
+      }
+      const message = {
+        message_id: nextMessageId++,
+        chat_id: String(params.chat_id),
+        text: String(params.text),
+        parse_mode: params.parse_mode,
+        date: Math.floor(Date.now() / 1000),
+      };
+      sentMessages.push(message);
+      console.log(`→ chat ${message.chat_id}:\n${message.text}\n`);
+      return send(res, 200, { ok: true, result: { message_id: message.message_id, chat: { id: Number(message.chat_id) }, text: message.text } });
+    }
+
+    case "getUpdates": {
+      // Acknowledge everything before the offset, as Telegram does
+      const offset = Number(params.offset || 0);
+      while (updates.length > 0 && updates[0].update_id < offset) updates.shift();
+      const result = await getUpdates(offset, Number(params.timeout || 0));
+      return send(res, 200, { ok: true, result });
+    }
+
+    default:
+      return send(res, 404, { ok: false, error_code: 404, description: `Not Found: method ${method} is not stubbed` });
+  }
+}
+
+const server = http.createServer(async (req, res) => {
+  try {
+    const url = new URL(req.url || "/", `http://localhost:${port}`);
+    const body = req.method === "POST" ? await readBody(req) : {};
+    const params = { ...Object.fromEntries(url.searchParams), ...body };
+
+    const botMatch = url.pathname.match(/^\/bot[^/]+\/(\w+)$/);
+    if (botMatch) {
+      return await handleBotMethod(botMatch[1], params, res);
+    }
+
+    if (url.pathname === "/stub/updates" && req.method === "POST") {
+      if (!params.chatId || !params.text) {
+        return send(res, 400, { message: "chatId and text are required" });
+      }
+      const update: Update = {
+        update_id: nextUpdateId++,
+        message: {
+          message_id: nextMessageId++,
+          date: Math.floor(Date.now() / 1000),
+          chat: { id: Number(params.chatId), type: "private", username: params.username },
+          text: String(params.text),
+        },
+      };
+      updates.push(update);
+      waiters.splice(0).forEach(wake => wake());
+      console.log(`← chat ${params.chatId}: ${params.text}`);
+      return send(res, 201, update);
+    }
+
+    if (url.pathname === "/stub/messages" && req.method === "GET") {
+      return send(res, 200, sentMessages);
+    }
+
+    send(res, 404, { message: "Not found" });
+  } catch (error) {
+    send(res, 500, { ok: false, description: error instanceof Error ? error.message : "Stub error" });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Telegram Bot API stub listening on http://localhost:${port} as @${botUsername}`);
+});
@@ -2,14 +2,66 @@ import type { Express } from "express";
 import type { Server } from "http";
 import { createServer } from "http";
 import { storage } from "./storage";
-import { api } from "@shared/routes";
-import { insertIpoSchema, insertAlertPreferencesSchema } from "@shared/schema";
+import { api, IPO_TOTAL_COUNT_HEADER } from "@shared/routes";
+import { insertIpoSchema, insertAlertPreferencesSchema, insertAlertRuleSchema, insertTaxRuleSchema, type ScoreBreakdownResponse } from "@shared/schema";
+import { plans, type PlanId } from "@shared/plans";
+import { scoringConfigSchema } from "@shared/scoring";
+import { MAX_ALERT_RULES } from "@shared/alert-rules";
+import { MAX_SAVED_SCREENS } from "@shared/screener";
+import { bidPlanInputSchema } from "@shared/allotment";
+import { MAX_WEBHOOK_ENDPOINTS } from "@shared/webhooks";
+import { MAX_PORTFOLIO_APPLICATIONS, applicationIssue } from "@shared/portfolio";
+import {
+  MAX_TEAM_MEMBERS,
+  MAX_TEAM_WATCHLISTS,
+  MAX_TEAM_WATCHLIST_ITEMS,
+  TEAM_ROLES,
+  canEditTeamWatchlist,
+  canManageTeamWatchlist,
+  memberDisplayName,
+  type TeamRole,
+} from "@shared/team-watchlists";
 import { setupAuth, registerAuthRoutes } from "./replit_integrations/auth";
 import { z } from "zod";
 import { calculateIpoScore } from "./services/scoring";
-import { scrapeAndTransformIPOs, testScraper, generatePeerCompanies, generateGmpHistory, generateFundUtilization } from "./services/scraper";
+import {
+  ensureScoringProfiles,
+  listScoringProfiles,
+  getUserScoringProfile,
+  applyScoringProfile,
+  publishScoringProfile,
+} from "./services/scoring-profiles";
+import { testScraper } from "./services/scraper";
+import { runSync } from "./services/sync";
+import { startSyncScheduler, getSchedulerStatus } from "./services/scheduler";
+import { recordSubscriptions } from "./services/subscription";
+import { trackListingPerformance } from "./services/listing";
+import { runBacktest } from "./services/backtest";
+import { listIpos } from "./services/ipo-list";
 import { analyzeIpo } from "./services/ai-analysis";
-import { sendIpoEmailAlert } from "./services/email";
+import { sendIpoEmailAlert, formatDigestEmailHtml } from "./services/email";
+import { buildDigest } from "./services/digest";
+import { getEmailTransport } from "./services/email-transports";
+import { redactOutboxHtml, retryOutboxEmail } from "./services/email-outbox";
+import { matchesAlertRule, ruleConditions } from "./services/alert-rules";
+import { runScreen, screenerRow } from "./services/screener";
+import { planBid } from "./services/allotment";
+import { buildPortfolio, portfolioCsv } from "./services/portfolio";
+import { buildTaxReport, ensureTaxRules, taxReportCsv, taxReportPdf } from "./services/tax";
+import {
+  buildTeamWatchlistDetail,
+  getReceivedTeamInvite,
+  getReceivedTeamInvites,
+  getTeamRole,
+  getTeamWatchlistSummaries,
+  inviteTeamMember,
+  logTeamActivity,
+} from "./services/team-watchlists";
+import { sendIpoTelegramAlert, createTelegramLink, unlinkTelegram, isTelegramConfigured, startTelegramBot } from "./services/telegram";
+import { sendIpoPushAlert, isPushConfigured, getVapidPublicKey } from "./services/push";
+import { apiKeyAuth, generateApiKey, getRequestUserId, isRequestAuthenticated, toApiKeyResponse } from "./services/api-keys";
+import { apiQuota, getUsageSummary, getUserApiPlan } from "./services/quota";
+import { generateWebhookSecret, toWebhookEndpointResponse, redeliverWebhook, webhookUrlIssue } from "./services/webhooks";
 
 export async function registerRoutes(
   httpServer: Server, // Accept httpServer as parameter
@@ -20,12 +72,50 @@ export async function registerRoutes(
   await setupAuth(app);
   registerAuthRoutes(app);
 
+  // Resolve X-API-Key on every API route; the route guards decide whether a
+  // key is enough (read-only routes) or a session is required
+  app.use("/api", apiKeyAuth);
+  app.use("/api", apiQuota);
+
   // IPO Routes
   app.get(api.ipos.list.path, async (req, res) => {
-    const status = req.query.status as string | undefined;
-    const sector = req.query.sector as string | undefined;
-    const ipos = await storage.getIpos(status, sector);
-    res.json(ipos);
+    try {
+      let query = api.ipos.list.input.parse(req.query);
+
+      // API key requests are shaped by the key owner's plan: basic plans only
+      // list open IPOs, and every plan caps the page size
+      const plan = req.apiPlan;
+      if (plan) {
+        if (!plan.advancedQueryParams) {
+          query = { status: "open", offset: query.offset, limit: query.limit };
+        }
+        query.limit = Math.min(query.limit ?? plan.maxIposPerRequest, plan.maxIposPerRequest);
+      }
+
+      // Watchlist tags are private, so the tag filter needs a signed-in user
+      let ipoIds: number[] | undefined;
+      if (query.tag) {
+        if (!isRequestAuthenticated(req)) {
+          return res.status(401).json({ message: "Sign in to filter by watchlist tag" });
+        }
+        const watchlist = await storage.getWatchlist(getRequestUserId(req));
+        ipoIds = watchlist.filter(item => item.tags.includes(query.tag!)).map(item => item.ipoId);
+      }
+
+      // Scores are shown under the signed-in user's scoring profile
+      const profile = await getUserScoringProfile(isRequestAuthenticated(req) ? getRequestUserId(req) : undefined);
+      const { ipos, total } = await listIpos({ ...query, ipoIds }, profile);
+      res.set(IPO_TOTAL_COUNT_HEADER, String(total));
+      res.json(ipos);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
   });
 
   app.get(api.ipos.get.path, async (req, res) => {
@@ -33,17 +123,18 @@ export async function registerRoutes(
     if (!ipo) {
       return res.status(404).json({ message: "IPO not found" });
     }
-    res.json(ipo);
+    const profile = await getUserScoringProfile(isRequestAuthenticated(req) ? getRequestUserId(req) : undefined);
+    res.json(applyScoringProfile(ipo, profile));
   });
 
   // Watchlist Routes
   app.get(api.watchlist.list.path, async (req, res) => {
-    if (!req.isAuthenticated()) {
+    if (!isRequestAuthenticated(req)) {
       return res.status(401).json({ message: "Unauthorized" });
     }
-    const userId = (req.user as any).claims.sub;
-    const watchlist = await storage.getWatchlist(userId);
-    res.json(watchlist);
+    const userId = getRequestUserId(req);
+    const [watchlist, profile] = await Promise.all([storage.getWatchlist(userId), getUserScoringProfile(userId)]);
+    res.json(watchlist.map(item => ({ ...item, ipo: applyScoringProfile(item.ipo, profile) })));
   });
 
   app.post(api.watchlist.add.path, async (req, res) => {
@@ -52,7 +143,7 @@ export async function registerRoutes(
     }
     try {
       const { ipoId } = api.watchlist.add.input.parse(req.body);
-      const userId = (req.user as any).claims.sub;
+      const userId = getRequestUserId(req);
       
       const ipo = await storage.getIpo(ipoId);
       if (!ipo) {
@@ -100,24 +191,233 @@ export async function registerRoutes(
     }
   });
 
+  app.patch(api.watchlist.update.path, async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    try {
+      const input = api.watchlist.update.input.parse(req.body);
+      const item = await storage.updateWatchlistItem(getRequestUserId(req), Number(req.params.id), input);
+      if (!item) {
+        return res.status(404).json({ message: "Watchlist item not found" });
+      }
+      res.json(item);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
   app.delete(api.watchlist.remove.path, async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
-    const userId = (req.user as any).claims.sub;
+    const userId = getRequestUserId(req);
     await storage.removeFromWatchlist(userId, Number(req.params.id));
     res.status(204).send();
   });
 
-  // Admin/Sync Routes - Protected by authentication
+  // Read-only routes accept a session or an API key
   const requireAuth = (req: any, res: any, next: any) => {
+    if (!isRequestAuthenticated(req)) {
+      return res.status(401).json({ message: "Unauthorized - Please sign in" });
+    }
+    next();
+  };
+
+  // Routes that change data (and key management) must come from a signed-in
+  // browser session, never from an API key
+  const requireSession = (req: any, res: any, next: any) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized - Please sign in" });
+    }
+    next();
+  };
+
+  // Admin routes act on shared data or other users' data: a signed-in session
+  // whose email is listed in ADMIN_EMAILS (comma-separated)
+  const adminEmails = new Set(
+    (process.env.ADMIN_EMAILS ?? "").split(",").map(email => email.trim().toLowerCase()).filter(Boolean),
+  );
+  const requireAdmin = async (req: any, res: any, next: any) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized - Please sign in" });
     }
+    const user = await storage.getUser(getRequestUserId(req));
+    if (!user?.email || !adminEmails.has(user.email.toLowerCase())) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
     next();
   };
 
-  app.get("/api/admin/sync/test", requireAuth, async (req, res) => {
+  // API Key Routes
+  app.get(api.apiKeys.list.path, requireSession, async (req, res) => {
+    const userId = getRequestUserId(req);
+    const keys = await storage.getApiKeys(userId);
+    res.json(keys.map(toApiKeyResponse));
+  });
+
+  app.post(api.apiKeys.create.path, requireSession, async (req, res) => {
+    try {
+      const { identifier } = api.apiKeys.create.input.parse(req.body);
+      const userId = getRequestUserId(req);
+
+      const plan = await getUserApiPlan(userId);
+      if (plan.maxApiKeys !== null && await storage.countActiveApiKeys(userId) >= plan.maxApiKeys) {
+        return res.status(403).json({
+          message: `The ${plan.name} plan allows ${plan.maxApiKeys} active API key(s). Revoke a key or upgrade your plan.`,
+        });
+      }
+
+      const { key, keyPrefix, keyHash } = generateApiKey();
+
+      const created = await storage.createApiKey({
+        userId,
+        identifier,
+        keyPrefix,
+        keyHash,
+        status: "active",
+      });
+
+      res.status(201).json({ ...toApiKeyResponse(created), key });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.post(api.apiKeys.rotate.path, requireSession, async (req, res) => {
+    const userId = getRequestUserId(req);
+    const { key, keyPrefix, keyHash } = generateApiKey();
+    const rotated = await storage.rotateApiKey(userId, Number(req.params.id), keyPrefix, keyHash);
+    if (!rotated) {
+      return res.status(404).json({ message: "API key not found" });
+    }
+    res.json({ ...toApiKeyResponse(rotated), key });
+  });
+
+  app.delete(api.apiKeys.revoke.path, requireSession, async (req, res) => {
+    const userId = getRequestUserId(req);
+    const revoked = await storage.revokeApiKey(userId, Number(req.params.id));
+    if (!revoked) {
+      return res.status(404).json({ message: "API key not found" });
+    }
+    res.json(toApiKeyResponse(revoked));
+  });
+
+  // Webhook Routes
+  app.get(api.webhooks.list.path, requireSession, async (req, res) => {
+    const endpoints = await storage.getWebhookEndpoints(getRequestUserId(req));
+    res.json(endpoints.map(toWebhookEndpointResponse));
+  });
+
+  app.post(api.webhooks.create.path, requireSession, async (req, res) => {
+    try {
+      const input = api.webhooks.create.input.parse(req.body);
+      const userId = getRequestUserId(req);
+
+      const plan = await getUserApiPlan(userId);
+      if (!plan.webhooks) {
+        return res.status(403).json({ message: `Webhooks are not included in the ${plan.name} plan. Upgrade to a paid plan to use them.` });
+      }
+      if (await storage.countWebhookEndpoints(userId) >= MAX_WEBHOOK_ENDPOINTS) {
+        return res.status(403).json({ message: `You can register up to ${MAX_WEBHOOK_ENDPOINTS} webhook endpoints.` });
+      }
+
+      const urlIssue = await webhookUrlIssue(input.url);
+      if (urlIssue) {
+        return res.status(400).json({ message: urlIssue, field: "url" });
+      }
+
+      const secret = generateWebhookSecret();
+      const created = await storage.createWebhookEndpoint({ ...input, userId, secret, status: "active" });
+      res.status(201).json({ ...toWebhookEndpointResponse(created), secret });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.patch(api.webhooks.update.path, requireSession, async (req, res) => {
+    try {
+      const input = api.webhooks.update.input.parse(req.body);
+      const urlIssue = input.url ? await webhookUrlIssue(input.url) : null;
+      if (urlIssue) {
+        return res.status(400).json({ message: urlIssue, field: "url" });
+      }
+      const updated = await storage.updateWebhookEndpoint(getRequestUserId(req), Number(req.params.id), input);
+      if (!updated) {
+        return res.status(404).json({ message: "Webhook endpoint not found" });
+      }
+      res.json(toWebhookEndpointResponse(updated));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.post(api.webhooks.rotateSecret.path, requireSession, async (req, res) => {
+    const secret = generateWebhookSecret();
+    const rotated = await storage.updateWebhookEndpoint(getRequestUserId(req), Number(req.params.id), { secret });
+    if (!rotated) {
+      return res.status(404).json({ message: "Webhook endpoint not found" });
+    }
+    res.json({ ...toWebhookEndpointResponse(rotated), secret });
+  });
+
+  app.delete(api.webhooks.remove.path, requireSession, async (req, res) => {
+    const deleted = await storage.deleteWebhookEndpoint(getRequestUserId(req), Number(req.params.id));
+    if (!deleted) {
+      return res.status(404).json({ message: "Webhook endpoint not found" });
+    }
+    res.status(204).send();
+  });
+
+  app.get(api.webhooks.deliveries.path, requireSession, async (req, res) => {
+    const endpoint = await storage.getWebhookEndpoint(getRequestUserId(req), Number(req.params.id));
+    if (!endpoint) {
+      return res.status(404).json({ message: "Webhook endpoint not found" });
+    }
+    const deliveries = await storage.getWebhookDeliveries(endpoint.id, 50);
+    res.json(deliveries);
+  });
+
+  app.post(api.webhooks.redeliver.path, requireSession, async (req, res) => {
+    const result = await redeliverWebhook(getRequestUserId(req), Number(req.params.id));
+    if ("error" in result) {
+      return res.status(result.status).json({ message: result.error });
+    }
+    res.json(result.delivery);
+  });
+
+  // API Usage Routes
+  app.get(api.usage.get.path, requireAuth, async (req, res) => {
+    const userId = getRequestUserId(req);
+    const summary = await getUsageSummary(userId);
+    res.json(summary);
+  });
+
+  app.get("/api/admin/sync/test", requireAdmin, async (req, res) => {
     try {
       const result = await testScraper();
       res.json(result);
@@ -129,99 +429,33 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/admin/sync", requireAuth, async (req, res) => {
+  app.post("/api/admin/sync", requireAdmin, async (req, res) => {
     try {
-      console.log("🔄 Starting IPO data sync from Chittorgarh...");
-      
-      const scrapedIpos = await scrapeAndTransformIPOs();
-      
-      let created = 0;
-      let updated = 0;
-      let analyticsAdded = 0;
+      const run = await runSync("manual");
       
-      for (const ipo of scrapedIpos) {
-        const existing = await storage.getIpoBySymbol(ipo.symbol);
-        const savedIpo = await storage.upsertIpo(ipo);
-        
-        if (existing) {
-          updated++;
-        } else {
-          created++;
-        }
-        
-        // Generate analytics data for each IPO
-        const ipoId = savedIpo.id;
-        const sector = savedIpo.sector || "Industrial";
-        
-        // Check if analytics data exists, if not generate it
-        const existingPeers = await storage.getPeerCompanies(ipoId);
-        if (existingPeers.length === 0) {
-          const peers = generatePeerCompanies(ipoId, sector);
-          for (const peer of peers) {
-            await storage.addPeerCompany(peer);
-          }
-          analyticsAdded++;
-        }
-        
-        // Add GMP history entry
-        if (savedIpo.gmp !== null) {
-          await storage.addGmpHistory({
-            ipoId,
-            gmp: savedIpo.gmp,
-            gmpPercentage: savedIpo.gmp * 0.8, // Approximate percentage
-          });
-        }
-        
-        // Generate fund utilization if not exists
-        const existingFunds = await storage.getFundUtilization(ipoId);
-        if (existingFunds.length === 0) {
-          const funds = generateFundUtilization(ipoId);
-          for (const fund of funds) {
-            await storage.addFundUtilization(fund);
-          }
-        }
-        
-        // Generate timeline events for all IPOs
-        const existingTimeline = await storage.getIpoTimeline(ipoId);
-        if (existingTimeline.length === 0) {
-          // Use expected date if available, otherwise use a future date (30 days from now)
-          const baseDate = savedIpo.expectedDate 
-            ? new Date(savedIpo.expectedDate) 
-            : new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
-          
-          const events = [
-            { type: "drhp_filing", offsetDays: -30, description: "DRHP filed with SEBI" },
-            { type: "price_band", offsetDays: -2, description: "Price band announced" },
-            { type: "open_date", offsetDays: 0, description: "IPO opens for subscription" },
-            { type: "close_date", offsetDays: 3, description: "IPO closes for subscription" },
-            { type: "allotment", offsetDays: 7, description: "Share allotment finalized" },
-            { type: "refund", offsetDays: 9, description: "Refund initiated for unallotted" },
-            { type: "listing", offsetDays: 10, description: "Shares listed on exchange" },
-          ];
-          
-          for (const event of events) {
-            const eventDate = new Date(baseDate);
-            eventDate.setDate(eventDate.getDate() + event.offsetDays);
-            await storage.addTimelineEvent({
-              ipoId,
-              eventType: event.type,
-              eventDate: eventDate.toISOString().split('T')[0],
-              description: event.description,
-              isConfirmed: savedIpo.expectedDate ? event.offsetDays <= 0 : false,
-            });
-          }
-        }
+      if (!run) {
+        return res.status(409).json({
+          success: false,
+          error: "A sync is already running. Try again once it finishes.",
+        });
       }
       
-      console.log(`✅ Sync complete: ${created} created, ${updated} updated, ${analyticsAdded} analytics generated`);
+      if (run.status === "failed") {
+        return res.status(500).json({
+          success: false,
+          error: run.message || "Sync failed",
+          run,
+        });
+      }
       
       res.json({
         success: true,
-        message: `Synced ${scrapedIpos.length} IPOs with analytics data`,
-        created,
-        updated,
-        analyticsAdded,
-        total: scrapedIpos.length,
+        message: `Synced ${run.total} IPOs with analytics data`,
+        created: run.created,
+        updated: run.updated,
+        analyticsAdded: run.analyticsAdded,
+        total: run.total,
+        run,
       });
     } catch (error) {
       console.error("Sync failed:", error);
@@ -232,7 +466,203 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/admin/stats", requireAuth, async (req, res) => {
+  app.post("/api/admin/subscriptions/refresh", requireAdmin, async (req, res) => {
+    try {
+      const result = await recordSubscriptions();
+      if (!result) {
+        return res.status(409).json({
+          success: false,
+          error: "A subscription refresh is already running.",
+        });
+      }
+      res.json({ success: true, ...result });
+    } catch (error) {
+      console.error("Subscription refresh failed:", error);
+      res.status(500).json({ 
+        success: false, 
+        error: error instanceof Error ? error.message : "Subscription refresh failed" 
+      });
+    }
+  });
+
+  app.post("/api/admin/listings/refresh", requireAdmin, async (req, res) => {
+    try {
+      const result = await trackListingPerformance();
+      if (!result) {
+        return res.status(409).json({
+          success: false,
+          error: "A listing performance refresh is already running.",
+        });
+      }
+      res.json({ success: true, ...result });
+    } catch (error) {
+      console.error("Listing performance refresh failed:", error);
+      res.status(500).json({ 
+        success: false, 
+        error: error instanceof Error ? error.message : "Listing performance refresh failed" 
+      });
+    }
+  });
+
+  app.get("/api/admin/backtest", requireAdmin, async (req, res) => {
+    try {
+      const threshold = req.query.threshold !== undefined ? Number(req.query.threshold) : undefined;
+      if (threshold !== undefined && !Number.isFinite(threshold)) {
+        return res.status(400).json({ message: "threshold must be a number", field: "threshold" });
+      }
+      let profile;
+      if (typeof req.query.profile === "string") {
+        profile = await storage.getLatestScoringProfile(req.query.profile);
+        if (!profile) {
+          return res.status(400).json({ message: "Unknown scoring profile", field: "profile" });
+        }
+      }
+      const report = await runBacktest({ threshold, profile });
+      res.json(report);
+    } catch (error) {
+      console.error("Backtest failed:", error);
+      res.status(500).json({ 
+        success: false, 
+        error: error instanceof Error ? error.message : "Backtest failed" 
+      });
+    }
+  });
+
+  app.get("/api/admin/sync/runs", requireAdmin, async (req, res) => {
+    const limit = Math.min(Number(req.query.limit) || 20, 100);
+    const runs = await storage.getSyncRuns(limit);
+    res.json({ runs, schedule: getSchedulerStatus() });
+  });
+
+  app.get("/api/admin/scoring-profiles", requireAdmin, async (req, res) => {
+    const profiles = await storage.getScoringProfiles();
+    res.json(profiles);
+  });
+
+  // Saves an edited profile as a new version; a new default version rescores all IPOs
+  app.post("/api/admin/scoring-profiles/:slug", requireAdmin, async (req, res) => {
+    try {
+      const input = z.object({
+        name: z.string().min(1),
+        description: z.string().nullish(),
+        config: scoringConfigSchema,
+      }).parse(req.body);
+      const slug = req.params.slug as string;
+      if (!/^[a-z0-9-]+$/.test(slug)) {
+        return res.status(400).json({ message: "Profile slug may only contain lowercase letters, digits and dashes", field: "slug" });
+      }
+      const result = await publishScoringProfile(slug, input, getRequestUserId(req));
+      res.status(201).json(result);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      console.error("Scoring profile update failed:", err);
+      res.status(500).json({ 
+        success: false, 
+        error: err instanceof Error ? err.message : "Scoring profile update failed" 
+      });
+    }
+  });
+
+  // Capital gains tax rules; a change in the law is a new row from its effective date
+  app.get("/api/admin/tax-rules", requireAdmin, async (req, res) => {
+    res.json(await storage.getTaxRules());
+  });
+
+  app.post("/api/admin/tax-rules", requireAdmin, async (req, res) => {
+    try {
+      const input = insertTaxRuleSchema.parse(req.body);
+      const rules = await storage.getTaxRules();
+      if (rules.some(rule => rule.effectiveFrom === input.effectiveFrom)) {
+        return res.status(400).json({ message: `A rule already takes effect on ${input.effectiveFrom}`, field: "effectiveFrom" });
+      }
+      const rule = await storage.createTaxRule(input);
+      res.status(201).json(rule);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
+  // Email outbox: every email sent, with delivery status. The HTML body is only
+  // returned for a single email, with invite tokens redacted.
+  app.get("/api/admin/email/outbox", requireAdmin, async (req, res) => {
+    const status = typeof req.query.status === "string" && req.query.status ? req.query.status : undefined;
+    const emails = await storage.getOutboxEmails(100, status);
+    res.json({
+      transport: getEmailTransport()?.name ?? null,
+      emails: emails.map(({ html, ...email }) => email),
+    });
+  });
+
+  app.get("/api/admin/email/outbox/:id", requireAdmin, async (req, res) => {
+    const email = await storage.getOutboxEmail(Number(req.params.id));
+    if (!email) {
+      return res.status(404).json({ message: "Email not found" });
+    }
+    res.json({ ...email, html: redactOutboxHtml(email.html) });
+  });
+
+  app.post("/api/admin/email/outbox/:id/retry", requireAdmin, async (req, res) => {
+    try {
+      if (!getEmailTransport()) {
+        return res.status(503).json({ message: "Email is not configured" });
+      }
+      const email = await retryOutboxEmail(Number(req.params.id));
+      if (!email) {
+        return res.status(404).json({ message: "Email not found" });
+      }
+      const { html, ...summary } = email;
+      res.json(summary);
+    } catch (err) {
+      console.error("Email retry failed:", err);
+      res.status(500).json({ 
+        success: false, 
+        error: err instanceof Error ? err.message : "Email retry failed" 
+      });
+    }
+  });
+
+  // There is no payment flow yet, so API plans are assigned by an admin.
+  // A period end lets a plan lapse back to Free on its own.
+  app.put("/api/admin/user-plans", requireAdmin, async (req, res) => {
+    try {
+      const input = z.object({
+        email: z.string().email(),
+        planId: z.enum(Object.keys(plans) as [PlanId, ...PlanId[]]),
+        currentPeriodEnd: z.coerce.date().nullable().optional(),
+      }).parse(req.body);
+      const user = await storage.getUserByEmail(input.email);
+      if (!user) {
+        return res.status(404).json({ message: "No user has signed in with that email" });
+      }
+      const plan = await storage.setUserPlan({
+        userId: user.id,
+        planId: input.planId,
+        currentPeriodEnd: input.currentPeriodEnd ?? null,
+      });
+      res.json(plan);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.get("/api/admin/stats", requireAdmin, async (req, res) => {
     const count = await storage.getIpoCount();
     const ipos = await storage.getIpos();
     
@@ -251,7 +681,7 @@ export async function registerRoutes(
   });
 
   // AI Analysis Routes
-  app.post("/api/ipos/:id/analyze", requireAuth, async (req, res) => {
+  app.post("/api/ipos/:id/analyze", requireSession, async (req, res) => {
     try {
       const ipo = await storage.getIpo(Number(req.params.id));
       if (!ipo) {
@@ -280,24 +710,113 @@ export async function registerRoutes(
     }
   });
 
+  // Scoring Profile Routes
+  app.get("/api/scoring/profiles", async (req, res) => {
+    const profiles = await listScoringProfiles();
+    res.json(profiles);
+  });
+
+  app.get("/api/scoring/profiles/:id", async (req, res) => {
+    const profile = await storage.getScoringProfile(Number(req.params.id));
+    if (!profile) {
+      return res.status(404).json({ message: "Scoring profile not found" });
+    }
+    res.json(profile);
+  });
+
+  app.get("/api/scoring/profile", requireAuth, async (req, res) => {
+    const profile = await getUserScoringProfile(getRequestUserId(req));
+    res.json(profile);
+  });
+
+  app.put("/api/scoring/profile", requireSession, async (req, res) => {
+    try {
+      const { slug } = z.object({ slug: z.string().min(1) }).parse(req.body);
+      const profile = await storage.getLatestScoringProfile(slug);
+      if (!profile) {
+        return res.status(404).json({ message: "Scoring profile not found" });
+      }
+      await storage.setUserScoringProfile(getRequestUserId(req), slug);
+      res.json(profile);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
+  // Rule-by-rule breakdown of the scores, under the user's scoring profile
+  app.get("/api/ipos/:id/score-breakdown", async (req, res) => {
+    const ipo = await storage.getIpo(Number(req.params.id));
+    if (!ipo) {
+      return res.status(404).json({ message: "IPO not found" });
+    }
+    // Checked on the stored row: rescoring always fills in a breakdown, even
+    // for an IPO that was never scored
+    if (!ipo.scoreBreakdown) {
+      return res.status(404).json({ message: "No score breakdown is available for this IPO" });
+    }
+    const profile = await getUserScoringProfile(isRequestAuthenticated(req) ? getRequestUserId(req) : undefined);
+    const scored = applyScoringProfile(ipo, profile);
+    const breakdown: ScoreBreakdownResponse = {
+      ipoId: scored.id,
+      profile: { id: profile.id, slug: profile.slug, name: profile.name, version: profile.version },
+      scores: {
+        fundamentals: scored.fundamentalsScore,
+        valuation: scored.valuationScore,
+        governance: scored.governanceScore,
+        overall: scored.overallScore,
+      },
+      ...(scored.scoreBreakdown ?? ipo.scoreBreakdown),
+    };
+    res.json(breakdown);
+  });
+
   // Alert Preferences Routes
   app.get("/api/alerts/preferences", requireAuth, async (req, res) => {
-    const userId = (req.user as any).claims.sub;
+    const userId = getRequestUserId(req);
     const prefs = await storage.getAlertPreferences(userId);
     res.json(prefs || {
       emailEnabled: false,
+      telegramEnabled: false,
+      pushEnabled: false,
       alertOnNewIpo: true,
       alertOnGmpChange: true,
       alertOnOpenDate: true,
       alertOnWatchlistOnly: false,
+      digestMode: "off",
+      digestTime: "08:00",
+      digestDay: 1,
+      timezone: "Asia/Kolkata",
     });
   });
 
-  app.post("/api/alerts/preferences", requireAuth, async (req, res) => {
+  app.post("/api/alerts/preferences", requireSession, async (req, res) => {
     try {
-      const userId = (req.user as any).claims.sub;
-      const validatedData = insertAlertPreferencesSchema.partial().parse(req.body);
-      const prefs = await storage.upsertAlertPreferences(userId, validatedData);
+      const userId = getRequestUserId(req);
+      // Link tokens are only issued by the Telegram link route, and the chat id
+      // is only ever set by the bot when the user sends it that token
+      const validatedData = insertAlertPreferencesSchema
+        .omit({ userId: true, telegramChatId: true, telegramLinkToken: true, telegramLinkExpiresAt: true, lastDigestAt: true })
+        .partial()
+        .parse(req.body);
+      if (validatedData.telegramEnabled) {
+        const current = await storage.getAlertPreferences(userId);
+        if (!current?.telegramChatId) {
+          return res.status(400).json({ message: "Connect Telegram before enabling Telegram alerts", field: "telegramEnabled" });
+        }
+      }
+      if (validatedData.pushEnabled) {
+        const subscriptions = await storage.getPushSubscriptions(userId);
+        if (subscriptions.length === 0) {
+          return res.status(400).json({ message: "Allow notifications in a browser before enabling push alerts", field: "pushEnabled" });
+        }
+      }
+      const prefs = await storage.upsertAlertPreferences(userId, validatedData);
       res.json(prefs);
     } catch (err) {
       if (err instanceof z.ZodError) {
@@ -307,32 +826,772 @@ export async function registerRoutes(
     }
   });
 
+  // Renders the user's digest as it would be sent now
+  app.get("/api/alerts/digest/preview", requireAuth, async (req, res) => {
+    const period = req.query.period === "weekly" ? "weekly" : "daily";
+    const digest = await buildDigest(getRequestUserId(req), period);
+    res.type("html").send(formatDigestEmailHtml(digest));
+  });
+
+  // Issues a token the user sends to the bot as "/start <token>" to link their chat
+  app.post("/api/alerts/telegram/link", requireSession, async (req, res) => {
+    if (!isTelegramConfigured()) {
+      return res.status(503).json({ message: "Telegram bot is not configured on this server" });
+    }
+    const link = await createTelegramLink(getRequestUserId(req));
+    res.json(link);
+  });
+
+  app.post("/api/alerts/telegram/unlink", requireSession, async (req, res) => {
+    const prefs = await unlinkTelegram(getRequestUserId(req));
+    res.json(prefs);
+  });
+
+  // Web Push: the browser subscribes with this key, then registers the subscription here
+  app.get("/api/alerts/push/key", requireAuth, async (req, res) => {
+    if (!isPushConfigured()) {
+      return res.status(503).json({ message: "Web push is not configured on this server" });
+    }
+    res.json({ publicKey: getVapidPublicKey() });
+  });
+
+  app.post("/api/alerts/push/subscribe", requireSession, async (req, res) => {
+    try {
+      const userId = getRequestUserId(req);
+      const subscription = z.object({
+        endpoint: z.string().url().refine(url => url.startsWith("https://"), "Push endpoints must use https://"),
+        keys: z.object({ p256dh: z.string().min(1), auth: z.string().min(1) }),
+      }).parse(req.body);
+      const saved = await storage.savePushSubscription({
+        userId,
+        endpoint: subscription.endpoint,
+        p256dh: subscription.keys.p256dh,
+        auth: subscription.keys.auth,
+        userAgent: req.get("user-agent") || null,
+      });
+      if (!saved) {
+        return res.status(409).json({ message: "This browser is subscribed to notifications for another account" });
+      }
+      const prefs = await storage.upsertAlertPreferences(userId, { pushEnabled: true });
+      res.json(prefs);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
+  // Removes this browser's subscription; push is switched off once no device is left
+  app.post("/api/alerts/push/unsubscribe", requireSession, async (req, res) => {
+    try {
+      const userId = getRequestUserId(req);
+      const { endpoint } = z.object({ endpoint: z.string().min(1) }).parse(req.body);
+      await storage.deletePushSubscription(endpoint, userId);
+      const remaining = await storage.getPushSubscriptions(userId);
+      const prefs = remaining.length === 0
+        ? await storage.upsertAlertPreferences(userId, { pushEnabled: false })
+        : await storage.getAlertPreferences(userId);
+      res.json(prefs);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
   app.get("/api/alerts/logs", requireAuth, async (req, res) => {
-    const userId = (req.user as any).claims.sub;
+    const userId = getRequestUserId(req);
     const logs = await storage.getAlertLogs(userId, 50);
     res.json(logs);
   });
 
+  // Alert Rules Routes
+  // A rule scoped to a team watchlist alerts every member, so only the owner
+  // and editors may create one
+  const teamScopeIssue = async (userId: string, rule: { watchlistOnly?: boolean | null; teamWatchlistId?: number | null }) => {
+    if (!rule.teamWatchlistId) return null;
+    if (rule.watchlistOnly) {
+      return { message: "Choose either your watchlist or a team watchlist", field: "teamWatchlistId" };
+    }
+    const role = await getTeamRole(rule.teamWatchlistId, userId);
+    if (!role || !canEditTeamWatchlist(role)) {
+      return { message: "Team watchlist not found", field: "teamWatchlistId" };
+    }
+    return null;
+  };
+
+  app.get("/api/alerts/rules", requireAuth, async (req, res) => {
+    const rules = await storage.getAlertRules(getRequestUserId(req));
+    res.json(rules);
+  });
+
+  app.post("/api/alerts/rules", requireSession, async (req, res) => {
+    try {
+      const userId = getRequestUserId(req);
+      const input = insertAlertRuleSchema.omit({ userId: true }).parse(req.body);
+      const existing = await storage.getAlertRules(userId);
+      if (existing.length >= MAX_ALERT_RULES) {
+        return res.status(400).json({ message: `You can have at most ${MAX_ALERT_RULES} alert rules` });
+      }
+      if (input.screenId && !(await storage.getScreen(userId, input.screenId))) {
+        return res.status(400).json({ message: "Screen not found", field: "screenId" });
+      }
+      if (input.conditions.length === 0 && !input.screenId) {
+        return res.status(400).json({ message: "Add at least one condition or pick a screen", field: "conditions" });
+      }
+      const scopeIssue = await teamScopeIssue(userId, input);
+      if (scopeIssue) {
+        return res.status(400).json(scopeIssue);
+      }
+      const rule = await storage.createAlertRule({ ...input, userId });
+      res.status(201).json(rule);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.patch("/api/alerts/rules/:id", requireSession, async (req, res) => {
+    try {
+      const userId = getRequestUserId(req);
+      const input = insertAlertRuleSchema.omit({ userId: true }).partial().parse(req.body);
+      const existing = (await storage.getAlertRules(userId)).find(rule => rule.id === Number(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: "Alert rule not found" });
+      }
+      if (input.screenId && !(await storage.getScreen(userId, input.screenId))) {
+        return res.status(400).json({ message: "Screen not found", field: "screenId" });
+      }
+      const conditions = input.conditions ?? existing.conditions;
+      const screenId = input.screenId !== undefined ? input.screenId : existing.screenId;
+      if (conditions.length === 0 && !screenId) {
+        return res.status(400).json({ message: "Add at least one condition or pick a screen", field: "conditions" });
+      }
+      // Only a changed scope is checked, so toggling a rule keeps working after a demotion
+      if (input.teamWatchlistId !== undefined || input.watchlistOnly !== undefined) {
+        const scopeIssue = await teamScopeIssue(userId, {
+          watchlistOnly: input.watchlistOnly !== undefined ? input.watchlistOnly : existing.watchlistOnly,
+          teamWatchlistId: input.teamWatchlistId !== undefined ? input.teamWatchlistId : existing.teamWatchlistId,
+        });
+        if (scopeIssue) {
+          return res.status(400).json(scopeIssue);
+        }
+      }
+      const rule = await storage.updateAlertRule(userId, existing.id, input);
+      res.json(rule);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.delete("/api/alerts/rules/:id", requireSession, async (req, res) => {
+    await storage.deleteAlertRule(getRequestUserId(req), Number(req.params.id));
+    res.status(204).send();
+  });
+
+  // IPOs the conditions match right now, so the rule builder can preview a rule
+  app.post("/api/alerts/rules/preview", requireAuth, async (req, res) => {
+    try {
+      const { conditions, screenId } = insertAlertRuleSchema.pick({ conditions: true, screenId: true }).parse(req.body);
+      const screen = screenId ? await storage.getScreen(getRequestUserId(req), screenId) : undefined;
+      if (screenId && !screen) {
+        return res.status(400).json({ message: "Screen not found", field: "screenId" });
+      }
+      const combined = ruleConditions({ conditions }, screen);
+      if (combined.length === 0) {
+        return res.status(400).json({ message: "Add at least one condition or pick a screen", field: "conditions" });
+      }
+      // Same scoring profile the rule will be checked under once saved
+      const profile = await getUserScoringProfile(getRequestUserId(req));
+      const matches = (await storage.getIpos())
+        .map(ipo => applyScoringProfile(ipo, profile))
+        .filter(ipo => matchesAlertRule(combined, ipo));
+      res.json({
+        count: matches.length,
+        ipos: matches.slice(0, 5).map(ipo => ({ id: ipo.id, companyName: ipo.companyName, status: ipo.status })),
+      });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
+  // Comparison Routes
+  app.get(api.compare.get.path, async (req, res) => {
+    try {
+      const { ids } = api.compare.get.input.parse(req.query);
+      const profile = await getUserScoringProfile(isRequestAuthenticated(req) ? getRequestUserId(req) : undefined);
+      const comparisons = await Promise.all(ids.map(async (id) => {
+        const ipo = await storage.getIpo(id);
+        if (!ipo) return null;
+        const [gmpHistory, subscription] = await Promise.all([
+          storage.getGmpHistory(id, 7),
+          storage.getLatestSubscription(id),
+        ]);
+        return { ...screenerRow(applyScoringProfile(ipo, profile)), gmpHistory, subscription: subscription ?? null };
+      }));
+      res.json(comparisons.filter(comparison => comparison !== null));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
+  // Screener Routes
+  app.post(api.screener.run.path, requireAuth, async (req, res) => {
+    try {
+      const { conditions } = api.screener.run.input.parse(req.body);
+      const profile = await getUserScoringProfile(getRequestUserId(req));
+      res.json(await runScreen(conditions, profile));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.get(api.screens.list.path, requireAuth, async (req, res) => {
+    const screens = await storage.getScreens(getRequestUserId(req));
+    res.json(screens);
+  });
+
+  app.post(api.screens.create.path, requireSession, async (req, res) => {
+    try {
+      const userId = getRequestUserId(req);
+      const input = api.screens.create.input.parse(req.body);
+      const existing = await storage.getScreens(userId);
+      if (existing.length >= MAX_SAVED_SCREENS) {
+        return res.status(400).json({ message: `You can have at most ${MAX_SAVED_SCREENS} saved screens` });
+      }
+      const screen = await storage.createScreen({ ...input, userId });
+      res.status(201).json(screen);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.patch(api.screens.update.path, requireSession, async (req, res) => {
+    try {
+      const input = api.screens.update.input.parse(req.body);
+      const screen = await storage.updateScreen(getRequestUserId(req), Number(req.params.id), input);
+      if (!screen) {
+        return res.status(404).json({ message: "Screen not found" });
+      }
+      res.json(screen);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
+  // Screens used by alert rules stay until the rules stop using them, so a
+  // rule never silently loses its conditions
+  app.delete(api.screens.remove.path, requireSession, async (req, res) => {
+    const userId = getRequestUserId(req);
+    const screen = await storage.getScreen(userId, Number(req.params.id));
+    if (!screen) {
+      return res.status(404).json({ message: "Screen not found" });
+    }
+    const rules = (await storage.getAlertRules(userId)).filter(rule => rule.screenId === screen.id);
+    if (rules.length > 0) {
+      return res.status(400).json({
+        message: `Used by alert rule${rules.length === 1 ? "" : "s"} ${rules.map(rule => `"${rule.name}"`).join(", ")}; remove it from them first`,
+      });
+    }
+    await storage.deleteScreen(userId, screen.id);
+    res.status(204).send();
+  });
+
+  // Team Watchlist Routes
+  // The list for a member whose role allows the action; non-members get a 404
+  // so lists they are not on stay hidden
+  const loadTeamWatchlist = async (req: any, res: any, allowed?: (role: TeamRole) => boolean, forbidden?: string) => {
+    const id = Number(req.params.id);
+    const userId = getRequestUserId(req);
+    const [list, role] = await Promise.all([storage.getTeamWatchlist(id), getTeamRole(id, userId)]);
+    if (!list || !role) {
+      res.status(404).json({ message: "Team watchlist not found" });
+      return null;
+    }
+    if (allowed && !allowed(role)) {
+      res.status(403).json({ message: forbidden ?? "You do not have permission to do this" });
+      return null;
+    }
+    return { list, role, userId };
+  };
+
+  app.get(api.teamWatchlists.list.path, requireAuth, async (req, res) => {
+    res.json(await getTeamWatchlistSummaries(getRequestUserId(req)));
+  });
+
+  app.post(api.teamWatchlists.create.path, requireSession, async (req, res) => {
+    try {
+      const userId = getRequestUserId(req);
+      const { name } = api.teamWatchlists.create.input.parse(req.body);
+      if (await storage.countOwnedTeamWatchlists(userId) >= MAX_TEAM_WATCHLISTS) {
+        return res.status(400).json({ message: `You can own at most ${MAX_TEAM_WATCHLISTS} team watchlists` });
+      }
+      const list = await storage.createTeamWatchlist({ name, ownerId: userId });
+      await logTeamActivity(list.id, userId, "created", { subject: name });
+      res.status(201).json(list);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.get(api.teamWatchlists.get.path, requireAuth, async (req, res) => {
+    const team = await loadTeamWatchlist(req, res);
+    if (!team) return;
+    res.json(await buildTeamWatchlistDetail(team.list, team.role));
+  });
+
+  app.patch(api.teamWatchlists.update.path, requireSession, async (req, res) => {
+    try {
+      const team = await loadTeamWatchlist(req, res, canManageTeamWatchlist, "Only the owner can rename the list");
+      if (!team) return;
+      const { name } = api.teamWatchlists.update.input.parse(req.body);
+      const list = await storage.updateTeamWatchlist(team.list.id, { name });
+      if (name !== team.list.name) {
+        await logTeamActivity(team.list.id, team.userId, "renamed", { subject: name });
+      }
+      res.json(list);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.delete(api.teamWatchlists.remove.path, requireSession, async (req, res) => {
+    const team = await loadTeamWatchlist(req, res, canManageTeamWatchlist, "Only the owner can delete the list");
+    if (!team) return;
+    await storage.deleteTeamWatchlist(team.list.id);
+    res.status(204).send();
+  });
+
+  app.post(api.teamWatchlists.addItem.path, requireSession, async (req, res) => {
+    try {
+      const team = await loadTeamWatchlist(req, res, canEditTeamWatchlist, "Viewers cannot change the list");
+      if (!team) return;
+      const { ipoId } = api.teamWatchlists.addItem.input.parse(req.body);
+      const ipo = await storage.getIpo(ipoId);
+      if (!ipo) {
+        return res.status(400).json({ message: "IPO not found", field: "ipoId" });
+      }
+      const items = await storage.getTeamWatchlistItems(team.list.id);
+      if (items.length >= MAX_TEAM_WATCHLIST_ITEMS) {
+        return res.status(400).json({ message: `A team watchlist can hold at most ${MAX_TEAM_WATCHLIST_ITEMS} IPOs` });
+      }
+      const item = await storage.addTeamWatchlistItem({ teamWatchlistId: team.list.id, ipoId, addedBy: team.userId });
+      if (!item) {
+        return res.status(400).json({ message: `${ipo.symbol} is already on this list`, field: "ipoId" });
+      }
+      await logTeamActivity(team.list.id, team.userId, "ipo_added", { ipoId });
+      res.status(201).json(item);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.delete(api.teamWatchlists.removeItem.path, requireSession, async (req, res) => {
+    const team = await loadTeamWatchlist(req, res, canEditTeamWatchlist, "Viewers cannot change the list");
+    if (!team) return;
+    const item = await storage.getTeamWatchlistItem(team.list.id, Number(req.params.itemId));
+    if (!item) {
+      return res.status(404).json({ message: "IPO is not on this list" });
+    }
+    await storage.removeTeamWatchlistItem(team.list.id, item.id);
+    await logTeamActivity(team.list.id, team.userId, "ipo_removed", { ipoId: item.ipoId });
+    res.status(204).send();
+  });
+
+  app.post(api.teamWatchlists.invite.path, requireSession, async (req, res) => {
+    try {
+      const team = await loadTeamWatchlist(req, res, canManageTeamWatchlist, "Only the owner can invite members");
+      if (!team) return;
+      const { email, role } = api.teamWatchlists.invite.input.parse(req.body);
+      const [members, invites] = await Promise.all([
+        storage.getTeamMembers(team.list.id),
+        storage.getPendingTeamInvites(team.list.id, new Date()),
+      ]);
+      if (members.some(({ user }) => user.email?.toLowerCase() === email)) {
+        return res.status(400).json({ message: `${email} is already a member`, field: "email" });
+      }
+      if (invites.some(invite => invite.email === email)) {
+        return res.status(400).json({ message: `${email} already has a pending invite`, field: "email" });
+      }
+      if (members.length + invites.length >= MAX_TEAM_MEMBERS) {
+        return res.status(400).json({ message: `A team watchlist can have at most ${MAX_TEAM_MEMBERS} members and pending invites` });
+      }
+      const invite = await inviteTeamMember(team.list, team.userId, email, role, `${req.protocol}://${req.get("host")}`);
+      res.status(201).json(invite);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.delete(api.teamWatchlists.revokeInvite.path, requireSession, async (req, res) => {
+    const team = await loadTeamWatchlist(req, res, canManageTeamWatchlist, "Only the owner can revoke invites");
+    if (!team) return;
+    const invite = (await storage.getPendingTeamInvites(team.list.id, new Date())).find(invite => invite.id === Number(req.params.inviteId));
+    if (!invite) {
+      return res.status(404).json({ message: "Invite not found" });
+    }
+    await storage.updateTeamInvite(invite.id, { status: "revoked", respondedAt: new Date() });
+    await logTeamActivity(team.list.id, team.userId, "invite_revoked", { subject: invite.email });
+    res.status(204).send();
+  });
+
+  app.patch(api.teamWatchlists.updateMember.path, requireSession, async (req, res) => {
+    try {
+      const team = await loadTeamWatchlist(req, res, canManageTeamWatchlist, "Only the owner can change roles");
+      if (!team) return;
+      const { role } = api.teamWatchlists.updateMember.input.parse(req.body);
+      const member = await storage.getTeamMembership(team.list.id, String(req.params.userId));
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (member.role === "owner") {
+        return res.status(400).json({ message: "The owner's role cannot be changed", field: "role" });
+      }
+      const updated = await storage.updateTeamMemberRole(team.list.id, member.userId, role);
+      if (role !== member.role) {
+        const user = await storage.getUser(member.userId);
+        await logTeamActivity(team.list.id, team.userId, "role_changed", {
+          subject: `${user ? memberDisplayName(user) : "A member"} → ${TEAM_ROLES[role]}`,
+        });
+      }
+      res.json(updated);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.delete(api.teamWatchlists.removeMember.path, requireSession, async (req, res) => {
+    const team = await loadTeamWatchlist(req, res);
+    if (!team) return;
+    const targetId = String(req.params.userId);
+    const leaving = targetId === team.userId;
+    if (!leaving && !canManageTeamWatchlist(team.role)) {
+      return res.status(403).json({ message: "Only the owner can remove members" });
+    }
+    const member = await storage.getTeamMembership(team.list.id, targetId);
+    if (!member) {
+      return res.status(404).json({ message: "Member not found" });
+    }
+    if (member.role === "owner") {
+      return res.status(400).json({ message: "The owner cannot leave the list; delete it instead" });
+    }
+    const user = await storage.getUser(targetId);
+    await storage.removeTeamMember(team.list.id, targetId);
+    await logTeamActivity(team.list.id, team.userId, leaving ? "member_left" : "member_removed", {
+      subject: user ? memberDisplayName(user) : undefined,
+    });
+    res.status(204).send();
+  });
+
+  // Invites addressed to the signed-in user's email
+  app.get(api.teamInvites.list.path, requireAuth, async (req, res) => {
+    const user = await storage.getUser(getRequestUserId(req));
+    res.json(user?.email ? await getReceivedTeamInvites(user.email) : []);
+  });
+
+  // An invite can only be answered while it is pending, and only by the user
+  // it was sent to: holding the token is not enough
+  const loadReceivedInvite = async (req: any, res: any) => {
+    const invite = await storage.getTeamInviteByToken(String(req.params.token));
+    if (!invite || invite.status !== "pending" || invite.expiresAt <= new Date()) {
+      res.status(404).json({ message: "This invite has expired or was already used" });
+      return null;
+    }
+    const user = await storage.getUser(getRequestUserId(req));
+    if (!user?.email || user.email.toLowerCase() !== invite.email.toLowerCase()) {
+      res.status(403).json({ message: "This invite was sent to a different email address. Sign in with that address to answer it." });
+      return null;
+    }
+    return invite;
+  };
+
+  app.get(api.teamInvites.get.path, requireAuth, async (req, res) => {
+    const invite = await loadReceivedInvite(req, res);
+    if (!invite) return;
+    const received = await getReceivedTeamInvite(invite);
+    if (!received) {
+      return res.status(404).json({ message: "This invite has expired or was already used" });
+    }
+    res.json(received);
+  });
+
+  app.post(api.teamInvites.accept.path, requireSession, async (req, res) => {
+    const invite = await loadReceivedInvite(req, res);
+    if (!invite) return;
+    const userId = getRequestUserId(req);
+    const list = await storage.getTeamWatchlist(invite.teamWatchlistId);
+    if (!list) {
+      return res.status(404).json({ message: "This invite has expired or was already used" });
+    }
+    if (!(await storage.getTeamMembership(list.id, userId))) {
+      await storage.addTeamMember({ teamWatchlistId: list.id, userId, role: invite.role });
+      await logTeamActivity(list.id, userId, "member_joined", { subject: TEAM_ROLES[invite.role as TeamRole] });
+    }
+    await storage.updateTeamInvite(invite.id, { status: "accepted", respondedAt: new Date() });
+    res.json(list);
+  });
+
+  app.post(api.teamInvites.decline.path, requireSession, async (req, res) => {
+    const invite = await loadReceivedInvite(req, res);
+    if (!invite) return;
+    await storage.updateTeamInvite(invite.id, { status: "declined", respondedAt: new Date() });
+    res.status(204).send();
+  });
+
+  // Portfolio Routes
+  app.get(api.portfolio.get.path, requireAuth, async (req, res) => {
+    const rows = await storage.getApplications(getRequestUserId(req));
+    res.json(buildPortfolio(rows));
+  });
+
+  app.get(api.portfolio.export.path, requireAuth, async (req, res) => {
+    const rows = await storage.getApplications(getRequestUserId(req));
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="ipo-portfolio-${new Date().toISOString().slice(0, 10)}.csv"`);
+    res.send(portfolioCsv(buildPortfolio(rows)));
+  });
+
+  // Tax Report Routes
+  const loadTaxReport = async (req: any) => {
+    const { fy } = api.tax.report.input.parse(req.query);
+    const [rows, rules] = await Promise.all([storage.getApplications(getRequestUserId(req)), storage.getTaxRules()]);
+    return buildTaxReport(rows, rules, fy);
+  };
+
+  app.get(api.tax.report.path, requireAuth, async (req, res) => {
+    try {
+      res.json(await loadTaxReport(req));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.get(api.tax.csv.path, requireAuth, async (req, res) => {
+    try {
+      const report = await loadTaxReport(req);
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="capital-gains-${report.label.replace(/\s+/g, "-")}.csv"`);
+      res.send(taxReportCsv(report));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.get(api.tax.pdf.path, requireAuth, async (req, res) => {
+    try {
+      const report = await loadTaxReport(req);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="capital-gains-${report.label.replace(/\s+/g, "-")}.pdf"`);
+      res.send(taxReportPdf(report));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.post(api.applications.create.path, requireSession, async (req, res) => {
+    try {
+      const userId = getRequestUserId(req);
+      const input = api.applications.create.input.parse(req.body);
+      const issue = applicationIssue(input);
+      if (issue) {
+        return res.status(400).json(issue);
+      }
+      if (!(await storage.getIpo(input.ipoId))) {
+        return res.status(404).json({ message: "IPO not found" });
+      }
+      if ((await storage.countApplications(userId)) >= MAX_PORTFOLIO_APPLICATIONS) {
+        return res.status(400).json({ message: `You can log at most ${MAX_PORTFOLIO_APPLICATIONS} applications` });
+      }
+      const application = await storage.createApplication({ ...input, userId });
+      res.status(201).json(application);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.patch(api.applications.update.path, requireSession, async (req, res) => {
+    try {
+      const userId = getRequestUserId(req);
+      const input = api.applications.update.input.parse(req.body);
+      const existing = await storage.getApplication(userId, Number(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+      const issue = applicationIssue({ ...existing, ...input });
+      if (issue) {
+        return res.status(400).json(issue);
+      }
+      const application = await storage.updateApplication(userId, existing.id, input);
+      res.json(application);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.delete(api.applications.remove.path, requireSession, async (req, res) => {
+    const userId = getRequestUserId(req);
+    const application = await storage.getApplication(userId, Number(req.params.id));
+    if (!application) {
+      return res.status(404).json({ message: "Application not found" });
+    }
+    await storage.deleteApplication(userId, application.id);
+    res.status(204).send();
+  });
+
   // Test alert sending (admin only)
-  app.post("/api/admin/test-alert/:id", requireAuth, async (req, res) => {
+  app.post("/api/admin/test-alert/:id", requireAdmin, async (req, res) => {
     try {
-      const userId = (req.user as any).claims.sub;
+      const userId = getRequestUserId(req);
       const ipo = await storage.getIpo(Number(req.params.id));
       if (!ipo) {
         return res.status(404).json({ message: "IPO not found" });
       }
 
       const prefs = await storage.getAlertPreferences(userId);
-      const results = { email: false };
+      const results = { email: false, telegram: false, push: false };
 
       if (prefs?.emailEnabled && prefs.email) {
-        results.email = await sendIpoEmailAlert(prefs.email, ipo, "new_ipo");
+        const emailStatus = await sendIpoEmailAlert(prefs.email, ipo, "new_ipo");
+        results.email = emailStatus === "sent";
         await storage.createAlertLog({
           userId,
           ipoId: ipo.id,
           alertType: "new_ipo",
           channel: "email",
-          status: results.email ? "sent" : "failed",
+          status: emailStatus === "queued" ? "retrying" : emailStatus,
+          message: `Test alert for ${ipo.companyName}`,
+        });
+      }
+
+      if (prefs?.telegramEnabled && prefs.telegramChatId) {
+        results.telegram = await sendIpoTelegramAlert(prefs.telegramChatId, ipo, "new_ipo");
+        await storage.createAlertLog({
+          userId,
+          ipoId: ipo.id,
+          alertType: "new_ipo",
+          channel: "telegram",
+          status: results.telegram ? "sent" : "failed",
+          message: `Test alert for ${ipo.companyName}`,
+        });
+      }
+
+      if (prefs?.pushEnabled) {
+        results.push = await sendIpoPushAlert(userId, ipo, "new_ipo");
+        await storage.createAlertLog({
+          userId,
+          ipoId: ipo.id,
+          alertType: "new_ipo",
+          channel: "push",
+          status: results.push ? "sent" : "failed",
           message: `Test alert for ${ipo.companyName}`,
         });
       }
@@ -374,6 +1633,38 @@ export async function registerRoutes(
     res.json(latest || null);
   });
 
+  // Bid planner: allotment odds, blocked capital and expected profit for a
+  // bid repeated across several applications
+  app.get("/api/ipos/:id/bid-plan", async (req, res) => {
+    try {
+      const input = bidPlanInputSchema.parse(req.query);
+      const ipo = await storage.getIpo(Number(req.params.id));
+      if (!ipo) {
+        return res.status(404).json({ message: "IPO not found" });
+      }
+      const result = planBid(ipo, await storage.getLatestSubscription(ipo.id), input);
+      if ("error" in result) {
+        return res.status(400).json({ message: result.error, field: "lots" });
+      }
+      res.json(result.plan);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.')
+        });
+      }
+      throw err;
+    }
+  });
+
+  // Listing Performance Routes
+  app.get("/api/ipos/:id/listing-performance", async (req, res) => {
+    const ipoId = Number(req.params.id);
+    const performance = await storage.getListingPerformance(ipoId);
+    res.json(performance || null);
+  });
+
   // Fund Utilization Routes
   app.get("/api/ipos/:id/fund-utilization", async (req, res) => {
     const ipoId = Number(req.params.id);
@@ -395,7 +1686,11 @@ export async function registerRoutes(
   });
 
   // Auto-sync from scraper on startup if database is empty
+  await ensureScoringProfiles();
+  await ensureTaxRules();
   await autoSyncOnStartup();
+  await startSyncScheduler();
+  await startTelegramBot();
 
   return httpServer;
 }
@@ -403,67 +1698,13 @@ export async function registerRoutes(
 async function autoSyncOnStartup() {
   const existingIpos = await storage.getIpos();
   if (existingIpos.length === 0) {
-    console.log("Database empty - attempting to fetch real IPO data from Chittorgarh...");
+    console.log("Database empty - attempting to fetch real IPO data from configured sources...");
     
     try {
-      const scrapedIpos = await scrapeAndTransformIPOs();
+      const run = await runSync("startup");
       
-      if (scrapedIpos.length > 0) {
-        for (const ipo of scrapedIpos) {
-          const savedIpo = await storage.createIpo(ipo);
-          
-          // Generate analytics data
-          const ipoId = savedIpo.id;
-          const sector = savedIpo.sector || "Industrial";
-          
-          // Generate peer companies
-          const peers = generatePeerCompanies(ipoId, sector);
-          for (const peer of peers) {
-            await storage.addPeerCompany(peer);
-          }
-          
-          // Generate GMP history (7 days of sample data)
-          if (savedIpo.gmp !== null) {
-            const gmpHistoryData = generateGmpHistory(ipoId, savedIpo.gmp);
-            for (const entry of gmpHistoryData) {
-              await storage.addGmpHistory(entry);
-            }
-          }
-          
-          // Generate fund utilization
-          const funds = generateFundUtilization(ipoId);
-          for (const fund of funds) {
-            await storage.addFundUtilization(fund);
-          }
-          
-          // Generate timeline events
-          const baseDate = savedIpo.expectedDate 
-            ? new Date(savedIpo.expectedDate) 
-            : new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
-          
-          const events = [
-            { type: "drhp_filing", offsetDays: -30, description: "DRHP filed with SEBI" },
-            { type: "price_band", offsetDays: -2, description: "Price band announced" },
-            { type: "open_date", offsetDays: 0, description: "IPO opens for subscription" },
-            { type: "close_date", offsetDays: 3, description: "IPO closes for subscription" },
-            { type: "allotment", offsetDays: 7, description: "Share allotment finalized" },
-            { type: "refund", offsetDays: 9, description: "Refund initiated for unallotted" },
-            { type: "listing", offsetDays: 10, description: "Shares listed on exchange" },
-          ];
-          
-          for (const event of events) {
-            const eventDate = new Date(baseDate);
-            eventDate.setDate(eventDate.getDate() + event.offsetDays);
-            await storage.addTimelineEvent({
-              ipoId,
-              eventType: event.type,
-              eventDate: eventDate.toISOString().split('T')[0],
-              description: event.description,
-              isConfirmed: savedIpo.expectedDate ? event.offsetDays <= 0 : false,
-            });
-          }
-        }
-        console.log(`✅ Auto-synced ${scrapedIpos.length} IPOs with analytics data from Chittorgarh`);
+      if (run && run.total && run.total > 0) {
+        console.log(`✅ Auto-synced ${run.total} IPOs with analytics data`);
       } else {
         console.log("⚠️ No IPOs found from scraper. Use Admin panel to manually sync.");
       }
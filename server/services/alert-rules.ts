@@ -0,0 +1,139 @@
+import crypto from "crypto";
+import type { AlertRule, Ipo, Screen } from "@shared/schema";
+import { describeCondition, matchesCondition, type AlertRuleCondition, type AlertRuleField } from "@shared/alert-rules";
+import { canEditTeamWatchlist, type TeamRole } from "@shared/team-watchlists";
+import { storage } from "../storage";
+import { extractIssueSizeCr, extractPriceFromRange } from "./scraper";
+import { applyScoringProfile, getUserScoringProfile } from "./scoring-profiles";
+import type { AlertEvent } from "./alerts";
+
+export function alertRuleValue(ipo: Ipo, field: AlertRuleField): number | string | null {
+  if (field === "gmpPercentage") {
+    const issuePrice = extractPriceFromRange(ipo.priceRange);
+    if (ipo.gmp === null || !issuePrice) return null;
+    return Math.round((ipo.gmp / issuePrice) * 10000) / 100;
+  }
+  if (field === "peVsSectorMedian") {
+    if (ipo.peRatio === null || !ipo.sectorPeMedian) return null;
+    return Math.round((ipo.peRatio / ipo.sectorPeMedian - 1) * 10000) / 100;
+  }
+  if (field === "issueSizeCr") {
+    return extractIssueSizeCr(ipo.issueSize);
+  }
+  return ipo[field];
+}
+
+export function matchesAlertRule(conditions: AlertRuleCondition[], ipo: Ipo): boolean {
+  return conditions.every(condition => matchesCondition(condition, alertRuleValue(ipo, condition.field)));
+}
+
+export function describeRule(rule: Pick<AlertRule, "conditions">, screen?: Pick<Screen, "name">): string {
+  const parts = rule.conditions.map(describeCondition);
+  if (screen) parts.unshift(`screen "${screen.name}"`);
+  return parts.join(" and ");
+}
+
+// A rule based on a saved screen has to match the screen's conditions as
+// well as its own
+export function ruleConditions(rule: Pick<AlertRule, "conditions">, screen?: Pick<Screen, "conditions">): AlertRuleCondition[] {
+  return screen ? [...screen.conditions, ...rule.conditions] : rule.conditions;
+}
+
+// Hash of the conditions, so editing a rule's conditions (or its screen's)
+// lets it fire again for IPOs it already alerted on, while renaming or
+// toggling it does not
+function conditionsKey(conditions: AlertRuleCondition[]): string {
+  return crypto.createHash("sha1").update(JSON.stringify(conditions)).digest("hex").slice(0, 12);
+}
+
+interface TeamScope {
+  name: string;
+  roles: Map<string, TeamRole>; // By member user id
+  ipoIds: Set<number>;
+}
+
+async function loadTeamScope(teamWatchlistId: number): Promise<TeamScope | null> {
+  const list = await storage.getTeamWatchlist(teamWatchlistId);
+  if (!list) return null;
+  const [members, items] = await Promise.all([
+    storage.getTeamMembers(teamWatchlistId),
+    storage.getTeamWatchlistItems(teamWatchlistId),
+  ]);
+  return {
+    name: list.name,
+    roles: new Map(members.map(({ member }) => [member.userId, member.role as TeamRole])),
+    ipoIds: new Set(items.map(({ item }) => item.ipoId)),
+  };
+}
+
+// One event per enabled rule and IPO it matches. Events are addressed to the
+// rule's owner and deduped per rule, conditions and IPO, so a rule alerts once
+// when an IPO starts matching. A rule scoped to a team watchlist alerts every
+// member, as long as its owner can still edit the list. Score conditions are
+// checked under the rule owner's scoring profile, like the screener.
+export async function ruleAlertEvents(ipos: Ipo[]): Promise<AlertEvent[]> {
+  if (ipos.length === 0) return [];
+
+  const rules = await storage.getEnabledAlertRules();
+  const screenIds = Array.from(new Set(rules.flatMap(rule => rule.screenId ? [rule.screenId] : [])));
+  const screens = new Map((await storage.getScreensByIds(screenIds)).map(screen => [screen.id, screen]));
+  const watchlists = new Map<string, Set<number>>();
+  const teams = new Map<number, TeamScope | null>();
+  const scoredByOwner = new Map<string, Map<number, Ipo>>();
+  const events: AlertEvent[] = [];
+
+  for (const rule of rules) {
+    const screen = rule.screenId ? screens.get(rule.screenId) : undefined;
+    if (rule.screenId && !screen) continue;
+    const conditions = ruleConditions(rule, screen);
+    if (conditions.length === 0) continue;
+
+    let watchedIds: Set<number> | undefined;
+    let recipients = [rule.userId];
+    let team: TeamScope | null | undefined;
+    if (rule.teamWatchlistId) {
+      team = teams.get(rule.teamWatchlistId);
+      if (team === undefined) {
+        team = await loadTeamScope(rule.teamWatchlistId);
+        teams.set(rule.teamWatchlistId, team);
+      }
+      const ownerRole = team?.roles.get(rule.userId);
+      if (!team || !ownerRole || !canEditTeamWatchlist(ownerRole)) continue;
+      watchedIds = team.ipoIds;
+      recipients = Array.from(team.roles.keys());
+    } else if (rule.watchlistOnly) {
+      watchedIds = watchlists.get(rule.userId);
+      if (!watchedIds) {
+        watchedIds = new Set((await storage.getWatchlist(rule.userId)).map(item => item.ipoId));
+        watchlists.set(rule.userId, watchedIds);
+      }
+    }
+
+    let scored = scoredByOwner.get(rule.userId);
+    if (!scored) {
+      const profile = await getUserScoringProfile(rule.userId);
+      scored = new Map(ipos.map(ipo => [ipo.id, applyScoringProfile(ipo, profile)]));
+      scoredByOwner.set(rule.userId, scored);
+    }
+
+    for (const ipo of ipos) {
+      if (watchedIds && !watchedIds.has(ipo.id)) continue;
+      if (!matchesAlertRule(conditions, scored.get(ipo.id) ?? ipo)) continue;
+      for (const userId of recipients) {
+        events.push({
+          type: "rule",
+          ipo,
+          userId,
+          dedupeKey: `rule:${rule.id}:${conditionsKey(conditions)}:${ipo.id}`,
+          message: team
+            ? `${ipo.companyName} matched "${rule.name}" on team watchlist "${team.name}" (${describeRule(rule, screen)})`
+            : `${ipo.companyName} matched "${rule.name}" (${describeRule(rule, screen)})`,
+          detail: team
+            ? `Team rule "${rule.name}" on "${team.name}": ${describeRule(rule, screen)}`
+            : `Your rule "${rule.name}": ${describeRule(rule, screen)}`,
+        });
+      }
+    }
+  }
+  return events;
+}
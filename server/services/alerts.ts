@@ -0,0 +1,205 @@
+import type { AlertPreferences, Ipo } from "@shared/schema";
+import { storage } from "../storage";
+import { sendIpoEmailAlert } from "./email";
+import type { EmailDeliveryStatus } from "./email-outbox";
+import { sendIpoTelegramAlert } from "./telegram";
+import { sendIpoPushAlert } from "./push";
+import { ruleAlertEvents } from "./alert-rules";
+
+export type AlertType = "new_ipo" | "gmp_change" | "open_date" | "rule";
+
+export interface AlertEvent {
+  type: AlertType;
+  ipo: Ipo;
+  // Same key = same alert; a user gets each key at most once per channel
+  dedupeKey: string;
+  message: string;
+  detail?: string; // Extra line shown under the alert header
+  // Set for events meant for one user (alert rule matches); others go to every subscriber
+  userId?: string;
+}
+
+export interface IpoChange {
+  previous: Ipo | undefined;
+  current: Ipo;
+}
+
+export interface AlertRunResult {
+  events: number;
+  sent: number;
+  queued: number; // Emails whose first attempt failed and are waiting for a retry
+  failed: number;
+  duplicates: number;
+}
+
+interface AlertChannel {
+  name: string;
+  isEnabled(prefs: AlertPreferences, event: AlertEvent): boolean;
+  send(prefs: AlertPreferences, event: AlertEvent): Promise<EmailDeliveryStatus>;
+}
+
+// Delivery channels, tried in order for every user and event
+const CHANNELS: AlertChannel[] = [
+  {
+    name: "email",
+    // Digest users get built-in alerts in their digest instead; rule matches stay immediate
+    isEnabled: (prefs, event) => !!(prefs.emailEnabled && prefs.email)
+      && (event.type === "rule" || !prefs.digestMode || prefs.digestMode === "off"),
+    send: (prefs, event) => sendIpoEmailAlert(prefs.email!, event.ipo, event.type, event.detail),
+  },
+  {
+    name: "telegram",
+    isEnabled: prefs => !!(prefs.telegramEnabled && prefs.telegramChatId),
+    send: async (prefs, event) =>
+      await sendIpoTelegramAlert(prefs.telegramChatId!, event.ipo, event.type, event.detail) ? "sent" : "failed",
+  },
+  {
+    name: "push",
+    isEnabled: prefs => !!prefs.pushEnabled,
+    send: async (prefs, event) =>
+      await sendIpoPushAlert(prefs.userId, event.ipo, event.type, event.detail) ? "sent" : "failed",
+  },
+];
+
+const ALERT_LOG_STATUS: Record<EmailDeliveryStatus, string> = {
+  sent: "sent",
+  queued: "retrying", // Handed to the email outbox, which keeps retrying
+  failed: "failed",
+};
+
+// Switches for the built-in alerts; rule alerts are governed by the rule itself
+const PREFERENCE_FLAGS: Record<Exclude<AlertType, "rule">, "alertOnNewIpo" | "alertOnGmpChange" | "alertOnOpenDate"> = {
+  new_ipo: "alertOnNewIpo",
+  gmp_change: "alertOnGmpChange",
+  open_date: "alertOnOpenDate",
+};
+
+// Minimum GMP move in rupees between two syncs that triggers an alert
+const GMP_CHANGE_THRESHOLD = Number(process.env.ALERT_GMP_CHANGE_THRESHOLD || 10);
+
+// Calendar dates are Indian market dates
+const istDate = new Intl.DateTimeFormat("en-CA", { timeZone: "Asia/Kolkata" });
+
+function toIstDate(date: Date): string {
+  return istDate.format(date);
+}
+
+export function diffIpoAlerts({ previous, current }: IpoChange, now: Date = new Date()): AlertEvent[] {
+  if (!previous) {
+    return [{
+      type: "new_ipo",
+      ipo: current,
+      dedupeKey: `new_ipo:${current.id}`,
+      message: `New IPO: ${current.companyName}`,
+    }];
+  }
+
+  const events: AlertEvent[] = [];
+  if (previous.gmp !== null && current.gmp !== null && Math.abs(current.gmp - previous.gmp) > GMP_CHANGE_THRESHOLD) {
+    events.push({
+      type: "gmp_change",
+      ipo: current,
+      // One alert per GMP level per day, so a GMP bouncing around the same value stays quiet
+      dedupeKey: `gmp_change:${current.id}:${current.gmp}:${toIstDate(now)}`,
+      message: `GMP for ${current.companyName} moved from ₹${previous.gmp} to ₹${current.gmp}`,
+    });
+  }
+  return events;
+}
+
+export function openDateAlerts(ipos: Ipo[], now: Date = new Date()): AlertEvent[] {
+  const tomorrow = toIstDate(new Date(now.getTime() + 24 * 60 * 60 * 1000));
+  return ipos
+    .filter(ipo => ipo.status === "upcoming" && ipo.expectedDate === tomorrow)
+    .map(ipo => ({
+      type: "open_date" as const,
+      ipo,
+      dedupeKey: `open_date:${ipo.id}:${ipo.expectedDate}`,
+      message: `${ipo.companyName} opens for subscription tomorrow (${ipo.expectedDate})`,
+    }));
+}
+
+async function deliver(prefs: AlertPreferences, event: AlertEvent, result: AlertRunResult) {
+  for (const channel of CHANNELS) {
+    if (!channel.isEnabled(prefs, event)) continue;
+
+    // Claim the alert before sending so concurrent or repeated runs cannot send it twice
+    const log = await storage.claimAlertLog({
+      userId: prefs.userId,
+      ipoId: event.ipo.id,
+      alertType: event.type,
+      channel: channel.name,
+      status: "pending",
+      dedupeKey: event.dedupeKey,
+      message: event.message,
+    });
+    if (!log) {
+      result.duplicates++;
+      continue;
+    }
+
+    let status: EmailDeliveryStatus = "failed";
+    let error: string | null = null;
+    try {
+      status = await channel.send(prefs, event);
+    } catch (err) {
+      error = err instanceof Error ? err.message : "Delivery failed";
+    }
+    await storage.updateAlertLog(log.id, { status: ALERT_LOG_STATUS[status], error });
+    result[status]++;
+  }
+}
+
+function wantsAlert(prefs: AlertPreferences, event: AlertEvent): boolean {
+  if (event.type === "rule") return event.userId === prefs.userId;
+  return prefs[PREFERENCE_FLAGS[event.type]] !== false;
+}
+
+// Fans the events out to every user who wants them, on each of their enabled channels
+export async function dispatchAlerts(events: AlertEvent[]): Promise<AlertRunResult> {
+  const result: AlertRunResult = { events: events.length, sent: 0, queued: 0, failed: 0, duplicates: 0 };
+  if (events.length === 0) return result;
+
+  const subscribers = await storage.getAllUsersWithAlerts();
+  for (const prefs of subscribers) {
+    const wanted = events.filter(event => wantsAlert(prefs, event));
+    if (wanted.length === 0) continue;
+
+    let watchedIds: Set<number> | null = null;
+    if (prefs.alertOnWatchlistOnly) {
+      // IPOs on the user's team watchlists count as watched too
+      const [watchlist, teamIpoIds] = await Promise.all([
+        storage.getWatchlist(prefs.userId),
+        storage.getTeamWatchlistIpoIds(prefs.userId),
+      ]);
+      watchedIds = new Set([...watchlist.map(item => item.ipoId), ...teamIpoIds]);
+    }
+
+    for (const event of wanted) {
+      // Rules carry their own watchlist scope
+      if (watchedIds && !event.userId && !watchedIds.has(event.ipo.id)) continue;
+      try {
+        await deliver(prefs, event, result);
+      } catch (error) {
+        console.error(`Alert ${event.dedupeKey} for user ${prefs.userId} failed:`, error);
+        result.failed++;
+      }
+    }
+  }
+  return result;
+}
+
+// Runs after every change to IPO data: alerts on what changed, alert rules
+// matched by the changed IPOs and IPOs opening tomorrow
+export async function runAlertEngine(changes: IpoChange[]): Promise<AlertRunResult> {
+  const now = new Date();
+  const events = [
+    ...changes.flatMap(change => diffIpoAlerts(change, now)),
+    ...await ruleAlertEvents(changes.map(change => change.current)),
+    ...openDateAlerts(await storage.getIpos({ status: "upcoming" }), now),
+  ];
+
+  const result = await dispatchAlerts(events);
+  console.log(`🔔 Alerts: ${result.events} event(s), ${result.sent} sent, ${result.queued} retrying, ${result.failed} failed, ${result.duplicates} already sent`);
+  return result;
+}
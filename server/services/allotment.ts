@@ -0,0 +1,86 @@
+import type { Ipo, SubscriptionUpdate } from "@shared/schema";
+import { BID_CATEGORIES, type BidCategory, type BidPlan, type BidPlanInput, type BidPlanRow } from "@shared/allotment";
+import { extractIssueSizeCr, extractPriceFromRange } from "./scraper";
+
+// Lot range of each category at the upper price band; each category starts
+// one lot above the previous one's limit
+function categoryLots(lotPrice: number): Record<BidCategory, { minLots: number; maxLots: number | null }> {
+  const retailMax = Math.max(1, Math.floor(BID_CATEGORIES.retail.maxAmount / lotPrice));
+  const sniiMax = Math.max(retailMax + 1, Math.floor(BID_CATEGORIES.snii.maxAmount / lotPrice));
+  return {
+    retail: { minLots: 1, maxLots: retailMax },
+    snii: { minLots: retailMax + 1, maxLots: sniiMax },
+    bnii: { minLots: sniiMax + 1, maxLots: null },
+  };
+}
+
+// Latest times-subscribed figure for the category. Snapshots without the
+// sNII/bNII split fall back to the combined NII figure.
+function categorySubscription(category: BidCategory, ipo: Ipo, latest?: SubscriptionUpdate): number | null {
+  switch (category) {
+    case "retail":
+      return latest?.retailSubscription ?? ipo.subscriptionRetail;
+    case "snii":
+      return latest?.sniiSubscription ?? latest?.niiSubscription ?? ipo.subscriptionHni;
+    case "bnii":
+      return latest?.bniiSubscription ?? latest?.niiSubscription ?? ipo.subscriptionHni;
+  }
+}
+
+// Up to 1x subscribed every bid is allotted in full. Beyond that the lottery
+// allots the minimum bid to 1 in `subscription` applications, assuming most
+// applicants bid the minimum (the usual case, so real odds are rarely worse).
+export function planBid(ipo: Ipo, latest: SubscriptionUpdate | undefined, input: BidPlanInput): { plan: BidPlan } | { error: string } {
+  const issuePrice = extractPriceFromRange(ipo.priceRange);
+  if (!issuePrice || !ipo.lotSize) {
+    return { error: "The price band and lot size are not known yet" };
+  }
+
+  const lotPrice = issuePrice * ipo.lotSize;
+  const { minLots, maxLots } = categoryLots(lotPrice)[input.category];
+  const { label } = BID_CATEGORIES[input.category];
+  const lots = input.lots ?? minLots;
+  if (lots < minLots || (maxLots !== null && lots > maxLots)) {
+    return { error: `${label} bids are ${maxLots !== null ? `${minLots}-${maxLots}` : `${minLots} or more`} lots at ₹${lotPrice.toLocaleString("en-IN")} per lot` };
+  }
+
+  const subscription = categorySubscription(input.category, ipo, latest);
+  const oversubscribed = subscription !== null && subscription > 1;
+  const probability = subscription === null ? null : oversubscribed ? 1 / subscription : 1;
+  const sharesIfAllotted = (oversubscribed ? minLots : lots) * ipo.lotSize;
+
+  const issueSizeCr = extractIssueSizeCr(ipo.issueSize);
+  const categoryShares = issueSizeCr ? Math.round((issueSizeCr * 1e7 * BID_CATEGORIES[input.category].issueShare) / issuePrice) : null;
+  const estimatedWinners = categoryShares ? Math.floor(categoryShares / (minLots * ipo.lotSize)) : null;
+
+  const rows: BidPlanRow[] = [];
+  for (let applications = 1; applications <= input.applications; applications++) {
+    const expectedShares = probability === null ? null : applications * probability * sharesIfAllotted;
+    rows.push({
+      applications,
+      chanceOfAllotment: probability === null ? null : 1 - (1 - probability) ** applications,
+      expectedShares: expectedShares === null ? null : Math.round(expectedShares * 10) / 10,
+      expectedProfit: expectedShares === null || ipo.gmp === null ? null : Math.round(expectedShares * ipo.gmp),
+      blockedCapital: applications * lots * lotPrice,
+    });
+  }
+
+  return {
+    plan: {
+      category: input.category,
+      lots,
+      issuePrice,
+      lotSize: ipo.lotSize,
+      lotPrice,
+      minLots,
+      maxLots,
+      subscription,
+      subscriptionRecordedAt: latest?.recordedAt?.toISOString() ?? null,
+      probability,
+      sharesIfAllotted,
+      estimatedWinners,
+      gmp: ipo.gmp,
+      rows,
+    },
+  };
+}
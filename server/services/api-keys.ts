@@ -0,0 +1,69 @@
+import { createHash, randomBytes } from "crypto";
+import type { Request, RequestHandler } from "express";
+import type { ApiKey, ApiKeyResponse } from "@shared/schema";
+import { storage } from "../storage";
+
+export const API_KEY_HEADER = "x-api-key";
+const KEY_PREFIX = "ipo_live_";
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: ApiKey;
+    }
+  }
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+// Generate a new secret. Only the prefix and hash are persisted; the
+// plaintext key is returned to the user once and never stored.
+export function generateApiKey(): { key: string; keyPrefix: string; keyHash: string } {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString("hex")}`;
+  return {
+    key,
+    keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashApiKey(key),
+  };
+}
+
+export function toApiKeyResponse(apiKey: ApiKey): ApiKeyResponse {
+  const { keyHash: _keyHash, ...rest } = apiKey;
+  return rest;
+}
+
+// Resolves the X-API-Key header to an active key. Requests without the header
+// fall through to the session; an unknown or revoked key is rejected outright
+// so clients don't silently get anonymous responses.
+export const apiKeyAuth: RequestHandler = async (req, res, next) => {
+  const header = req.headers[API_KEY_HEADER];
+  const key = Array.isArray(header) ? header[0] : header;
+  if (!key) return next();
+
+  try {
+    const apiKey = await storage.getApiKeyByHash(hashApiKey(key.trim()));
+    if (!apiKey || apiKey.status !== "active") {
+      return res.status(401).json({ message: "Invalid or revoked API key" });
+    }
+
+    req.apiKey = apiKey;
+    storage.touchApiKey(apiKey.id).catch((error) => {
+      console.error("Failed to update API key usage:", error);
+    });
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export function isRequestAuthenticated(req: Request): boolean {
+  return !!req.apiKey || req.isAuthenticated();
+}
+
+export function getRequestUserId(req: Request): string {
+  if (req.apiKey) return req.apiKey.userId;
+  return (req.user as any).claims.sub;
+}
@@ -0,0 +1,235 @@
+import type { Ipo, ListingPerformance, ScoringProfile } from "@shared/schema";
+import { storage } from "../storage";
+import { calculateIpoScore, type ScoreResult } from "./scoring";
+import { getDefaultScoringProfile } from "./scoring-profiles";
+
+export type Scorer = (ipo: Ipo) => ScoreResult;
+
+export interface BacktestOptions {
+  // IPOs scoring at or above this are treated as "apply" calls
+  threshold?: number;
+  // Profile to score with; defaults to the latest default profile
+  profile?: ScoringProfile;
+  scorer?: Scorer;
+}
+
+export interface ScoreEvaluation {
+  sampleSize: number;
+  hitRate: number | null; // Share of "apply" calls that listed at a gain
+  avoidRate: number | null; // Share of "avoid" calls that listed flat or at a loss
+  accuracy: number | null; // Share of all calls that were right
+  applyCalls: number;
+  avoidCalls: number;
+  pearson: number | null; // Correlation of overallScore with listing gain
+  spearman: number | null; // Rank correlation, less sensitive to outlier listings
+  byRiskLevel: Array<{
+    riskLevel: string;
+    count: number;
+    avgListingGain: number | null;
+    medianListingGain: number | null;
+    positiveRate: number | null;
+    avgReturn1m: number | null;
+  }>;
+  byScoreBucket: Array<{
+    bucket: string;
+    count: number;
+    avgListingGain: number | null;
+    positiveRate: number | null;
+  }>;
+}
+
+export interface BacktestReport {
+  generatedAt: string;
+  threshold: number;
+  profile: { slug: string; version: number };
+  sampleSize: number;
+  // Scores recomputed with the scoring profile
+  current: ScoreEvaluation;
+  // Scores as they were stored when each IPO was synced
+  stored: ScoreEvaluation;
+  // current minus stored, so positive means the current model did better
+  delta: {
+    hitRate: number | null;
+    accuracy: number | null;
+    pearson: number | null;
+    spearman: number | null;
+  };
+  ipos: Array<{
+    symbol: string;
+    companyName: string;
+    listingDate: string | null;
+    listingGain: number;
+    storedScore: number | null;
+    currentScore: number;
+    currentRiskLevel: string;
+  }>;
+}
+
+const DEFAULT_THRESHOLD = 6;
+const RISK_LEVELS = ["conservative", "moderate", "aggressive"];
+const SCORE_BUCKETS = [
+  { bucket: "0-4", min: 0, max: 4 },
+  { bucket: "4-6", min: 4, max: 6 },
+  { bucket: "6-8", min: 6, max: 8 },
+  { bucket: "8-10", min: 8, max: 10.01 },
+];
+
+interface Observation {
+  score: number;
+  riskLevel: string;
+  listingGain: number;
+  return1m: number | null;
+}
+
+function round(value: number | null, digits: number = 3): number | null {
+  if (value === null || !Number.isFinite(value)) return null;
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function ratio(part: number, total: number): number | null {
+  return total > 0 ? part / total : null;
+}
+
+export function pearson(xs: number[], ys: number[]): number | null {
+  if (xs.length < 3) return null;
+  const mx = mean(xs)!;
+  const my = mean(ys)!;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - mx) * (ys[i] - my);
+    varianceX += (xs[i] - mx) ** 2;
+    varianceY += (ys[i] - my) ** 2;
+  }
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+// Average ranks, so tied values share a rank
+function ranks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const result = new Array<number>(values.length);
+  for (let i = 0; i < order.length;) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    const rank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) result[order[k].index] = rank;
+    i = j + 1;
+  }
+  return result;
+}
+
+export function spearman(xs: number[], ys: number[]): number | null {
+  return pearson(ranks(xs), ranks(ys));
+}
+
+export function evaluateScores(observations: Observation[], threshold: number): ScoreEvaluation {
+  const apply = observations.filter(o => o.score >= threshold);
+  const avoid = observations.filter(o => o.score < threshold);
+  const applyHits = apply.filter(o => o.listingGain > 0).length;
+  const avoidHits = avoid.filter(o => o.listingGain <= 0).length;
+  const scores = observations.map(o => o.score);
+  const gains = observations.map(o => o.listingGain);
+  
+  return {
+    sampleSize: observations.length,
+    hitRate: round(ratio(applyHits, apply.length)),
+    avoidRate: round(ratio(avoidHits, avoid.length)),
+    accuracy: round(ratio(applyHits + avoidHits, observations.length)),
+    applyCalls: apply.length,
+    avoidCalls: avoid.length,
+    pearson: round(pearson(scores, gains)),
+    spearman: round(spearman(scores, gains)),
+    byRiskLevel: RISK_LEVELS.map(riskLevel => {
+      const group = observations.filter(o => o.riskLevel === riskLevel);
+      const groupGains = group.map(o => o.listingGain);
+      return {
+        riskLevel,
+        count: group.length,
+        avgListingGain: round(mean(groupGains), 2),
+        medianListingGain: round(median(groupGains), 2),
+        positiveRate: round(ratio(group.filter(o => o.listingGain > 0).length, group.length)),
+        avgReturn1m: round(mean(group.map(o => o.return1m).filter((r): r is number => r !== null)), 2),
+      };
+    }),
+    byScoreBucket: SCORE_BUCKETS.map(({ bucket, min, max }) => {
+      const group = observations.filter(o => o.score >= min && o.score < max);
+      return {
+        bucket,
+        count: group.length,
+        avgListingGain: round(mean(group.map(o => o.listingGain)), 2),
+        positiveRate: round(ratio(group.filter(o => o.listingGain > 0).length, group.length)),
+      };
+    }),
+  };
+}
+
+function difference(current: number | null, stored: number | null): number | null {
+  return current !== null && stored !== null ? round(current - stored) : null;
+}
+
+// Scores every IPO with a known listing gain and compares the predictions with
+// what actually happened, for both the current scoring code and stored scores.
+export async function runBacktest(options: BacktestOptions = {}): Promise<BacktestReport> {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const profile = options.profile ?? await getDefaultScoringProfile();
+  const scorer = options.scorer ?? ((ipo: Ipo) => calculateIpoScore(ipo, profile.config));
+  
+  const history = (await storage.getIposWithListingPerformance())
+    .filter((ipo): ipo is Ipo & { listing: ListingPerformance & { listingGain: number } } => ipo.listing.listingGain !== null);
+  
+  const rows = history.map(ipo => ({ ipo, result: scorer(ipo) }));
+  
+  const current = evaluateScores(rows.map(({ ipo, result }) => ({
+    score: result.overallScore,
+    riskLevel: result.riskLevel,
+    listingGain: ipo.listing.listingGain,
+    return1m: ipo.listing.return1m,
+  })), threshold);
+  
+  const stored = evaluateScores(rows
+    .filter(({ ipo }) => ipo.overallScore !== null)
+    .map(({ ipo }) => ({
+      score: ipo.overallScore!,
+      riskLevel: ipo.riskLevel || "moderate",
+      listingGain: ipo.listing.listingGain,
+      return1m: ipo.listing.return1m,
+    })), threshold);
+  
+  return {
+    generatedAt: new Date().toISOString(),
+    threshold,
+    profile: { slug: profile.slug, version: profile.version },
+    sampleSize: rows.length,
+    current,
+    stored,
+    delta: {
+      hitRate: difference(current.hitRate, stored.hitRate),
+      accuracy: difference(current.accuracy, stored.accuracy),
+      pearson: difference(current.pearson, stored.pearson),
+      spearman: difference(current.spearman, stored.spearman),
+    },
+    ipos: rows.map(({ ipo, result }) => ({
+      symbol: ipo.symbol,
+      companyName: ipo.companyName,
+      listingDate: ipo.listing.listingDate,
+      listingGain: ipo.listing.listingGain,
+      storedScore: ipo.overallScore,
+      currentScore: result.overallScore,
+      currentRiskLevel: result.riskLevel,
+    })),
+  };
+}
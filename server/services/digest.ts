@@ -0,0 +1,210 @@
+import type { AlertPreferences, Ipo } from "@shared/schema";
+import { storage } from "../storage";
+import { sendDigestEmail } from "./email";
+
+export type DigestPeriod = "daily" | "weekly";
+
+export interface GmpMove {
+  ipo: Ipo;
+  from: number;
+  to: number;
+  change: number;
+}
+
+export interface IpoDigest {
+  period: DigestPeriod;
+  from: string; // First day covered (YYYY-MM-DD, India time)
+  to: string; // Last day of the look-ahead for openings and closings
+  opening: Ipo[];
+  closing: Array<{ ipo: Ipo; date: string }>;
+  gmpMovers: GmpMove[];
+  newIpos: Ipo[];
+  listed: Array<{ ipo: Ipo; listingDate: string; listingGain: number | null }>;
+  watchlist: Array<{ ipo: Ipo; gmpChange: number | null; nextEvent: string | null }>;
+}
+
+// Everything in a digest except the user's watchlist, computed once per run
+type MarketDigest = Omit<IpoDigest, "watchlist"> & { moves: Map<number, GmpMove>; closingDates: Map<number, string> };
+
+// Market dates are Indian dates; delivery times use the user's own time zone
+const MARKET_TIMEZONE = "Asia/Kolkata";
+const DEFAULT_DIGEST_TIME = "08:00";
+const PERIOD_DAYS: Record<DigestPeriod, number> = { daily: 1, weekly: 7 };
+const MAX_GMP_MOVERS = 5;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function localParts(date: Date, timeZone: string): { date: string; time: string; weekday: number } {
+  let format = formatters.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      weekday: "short",
+      hourCycle: "h23",
+    });
+    formatters.set(timeZone, format);
+  }
+  const parts = Object.fromEntries(format.formatToParts(date).map(part => [part.type, part.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+    weekday: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(parts.weekday),
+  };
+}
+
+function addDays(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+}
+
+async function collectMarketDigest(period: DigestPeriod, now: Date): Promise<MarketDigest> {
+  const days = PERIOD_DAYS[period];
+  const today = localParts(now, MARKET_TIMEZONE).date;
+  const since = addDays(today, -days);
+  const until = addDays(today, days - 1);
+  const sinceTime = now.getTime() - days * 24 * 60 * 60 * 1000;
+  const inAhead = (date: string | null): date is string => !!date && date >= today && date <= until;
+
+  const ipos = await storage.getIpos();
+
+  const closingDates = new Map<number, string>();
+  for (const event of await storage.getAllUpcomingEvents(days)) {
+    if (event.eventType === "close_date" && inAhead(event.eventDate)) {
+      closingDates.set(event.ipoId, event.eventDate);
+    }
+  }
+
+  const moves = new Map<number, GmpMove>();
+  for (const ipo of ipos) {
+    if (ipo.gmp === null || ipo.status === "closed") continue;
+    // Newest first, so the last entry is the GMP at the start of the period
+    const history = await storage.getGmpHistory(ipo.id, days);
+    if (history.length === 0) continue;
+    const from = history[history.length - 1].gmp;
+    moves.set(ipo.id, { ipo, from, to: ipo.gmp, change: ipo.gmp - from });
+  }
+
+  const listed = (await storage.getIposWithListingPerformance())
+    .filter(ipo => !!ipo.listing.listingDate && ipo.listing.listingDate >= since && ipo.listing.listingDate <= today)
+    .map(({ listing, ...ipo }) => ({ ipo, listingDate: listing.listingDate!, listingGain: listing.listingGain }));
+
+  return {
+    period,
+    from: since,
+    to: until,
+    opening: ipos.filter(ipo => inAhead(ipo.expectedDate)).sort((a, b) => a.expectedDate!.localeCompare(b.expectedDate!)),
+    closing: ipos
+      .filter(ipo => closingDates.has(ipo.id))
+      .map(ipo => ({ ipo, date: closingDates.get(ipo.id)! }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    gmpMovers: Array.from(moves.values())
+      .filter(move => move.change !== 0)
+      .sort((a, b) => Math.abs(b.change) - Math.abs(a.change))
+      .slice(0, MAX_GMP_MOVERS),
+    newIpos: ipos.filter(ipo => !!ipo.createdAt && ipo.createdAt.getTime() >= sinceTime),
+    listed,
+    moves,
+    closingDates,
+  };
+}
+
+async function personalize(market: MarketDigest, userId: string): Promise<IpoDigest> {
+  const { moves, closingDates, ...digest } = market;
+  const listedIds = new Set(market.listed.map(entry => entry.ipo.id));
+
+  const watchlist = (await storage.getWatchlist(userId))
+    .filter(item => item.ipo.status !== "closed" || listedIds.has(item.ipo.id))
+    .map(({ ipo }) => {
+      let nextEvent: string | null = null;
+      if (market.opening.some(opening => opening.id === ipo.id)) {
+        nextEvent = `Opens ${ipo.expectedDate}`;
+      } else if (closingDates.has(ipo.id)) {
+        nextEvent = `Closes ${closingDates.get(ipo.id)}`;
+      } else if (listedIds.has(ipo.id)) {
+        nextEvent = "Listed";
+      }
+      return { ipo, gmpChange: moves.get(ipo.id)?.change ?? null, nextEvent };
+    });
+
+  return { ...digest, watchlist };
+}
+
+// The digest a user would get right now, e.g. for a preview
+export async function buildDigest(userId: string, period: DigestPeriod, now: Date = new Date()): Promise<IpoDigest> {
+  return personalize(await collectMarketDigest(period, now), userId);
+}
+
+export function isDigestEmpty(digest: IpoDigest): boolean {
+  return digest.opening.length === 0
+    && digest.closing.length === 0
+    && digest.gmpMovers.length === 0
+    && digest.newIpos.length === 0
+    && digest.listed.length === 0
+    && digest.watchlist.every(entry => !entry.gmpChange && !entry.nextEvent);
+}
+
+// The user's local date when their digest is due now and has not been sent today
+function dueDigestDate(prefs: AlertPreferences, now: Date): string | null {
+  const timeZone = prefs.timezone || MARKET_TIMEZONE;
+  const local = localParts(now, timeZone);
+  if (prefs.digestMode === "weekly" && local.weekday !== (prefs.digestDay ?? 1)) return null;
+  if (local.time < (prefs.digestTime || DEFAULT_DIGEST_TIME)) return null;
+  if (prefs.lastDigestAt && localParts(prefs.lastDigestAt, timeZone).date === local.date) return null;
+  return local.date;
+}
+
+// Called by the scheduler every minute. Sends each digest user their digest
+// once their local digest time has passed; empty digests are not sent.
+export async function sendDueDigests(now: Date = new Date()): Promise<{ sent: number; queued: number; failed: number; empty: number }> {
+  const result = { sent: 0, queued: 0, failed: 0, empty: 0 };
+  const due = (await storage.getDigestSubscribers())
+    .map(prefs => ({ prefs, date: dueDigestDate(prefs, now) }))
+    .filter((entry): entry is { prefs: AlertPreferences; date: string } => entry.date !== null);
+  if (due.length === 0) return result;
+
+  const markets = new Map<DigestPeriod, MarketDigest>();
+  for (const { prefs, date } of due) {
+    const period = prefs.digestMode as DigestPeriod;
+    try {
+      let market = markets.get(period);
+      if (!market) {
+        market = await collectMarketDigest(period, now);
+        markets.set(period, market);
+      }
+      const digest = await personalize(market, prefs.userId);
+      await storage.upsertAlertPreferences(prefs.userId, { lastDigestAt: now });
+
+      if (isDigestEmpty(digest)) {
+        result.empty++;
+        continue;
+      }
+
+      const log = await storage.claimAlertLog({
+        userId: prefs.userId,
+        alertType: "digest",
+        channel: "email",
+        status: "pending",
+        dedupeKey: `digest:${period}:${date}`,
+        message: `${period === "daily" ? "Daily" : "Weekly"} digest for ${date}`,
+      });
+      if (!log) continue;
+
+      // A queued digest stays claimed; the email outbox keeps retrying it
+      const status = await sendDigestEmail(prefs.email!, digest);
+      await storage.updateAlertLog(log.id, { status: status === "queued" ? "retrying" : status });
+      result[status]++;
+    } catch (error) {
+      console.error(`Digest for user ${prefs.userId} failed:`, error);
+      result.failed++;
+    }
+  }
+
+  console.log(`📬 Digests: ${result.sent} sent, ${result.queued} retrying, ${result.failed} failed, ${result.empty} empty`);
+  return result;
+}
@@ -0,0 +1,98 @@
+import type { OutboxEmail } from "@shared/schema";
+import { storage } from "../storage";
+import { getEmailTransport, type EmailTransport } from "./email-transports";
+
+// Delay before each retry; an email that still fails after the last one is marked failed
+const RETRY_BACKOFF_MINUTES = [1, 5, 15, 60, 240];
+const MAX_ATTEMPTS = RETRY_BACKOFF_MINUTES.length + 1;
+
+// "queued" means the send failed but a retry is scheduled, so the email is not
+// delivered yet but not lost either
+export type EmailDeliveryStatus = "sent" | "queued" | "failed";
+
+// One delivery attempt for an outbox row
+export async function deliverOutboxEmail(email: OutboxEmail, transport: EmailTransport): Promise<EmailDeliveryStatus> {
+  const attempts = email.attempts + 1;
+  let result;
+  try {
+    result = await transport.send({
+      from: email.fromAddress,
+      to: email.toAddress,
+      subject: email.subject,
+      html: email.html,
+    });
+  } catch (error) {
+    result = { success: false as const, error: error instanceof Error ? error.message : String(error), retryable: true };
+  }
+
+  if (result.success) {
+    await storage.updateOutboxEmail(email.id, {
+      transport: transport.name,
+      status: transport.name === "outbox" ? "captured" : "sent",
+      attempts,
+      nextAttemptAt: null,
+      providerMessageId: result.messageId,
+      sentAt: new Date(),
+    });
+    return "sent";
+  }
+
+  if (result.retryable && attempts < MAX_ATTEMPTS) {
+    const delay = RETRY_BACKOFF_MINUTES[attempts - 1] * 60 * 1000;
+    await storage.updateOutboxEmail(email.id, {
+      transport: transport.name,
+      status: "retrying",
+      attempts,
+      nextAttemptAt: new Date(Date.now() + delay),
+      lastError: result.error,
+    });
+    console.warn(`📧 Email ${email.id} to ${email.toAddress} failed (attempt ${attempts}), retrying: ${result.error}`);
+    return "queued";
+  }
+
+  await storage.updateOutboxEmail(email.id, {
+    transport: transport.name,
+    status: "failed",
+    attempts,
+    nextAttemptAt: null,
+    lastError: result.error,
+  });
+  console.error(`📧 Email ${email.id} to ${email.toAddress} failed after ${attempts} attempt(s): ${result.error}`);
+  return "failed";
+}
+
+// Called by the scheduler every minute
+export async function retryDueEmails(now: Date = new Date()): Promise<{ retried: number; failed: number }> {
+  const result = { retried: 0, failed: 0 };
+  const transport = getEmailTransport();
+  if (!transport) return result;
+
+  for (const email of await storage.getDueOutboxEmails(now)) {
+    result.retried++;
+    if (await deliverOutboxEmail(email, transport) === "failed") {
+      result.failed++;
+    }
+  }
+
+  if (result.retried > 0) {
+    console.log(`📧 Email retries: ${result.retried} attempted, ${result.failed} failed for good`);
+  }
+  return result;
+}
+
+// Manual retry from the Admin page; also resends failed emails
+export async function retryOutboxEmail(id: number): Promise<OutboxEmail | undefined> {
+  const email = await storage.getOutboxEmail(id);
+  const transport = getEmailTransport();
+  if (!email || !transport) return undefined;
+
+  // A manual retry gets a fresh set of automatic retries
+  await deliverOutboxEmail({ ...email, attempts: 0 }, transport);
+  return storage.getOutboxEmail(id);
+}
+
+// Team invite links carry the token that joins the list, so the Admin preview
+// shows the email with the token blanked out
+export function redactOutboxHtml(html: string): string {
+  return html.replace(/([?&](?:amp;)?invite=)[^"'&<\s]+/g, "$1redacted");
+}
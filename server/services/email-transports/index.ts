@@ -0,0 +1,53 @@
+import type { EmailTransport } from "./types";
+import { createResendTransport } from "./resend";
+import { createSmtpTransport } from "./smtp";
+import { outboxTransport } from "./outbox";
+
+export * from "./types";
+
+let configured: EmailTransport | null | undefined;
+
+function createConfiguredTransport(): EmailTransport | null {
+  const name = process.env.EMAIL_TRANSPORT?.trim().toLowerCase()
+    || (process.env.RESEND_API_KEY ? "resend" : process.env.SMTP_HOST ? "smtp" : null);
+
+  switch (name) {
+    case "resend":
+      if (!process.env.RESEND_API_KEY) {
+        console.warn("⚠️ EMAIL_TRANSPORT=resend but RESEND_API_KEY is not set");
+        return null;
+      }
+      return createResendTransport(process.env.RESEND_API_KEY);
+    case "smtp": {
+      if (!process.env.SMTP_HOST) {
+        console.warn("⚠️ EMAIL_TRANSPORT=smtp but SMTP_HOST is not set");
+        return null;
+      }
+      const port = Number(process.env.SMTP_PORT || 587);
+      return createSmtpTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+      });
+    }
+    case "outbox":
+      return outboxTransport;
+    case null:
+      // Nothing configured: capture emails locally in development, send nothing in production
+      return process.env.NODE_ENV === "production" ? null : outboxTransport;
+    default:
+      console.warn(`⚠️ Unknown EMAIL_TRANSPORT "${name}", email disabled`);
+      return null;
+  }
+}
+
+// Transport from EMAIL_TRANSPORT (resend, smtp or outbox). When unset, Resend
+// is used if RESEND_API_KEY is set, then SMTP if SMTP_HOST is set.
+export function getEmailTransport(): EmailTransport | null {
+  if (configured === undefined) {
+    configured = createConfiguredTransport();
+  }
+  return configured;
+}
@@ -0,0 +1,10 @@
+import type { EmailSendResult, EmailTransport } from "./types";
+
+// Development transport: nothing leaves the server. Every email is already
+// stored in email_outbox, so "sending" only marks it captured for viewing in Admin.
+export const outboxTransport: EmailTransport = {
+  name: "outbox",
+  async send(): Promise<EmailSendResult> {
+    return { success: true, messageId: null };
+  },
+};
@@ -0,0 +1,36 @@
+import type { EmailMessage, EmailSendResult, EmailTransport } from "./types";
+
+const RESEND_API_URL = "https://api.resend.com/emails";
+const REQUEST_TIMEOUT_MS = 15000;
+
+export function createResendTransport(apiKey: string): EmailTransport {
+  return {
+    name: "resend",
+    async send(message: EmailMessage): Promise<EmailSendResult> {
+      try {
+        const response = await fetch(RESEND_API_URL, {
+          method: "POST",
+          headers: {
+            "Authorization": `Bearer ${apiKey}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(message),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+
+        if (!response.ok) {
+          const error = await response.text();
+          // Rate limits and server errors are worth another try; other 4xx mean the request itself is bad
+          const retryable = response.status === 429 || response.status >= 500;
+          return { success: false, error: `Resend HTTP ${response.status}: ${error}`, retryable };
+        }
+
+        const data = await response.json() as { id?: string };
+        return { success: true, messageId: data.id ?? null };
+      } catch (error) {
+        // Network errors and timeouts
+        return { success: false, error: error instanceof Error ? error.message : "Resend request failed", retryable: true };
+      }
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import nodemailer from "nodemailer";
+import type { EmailMessage, EmailSendResult, EmailTransport } from "./types";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (port 465); otherwise STARTTLS when offered
+  user?: string;
+  pass?: string;
+}
+
+export function createSmtpTransport(config: SmtpConfig): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+    connectionTimeout: 15000,
+    greetingTimeout: 15000,
+    socketTimeout: 30000,
+  });
+
+  return {
+    name: "smtp",
+    async send(message: EmailMessage): Promise<EmailSendResult> {
+      try {
+        const info = await transporter.sendMail(message);
+        return { success: true, messageId: info.messageId ?? null };
+      } catch (error) {
+        // 5xx replies are permanent rejections; 4xx replies and connection errors are transient
+        const responseCode = (error as { responseCode?: number }).responseCode;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "SMTP delivery failed",
+          retryable: !responseCode || responseCode < 500,
+        };
+      }
+    },
+  };
+}
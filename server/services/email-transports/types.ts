@@ -0,0 +1,19 @@
+export type EmailTransportName = "resend" | "smtp" | "outbox";
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+}
+
+// retryable: the provider may accept the same message later (rate limits,
+// server errors, timeouts); permanent failures are not retried
+export type EmailSendResult =
+  | { success: true; messageId: string | null }
+  | { success: false; error: string; retryable: boolean };
+
+export interface EmailTransport {
+  readonly name: EmailTransportName;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
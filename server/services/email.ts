@@ -1,4 +1,8 @@
 import type { Ipo } from "@shared/schema";
+import type { IpoDigest } from "./digest";
+import { storage } from "../storage";
+import { getEmailTransport } from "./email-transports";
+import { deliverOutboxEmail, type EmailDeliveryStatus } from "./email-outbox";
 
 interface EmailOptions {
   to: string;
@@ -6,45 +10,40 @@ interface EmailOptions {
   html: string;
 }
 
-export async function sendEmail(options: EmailOptions): Promise<boolean> {
-  const resendApiKey = process.env.RESEND_API_KEY;
+const DEFAULT_FROM = "IPO Analyzer <alerts@resend.dev>";
+
+// Every email is recorded in email_outbox before it is handed to the
+// transport, so failed sends can be retried and inspected from Admin.
+// Returns "failed" when email is not configured or the send failed for good,
+// and "queued" when the first attempt failed and a retry is scheduled.
+export async function sendEmail(options: EmailOptions): Promise<EmailDeliveryStatus> {
+  const transport = getEmailTransport();
   
-  if (!resendApiKey) {
-    console.log("Email service not configured (RESEND_API_KEY missing)");
-    return false;
+  if (!transport) {
+    console.log("Email service not configured (set RESEND_API_KEY, SMTP_HOST or EMAIL_TRANSPORT)");
+    return "failed";
   }
   
   try {
-    const response = await fetch("https://api.resend.com/emails", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${resendApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        from: "IPO Analyzer <alerts@resend.dev>",
-        to: options.to,
-        subject: options.subject,
-        html: options.html,
-      }),
+    const email = await storage.createOutboxEmail({
+      toAddress: options.to,
+      fromAddress: process.env.EMAIL_FROM || DEFAULT_FROM,
+      subject: options.subject,
+      html: options.html,
+      transport: transport.name,
+      status: "pending",
     });
-    
-    if (!response.ok) {
-      const error = await response.text();
-      console.error("Resend API error:", error);
-      return false;
-    }
-    
-    return true;
+    return await deliverOutboxEmail(email, transport);
   } catch (error) {
     console.error("Failed to send email:", error);
-    return false;
+    return "failed";
   }
 }
 
-export async function sendIpoEmailAlert(email: string, ipo: Ipo, alertType: string): Promise<boolean> {
+// detail is an optional line shown under the header, e.g. which alert rule matched
+export async function sendIpoEmailAlert(email: string, ipo: Ipo, alertType: string, detail?: string): Promise<EmailDeliveryStatus> {
   const subject = getEmailSubject(ipo, alertType);
-  const html = formatIpoEmailHtml(ipo, alertType);
+  const html = formatIpoEmailHtml(ipo, alertType, detail);
   
   return sendEmail({ to: email, subject, html });
 }
@@ -57,6 +56,8 @@ function getEmailSubject(ipo: Ipo, alertType: string): string {
       return `[GMP Update] ${ipo.companyName} - Rs.${ipo.gmp || 0}`;
     case "open_date":
       return `[Reminder] ${ipo.companyName} IPO Opens Soon`;
+    case "rule":
+      return `[Alert Rule] ${ipo.companyName} matched your rule`;
     case "ai_analysis":
       return `[AI Analysis] ${ipo.companyName} - Analysis Ready`;
     default:
@@ -64,7 +65,7 @@ function getEmailSubject(ipo: Ipo, alertType: string): string {
   }
 }
 
-function formatIpoEmailHtml(ipo: Ipo, alertType: string): string {
+function formatIpoEmailHtml(ipo: Ipo, alertType: string, detail?: string): string {
   const scoreColor = getScoreColor(ipo.overallScore);
   const riskColor = getRiskColor(ipo.riskLevel);
   
@@ -79,6 +80,9 @@ function formatIpoEmailHtml(ipo: Ipo, alertType: string): string {
     case "open_date":
       alertHeader = "IPO Opening Soon";
       break;
+    case "rule":
+      alertHeader = "Alert Rule Matched";
+      break;
     case "ai_analysis":
       alertHeader = "AI Analysis Ready";
       break;
@@ -109,6 +113,7 @@ function formatIpoEmailHtml(ipo: Ipo, alertType: string): string {
       <h2 style="margin: 0; color: #e94560;">📊 ${alertHeader}</h2>
     </div>
     <div class="content">
+      ${detail ? `<p style="margin-top: 0; color: #6b7280;">${escapeHtml(detail)}</p>` : ""}
       <h1 style="margin-top: 0;">${ipo.companyName}</h1>
       <p><strong>Symbol:</strong> ${ipo.symbol} | <strong>Sector:</strong> ${ipo.sector || "N/A"}</p>
       <p><strong>Price Range:</strong> ${ipo.priceRange} | <strong>Status:</strong> ${ipo.status.toUpperCase()}</p>
@@ -153,6 +158,146 @@ function formatIpoEmailHtml(ipo: Ipo, alertType: string): string {
 </html>`;
 }
 
+export async function sendDigestEmail(email: string, digest: IpoDigest): Promise<EmailDeliveryStatus> {
+  return sendEmail({ to: email, subject: getDigestSubject(digest), html: formatDigestEmailHtml(digest) });
+}
+
+function getDigestSubject(digest: IpoDigest): string {
+  const label = digest.period === "daily" ? "Daily Digest" : "Weekly Digest";
+  const highlights = [
+    digest.opening.length > 0 ? `${digest.opening.length} opening` : null,
+    digest.closing.length > 0 ? `${digest.closing.length} closing` : null,
+    digest.listed.length > 0 ? `${digest.listed.length} listed` : null,
+    digest.gmpMovers.length > 0 ? `${digest.gmpMovers.length} GMP movers` : null,
+  ].filter(Boolean);
+  return `[${label}] ${highlights.length > 0 ? highlights.join(", ") : "IPO market update"}`;
+}
+
+function formatSigned(value: number, suffix: string = ""): string {
+  return `${value > 0 ? "+" : value < 0 ? "−" : ""}${Math.abs(value)}${suffix}`;
+}
+
+function digestSection(title: string, rows: string[]): string {
+  if (rows.length === 0) return "";
+  return `
+      <h3>${title}</h3>
+      ${rows.map(row => `<div class="metric">${row}</div>`).join("")}`;
+}
+
+function digestIpoLine(ipo: Ipo, extra: string): string {
+  return `<strong>${escapeHtml(ipo.companyName)}</strong> · ${extra}
+        <span style="float: right; color: ${getScoreColor(ipo.overallScore)};">${ipo.overallScore?.toFixed(1) || "N/A"}/10</span>`;
+}
+
+export function formatDigestEmailHtml(digest: IpoDigest): string {
+  const title = digest.period === "daily" ? "Your Daily IPO Digest" : "Your Weekly IPO Digest";
+  const range = digest.period === "daily" ? digest.to : `${digest.from} to ${digest.to}`;
+
+  const sections = [
+    digestSection("🔔 Opening for Subscription", digest.opening.map(ipo =>
+      digestIpoLine(ipo, `Opens ${ipo.expectedDate} · ${escapeHtml(ipo.priceRange)}${ipo.gmp !== null ? ` · GMP ₹${ipo.gmp}` : ""}`))),
+    digestSection("⏳ Closing Soon", digest.closing.map(({ ipo, date }) =>
+      digestIpoLine(ipo, `Closes ${date}${ipo.subscriptionRetail !== null ? ` · Retail ${ipo.subscriptionRetail}x` : ""}`))),
+    digestSection("📈 Biggest GMP Movers", digest.gmpMovers.map(move =>
+      digestIpoLine(move.ipo, `₹${move.from} → ₹${move.to} <span style="color: ${move.change > 0 ? "#059669" : "#dc2626"};">(${formatSigned(move.change)})</span>`))),
+    digestSection("🎉 New Listings", digest.listed.map(({ ipo, listingDate, listingGain }) =>
+      digestIpoLine(ipo, `Listed ${listingDate}${listingGain !== null ? ` · Listing gain ${formatSigned(Math.round(listingGain * 10) / 10, "%")}` : ""}`))),
+    digestSection("🆕 New IPOs Added", digest.newIpos.map(ipo =>
+      digestIpoLine(ipo, `${escapeHtml(ipo.sector || "N/A")} · ${escapeHtml(ipo.priceRange)}`))),
+    digestSection("⭐ Your Watchlist", digest.watchlist.map(({ ipo, gmpChange, nextEvent }) =>
+      digestIpoLine(ipo, [
+        ipo.status.toUpperCase(),
+        ipo.gmp !== null ? `GMP ₹${ipo.gmp}${gmpChange ? ` (${formatSigned(gmpChange)})` : ""}` : null,
+        nextEvent,
+      ].filter(Boolean).join(" · ")))),
+  ].join("");
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #1a1a2e; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: linear-gradient(135deg, #1a1a2e 0%, #16213e 100%); color: #e94560; padding: 30px; border-radius: 12px 12px 0 0; }
+    .content { background: #f8f9fa; padding: 30px; border-radius: 0 0 12px 12px; }
+    .metric { margin: 10px 0; padding: 12px; background: white; border-radius: 8px; }
+    .disclaimer { font-size: 12px; color: #6b7280; margin-top: 20px; padding-top: 20px; border-top: 1px solid #e5e7eb; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h2 style="margin: 0; color: #e94560;">📊 ${title}</h2>
+      <p style="margin: 4px 0 0; color: #9ca3af;">${range}</p>
+    </div>
+    <div class="content">
+      ${sections || "<p>A quiet period: no IPO activity to report.</p>"}
+      
+      <p class="disclaimer">
+        You are receiving this digest instead of individual alert emails. Change the schedule in Settings → Alert Notifications.<br>
+        <strong>Disclaimer:</strong> This information is for screening and educational purposes only. 
+        It does not constitute investment advice.
+      </p>
+    </div>
+  </div>
+</body>
+</html>`;
+}
+
+export interface TeamInviteEmail {
+  listName: string;
+  inviterName: string;
+  role: string; // Display label, e.g. "Editor"
+  acceptUrl: string;
+  expiresAt: Date;
+}
+
+export async function sendTeamInviteEmail(email: string, invite: TeamInviteEmail): Promise<EmailDeliveryStatus> {
+  return sendEmail({
+    to: email,
+    subject: `[Team Watchlist] ${invite.inviterName} invited you to "${invite.listName}"`,
+    html: formatTeamInviteEmailHtml(invite),
+  });
+}
+
+function formatTeamInviteEmailHtml(invite: TeamInviteEmail): string {
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #1a1a2e; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: linear-gradient(135deg, #1a1a2e 0%, #16213e 100%); color: #e94560; padding: 30px; border-radius: 12px 12px 0 0; }
+    .content { background: #f8f9fa; padding: 30px; border-radius: 0 0 12px 12px; }
+    .button { display: inline-block; background: #e94560; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: bold; }
+    .disclaimer { font-size: 12px; color: #6b7280; margin-top: 20px; padding-top: 20px; border-top: 1px solid #e5e7eb; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h2 style="margin: 0; color: #e94560;">👥 Team Watchlist Invite</h2>
+    </div>
+    <div class="content">
+      <p style="margin-top: 0;">
+        <strong>${escapeHtml(invite.inviterName)}</strong> invited you to the team watchlist
+        <strong>${escapeHtml(invite.listName)}</strong> as ${escapeHtml(invite.role.toLowerCase())}.
+      </p>
+      <p><a class="button" href="${escapeHtml(invite.acceptUrl)}">View invite</a></p>
+      <p class="disclaimer">
+        Sign in to IPO Analyzer to accept. The invite expires on ${invite.expiresAt.toDateString()}.
+        If you were not expecting it, you can ignore this email.
+      </p>
+    </div>
+  </div>
+</body>
+</html>`;
+}
+
 function getScoreColor(score: number | null): string {
   if (!score) return "#6b7280";
   if (score >= 7) return "#059669";
@@ -168,3 +313,8 @@ function getRiskColor(risk: string | null): string {
     default: return "#6b7280";
   }
 }
+
+// For user-provided text such as alert rule names and conditions ("<", ">")
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
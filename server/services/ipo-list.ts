@@ -0,0 +1,67 @@
+import type { Ipo, ScoringProfile } from "@shared/schema";
+import type { IpoListQuery, IpoSortField, IpoSortKey } from "@shared/routes";
+import { DEFAULT_SCORING_PROFILE } from "@shared/scoring";
+import { storage, type IpoListFilter } from "../storage";
+import { applyScoringProfile } from "./scoring-profiles";
+import { extractIssueSizeCr } from "./scraper";
+
+const DEFAULT_SORT: IpoSortKey[] = [{ field: "expectedDate", direction: "desc" }];
+
+function sortValue(ipo: Ipo, field: IpoSortField): string | number | null {
+  switch (field) {
+    case "issueSize":
+      return extractIssueSizeCr(ipo.issueSize);
+    case "createdAt":
+      return ipo.createdAt?.getTime() ?? null;
+    default:
+      return ipo[field];
+  }
+}
+
+// Same order as storage.getIpos: missing values last, ties broken by id
+function compareIpos(a: Ipo, b: Ipo, sort: IpoSortKey[]): number {
+  for (const { field, direction } of sort) {
+    const left = sortValue(a, field);
+    const right = sortValue(b, field);
+    if (left === right) continue;
+    if (left === null) return 1;
+    if (right === null) return -1;
+    const order = typeof left === "string" ? left.localeCompare(String(right)) : left - (right as number);
+    if (order !== 0) return direction === "desc" ? -order : order;
+  }
+  return a.id - b.id;
+}
+
+// Risk level is derived from the scores, so it is filtered like them
+function matchesScoreFilters(ipo: Ipo, query: Partial<IpoListQuery>): boolean {
+  if (query.riskLevel && ipo.riskLevel !== query.riskLevel) return false;
+  if (query.minScore === undefined && query.maxScore === undefined) return true;
+  if (ipo.overallScore === null) return false;
+  return (query.minScore === undefined || ipo.overallScore >= query.minScore)
+    && (query.maxScore === undefined || ipo.overallScore <= query.maxScore);
+}
+
+// Stored scores come from the default scoring profile, so the database can
+// filter and sort on them. Under another profile the scores are recomputed
+// first, and score and risk filters, sorting and paging happen here instead.
+export async function listIpos(query: IpoListFilter, profile: ScoringProfile): Promise<{ ipos: Ipo[]; total: number }> {
+  const usesScore = query.minScore !== undefined
+    || query.maxScore !== undefined
+    || query.riskLevel !== undefined
+    || !!query.sort?.some(key => key.field === "overallScore");
+
+  if (profile.slug === DEFAULT_SCORING_PROFILE || !usesScore) {
+    const [ipos, total] = await Promise.all([storage.getIpos(query), storage.countIpos(query)]);
+    return { ipos: ipos.map(ipo => applyScoringProfile(ipo, profile)), total };
+  }
+
+  const matches = (await storage.getIpos({ ...query, minScore: undefined, maxScore: undefined, riskLevel: undefined, sort: undefined, limit: undefined, offset: 0 }))
+    .map(ipo => applyScoringProfile(ipo, profile))
+    .filter(ipo => matchesScoreFilters(ipo, query))
+    .sort((a, b) => compareIpos(a, b, query.sort?.length ? query.sort : DEFAULT_SORT));
+  const offset = query.offset ?? 0;
+  return {
+    ipos: matches.slice(offset, query.limit ? offset + query.limit : undefined),
+    total: matches.length,
+  };
+}
@@ -0,0 +1,231 @@
+import axios from "axios";
+import type { Ipo, InsertListingPerformance, ListingPerformance } from "@shared/schema";
+import { storage } from "../storage";
+import { extractPriceFromRange } from "./scraper";
+import { emitWebhookEvents, ipoListedEvent, type WebhookEvent } from "./webhooks";
+import { headers, companyKey } from "./sources/utils";
+
+const YAHOO_SEARCH = "https://query2.finance.yahoo.com/v1/finance/search";
+const YAHOO_CHART = "https://query1.finance.yahoo.com/v8/finance/chart";
+const SOURCE = "yahoo_finance";
+
+// Calendar days after the listing date for each tracked return
+const RETURN_HORIZONS = [
+  { field: "return1w", days: 7 },
+  { field: "return1m", days: 30 },
+  { field: "return3m", days: 91 },
+  { field: "return6m", days: 182 },
+] as const;
+
+// IPOs are tracked until their 6-month return is known, with some slack for late listings
+const TRACKING_WINDOW_DAYS = 220;
+// Shares list three working days after bidding closes (T+3). Without a close
+// date, the listing is expected ten days after opening, as on the IPO timeline.
+const LISTING_WORKING_DAYS_AFTER_CLOSE = 3;
+const LISTING_DAYS_AFTER_OPEN = 10;
+
+interface DailyCandle {
+  date: string; // YYYY-MM-DD
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+// The ticker comes from the NSE symbol when an exchange published it. Otherwise
+// an NSE (preferred) or BSE ticker whose full name matches the company is used;
+// a shared prefix is not enough, since an already listed company can have a
+// similar name. Either way the ticker must not have traded before the IPO opened.
+async function resolveExchangeSymbol(ipo: Ipo): Promise<string | null> {
+  if (ipo.nseSymbol) return `${ipo.nseSymbol}.NS`;
+
+  const companyName = ipo.companyName;
+  const query = companyName.replace(/\b(ltd|limited)\b\.?/gi, "").trim();
+  const response = await axios.get(YAHOO_SEARCH, {
+    params: { q: query, quotesCount: 8, newsCount: 0 },
+    headers,
+    timeout: 30000,
+  });
+  
+  const target = companyKey(companyName);
+  const quotes: Array<{ symbol: string; quoteType?: string; shortname?: string; longname?: string }> = response.data?.quotes || [];
+  const matches = quotes.filter(quote => {
+    if (quote.quoteType !== "EQUITY") return false;
+    if (!quote.symbol.endsWith(".NS") && !quote.symbol.endsWith(".BO")) return false;
+    return quote.longname ? companyKey(quote.longname) === target : false;
+  });
+  
+  return (matches.find(quote => quote.symbol.endsWith(".NS")) || matches[0])?.symbol ?? null;
+}
+
+async function fetchDailyCandles(symbol: string, from: Date): Promise<{ candles: DailyCandle[]; firstTradeDate: string | null }> {
+  const response = await axios.get(`${YAHOO_CHART}/${encodeURIComponent(symbol)}`, {
+    params: {
+      period1: Math.floor(from.getTime() / 1000),
+      period2: Math.floor(Date.now() / 1000),
+      interval: "1d",
+    },
+    headers,
+    timeout: 30000,
+  });
+  
+  const result = response.data?.chart?.result?.[0];
+  const timestamps: number[] = result?.timestamp || [];
+  const quote = result?.indicators?.quote?.[0] || {};
+  const offsetSeconds: number = result?.meta?.gmtoffset ?? 0;
+  const firstTrade: number | undefined = result?.meta?.firstTradeDate;
+  
+  const candles: DailyCandle[] = [];
+  timestamps.forEach((timestamp, index) => {
+    const [open, high, low, close] = [quote.open?.[index], quote.high?.[index], quote.low?.[index], quote.close?.[index]];
+    if ([open, high, low, close].some(value => typeof value !== "number")) return;
+    candles.push({
+      date: new Date((timestamp + offsetSeconds) * 1000).toISOString().split("T")[0],
+      open,
+      high,
+      low,
+      close,
+    });
+  });
+  return {
+    candles,
+    firstTradeDate: typeof firstTrade === "number" ? new Date((firstTrade + offsetSeconds) * 1000).toISOString().split("T")[0] : null,
+  };
+}
+
+function percentChange(price: number, base: number): number {
+  return Math.round(((price - base) / base) * 10000) / 100;
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split("T")[0];
+}
+
+function addWorkingDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  let remaining = days;
+  while (remaining > 0) {
+    result.setUTCDate(result.getUTCDate() + 1);
+    const weekday = result.getUTCDay();
+    if (weekday !== 0 && weekday !== 6) remaining--;
+  }
+  return result.toISOString().split("T")[0];
+}
+
+function expectedListingDate(ipo: Pick<Ipo, "expectedDate" | "closeDate">): string | null {
+  if (ipo.closeDate) return addWorkingDays(ipo.closeDate, LISTING_WORKING_DAYS_AFTER_CLOSE);
+  return ipo.expectedDate ? addDays(ipo.expectedDate, LISTING_DAYS_AFTER_OPEN) : null;
+}
+
+// Builds listing-day and later returns from the daily candles. The first candle
+// is the listing day; a return stays null until its horizon is covered.
+export function computeListingPerformance(candles: DailyCandle[], issuePrice: number | null): Omit<InsertListingPerformance, "ipoId" | "exchangeSymbol" | "source"> | null {
+  if (candles.length === 0) return null;
+  
+  const listing = candles[0];
+  const last = candles[candles.length - 1];
+  const performance: Omit<InsertListingPerformance, "ipoId" | "exchangeSymbol" | "source"> = {
+    issuePrice,
+    listingDate: listing.date,
+    listingOpen: listing.open,
+    listingHigh: listing.high,
+    listingLow: listing.low,
+    listingClose: listing.close,
+    listingGain: issuePrice ? percentChange(listing.open, issuePrice) : null,
+    listingCloseGain: issuePrice ? percentChange(listing.close, issuePrice) : null,
+    currentPrice: last.close,
+  };
+  
+  for (const { field, days } of RETURN_HORIZONS) {
+    const target = addDays(listing.date, days);
+    const candle = candles.find(c => c.date >= target);
+    performance[field] = candle && issuePrice ? percentChange(candle.close, issuePrice) : null;
+  }
+  
+  return performance;
+}
+
+// Returns the stored performance, or null when the IPO has not listed yet.
+// firstListing is set the first time listing-day prices are found.
+async function trackIpo(ipo: Ipo): Promise<{ listing: ListingPerformance; firstListing: boolean } | null> {
+  const existing = await storage.getListingPerformance(ipo.id);
+  const exchangeSymbol = existing?.exchangeSymbol || await resolveExchangeSymbol(ipo);
+  if (!exchangeSymbol) {
+    throw new Error("No exchange listing found");
+  }
+  
+  // Start from the open date so the first candle returned is the listing day
+  const { candles, firstTradeDate } = await fetchDailyCandles(exchangeSymbol, new Date(`${ipo.expectedDate}T00:00:00Z`));
+  if (firstTradeDate && ipo.expectedDate && firstTradeDate < ipo.expectedDate) {
+    throw new Error(`${exchangeSymbol} was already trading before the IPO opened`);
+  }
+  const issuePrice = extractPriceFromRange(ipo.priceRange);
+  const performance = computeListingPerformance(candles, issuePrice);
+  if (!performance) return null; // Not listed yet
+  
+  const listing = await storage.upsertListingPerformance({
+    ipoId: ipo.id,
+    exchangeSymbol,
+    source: SOURCE,
+    ...performance,
+  });
+  return { listing, firstListing: !existing?.listingDate };
+}
+
+let tracking = false;
+
+// Fills listing-day prices and 1w/1m/3m/6m returns for recently closed IPOs,
+// from their expected listing date on.
+// IPOs whose 6-month return is already known are left alone.
+export async function trackListingPerformance(): Promise<{ checked: number; updated: number; errors: Array<{ symbol: string; error: string }> } | null> {
+  if (tracking) {
+    console.log("⏭️ Skipping listing performance refresh: one is already running");
+    return null;
+  }
+  tracking = true;
+  
+  try {
+    const today = new Date().toISOString().split("T")[0];
+    const cutoff = addDays(today, -TRACKING_WINDOW_DAYS);
+    const candidates: Ipo[] = [];
+    for (const ipo of await storage.getIpos({ status: "closed" })) {
+      if (!ipo.expectedDate || ipo.expectedDate < cutoff) continue;
+      // Closed but not due to list yet: nothing to look up
+      const listingDate = expectedListingDate(ipo);
+      if (!listingDate || listingDate > today) continue;
+      const existing = await storage.getListingPerformance(ipo.id);
+      if (existing?.return6m === null || existing?.return6m === undefined) {
+        candidates.push(ipo);
+      }
+    }
+    console.log(`📉 Refreshing listing performance for ${candidates.length} IPOs...`);
+    
+    let updated = 0;
+    const errors: Array<{ symbol: string; error: string }> = [];
+    const webhookEvents: WebhookEvent[] = [];
+    
+    for (const ipo of candidates) {
+      try {
+        const tracked = await trackIpo(ipo);
+        if (!tracked) continue;
+        updated++;
+        if (tracked.firstListing) webhookEvents.push(ipoListedEvent(ipo, tracked.listing));
+      } catch (error) {
+        errors.push({ symbol: ipo.symbol, error: error instanceof Error ? error.message : "Unknown error" });
+      }
+    }
+    
+    console.log(`✅ Updated listing performance for ${updated} IPOs (${errors.length} errors)`);
+    
+    try {
+      await emitWebhookEvents(webhookEvents);
+    } catch (error) {
+      console.error("❌ Webhooks failed after listing performance refresh:", error);
+    }
+    return { checked: candidates.length, updated, errors };
+  } finally {
+    tracking = false;
+  }
+}
@@ -0,0 +1,64 @@
+// Minimal PDF writer for plain-text reports: monospaced lines on A4 landscape
+// pages using the built-in Courier fonts, so no font files are embedded.
+
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 40;
+const FONT_SIZE = 8;
+const LINE_HEIGHT = 11;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LINE_HEIGHT);
+
+export interface PdfLine {
+  text: string;
+  bold?: boolean;
+}
+
+// The standard fonts only cover Latin-1; the rupee sign becomes "Rs."
+function toLatin1(text: string): string {
+  return text.replace(/₹/g, "Rs.").replace(/[^\x20-\xff]/g, "?");
+}
+
+function escapeText(text: string): string {
+  return toLatin1(text).replace(/[\\()]/g, match => `\\${match}`);
+}
+
+function pageStream(lines: PdfLine[], pageNumber: number, pageCount: number, footer: string): string {
+  const commands = lines.map((line, index) => {
+    const y = PAGE_HEIGHT - MARGIN - (index + 1) * LINE_HEIGHT;
+    return `BT /${line.bold ? "F2" : "F1"} ${FONT_SIZE} Tf ${MARGIN} ${y} Td (${escapeText(line.text)}) Tj ET`;
+  });
+  commands.push(`BT /F1 ${FONT_SIZE} Tf ${MARGIN} ${MARGIN / 2} Td (${escapeText(`${footer}  -  Page ${pageNumber} of ${pageCount}`)}) Tj ET`);
+  return commands.join("\n");
+}
+
+export function renderTextPdf(lines: PdfLine[], footer: string): Buffer {
+  const pages: PdfLine[][] = [];
+  for (let i = 0; i < Math.max(lines.length, 1); i += LINES_PER_PAGE) {
+    pages.push(lines.slice(i, i + LINES_PER_PAGE));
+  }
+
+  // Objects 1-4 are fixed; each page then adds a page object and its content stream
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${5 + i * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>",
+  ];
+  pages.forEach((pageLines, i) => {
+    const stream = pageStream(pageLines, i + 1, pages.length, footer);
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`);
+    objects.push(`<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`);
+  });
+
+  let body = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(Buffer.byteLength(body, "latin1"));
+    body += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xrefOffset = Buffer.byteLength(body, "latin1");
+  body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  body += offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(body, "latin1");
+}
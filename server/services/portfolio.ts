@@ -0,0 +1,106 @@
+import type { Ipo, IpoApplication, ListingPerformance, PortfolioPosition, PortfolioResponse, PortfolioSummaryRow } from "@shared/schema";
+import { BID_CATEGORIES, type BidCategory } from "@shared/allotment";
+import { ALLOTMENT_STATUSES, UPI_MANDATE_STATUSES, financialYear, type AllotmentStatus, type UpiMandateStatus } from "@shared/portfolio";
+
+type ApplicationRow = { application: IpoApplication; ipo: Ipo; listing: ListingPerformance | null };
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function toPortfolioPosition({ application, ipo, listing }: ApplicationRow): PortfolioPosition {
+  const shares = application.allotmentStatus === "allotted" ? application.allottedShares ?? 0 : 0;
+  // Allotted shares are paid for at the final issue price, never above the bid
+  const costPrice = listing?.issuePrice ?? application.bidPrice;
+  const listingPrice = listing?.listingOpen ?? null;
+  const markPrice = listing?.currentPrice ?? listing?.listingClose ?? null;
+  const sold = application.salePrice !== null && application.saleDate !== null;
+
+  return {
+    application,
+    ipo: { id: ipo.id, symbol: ipo.symbol, companyName: ipo.companyName, status: ipo.status, expectedDate: ipo.expectedDate },
+    costPrice,
+    invested: round2(shares * costPrice),
+    blockedAmount: round2(application.lots * (ipo.lotSize ?? 0) * application.bidPrice),
+    listingDate: listing?.listingDate ?? null,
+    listingPrice,
+    markPrice,
+    listingPnl: shares > 0 && listingPrice !== null ? round2(shares * (listingPrice - costPrice)) : null,
+    realizedPnl: shares > 0 && sold ? round2(shares * (application.salePrice! - costPrice)) : null,
+    unrealizedPnl: shares > 0 && !sold && markPrice !== null ? round2(shares * (markPrice - costPrice)) : null,
+    financialYear: financialYear(application.saleDate ?? application.appliedOn ?? ipo.expectedDate ?? application.createdAt ?? new Date()),
+  };
+}
+
+function emptySummary(key: string): PortfolioSummaryRow {
+  return { key, applications: 0, allotted: 0, invested: 0, realizedPnl: 0, unrealizedPnl: 0 };
+}
+
+function summarize(positions: PortfolioPosition[], keyOf: (position: PortfolioPosition) => string): PortfolioSummaryRow[] {
+  const rows = new Map<string, PortfolioSummaryRow>();
+  for (const position of positions) {
+    const key = keyOf(position);
+    const row = rows.get(key) ?? emptySummary(key);
+    row.applications++;
+    if (position.application.allotmentStatus === "allotted") row.allotted++;
+    row.invested = round2(row.invested + position.invested);
+    row.realizedPnl = round2(row.realizedPnl + (position.realizedPnl ?? 0));
+    row.unrealizedPnl = round2(row.unrealizedPnl + (position.unrealizedPnl ?? 0));
+    rows.set(key, row);
+  }
+  return Array.from(rows.values());
+}
+
+export function buildPortfolio(rows: ApplicationRow[]): PortfolioResponse {
+  const positions = rows.map(toPortfolioPosition);
+  const { key: _key, ...totals } = summarize(positions, () => "all")[0] ?? emptySummary("all");
+
+  return {
+    positions,
+    totals,
+    byAccount: summarize(positions, position => position.application.accountLabel)
+      .sort((a, b) => a.key.localeCompare(b.key)),
+    byYear: summarize(positions, position => position.financialYear)
+      .sort((a, b) => b.key.localeCompare(a.key)),
+  };
+}
+
+export function csvCell(value: string | number | null): string {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const CSV_COLUMNS: [string, (position: PortfolioPosition) => string | number | null][] = [
+  ["Financial Year", p => p.financialYear],
+  ["Account", p => p.application.accountLabel],
+  ["Company", p => p.ipo.companyName],
+  ["Symbol", p => p.ipo.symbol],
+  ["Category", p => BID_CATEGORIES[p.application.category as BidCategory]?.label ?? p.application.category],
+  ["Applied On", p => p.application.appliedOn],
+  ["Lots", p => p.application.lots],
+  ["Bid Price", p => p.application.bidPrice],
+  ["UPI Mandate", p => UPI_MANDATE_STATUSES[p.application.upiMandateStatus as UpiMandateStatus] ?? p.application.upiMandateStatus],
+  ["Allotment", p => ALLOTMENT_STATUSES[p.application.allotmentStatus as AllotmentStatus] ?? p.application.allotmentStatus],
+  ["Shares Allotted", p => p.application.allottedShares],
+  ["Allotted On", p => p.application.allottedOn],
+  ["Cost Price", p => p.costPrice],
+  ["Cost", p => p.invested],
+  ["Listing Date", p => p.listingDate],
+  ["Listing Price", p => p.listingPrice],
+  ["Sale Date", p => p.application.saleDate],
+  ["Sale Price", p => p.application.salePrice],
+  ["Sale Value", p => p.realizedPnl !== null ? round2(p.invested + p.realizedPnl) : null],
+  ["Realized P&L", p => p.realizedPnl],
+  ["Unrealized P&L", p => p.unrealizedPnl],
+];
+
+// One row per application, oldest financial year first, for tax filing
+export function portfolioCsv(portfolio: PortfolioResponse): string {
+  const positions = [...portfolio.positions].sort((a, b) => a.financialYear.localeCompare(b.financialYear));
+  const lines = [
+    CSV_COLUMNS.map(([header]) => csvCell(header)).join(","),
+    ...positions.map(position => CSV_COLUMNS.map(([, value]) => csvCell(value(position))).join(",")),
+  ];
+  return lines.join("\n") + "\n";
+}
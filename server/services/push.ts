@@ -0,0 +1,94 @@
+import webpush from "web-push";
+import type { Ipo } from "@shared/schema";
+import { storage } from "../storage";
+
+// Generate a key pair once with `npx web-push generate-vapid-keys`; changing
+// the keys invalidates every existing browser subscription
+const vapidPublicKey = process.env.VAPID_PUBLIC_KEY;
+const vapidPrivateKey = process.env.VAPID_PRIVATE_KEY;
+const vapidSubject = process.env.VAPID_SUBJECT || "mailto:alerts@ipo-analyzer.app";
+
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+
+if (vapidPublicKey && vapidPrivateKey) {
+  webpush.setVapidDetails(vapidSubject, vapidPublicKey, vapidPrivateKey);
+}
+
+// What the service worker (client/public/sw.js) shows
+export interface PushPayload {
+  title: string;
+  body: string;
+  url: string;
+  tag: string; // A newer alert for the same IPO replaces the older notification
+}
+
+export function isPushConfigured(): boolean {
+  return !!(vapidPublicKey && vapidPrivateKey);
+}
+
+export function getVapidPublicKey(): string | null {
+  return vapidPublicKey || null;
+}
+
+function getPushTitle(alertType: string): string {
+  switch (alertType) {
+    case "new_ipo": return "New IPO Listed";
+    case "gmp_change": return "GMP Update";
+    case "open_date": return "IPO Opening Soon";
+    case "rule": return "Alert Rule Matched";
+    default: return "IPO Alert";
+  }
+}
+
+// detail is an optional line above the IPO summary, e.g. which alert rule matched
+export function formatIpoPushPayload(ipo: Ipo, alertType: string, detail?: string): PushPayload {
+  const summary = [
+    ipo.gmp !== null ? `GMP ₹${ipo.gmp}` : "GMP N/A",
+    `Score ${ipo.overallScore?.toFixed(1) || "N/A"}/10`,
+  ];
+  if (alertType === "open_date" && ipo.expectedDate) {
+    summary.push(`Opens ${ipo.expectedDate}`);
+  }
+
+  return {
+    title: `${getPushTitle(alertType)}: ${ipo.companyName}`,
+    body: [detail, summary.join(" · ")].filter(Boolean).join("\n"),
+    url: `/ipos/${ipo.id}`,
+    tag: `ipo-${ipo.id}`,
+  };
+}
+
+// Sends to every device the user enabled notifications on. Subscriptions the
+// push service reports as gone (404/410) are removed. True if any device got it.
+export async function sendPushNotification(userId: string, payload: PushPayload): Promise<boolean> {
+  if (!isPushConfigured()) {
+    console.log("Web push not configured (VAPID_PUBLIC_KEY or VAPID_PRIVATE_KEY missing)");
+    return false;
+  }
+
+  const subscriptions = await storage.getPushSubscriptions(userId);
+  let delivered = 0;
+  for (const subscription of subscriptions) {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        JSON.stringify(payload),
+        { TTL: PUSH_TTL_SECONDS, timeout: 15000 },
+      );
+      await storage.touchPushSubscription(subscription.id);
+      delivered++;
+    } catch (error) {
+      const statusCode = error instanceof webpush.WebPushError ? error.statusCode : null;
+      if (statusCode === 404 || statusCode === 410) {
+        await storage.deletePushSubscription(subscription.endpoint);
+      } else {
+        console.error("Failed to send push notification:", error instanceof Error ? error.message : error);
+      }
+    }
+  }
+  return delivered > 0;
+}
+
+export async function sendIpoPushAlert(userId: string, ipo: Ipo, alertType: string, detail?: string): Promise<boolean> {
+  return sendPushNotification(userId, formatIpoPushPayload(ipo, alertType, detail));
+}
@@ -0,0 +1,126 @@
+import type { RequestHandler } from "express";
+import type { ApiUsageSummary } from "@shared/schema";
+import { getPlan, type ApiPlan } from "@shared/plans";
+import { storage } from "../storage";
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiPlan?: ApiPlan;
+    }
+  }
+}
+
+// Quota windows are calendar days and months in UTC
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function startOfUtcMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function startOfNextUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1));
+}
+
+function startOfNextUtcMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+}
+
+export async function getUserApiPlan(userId: string): Promise<ApiPlan> {
+  const userPlan = await storage.getUserPlan(userId);
+  if (userPlan?.currentPeriodEnd && userPlan.currentPeriodEnd < new Date()) {
+    return getPlan(null);
+  }
+  return getPlan(userPlan?.planId);
+}
+
+export async function getUsageSummary(userId: string): Promise<ApiUsageSummary> {
+  const now = new Date();
+  const plan = await getUserApiPlan(userId);
+  const [usedToday, usedThisMonth, activeKeys, trend] = await Promise.all([
+    storage.countApiUsage(userId, startOfUtcDay(now)),
+    storage.countApiUsage(userId, startOfUtcMonth(now)),
+    storage.countActiveApiKeys(userId),
+    storage.getApiUsageTrend(userId, 30),
+  ]);
+
+  return {
+    planId: plan.id,
+    daily: {
+      used: usedToday,
+      limit: plan.dailyRequests,
+      resetsAt: startOfNextUtcDay(now).toISOString(),
+    },
+    monthly: {
+      used: usedThisMonth,
+      limit: plan.monthlyRequests,
+      resetsAt: startOfNextUtcMonth(now).toISOString(),
+    },
+    apiKeys: { active: activeKeys, limit: plan.maxApiKeys },
+    trend,
+  };
+}
+
+// Meters requests made with an API key and enforces the daily and monthly
+// quotas of the key owner's plan. Session requests from the web app are not
+// metered. The usage row is reserved before the request runs, so concurrent
+// requests cannot overshoot the quota; its status code is filled in once the
+// response is done, and 4xx/5xx responses stop counting against the quota.
+// The X-RateLimit-* headers describe whichever window runs out first.
+export const apiQuota: RequestHandler = async (req, res, next) => {
+  const apiKey = req.apiKey;
+  if (!apiKey) return next();
+
+  try {
+    const now = new Date();
+    const plan = await getUserApiPlan(apiKey.userId);
+
+    const windows = [
+      { name: "monthly", limit: plan.monthlyRequests, since: startOfUtcMonth(now), resetsAt: startOfNextUtcMonth(now) },
+    ];
+    if (plan.dailyRequests !== null) {
+      windows.push({ name: "daily", limit: plan.dailyRequests, since: startOfUtcDay(now), resetsAt: startOfNextUtcDay(now) });
+    }
+
+    const { entry, used } = await storage.reserveApiUsage({
+      apiKeyId: apiKey.id,
+      userId: apiKey.userId,
+      method: req.method,
+      path: req.originalUrl.split("?")[0],
+    }, windows);
+
+    const counted = windows.map((window, index) => ({ ...window, used: used[index] }));
+    const binding = counted.reduce((tightest, window) =>
+      window.limit - window.used < tightest.limit - tightest.used ? window : tightest
+    );
+    const remaining = Math.max(0, binding.limit - binding.used);
+    const resetSeconds = Math.ceil(binding.resetsAt.getTime() / 1000);
+
+    res.setHeader("X-RateLimit-Limit", String(binding.limit));
+    res.setHeader("X-RateLimit-Reset", String(resetSeconds));
+
+    if (!entry) {
+      res.setHeader("X-RateLimit-Remaining", "0");
+      res.setHeader("Retry-After", String(Math.max(1, resetSeconds - Math.floor(now.getTime() / 1000))));
+      return res.status(429).json({
+        message: `${binding.name === "daily" ? "Daily" : "Monthly"} request quota of ${binding.limit} exceeded for the ${plan.name} plan`,
+      });
+    }
+
+    res.setHeader("X-RateLimit-Remaining", String(remaining - 1));
+    req.apiPlan = plan;
+
+    // "close" also fires when the client aborts, so no row stays in flight
+    res.on("close", () => {
+      storage.updateApiUsage(entry.id, { statusCode: res.statusCode }).catch((error) => {
+        console.error("Failed to record API usage status:", error);
+      });
+    });
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,221 @@
+import axios from "axios";
+import * as cheerio from "cheerio";
+import type { MetricSource } from "@shared/schema";
+
+// Metrics read from an IPO's detail page (which summarises the RHP/DRHP)
+export const FINANCIAL_FIELDS = [
+  "revenueGrowth",
+  "ebitdaMargin",
+  "patMargin",
+  "roe",
+  "roce",
+  "debtToEquity",
+  "peRatio",
+  "pbRatio",
+  "freshIssue",
+  "ofsRatio",
+  "promoterHolding",
+  "postIpoPromoterHolding",
+] as const;
+
+export type FinancialField = typeof FINANCIAL_FIELDS[number];
+
+export interface FinancialExtraction {
+  values: Partial<Record<FinancialField, number>>;
+  sources: Record<FinancialField, MetricSource>;
+}
+
+// Confidence levels: a value read straight from a labelled KPI row is more
+// trustworthy than one computed from the financial statements table
+const CONFIDENCE_EXTRACTED = 0.9;
+const CONFIDENCE_DERIVED = 0.7;
+
+const headers = {
+  "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+  "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+  "Accept-Language": "en-US,en;q=0.5",
+};
+
+function unavailable(): MetricSource {
+  return { status: "unavailable", source: null, url: null, confidence: 0 };
+}
+
+function parseNumber(text: string): number | null {
+  const cleaned = text.replace(/[₹,%\s]|Rs\.?/gi, "");
+  const negative = /^\(.*\)$/.test(cleaned);
+  const match = cleaned.match(/-?\d+(?:\.\d+)?/);
+  if (!match) return null;
+  const value = parseFloat(match[0]);
+  return negative ? -Math.abs(value) : value;
+}
+
+function parseCrores(text: string): number | null {
+  const match = text.match(/(?:₹|Rs\.?)\s*([\d,]+(?:\.\d+)?)\s*(?:Cr|crore)/i);
+  return match ? parseFloat(match[1].replace(/,/g, "")) : null;
+}
+
+function round(value: number, digits: number = 2): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+// Flattens every table row on the page into its cell texts
+function collectRows($: cheerio.CheerioAPI): string[][] {
+  const rows: string[][] = [];
+  $("tr").each((_, row) => {
+    const cells = $(row)
+      .find("th, td")
+      .map((_, cell) => $(cell).text().replace(/\s+/g, " ").trim())
+      .get();
+    if (cells.length >= 2) rows.push(cells);
+  });
+  return rows;
+}
+
+function findRow(rows: string[][], patterns: RegExp[]): string[] | undefined {
+  return rows.find(cells => patterns.some(pattern => pattern.test(cells[0])));
+}
+
+function firstNumber(cells: string[]): number | null {
+  for (const cell of cells.slice(1)) {
+    const value = parseNumber(cell);
+    if (value !== null) return value;
+  }
+  return null;
+}
+
+// Financial statements table: header row holds period dates, newest first
+function parseFinancialsTable(rows: string[][]): {
+  years: number[];
+  revenue?: number[];
+  pat?: number[];
+  ebitda?: number[];
+  netWorth?: number[];
+  borrowing?: number[];
+} | null {
+  const headerIndex = rows.findIndex(cells => /period\s*ended/i.test(cells[0]));
+  if (headerIndex === -1) return null;
+
+  const header = rows[headerIndex];
+  // Only full financial years (31 March) are comparable; stub periods are skipped
+  const columns = header.slice(1)
+    .map((label, index) => ({ index: index + 1, match: label.match(/31\s*mar(?:ch)?\s*,?\s*(\d{4})/i) }))
+    .filter(col => col.match !== null)
+    .map(col => ({ index: col.index, year: parseInt(col.match![1]) }));
+  if (columns.length === 0) return null;
+
+  const tableRows = rows.slice(headerIndex + 1, headerIndex + 15);
+  const series = (patterns: RegExp[]): number[] | undefined => {
+    const row = findRow(tableRows, patterns);
+    if (!row) return undefined;
+    const values = columns.map(col => parseNumber(row[col.index] || ""));
+    return values.every((v): v is number => v !== null) ? values : undefined;
+  };
+
+  return {
+    years: columns.map(col => col.year),
+    revenue: series([/^revenue/i, /^total\s*income/i]),
+    pat: series([/^profit\s*after\s*tax/i, /^pat\b/i]),
+    ebitda: series([/^ebitda/i]),
+    netWorth: series([/^net\s*worth/i]),
+    borrowing: series([/^total\s*borrowing/i]),
+  };
+}
+
+// `source` names where the detail page came from, e.g. "chittorgarh_detail" or "bse_detail"
+export function extractFinancialsFromHtml(html: string, url: string, source: string): FinancialExtraction {
+  const $ = cheerio.load(html);
+  const rows = collectRows($);
+
+  const values: Partial<Record<FinancialField, number>> = {};
+  const sources = Object.fromEntries(
+    FINANCIAL_FIELDS.map(field => [field, unavailable()])
+  ) as Record<FinancialField, MetricSource>;
+
+  const record = (field: FinancialField, value: number | null, status: "extracted" | "derived", label: string) => {
+    if (value === null || !Number.isFinite(value)) return;
+    values[field] = round(value);
+    sources[field] = {
+      status,
+      source,
+      url,
+      confidence: status === "extracted" ? CONFIDENCE_EXTRACTED : CONFIDENCE_DERIVED,
+      label,
+    };
+  };
+
+  // === KEY PERFORMANCE INDICATORS ===
+  const kpis: Array<{ field: FinancialField; patterns: RegExp[] }> = [
+    { field: "roe", patterns: [/^roe\b/i, /^return\s*on\s*equity/i, /^ronw\b/i] },
+    { field: "roce", patterns: [/^roce\b/i, /^return\s*on\s*capital/i] },
+    { field: "debtToEquity", patterns: [/^debt\s*\/\s*equity/i, /^debt\s*to\s*equity/i] },
+    { field: "patMargin", patterns: [/^pat\s*margin/i, /^net\s*profit\s*margin/i] },
+    { field: "ebitdaMargin", patterns: [/^ebitda\s*margin/i] },
+    { field: "pbRatio", patterns: [/^p\s*\/\s*bv?\b/i, /^price\s*to\s*book/i] },
+    { field: "peRatio", patterns: [/^p\s*\/\s*e\b/i, /^price\s*to\s*earnings/i] },
+  ];
+
+  for (const { field, patterns } of kpis) {
+    const row = findRow(rows, patterns);
+    if (row) record(field, firstNumber(row), "extracted", row[0]);
+  }
+
+  // === PROMOTER HOLDING ===
+  const preHolding = findRow(rows, [/^(promoter\s*)?share\s*holding\s*pre\s*issue/i, /^promoter\s*holding\s*pre/i]);
+  if (preHolding) record("promoterHolding", firstNumber(preHolding), "extracted", preHolding[0]);
+  const postHolding = findRow(rows, [/^(promoter\s*)?share\s*holding\s*post\s*issue/i, /^promoter\s*holding\s*post/i]);
+  if (postHolding) record("postIpoPromoterHolding", firstNumber(postHolding), "extracted", postHolding[0]);
+
+  // === ISSUE STRUCTURE (fractions of total issue) ===
+  const freshRow = findRow(rows, [/^fresh\s*issue/i]);
+  const ofsRow = findRow(rows, [/^offer\s*for\s*sale/i]);
+  const freshCr = freshRow ? parseCrores(freshRow.slice(1).join(" ")) : null;
+  const ofsCr = ofsRow ? parseCrores(ofsRow.slice(1).join(" ")) : null;
+  if (freshCr !== null || ofsCr !== null) {
+    const fresh = freshCr ?? 0;
+    const ofs = ofsCr ?? 0;
+    // A missing row is only trusted as zero when the other component was found
+    const status = freshRow && ofsRow ? "extracted" : "derived";
+    if (fresh + ofs > 0) {
+      record("freshIssue", fresh / (fresh + ofs), status, "Fresh Issue");
+      record("ofsRatio", ofs / (fresh + ofs), status, "Offer for Sale");
+    }
+  }
+
+  // === DERIVED FROM FINANCIAL STATEMENTS ===
+  const financials = parseFinancialsTable(rows);
+  if (financials) {
+    const { years, revenue, pat, ebitda, netWorth, borrowing } = financials;
+    const span = years[0] - years[years.length - 1];
+
+    if (revenue && span > 0 && revenue[revenue.length - 1] > 0) {
+      const cagr = (Math.pow(revenue[0] / revenue[revenue.length - 1], 1 / span) - 1) * 100;
+      record("revenueGrowth", cagr, "derived", `Revenue CAGR ${years[years.length - 1]}-${years[0]}`);
+    }
+    if (sources.patMargin.status === "unavailable" && revenue && pat && revenue[0] > 0) {
+      record("patMargin", (pat[0] / revenue[0]) * 100, "derived", `PAT / Revenue ${years[0]}`);
+    }
+    if (sources.ebitdaMargin.status === "unavailable" && revenue && ebitda && revenue[0] > 0) {
+      record("ebitdaMargin", (ebitda[0] / revenue[0]) * 100, "derived", `EBITDA / Revenue ${years[0]}`);
+    }
+    if (sources.debtToEquity.status === "unavailable" && borrowing && netWorth && netWorth[0] > 0) {
+      record("debtToEquity", borrowing[0] / netWorth[0], "derived", `Borrowing / Net Worth ${years[0]}`);
+    }
+  }
+
+  return { values, sources };
+}
+
+export async function fetchIpoFinancials(detailUrl: string, source: string): Promise<FinancialExtraction> {
+  if (!detailUrl) {
+    return extractFinancialsFromHtml("", "", source);
+  }
+
+  try {
+    const response = await axios.get(detailUrl, { headers, timeout: 30000 });
+    return extractFinancialsFromHtml(response.data, detailUrl, source);
+  } catch (error) {
+    console.error(`Financials extraction failed for ${detailUrl}:`, error instanceof Error ? error.message : error);
+    return extractFinancialsFromHtml("", detailUrl, source);
+  }
+}
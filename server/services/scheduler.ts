@@ -0,0 +1,279 @@
+import { storage } from "../storage";
+import { runSync, isSyncRunning } from "./sync";
+import { recordSubscriptions } from "./subscription";
+import { trackListingPerformance } from "./listing";
+import { sendDueDigests } from "./digest";
+import { retryDueEmails } from "./email-outbox";
+import { sendDueWebhookDeliveries } from "./webhooks";
+
+// Schedules use standard 5-field cron syntax (minute hour day-of-month month
+// day-of-week) with *, lists, ranges and steps, evaluated in Indian market time.
+// As in cron, when both day fields are restricted a day matching either runs.
+const SCHEDULE_TIMEZONE = "Asia/Kolkata";
+const DEFAULT_SYNC_CRON = "0 */6 * * *";
+// On subscription days, every 30 minutes through market hours on weekdays
+const DEFAULT_SUBSCRIPTION_DAY_CRON = "*/30 9-17 * * 1-5";
+// Category-wise subscription snapshots every two hours while bidding is live,
+// with the 19:00 run catching the end-of-day figures
+const DEFAULT_SUBSCRIPTION_SNAPSHOT_CRON = "0 11-19/2 * * 1-5";
+// Listing prices once a day after the market closes
+const DEFAULT_LISTING_PERFORMANCE_CRON = "30 16 * * 1-5";
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 6],  // day of week (0 = Sunday; 7 is also accepted)
+];
+
+interface CronSchedule {
+  fields: Array<Set<number>>;
+  // Whether the day-of-month and day-of-week fields start with "*"
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+function parseCronField(field: string, [min, max]: [number, number]): Set<number> {
+  const values = new Set<number>();
+  
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText ? parseInt(stepText) : 1;
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid step in "${part}"`);
+    
+    let start = min;
+    let end = max;
+    if (range !== "*") {
+      const [from, to] = range.split("-").map(v => parseInt(v));
+      if (!Number.isInteger(from)) throw new Error(`Invalid value in "${part}"`);
+      start = from;
+      end = to !== undefined ? to : stepText ? max : from;
+    }
+    // Day of week 7 means Sunday
+    const upper = max === 6 ? 7 : max;
+    if (start < min || end > upper || start > end) throw new Error(`Value out of range in "${part}"`);
+    
+    for (let value = start; value <= end; value += step) {
+      values.add(max === 6 ? value % 7 : value);
+    }
+  }
+  
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields`);
+  }
+  return {
+    fields: fields.map((field, index) => parseCronField(field, FIELD_RANGES[index])),
+    anyDayOfMonth: fields[2].startsWith("*"),
+    anyDayOfWeek: fields[4].startsWith("*"),
+  };
+}
+
+const zonedFormat = new Intl.DateTimeFormat("en-US", {
+  timeZone: SCHEDULE_TIMEZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  weekday: "short",
+  hourCycle: "h23",
+});
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function zonedParts(date: Date): { minute: number; hour: number; day: number; month: number; weekday: number; isoDate: string } {
+  const parts = Object.fromEntries(zonedFormat.formatToParts(date).map(part => [part.type, part.value]));
+  return {
+    minute: parseInt(parts.minute),
+    hour: parseInt(parts.hour),
+    day: parseInt(parts.day),
+    month: parseInt(parts.month),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    isoDate: `${parts.year}-${parts.month}-${parts.day}`,
+  };
+}
+
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+  const { minute, hour, day, month, weekday } = zonedParts(date);
+  const [minutes, hours, days, months, weekdays] = schedule.fields;
+  const dayMatches = schedule.anyDayOfMonth || schedule.anyDayOfWeek
+    ? days.has(day) && weekdays.has(weekday)
+    : days.has(day) || weekdays.has(weekday);
+  return minutes.has(minute) && hours.has(hour) && months.has(month) && dayMatches;
+}
+
+function nextMatch(schedule: CronSchedule, after: Date): Date | null {
+  const candidate = new Date(after);
+  candidate.setSeconds(0, 0);
+  // Look ahead at most a week, minute by minute
+  for (let i = 0; i < 7 * 24 * 60; i++) {
+    candidate.setMinutes(candidate.getMinutes() + 1);
+    if (cronMatches(schedule, candidate)) return new Date(candidate);
+  }
+  return null;
+}
+
+// A subscription day is any day an IPO is open for bidding. Checked once a
+// day, and again after each sync since it may open an IPO.
+let subscriptionDayCache: { date: string; value: boolean } | null = null;
+
+async function isSubscriptionDay(now: Date): Promise<boolean> {
+  const today = zonedParts(now).isoDate;
+  if (subscriptionDayCache?.date !== today) {
+    const ipos = await storage.getIpos();
+    subscriptionDayCache = { date: today, value: ipos.some(ipo => ipo.status === "open" || ipo.expectedDate === today) };
+  }
+  return subscriptionDayCache.value;
+}
+
+const syncCron = process.env.SYNC_CRON || DEFAULT_SYNC_CRON;
+const subscriptionDayCron = process.env.SYNC_CRON_SUBSCRIPTION_DAYS || DEFAULT_SUBSCRIPTION_DAY_CRON;
+const subscriptionSnapshotCron = process.env.SUBSCRIPTION_SNAPSHOT_CRON || DEFAULT_SUBSCRIPTION_SNAPSHOT_CRON;
+const listingPerformanceCron = process.env.LISTING_PERFORMANCE_CRON || DEFAULT_LISTING_PERFORMANCE_CRON;
+
+let started = false;
+let regularSchedule: CronSchedule | null = null;
+let subscriptionDaySchedule: CronSchedule | null = null;
+let subscriptionSnapshotSchedule: CronSchedule | null = null;
+let listingPerformanceSchedule: CronSchedule | null = null;
+let subscriptionDay = false;
+
+// Data refreshes and deliveries run as separate jobs. A job still busy from an
+// earlier minute is skipped, so a long sync never overlaps itself and retries
+// never pick up the same due emails or webhook deliveries twice.
+let dataJobsRunning = false;
+let deliveryJobsRunning = false;
+
+async function runDataJobs(now: Date) {
+  if (!regularSchedule || !subscriptionDaySchedule || !subscriptionSnapshotSchedule || !listingPerformanceSchedule) return;
+  if (dataJobsRunning) return;
+  dataJobsRunning = true;
+
+  try {
+    try {
+      subscriptionDay = await isSubscriptionDay(now);
+      const due = cronMatches(regularSchedule, now) || (subscriptionDay && cronMatches(subscriptionDaySchedule, now));
+      if (due) {
+        await runSync("scheduled");
+        subscriptionDayCache = null;
+        subscriptionDay = await isSubscriptionDay(now);
+      }
+    } catch (error) {
+      console.error("❌ Scheduled sync failed:", error);
+    }
+
+    // Runs after the sync so newly opened IPOs are included
+    if (subscriptionDay && cronMatches(subscriptionSnapshotSchedule, now)) {
+      try {
+        await recordSubscriptions();
+      } catch (error) {
+        console.error("❌ Scheduled subscription refresh failed:", error);
+      }
+    }
+
+    if (cronMatches(listingPerformanceSchedule, now)) {
+      try {
+        await trackListingPerformance();
+      } catch (error) {
+        console.error("❌ Scheduled listing performance refresh failed:", error);
+      }
+    }
+  } finally {
+    dataJobsRunning = false;
+  }
+}
+
+async function runDeliveryJobs(now: Date) {
+  if (deliveryJobsRunning) return;
+  deliveryJobsRunning = true;
+
+  try {
+    // Each user's digest time is in their own time zone, so digests are checked every minute
+    try {
+      await sendDueDigests(now);
+    } catch (error) {
+      console.error("❌ Scheduled digests failed:", error);
+    }
+
+    try {
+      await retryDueEmails(now);
+    } catch (error) {
+      console.error("❌ Email retries failed:", error);
+    }
+
+    try {
+      await sendDueWebhookDeliveries(now);
+    } catch (error) {
+      console.error("❌ Webhook deliveries failed:", error);
+    }
+  } finally {
+    deliveryJobsRunning = false;
+  }
+}
+
+async function tick() {
+  const now = new Date();
+  await Promise.all([runDataJobs(now), runDeliveryJobs(now)]);
+}
+
+export async function startSyncScheduler() {
+  if (process.env.SYNC_SCHEDULER_ENABLED === "false") {
+    console.log("⏸️ Sync scheduler disabled (SYNC_SCHEDULER_ENABLED=false)");
+    return;
+  }
+  if (started) return;
+  
+  try {
+    regularSchedule = parseCron(syncCron);
+    subscriptionDaySchedule = parseCron(subscriptionDayCron);
+    subscriptionSnapshotSchedule = parseCron(subscriptionSnapshotCron);
+    listingPerformanceSchedule = parseCron(listingPerformanceCron);
+  } catch (error) {
+    console.error("❌ Invalid sync schedule, scheduler not started:", error instanceof Error ? error.message : error);
+    return;
+  }
+  
+  // Runs left "running" by a previous process can never finish
+  const interrupted = await storage.failRunningSyncRuns("Interrupted by server restart");
+  if (interrupted > 0) {
+    console.log(`⚠️ Marked ${interrupted} interrupted sync run(s) as failed`);
+  }
+  
+  // Check once a minute, aligned to the start of the minute
+  const msToNextMinute = 60000 - (Date.now() % 60000);
+  started = true;
+  setTimeout(() => {
+    tick();
+    setInterval(tick, 60000);
+  }, msToNextMinute);
+  
+  console.log(`⏰ Sync scheduler started: "${syncCron}", subscription days "${subscriptionDayCron}", subscription snapshots "${subscriptionSnapshotCron}", listing performance "${listingPerformanceCron}" (${SCHEDULE_TIMEZONE})`);
+}
+
+export function getSchedulerStatus() {
+  const now = new Date();
+  const enabled = regularSchedule !== null && subscriptionDaySchedule !== null;
+  const candidates = enabled
+    ? [nextMatch(regularSchedule!, now), subscriptionDay ? nextMatch(subscriptionDaySchedule!, now) : null]
+        .filter((date): date is Date => date !== null)
+    : [];
+  
+  return {
+    enabled,
+    running: isSyncRunning(),
+    timezone: SCHEDULE_TIMEZONE,
+    cron: syncCron,
+    subscriptionDayCron,
+    subscriptionSnapshotCron,
+    listingPerformanceCron,
+    subscriptionDay,
+    nextRunAt: candidates.length > 0
+      ? new Date(Math.min(...candidates.map(date => date.getTime()))).toISOString()
+      : null,
+  };
+}
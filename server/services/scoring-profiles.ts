@@ -0,0 +1,90 @@
+import type { Ipo, ScoringProfile } from "@shared/schema";
+import { DEFAULT_SCORING_PROFILE, SCORING_PRESETS, type ScoringConfig } from "@shared/scoring";
+import { storage } from "../storage";
+import { calculateIpoScore } from "./scoring";
+
+// Saves version 1 of every preset that has never been stored
+export async function ensureScoringProfiles(): Promise<void> {
+  for (const preset of SCORING_PRESETS) {
+    const existing = await storage.getLatestScoringProfile(preset.slug);
+    if (existing) continue;
+    await storage.createScoringProfile({
+      slug: preset.slug,
+      version: 1,
+      name: preset.name,
+      description: preset.description,
+      config: preset.config,
+    });
+    console.log(`🎯 Seeded scoring profile "${preset.slug}" v1`);
+  }
+}
+
+// Latest version of the profile stored IPO scores are computed with
+export async function getDefaultScoringProfile(): Promise<ScoringProfile> {
+  const profile = await storage.getLatestScoringProfile(DEFAULT_SCORING_PROFILE);
+  if (profile) return profile;
+  await ensureScoringProfiles();
+  return (await storage.getLatestScoringProfile(DEFAULT_SCORING_PROFILE))!;
+}
+
+// Latest version of each profile, default first
+export async function listScoringProfiles(): Promise<ScoringProfile[]> {
+  const latest = new Map<string, ScoringProfile>();
+  for (const profile of await storage.getScoringProfiles()) {
+    if (!latest.has(profile.slug)) latest.set(profile.slug, profile);
+  }
+  return Array.from(latest.values())
+    .sort((a, b) => Number(b.slug === DEFAULT_SCORING_PROFILE) - Number(a.slug === DEFAULT_SCORING_PROFILE));
+}
+
+// The profile a user has picked, falling back to the default when they have
+// not picked one or their profile no longer exists
+export async function getUserScoringProfile(userId: string | undefined): Promise<ScoringProfile> {
+  if (userId) {
+    const selection = await storage.getUserScoringProfile(userId);
+    if (selection && selection.profileSlug !== DEFAULT_SCORING_PROFILE) {
+      const profile = await storage.getLatestScoringProfile(selection.profileSlug);
+      if (profile) return profile;
+    }
+  }
+  return getDefaultScoringProfile();
+}
+
+// Returns the IPO with its scores recomputed under the profile. IPOs already
+// scored with this exact version (and with a stored breakdown) are returned unchanged.
+export function applyScoringProfile(ipo: Ipo, profile: ScoringProfile): Ipo {
+  if (ipo.scoringProfileId === profile.id && ipo.scoreBreakdown) return ipo;
+  const scores = calculateIpoScore(ipo, profile.config);
+  return { ...ipo, ...scores, scoringProfileId: profile.id };
+}
+
+// Stores a new version of a profile. A new default version rescores every
+// stored IPO so stored scores always come from the latest default.
+export async function publishScoringProfile(
+  slug: string,
+  input: { name: string; description?: string | null; config: ScoringConfig },
+  userId: string
+): Promise<{ profile: ScoringProfile; rescored: number }> {
+  const latest = await storage.getLatestScoringProfile(slug);
+  const profile = await storage.createScoringProfile({
+    slug,
+    version: (latest?.version ?? 0) + 1,
+    name: input.name,
+    description: input.description ?? null,
+    config: input.config,
+    createdBy: userId,
+  });
+  console.log(`🎯 Published scoring profile "${slug}" v${profile.version}`);
+
+  let rescored = 0;
+  if (slug === DEFAULT_SCORING_PROFILE) {
+    for (const ipo of await storage.getIpos()) {
+      const scores = calculateIpoScore(ipo, profile.config);
+      await storage.updateIpo(ipo.id, { ...scores, scoringProfileId: profile.id });
+      rescored++;
+    }
+    console.log(`🎯 Rescored ${rescored} IPOs with "${slug}" v${profile.version}`);
+  }
+
+  return { profile, rescored };
+}
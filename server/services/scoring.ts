@@ -1,4 +1,5 @@
-import type { Ipo, InsertIpo } from "@shared/schema";
+import type { Ipo, InsertIpo, ScoreBreakdown, ScoreContribution, ScoreSection } from "@shared/schema";
+import { DEFAULT_SCORING_CONFIG, type ScoringConfig } from "@shared/scoring";
 
 export interface ScoreResult {
   fundamentalsScore: number;
@@ -8,133 +9,167 @@ export interface ScoreResult {
   riskLevel: 'conservative' | 'moderate' | 'aggressive';
   redFlags: string[];
   pros: string[];
+  scoreBreakdown: ScoreBreakdown;
 }
 
-export function calculateIpoScore(ipo: Partial<InsertIpo>): ScoreResult {
+// Scores an IPO under a scoring profile config. Red flag and pro texts quote
+// the profile's own thresholds so they stay accurate when a profile is edited.
+export function calculateIpoScore(ipo: Partial<InsertIpo>, config: ScoringConfig = DEFAULT_SCORING_CONFIG): ScoreResult {
   const redFlags: string[] = [];
   const pros: string[] = [];
+  const contributions: ScoreContribution[] = [];
+  // Records a rule that fired and returns its points so they can be added to the section
+  const contribute = (
+    bucket: ScoreSection,
+    metric: string,
+    value: number,
+    rule: string,
+    comparison: ScoreContribution['comparison'],
+    threshold: number,
+    delta: number
+  ): number => {
+    contributions.push({ bucket, metric, value: Math.round(value * 100) / 100, rule, comparison, threshold, delta });
+    return delta;
+  };
+  // Flags that push the risk level down a step regardless of the score
+  let severeFlag = false;
   
   // === FUNDAMENTALS SCORE (0-10) ===
-  let fundamentalsScore = 5; // Base score
+  const fundamentals = config.fundamentals;
+  let fundamentalsScore = config.baseScores.fundamentals;
   
   // Revenue Growth (3-year CAGR)
   if (ipo.revenueGrowth !== undefined && ipo.revenueGrowth !== null) {
-    if (ipo.revenueGrowth > 30) {
-      fundamentalsScore += 2;
-      pros.push("Strong revenue growth (>30% CAGR)");
-    } else if (ipo.revenueGrowth > 15) {
-      fundamentalsScore += 1;
-      pros.push("Healthy revenue growth (15-30% CAGR)");
-    } else if (ipo.revenueGrowth < 5) {
-      fundamentalsScore -= 1;
-      redFlags.push("Weak revenue growth (<5% CAGR)");
+    const t = fundamentals.revenueGrowth;
+    if (ipo.revenueGrowth > t.strong) {
+      fundamentalsScore += contribute('fundamentals', 'revenueGrowth', ipo.revenueGrowth, 'strong', '>', t.strong, t.strongPoints);
+      pros.push(`Strong revenue growth (>${t.strong}% CAGR)`);
+    } else if (ipo.revenueGrowth > t.healthy) {
+      fundamentalsScore += contribute('fundamentals', 'revenueGrowth', ipo.revenueGrowth, 'healthy', '>', t.healthy, t.healthyPoints);
+      pros.push(`Healthy revenue growth (${t.healthy}-${t.strong}% CAGR)`);
+    } else if (ipo.revenueGrowth < t.weak) {
+      fundamentalsScore += contribute('fundamentals', 'revenueGrowth', ipo.revenueGrowth, 'weak', '<', t.weak, t.weakPoints);
+      redFlags.push(`Weak revenue growth (<${t.weak}% CAGR)`);
     }
   }
   
   // ROE (Return on Equity)
   if (ipo.roe !== undefined && ipo.roe !== null) {
-    if (ipo.roe > 20) {
-      fundamentalsScore += 1.5;
-      pros.push("Excellent ROE (>20%)");
-    } else if (ipo.roe > 15) {
-      fundamentalsScore += 1;
-    } else if (ipo.roe < 10) {
-      fundamentalsScore -= 0.5;
-      redFlags.push("Below-average ROE (<10%)");
+    const t = fundamentals.roe;
+    if (ipo.roe > t.excellent) {
+      fundamentalsScore += contribute('fundamentals', 'roe', ipo.roe, 'excellent', '>', t.excellent, t.excellentPoints);
+      pros.push(`Excellent ROE (>${t.excellent}%)`);
+    } else if (ipo.roe > t.good) {
+      fundamentalsScore += contribute('fundamentals', 'roe', ipo.roe, 'good', '>', t.good, t.goodPoints);
+    } else if (ipo.roe < t.poor) {
+      fundamentalsScore += contribute('fundamentals', 'roe', ipo.roe, 'poor', '<', t.poor, t.poorPoints);
+      redFlags.push(`Below-average ROE (<${t.poor}%)`);
     }
   }
   
   // EBITDA Margin
   if (ipo.ebitdaMargin !== undefined && ipo.ebitdaMargin !== null) {
-    if (ipo.ebitdaMargin > 25) {
-      fundamentalsScore += 1;
-      pros.push("Strong operating margins (>25%)");
-    } else if (ipo.ebitdaMargin < 10) {
-      fundamentalsScore -= 1;
-      redFlags.push("Thin operating margins (<10%)");
+    const t = fundamentals.ebitdaMargin;
+    if (ipo.ebitdaMargin > t.strong) {
+      fundamentalsScore += contribute('fundamentals', 'ebitdaMargin', ipo.ebitdaMargin, 'strong', '>', t.strong, t.strongPoints);
+      pros.push(`Strong operating margins (>${t.strong}%)`);
+    } else if (ipo.ebitdaMargin < t.thin) {
+      fundamentalsScore += contribute('fundamentals', 'ebitdaMargin', ipo.ebitdaMargin, 'thin', '<', t.thin, t.thinPoints);
+      redFlags.push(`Thin operating margins (<${t.thin}%)`);
     }
   }
   
   // Debt to Equity
   if (ipo.debtToEquity !== undefined && ipo.debtToEquity !== null) {
-    if (ipo.debtToEquity < 0.3) {
-      fundamentalsScore += 1;
-      pros.push("Low debt levels (D/E < 0.3)");
-    } else if (ipo.debtToEquity > 1.5) {
-      fundamentalsScore -= 1.5;
-      redFlags.push("High debt burden (D/E > 1.5)");
-    } else if (ipo.debtToEquity > 1) {
-      fundamentalsScore -= 0.5;
+    const t = fundamentals.debtToEquity;
+    if (ipo.debtToEquity < t.low) {
+      fundamentalsScore += contribute('fundamentals', 'debtToEquity', ipo.debtToEquity, 'low', '<', t.low, t.lowPoints);
+      pros.push(`Low debt levels (D/E < ${t.low})`);
+    } else if (ipo.debtToEquity > t.high) {
+      fundamentalsScore += contribute('fundamentals', 'debtToEquity', ipo.debtToEquity, 'high', '>', t.high, t.highPoints);
+      redFlags.push(`High debt burden (D/E > ${t.high})`);
+    } else if (ipo.debtToEquity > t.elevated) {
+      fundamentalsScore += contribute('fundamentals', 'debtToEquity', ipo.debtToEquity, 'elevated', '>', t.elevated, t.elevatedPoints);
     }
   }
   
   // === VALUATION SCORE (0-10) ===
-  let valuationScore = 5; // Base score
+  const valuation = config.valuation;
+  let valuationScore = config.baseScores.valuation;
   
   if (ipo.peRatio !== undefined && ipo.peRatio !== null && ipo.sectorPeMedian !== undefined && ipo.sectorPeMedian !== null) {
+    const t = valuation.peVsSector;
     const peVsSector = ipo.peRatio / ipo.sectorPeMedian;
     
-    if (peVsSector < 0.8) {
-      valuationScore += 3;
+    if (peVsSector < t.cheap) {
+      valuationScore += contribute('valuation', 'peVsSector', peVsSector, 'cheap', '<', t.cheap, t.cheapPoints);
       pros.push("Attractively priced vs peers");
-    } else if (peVsSector < 1.0) {
-      valuationScore += 1.5;
+    } else if (peVsSector < t.fair) {
+      valuationScore += contribute('valuation', 'peVsSector', peVsSector, 'fair', '<', t.fair, t.fairPoints);
       pros.push("Fairly valued vs sector");
-    } else if (peVsSector > 1.5) {
-      valuationScore -= 2.5;
+    } else if (peVsSector > t.expensive) {
+      valuationScore += contribute('valuation', 'peVsSector', peVsSector, 'expensive', '>', t.expensive, t.expensivePoints);
       redFlags.push("Expensive valuation vs listed peers");
-    } else if (peVsSector > 1.2) {
-      valuationScore -= 1;
+      severeFlag = true;
+    } else if (peVsSector > t.premium) {
+      valuationScore += contribute('valuation', 'peVsSector', peVsSector, 'premium', '>', t.premium, t.premiumPoints);
       redFlags.push("Premium valuation to sector");
     }
   } else if (ipo.peRatio !== undefined && ipo.peRatio !== null) {
     // Absolute P/E check if no sector median
-    if (ipo.peRatio > 50) {
-      valuationScore -= 2;
-      redFlags.push("Very high P/E ratio (>50x)");
-    } else if (ipo.peRatio > 35) {
-      valuationScore -= 1;
-    } else if (ipo.peRatio < 15 && ipo.peRatio > 0) {
-      valuationScore += 2;
+    const t = valuation.absolutePe;
+    if (ipo.peRatio > t.veryHigh) {
+      valuationScore += contribute('valuation', 'peRatio', ipo.peRatio, 'veryHigh', '>', t.veryHigh, t.veryHighPoints);
+      redFlags.push(`Very high P/E ratio (>${t.veryHigh}x)`);
+    } else if (ipo.peRatio > t.high) {
+      valuationScore += contribute('valuation', 'peRatio', ipo.peRatio, 'high', '>', t.high, t.highPoints);
+    } else if (ipo.peRatio < t.reasonable && ipo.peRatio > 0) {
+      valuationScore += contribute('valuation', 'peRatio', ipo.peRatio, 'reasonable', '<', t.reasonable, t.reasonablePoints);
       pros.push("Reasonable P/E ratio");
     }
   }
   
   // GMP as sentiment indicator (don't overweight)
   if (ipo.gmp !== undefined && ipo.gmp !== null) {
-    if (ipo.gmp > 100) {
+    if (ipo.gmp > valuation.gmp.strong) {
+      // Sentiment only: recorded for the audit trail but worth no points
+      contribute('valuation', 'gmp', ipo.gmp, 'strong', '>', valuation.gmp.strong, 0);
       pros.push("Strong grey market sentiment");
     } else if (ipo.gmp < 0) {
       redFlags.push("Negative grey market premium");
-      valuationScore -= 1;
+      valuationScore += contribute('valuation', 'gmp', ipo.gmp, 'negative', '<', 0, valuation.gmp.negativePoints);
     }
   }
   
   // === GOVERNANCE SCORE (0-10) ===
-  let governanceScore = 6; // Base score (assume decent governance)
+  const governance = config.governance;
+  let governanceScore = config.baseScores.governance;
   
   // OFS Ratio (Offer for Sale)
   if (ipo.ofsRatio !== undefined && ipo.ofsRatio !== null) {
-    if (ipo.ofsRatio > 0.7) {
-      governanceScore -= 2;
+    const t = governance.ofs;
+    if (ipo.ofsRatio > t.aggressive) {
+      governanceScore += contribute('governance', 'ofsRatio', ipo.ofsRatio, 'aggressive', '>', t.aggressive, t.aggressivePoints);
       redFlags.push("High OFS ratio - promoters aggressively exiting");
-    } else if (ipo.ofsRatio > 0.5) {
-      governanceScore -= 1;
-      redFlags.push("Significant OFS component (>50%)");
-    } else if (ipo.ofsRatio < 0.2 && ipo.freshIssue && ipo.freshIssue > 0.8) {
-      governanceScore += 1.5;
+      severeFlag = true;
+    } else if (ipo.ofsRatio > t.significant) {
+      governanceScore += contribute('governance', 'ofsRatio', ipo.ofsRatio, 'significant', '>', t.significant, t.significantPoints);
+      redFlags.push(`Significant OFS component (>${Math.round(t.significant * 100)}%)`);
+    } else if (ipo.ofsRatio < t.freshIssueMaxOfs && ipo.freshIssue && ipo.freshIssue > t.freshIssueMinFresh) {
+      governanceScore += contribute('governance', 'ofsRatio', ipo.ofsRatio, 'freshIssue', '<', t.freshIssueMaxOfs, t.freshIssuePoints);
       pros.push("Primarily fresh issue - funds for growth");
     }
   }
   
   // Promoter Holding
   if (ipo.promoterHolding !== undefined && ipo.promoterHolding !== null) {
-    if (ipo.promoterHolding > 70) {
-      governanceScore += 1;
+    const t = governance.promoterHolding;
+    if (ipo.promoterHolding > t.high) {
+      governanceScore += contribute('governance', 'promoterHolding', ipo.promoterHolding, 'high', '>', t.high, t.highPoints);
       pros.push("Strong promoter skin in the game");
-    } else if (ipo.promoterHolding < 25) {
-      governanceScore -= 1;
-      redFlags.push("Low promoter holding (<25%)");
+    } else if (ipo.promoterHolding < t.low) {
+      governanceScore += contribute('governance', 'promoterHolding', ipo.promoterHolding, 'low', '<', t.low, t.lowPoints);
+      redFlags.push(`Low promoter holding (<${t.low}%)`);
     }
   }
   
@@ -142,40 +177,45 @@ export function calculateIpoScore(ipo: Partial<InsertIpo>): ScoreResult {
   if (ipo.promoterHolding !== undefined && ipo.postIpoPromoterHolding !== undefined && 
       ipo.promoterHolding !== null && ipo.postIpoPromoterHolding !== null) {
     const dilution = ipo.promoterHolding - ipo.postIpoPromoterHolding;
-    if (dilution > 30) {
-      governanceScore -= 1;
-      redFlags.push("Large promoter stake dilution (>30%)");
+    if (dilution > governance.dilution.large) {
+      governanceScore += contribute('governance', 'promoterDilution', dilution, 'large', '>', governance.dilution.large, governance.dilution.largePoints);
+      redFlags.push(`Large promoter stake dilution (>${governance.dilution.large}%)`);
     }
   }
   
   // === CLAMP SCORES ===
+  const unclamped = { fundamentals: fundamentalsScore, valuation: valuationScore, governance: governanceScore };
   fundamentalsScore = Math.max(0, Math.min(10, fundamentalsScore));
   valuationScore = Math.max(0, Math.min(10, valuationScore));
   governanceScore = Math.max(0, Math.min(10, governanceScore));
   
   // === OVERALL SCORE ===
-  // Weighted average: Fundamentals 40%, Valuation 35%, Governance 25%
+  // Weighted average of the three sections using the profile weights
+  const { weights } = config;
   const overallScore = Math.round(
-    (fundamentalsScore * 0.4 + valuationScore * 0.35 + governanceScore * 0.25) * 10
+    (fundamentalsScore * weights.fundamentals + valuationScore * weights.valuation + governanceScore * weights.governance) * 10
   ) / 10;
   
   // === RISK LEVEL ===
+  const risk = config.riskLevel;
   let riskLevel: 'conservative' | 'moderate' | 'aggressive';
   
-  if (overallScore >= 7 && redFlags.length <= 1) {
+  if (overallScore >= risk.conservativeMinScore && redFlags.length <= risk.conservativeMaxRedFlags) {
     riskLevel = 'conservative';
-  } else if (overallScore >= 5 || redFlags.length <= 2) {
+  } else if (overallScore >= risk.moderateMinScore || redFlags.length <= risk.moderateMaxRedFlags) {
     riskLevel = 'moderate';
   } else {
     riskLevel = 'aggressive';
   }
   
   // Adjust for specific high-risk factors
-  if (redFlags.some(f => f.includes('promoters aggressively exiting') || f.includes('Expensive valuation'))) {
+  if (severeFlag) {
     if (riskLevel === 'conservative') riskLevel = 'moderate';
     else if (riskLevel === 'moderate') riskLevel = 'aggressive';
   }
   
+  const round = (value: number) => Math.round(value * 100) / 100;
+  
   return {
     fundamentalsScore: Math.round(fundamentalsScore * 10) / 10,
     valuationScore: Math.round(valuationScore * 10) / 10,
@@ -184,6 +224,16 @@ export function calculateIpoScore(ipo: Partial<InsertIpo>): ScoreResult {
     riskLevel,
     redFlags,
     pros,
+    scoreBreakdown: {
+      baseScores: config.baseScores,
+      weights,
+      contributions,
+      clampAdjustments: {
+        fundamentals: round(fundamentalsScore - unclamped.fundamentals),
+        valuation: round(valuationScore - unclamped.valuation),
+        governance: round(governanceScore - unclamped.governance),
+      },
+    },
   };
 }
 
@@ -1,287 +1,15 @@
-import axios from "axios";
-import * as cheerio from "cheerio";
-import type { InsertIpo } from "@shared/schema";
+import type { InsertIpo, ScoringProfile } from "@shared/schema";
 import { calculateIpoScore } from "./scoring";
+import { fetchIpoFinancials, type FinancialExtraction } from "./rhp-parser";
+import {
+  getConfiguredSources,
+  fetchFromSources,
+  mergeSourceRecords,
+  type DataSourceName,
+  type MergedIpoRecord,
+} from "./sources";
 
-const CHITTORGARH_BASE = "https://www.chittorgarh.com";
-const IPO_DASHBOARD = `${CHITTORGARH_BASE}/ipo/ipo_dashboard.asp`;
-const IPO_LIST_2025 = `${CHITTORGARH_BASE}/report/ipo-in-india-list-main-board-sme/82/mainboard/?year=2025`;
-
-interface RawIpoData {
-  symbol: string;
-  companyName: string;
-  openDate: string;
-  closeDate: string;
-  priceRange: string;
-  lotSize: number;
-  issueSize: string;
-  status: "upcoming" | "open" | "closed";
-  detailUrl: string;
-}
-
-interface GmpData {
-  symbol: string;
-  gmp: number;
-  expectedListing: number;
-}
-
-const headers = {
-  "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-  "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
-  "Accept-Language": "en-US,en;q=0.5",
-};
-
-async function fetchPage(url: string): Promise<string> {
-  try {
-    const response = await axios.get(url, { 
-      headers,
-      timeout: 30000,
-    });
-    return response.data;
-  } catch (error) {
-    console.error(`Error fetching ${url}:`, error);
-    throw error;
-  }
-}
-
-function parseDate(dateStr: string): string | null {
-  if (!dateStr || dateStr.toLowerCase() === "tba" || dateStr === "-") return null;
-  
-  try {
-    const cleaned = dateStr.trim().replace(/\s+/g, " ");
-    const months: { [key: string]: string } = {
-      jan: "01", january: "01",
-      feb: "02", february: "02",
-      mar: "03", march: "03",
-      apr: "04", april: "04",
-      may: "05",
-      jun: "06", june: "06",
-      jul: "07", july: "07",
-      aug: "08", august: "08",
-      sep: "09", sept: "09", september: "09",
-      oct: "10", october: "10",
-      nov: "11", november: "11",
-      dec: "12", december: "12",
-    };
-    
-    const match = cleaned.match(/(\d{1,2})\s*([a-zA-Z]+)\s*,?\s*(\d{4})/);
-    if (match) {
-      const day = match[1].padStart(2, "0");
-      const monthKey = match[2].toLowerCase();
-      const month = months[monthKey];
-      const year = match[3];
-      
-      if (month) {
-        return `${year}-${month}-${day}`;
-      }
-    }
-    
-    const simpleMatch = cleaned.match(/(\d{4})-(\d{2})-(\d{2})/);
-    if (simpleMatch) {
-      return cleaned;
-    }
-  } catch (e) {
-    console.error("Date parse error:", dateStr, e);
-  }
-  
-  return null;
-}
-
-function determineStatus(openDate: string | null, closeDate: string | null): "upcoming" | "open" | "closed" {
-  if (!openDate) return "upcoming";
-  
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  
-  const open = new Date(openDate);
-  const close = closeDate ? new Date(closeDate) : null;
-  
-  if (today < open) return "upcoming";
-  if (close && today > close) return "closed";
-  if (today >= open && (!close || today <= close)) return "open";
-  
-  return "upcoming";
-}
-
-export async function scrapeMainboardIPOs(): Promise<RawIpoData[]> {
-  console.log("📊 Scraping Chittorgarh IPO dashboard...");
-  
-  const ipos: RawIpoData[] = [];
-  
-  try {
-    const html = await fetchPage(IPO_DASHBOARD);
-    const $ = cheerio.load(html);
-    
-    $("table").each((_, table) => {
-      $(table).find("tr").each((_, row) => {
-        const cells = $(row).find("td");
-        if (cells.length < 3) return;
-        
-        const companyCell = cells.eq(0);
-        const companyText = companyCell.text().trim();
-        const detailLink = companyCell.find("a").attr("href");
-        
-        if (!companyText || companyText.length < 3) return;
-        if (companyText.toLowerCase().includes("company") || companyText.toLowerCase().includes("ipo name")) return;
-        
-        const companyName = companyText
-          .replace(/\s+IPO$/i, "")
-          .replace(/\s+\(.*?\)/g, "")
-          .trim();
-        
-        const symbol = companyName
-          .replace(/\s+(Ltd|Limited|India|Private|Pvt|Technologies|Tech|Industries|Infra)\.?/gi, "")
-          .replace(/[^a-zA-Z0-9]/g, "")
-          .toUpperCase()
-          .slice(0, 12);
-        
-        const datesCell = cells.eq(1).text().trim();
-        const priceCell = cells.eq(2).text().trim();
-        const issueSizeCell = cells.eq(3)?.text()?.trim() || "";
-        const lotSizeCell = cells.eq(4)?.text()?.trim() || "";
-        
-        const dateParts = datesCell.split(/[-–to]/i).map(d => d.trim());
-        const openDateStr = dateParts[0] || "";
-        const closeDateStr = dateParts[1] || dateParts[0] || "";
-        
-        const openDate = parseDate(openDateStr);
-        const closeDate = parseDate(closeDateStr);
-        const status = determineStatus(openDate, closeDate);
-        
-        const lotSize = parseInt(lotSizeCell.replace(/[^0-9]/g, "")) || 0;
-        
-        if (symbol && companyName && symbol.length >= 3) {
-          ipos.push({
-            symbol,
-            companyName,
-            openDate: openDateStr,
-            closeDate: closeDateStr,
-            priceRange: priceCell || "TBA",
-            lotSize,
-            issueSize: issueSizeCell || "TBA",
-            status,
-            detailUrl: detailLink ? (detailLink.startsWith("http") ? detailLink : `${CHITTORGARH_BASE}${detailLink}`) : "",
-          });
-        }
-      });
-    });
-  } catch (err) {
-    console.log("Dashboard scrape failed, trying list page...");
-  }
-  
-  if (ipos.length === 0) {
-    try {
-      const html = await fetchPage(IPO_LIST_2025);
-      const $ = cheerio.load(html);
-      
-      $("table").each((_, table) => {
-        $(table).find("tr").each((_, row) => {
-          const cells = $(row).find("td");
-          if (cells.length < 4) return;
-          
-          const companyCell = cells.eq(0);
-          const companyText = companyCell.text().trim();
-          const detailLink = companyCell.find("a").attr("href");
-          
-          if (!companyText || companyText.length < 3) return;
-          
-          const companyName = companyText.replace(/\s+IPO$/i, "").trim();
-          
-          const symbol = companyName
-            .replace(/\s+(Ltd|Limited|India|Private|Pvt|Technologies|Tech)\.?/gi, "")
-            .replace(/[^a-zA-Z0-9]/g, "")
-            .toUpperCase()
-            .slice(0, 12);
-          
-          const openDateStr = cells.eq(1).text().trim();
-          const closeDateStr = cells.eq(2).text().trim();
-          const priceCell = cells.eq(3).text().trim();
-          const issueSizeCell = cells.eq(4)?.text()?.trim() || "";
-          
-          const openDate = parseDate(openDateStr);
-          const closeDate = parseDate(closeDateStr);
-          const status = determineStatus(openDate, closeDate);
-          
-          if (symbol && companyName && symbol.length >= 3) {
-            ipos.push({
-              symbol,
-              companyName,
-              openDate: openDateStr,
-              closeDate: closeDateStr,
-              priceRange: priceCell || "TBA",
-              lotSize: 0,
-              issueSize: issueSizeCell || "TBA",
-              status,
-              detailUrl: detailLink ? (detailLink.startsWith("http") ? detailLink : `${CHITTORGARH_BASE}${detailLink}`) : "",
-            });
-          }
-        });
-      });
-    } catch (err) {
-      console.error("List page scrape also failed:", err);
-    }
-  }
-  
-  console.log(`✅ Found ${ipos.length} IPOs from Chittorgarh`);
-  return ipos;
-}
-
-export async function scrapeGmpData(): Promise<GmpData[]> {
-  console.log("💹 Scraping GMP data...");
-  
-  const gmpUrls = [
-    `${CHITTORGARH_BASE}/report/grey-market-premium-upcoming-ipo-mainboard/104/`,
-    `${CHITTORGARH_BASE}/report/ipo-grey-market-premium-latest-mainboard-sme/90/`,
-  ];
-  
-  const gmpData: GmpData[] = [];
-  
-  for (const gmpUrl of gmpUrls) {
-    try {
-      const html = await fetchPage(gmpUrl);
-      const $ = cheerio.load(html);
-      
-      $("table").find("tr").each((_, row) => {
-        const cells = $(row).find("td");
-        if (cells.length < 2) return;
-        
-        const companyName = cells.eq(0).text().trim();
-        if (!companyName || companyName.length < 3) return;
-        if (companyName.toLowerCase().includes("company") || companyName.toLowerCase().includes("ipo name")) return;
-        
-        const gmpText = cells.eq(1).text().trim();
-        const expectedText = cells.eq(2)?.text()?.trim() || "";
-        
-        const symbol = companyName
-          .replace(/\s+(Ltd|Limited|IPO|India|Private|Pvt|Technologies|Tech)\.?/gi, "")
-          .replace(/[^a-zA-Z0-9]/g, "")
-          .toUpperCase()
-          .slice(0, 12);
-        
-        const gmpMatch = gmpText.match(/[+-]?\d+/);
-        const gmp = gmpMatch ? parseInt(gmpMatch[0]) : 0;
-        const expectedMatch = expectedText.match(/\d+/);
-        const expectedListing = expectedMatch ? parseInt(expectedMatch[0]) : 0;
-        
-        if (symbol && symbol.length >= 3) {
-          const existing = gmpData.find(g => g.symbol === symbol);
-          if (!existing) {
-            gmpData.push({ symbol, gmp, expectedListing });
-          }
-        }
-      });
-      
-      if (gmpData.length > 0) break;
-    } catch (error) {
-      console.log(`GMP fetch from ${gmpUrl} failed, trying next...`);
-    }
-  }
-  
-  console.log(`✅ Found GMP data for ${gmpData.length} IPOs`);
-  return gmpData;
-}
-
-function extractPriceFromRange(priceRange: string): number | null {
+export function extractPriceFromRange(priceRange: string): number | null {
   const match = priceRange.match(/₹?\s*(\d+(?:,\d+)?(?:\.\d+)?)/g);
   if (match && match.length > 0) {
     const lastPrice = match[match.length - 1];
@@ -290,6 +18,12 @@ function extractPriceFromRange(priceRange: string): number | null {
   return null;
 }
 
+// Issue size is stored as text such as "₹1,234.56 Cr"; the first number is the size in Cr
+export function extractIssueSizeCr(issueSize: string | null): number | null {
+  const match = issueSize?.replace(/,/g, "").match(/\d+(?:\.\d+)?/);
+  return match ? Number(match[0]) : null;
+}
+
 // Sector detection based on company name keywords
 function detectSector(companyName: string): string {
   const name = companyName.toLowerCase();
@@ -328,181 +62,93 @@ function detectSector(companyName: string): string {
   return "Industrial";
 }
 
-// Generate realistic financial metrics based on sector
-function generateFinancialMetrics(sector: string): {
-  revenueGrowth: number;
-  ebitdaMargin: number;
-  patMargin: number;
-  roe: number;
-  roce: number;
-  debtToEquity: number;
-  peRatio: number;
-  pbRatio: number;
-  sectorPeMedian: number;
-  freshIssue: number;
-  ofsRatio: number;
-  promoterHolding: number;
-  postIpoPromoterHolding: number;
-} {
-  // Base ranges by sector - realistic Indian market values
-  const sectorDefaults: Record<string, any> = {
-    "Technology": {
-      revenueGrowth: [25, 60],
-      ebitdaMargin: [15, 35],
-      patMargin: [8, 25],
-      roe: [12, 30],
-      roce: [14, 35],
-      debtToEquity: [0, 0.5],
-      peRatio: [25, 60],
-      sectorPeMedian: 35,
-    },
-    "Financial Services": {
-      revenueGrowth: [15, 35],
-      ebitdaMargin: [20, 45],
-      patMargin: [12, 30],
-      roe: [12, 22],
-      roce: [10, 18],
-      debtToEquity: [0.5, 2],
-      peRatio: [15, 35],
-      sectorPeMedian: 22,
-    },
-    "Healthcare": {
-      revenueGrowth: [12, 30],
-      ebitdaMargin: [15, 30],
-      patMargin: [8, 20],
-      roe: [12, 25],
-      roce: [14, 28],
-      debtToEquity: [0.2, 1],
-      peRatio: [20, 45],
-      sectorPeMedian: 30,
-    },
-    "Energy": {
-      revenueGrowth: [20, 50],
-      ebitdaMargin: [12, 28],
-      patMargin: [6, 18],
-      roe: [10, 22],
-      roce: [12, 25],
-      debtToEquity: [0.5, 1.5],
-      peRatio: [15, 35],
-      sectorPeMedian: 25,
-    },
-    "Logistics & Transport": {
-      revenueGrowth: [18, 45],
-      ebitdaMargin: [8, 20],
-      patMargin: [4, 12],
-      roe: [10, 25],
-      roce: [12, 28],
-      debtToEquity: [0.3, 1.2],
-      peRatio: [18, 40],
-      sectorPeMedian: 28,
-    },
-    "Consumer": {
-      revenueGrowth: [10, 25],
-      ebitdaMargin: [10, 25],
-      patMargin: [5, 15],
-      roe: [12, 28],
-      roce: [14, 30],
-      debtToEquity: [0.2, 0.8],
-      peRatio: [20, 45],
-      sectorPeMedian: 32,
-    },
-    default: {
-      revenueGrowth: [10, 35],
-      ebitdaMargin: [10, 25],
-      patMargin: [5, 18],
-      roe: [10, 22],
-      roce: [12, 25],
-      debtToEquity: [0.3, 1.2],
-      peRatio: [15, 40],
-      sectorPeMedian: 25,
-    },
-  };
-  
-  const defaults = sectorDefaults[sector] || sectorDefaults.default;
-  
-  const rand = (min: number, max: number) => Math.round((Math.random() * (max - min) + min) * 10) / 10;
+// Median P/E of listed companies by sector, used as the valuation benchmark
+const SECTOR_PE_MEDIANS: Record<string, number> = {
+  "Technology": 35,
+  "Financial Services": 22,
+  "Healthcare": 30,
+  "Energy": 25,
+  "Logistics & Transport": 28,
+  "Consumer": 32,
+};
+const DEFAULT_SECTOR_PE_MEDIAN = 25;
+
+// Detail pages are fetched a few at a time to stay polite to the source
+const DETAIL_FETCH_BATCH_SIZE = 4;
+
+async function fetchAllFinancials(rawIpos: MergedIpoRecord[]): Promise<Map<string, FinancialExtraction>> {
+  const results = new Map<string, FinancialExtraction>();
   
-  const revenueGrowth = rand(defaults.revenueGrowth[0], defaults.revenueGrowth[1]);
-  const ebitdaMargin = rand(defaults.ebitdaMargin[0], defaults.ebitdaMargin[1]);
-  const patMargin = rand(defaults.patMargin[0], defaults.patMargin[1]);
-  const roe = rand(defaults.roe[0], defaults.roe[1]);
-  const roce = rand(defaults.roce[0], defaults.roce[1]);
-  const debtToEquity = rand(defaults.debtToEquity[0], defaults.debtToEquity[1]);
-  const peRatio = rand(defaults.peRatio[0], defaults.peRatio[1]);
-  const pbRatio = rand(1.5, 6);
-  const sectorPeMedian = defaults.sectorPeMedian;
-  const freshIssue = rand(30, 80);
-  const ofsRatio = rand(0.1, 0.5);
-  const promoterHolding = rand(55, 85);
-  const postIpoPromoterHolding = promoterHolding * (1 - ofsRatio * 0.3);
+  for (let i = 0; i < rawIpos.length; i += DETAIL_FETCH_BATCH_SIZE) {
+    const batch = rawIpos.slice(i, i + DETAIL_FETCH_BATCH_SIZE);
+    // Metrics are attributed to whichever source supplied the detail page
+    const extractions = await Promise.all(batch.map(raw =>
+      fetchIpoFinancials(raw.detailUrl ?? "", `${raw.fieldSources.detailUrl ?? "chittorgarh"}_detail`)
+    ));
+    batch.forEach((raw, index) => results.set(raw.symbol, extractions[index]));
+  }
   
-  return {
-    revenueGrowth,
-    ebitdaMargin,
-    patMargin,
-    roe,
-    roce,
-    debtToEquity,
-    peRatio,
-    pbRatio,
-    sectorPeMedian,
-    freshIssue,
-    ofsRatio,
-    promoterHolding,
-    postIpoPromoterHolding: Math.round(postIpoPromoterHolding * 10) / 10,
-  };
+  return results;
 }
 
-export async function scrapeAndTransformIPOs(): Promise<InsertIpo[]> {
+// Scores are computed with the given profile version, which is recorded on each IPO
+export async function scrapeAndTransformIPOs(profile: ScoringProfile): Promise<InsertIpo[]> {
   try {
-    const [rawIpos, gmpData] = await Promise.all([
-      scrapeMainboardIPOs(),
-      scrapeGmpData(),
-    ]);
+    const results = await fetchFromSources(getConfiguredSources());
+    if (results.every(result => !result.success)) {
+      throw new Error(`All data sources failed: ${results.map(r => `${r.source} (${r.error})`).join(", ")}`);
+    }
     
-    const gmpMap = new Map(gmpData.map(g => [g.symbol, g]));
+    const rawIpos = mergeSourceRecords(results);
+    console.log(`🔀 Merged ${rawIpos.length} IPOs from ${results.filter(r => r.success).map(r => r.source).join(", ")}`);
+    
+    console.log("📄 Extracting financials from IPO detail pages...");
+    const financialsMap = await fetchAllFinancials(rawIpos);
     
     const transformedIpos: InsertIpo[] = rawIpos.map(raw => {
-      const gmp = gmpMap.get(raw.symbol);
-      const upperPrice = extractPriceFromRange(raw.priceRange);
+      const upperPrice = raw.priceRange ? extractPriceFromRange(raw.priceRange) : null;
       const minInvestment = upperPrice && raw.lotSize ? `₹${(upperPrice * raw.lotSize).toLocaleString("en-IN")}` : null;
       
-      const openDate = parseDate(raw.openDate);
       const sector = detectSector(raw.companyName);
-      const financials = generateFinancialMetrics(sector);
+      // Metrics that could not be extracted stay null and are marked unavailable
+      const { values: financials, sources } = financialsMap.get(raw.symbol)!;
       
       const baseIpo: Partial<InsertIpo> = {
         symbol: raw.symbol,
         companyName: raw.companyName,
-        priceRange: raw.priceRange.includes("₹") ? raw.priceRange : `₹${raw.priceRange}`,
+        priceRange: !raw.priceRange ? "TBA" : raw.priceRange.includes("₹") ? raw.priceRange : `₹${raw.priceRange}`,
         totalShares: null,
-        expectedDate: openDate,
+        expectedDate: raw.openDate,
+        closeDate: raw.closeDate,
+        nseSymbol: raw.nseSymbol,
         status: raw.status,
-        description: `${raw.companyName} IPO. Issue size: ${raw.issueSize}. Sector: ${sector}.`,
+        description: `${raw.companyName} IPO. Issue size: ${raw.issueSize || "TBA"}. Sector: ${sector}.`,
         sector,
-        issueSize: raw.issueSize,
-        lotSize: raw.lotSize || null,
+        detailUrl: raw.detailUrl,
+        issueSize: raw.issueSize || "TBA",
+        lotSize: raw.lotSize,
         minInvestment,
-        gmp: gmp?.gmp ?? Math.floor(Math.random() * 100) - 20, // Generate sample GMP if not found
-        revenueGrowth: financials.revenueGrowth,
-        ebitdaMargin: financials.ebitdaMargin,
-        patMargin: financials.patMargin,
-        roe: financials.roe,
-        roce: financials.roce,
-        debtToEquity: financials.debtToEquity,
-        peRatio: financials.peRatio,
-        pbRatio: financials.pbRatio,
-        sectorPeMedian: financials.sectorPeMedian,
-        freshIssue: financials.freshIssue,
-        ofsRatio: financials.ofsRatio,
-        subscriptionQib: null,
-        subscriptionHni: null,
-        subscriptionRetail: null,
-        promoterHolding: financials.promoterHolding,
-        postIpoPromoterHolding: financials.postIpoPromoterHolding,
+        gmp: raw.gmp,
+        revenueGrowth: financials.revenueGrowth ?? null,
+        ebitdaMargin: financials.ebitdaMargin ?? null,
+        patMargin: financials.patMargin ?? null,
+        roe: financials.roe ?? null,
+        roce: financials.roce ?? null,
+        debtToEquity: financials.debtToEquity ?? null,
+        peRatio: financials.peRatio ?? null,
+        pbRatio: financials.pbRatio ?? null,
+        sectorPeMedian: SECTOR_PE_MEDIANS[sector] ?? DEFAULT_SECTOR_PE_MEDIAN,
+        freshIssue: financials.freshIssue ?? null,
+        ofsRatio: financials.ofsRatio ?? null,
+        promoterHolding: financials.promoterHolding ?? null,
+        postIpoPromoterHolding: financials.postIpoPromoterHolding ?? null,
+        metricSources: {
+          ...sources,
+          sectorPeMedian: { status: "derived", source: "sector_benchmark", url: null, confidence: 0.5, label: sector },
+        },
       };
       
-      const scores = calculateIpoScore(baseIpo);
+      const scores = calculateIpoScore(baseIpo, profile.config);
       
       return {
         ...baseIpo,
@@ -513,6 +159,8 @@ export async function scrapeAndTransformIPOs(): Promise<InsertIpo[]> {
         riskLevel: scores.riskLevel,
         redFlags: scores.redFlags,
         pros: scores.pros,
+        scoreBreakdown: scores.scoreBreakdown,
+        scoringProfileId: profile.id,
       } as InsertIpo;
     });
     
@@ -670,19 +318,18 @@ export function generateFundUtilization(ipoId: number): Array<{
   }));
 }
 
-export async function testScraper(): Promise<{ success: boolean; count: number; sample: RawIpoData[] }> {
-  try {
-    const ipos = await scrapeMainboardIPOs();
-    return {
-      success: true,
-      count: ipos.length,
-      sample: ipos.slice(0, 3),
-    };
-  } catch (error) {
-    return {
-      success: false,
-      count: 0,
-      sample: [],
-    };
-  }
+export async function testScraper(): Promise<{
+  success: boolean;
+  count: number;
+  sample: MergedIpoRecord[];
+  sources: Array<{ source: DataSourceName; success: boolean; count: number; error?: string }>;
+}> {
+  const results = await fetchFromSources(getConfiguredSources());
+  const merged = mergeSourceRecords(results);
+  return {
+    success: results.some(result => result.success && result.records.length > 0),
+    count: merged.length,
+    sample: merged.slice(0, 3),
+    sources: results.map(({ source, success, records, error }) => ({ source, success, count: records.length, error })),
+  };
 }
@@ -0,0 +1,21 @@
+import type { Ipo, ScoringProfile, ScreenerRow } from "@shared/schema";
+import { ALERT_RULE_FIELDS, type AlertRuleCondition, type AlertRuleField } from "@shared/alert-rules";
+import { storage } from "../storage";
+import { alertRuleValue, matchesAlertRule } from "./alert-rules";
+import { applyScoringProfile } from "./scoring-profiles";
+
+const FIELDS = Object.keys(ALERT_RULE_FIELDS) as AlertRuleField[];
+
+export function screenerRow(ipo: Ipo): ScreenerRow {
+  return {
+    ipo,
+    values: Object.fromEntries(FIELDS.map(field => [field, alertRuleValue(ipo, field)])) as ScreenerRow["values"],
+  };
+}
+
+// Conditions are checked after rescoring, so score conditions follow the
+// user's scoring profile like the rest of the app
+export async function runScreen(conditions: AlertRuleCondition[], profile: ScoringProfile): Promise<ScreenerRow[]> {
+  const ipos = (await storage.getIpos()).map(ipo => applyScoringProfile(ipo, profile));
+  return ipos.filter(ipo => matchesAlertRule(conditions, ipo)).map(screenerRow);
+}
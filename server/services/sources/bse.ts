@@ -0,0 +1,67 @@
+import * as cheerio from "cheerio";
+import type { IpoDataSource, SourceIpoRecord } from "./types";
+import { fetchPage, parseDate, deriveSymbol } from "./utils";
+
+const BSE_BASE = "https://www.bseindia.com";
+const BSE_PUBLIC_ISSUES = `${BSE_BASE}/markets/PublicIssues/IPOIssues_new.aspx?id=1&Type=p`;
+
+// Columns are located by header text so a reordered table still parses
+function findColumn(headerCells: string[], pattern: RegExp): number {
+  return headerCells.findIndex(cell => pattern.test(cell));
+}
+
+export const bseSource: IpoDataSource = {
+  name: "bse",
+  async fetchIpos() {
+    console.log("📊 Scraping BSE public issues...");
+    
+    const html = await fetchPage(BSE_PUBLIC_ISSUES, { "Referer": BSE_BASE });
+    const $ = cheerio.load(html);
+    const ipos: SourceIpoRecord[] = [];
+    
+    $("table").each((_, table) => {
+      const headerCells = $(table).find("tr").first().find("th, td")
+        .map((_, cell) => $(cell).text().replace(/\s+/g, " ").trim().toLowerCase())
+        .get();
+      
+      const nameCol = findColumn(headerCells, /security\s*name|company/);
+      const startCol = findColumn(headerCells, /start\s*date/);
+      const endCol = findColumn(headerCells, /end\s*date/);
+      if (nameCol === -1 || startCol === -1) return;
+      
+      const priceCol = findColumn(headerCells, /offer\s*price|price\s*band/);
+      const platformCol = findColumn(headerCells, /platform/);
+      const typeCol = findColumn(headerCells, /type\s*of\s*issue/);
+      
+      $(table).find("tr").slice(1).each((_, row) => {
+        const cells = $(row).find("td");
+        const cellText = (index: number) => index === -1 ? "" : cells.eq(index).text().replace(/\s+/g, " ").trim();
+        
+        const companyName = cellText(nameCol).replace(/\s+IPO$/i, "");
+        if (!companyName || companyName.length < 3) return;
+        // Only mainboard IPOs; SME platform and debt issues are skipped
+        if (/sme/i.test(cellText(platformCol))) return;
+        if (typeCol !== -1 && !/ipo|initial/i.test(cellText(typeCol))) return;
+        
+        const link = cells.eq(nameCol).find("a").attr("href");
+        const price = cellText(priceCol);
+        
+        ipos.push({
+          symbol: deriveSymbol(companyName),
+          companyName,
+          openDate: parseDate(cellText(startCol)),
+          closeDate: parseDate(cellText(endCol)),
+          priceRange: price && price !== "-" ? (price.includes("₹") ? price : `₹${price}`) : null,
+          lotSize: null,
+          issueSize: null,
+          detailUrl: link ? (link.startsWith("http") ? link : `${BSE_BASE}/markets/PublicIssues/${link}`) : null,
+          gmp: null,
+          nseSymbol: null,
+        });
+      });
+    });
+    
+    console.log(`✅ Found ${ipos.length} IPOs from BSE`);
+    return ipos;
+  },
+};
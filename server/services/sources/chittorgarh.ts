@@ -0,0 +1,187 @@
+import * as cheerio from "cheerio";
+import type { IpoDataSource, SourceIpoRecord } from "./types";
+import { fetchPage, parseDate, companyKey } from "./utils";
+
+const CHITTORGARH_BASE = "https://www.chittorgarh.com";
+const IPO_DASHBOARD = `${CHITTORGARH_BASE}/ipo/ipo_dashboard.asp`;
+const IPO_LIST_2025 = `${CHITTORGARH_BASE}/report/ipo-in-india-list-main-board-sme/82/mainboard/?year=2025`;
+const GMP_URLS = [
+  `${CHITTORGARH_BASE}/report/grey-market-premium-upcoming-ipo-mainboard/104/`,
+  `${CHITTORGARH_BASE}/report/ipo-grey-market-premium-latest-mainboard-sme/90/`,
+];
+
+function absoluteUrl(link: string | undefined): string | null {
+  if (!link) return null;
+  return link.startsWith("http") ? link : `${CHITTORGARH_BASE}${link}`;
+}
+
+export async function scrapeMainboardIPOs(): Promise<SourceIpoRecord[]> {
+  console.log("📊 Scraping Chittorgarh IPO dashboard...");
+  
+  const ipos: SourceIpoRecord[] = [];
+  
+  try {
+    const html = await fetchPage(IPO_DASHBOARD);
+    const $ = cheerio.load(html);
+    
+    $("table").each((_, table) => {
+      $(table).find("tr").each((_, row) => {
+        const cells = $(row).find("td");
+        if (cells.length < 3) return;
+        
+        const companyCell = cells.eq(0);
+        const companyText = companyCell.text().trim();
+        const detailLink = companyCell.find("a").attr("href");
+        
+        if (!companyText || companyText.length < 3) return;
+        if (companyText.toLowerCase().includes("company") || companyText.toLowerCase().includes("ipo name")) return;
+        
+        const companyName = companyText
+          .replace(/\s+IPO$/i, "")
+          .replace(/\s+\(.*?\)/g, "")
+          .trim();
+        
+        const symbol = companyName
+          .replace(/\s+(Ltd|Limited|India|Private|Pvt|Technologies|Tech|Industries|Infra)\.?/gi, "")
+          .replace(/[^a-zA-Z0-9]/g, "")
+          .toUpperCase()
+          .slice(0, 12);
+        
+        const datesCell = cells.eq(1).text().trim();
+        const priceCell = cells.eq(2).text().trim();
+        const issueSizeCell = cells.eq(3)?.text()?.trim() || "";
+        const lotSizeCell = cells.eq(4)?.text()?.trim() || "";
+        
+        const dateParts = datesCell.split(/[-–to]/i).map(d => d.trim());
+        const openDateStr = dateParts[0] || "";
+        const closeDateStr = dateParts[1] || dateParts[0] || "";
+        
+        const lotSize = parseInt(lotSizeCell.replace(/[^0-9]/g, "")) || null;
+        
+        if (symbol && companyName && symbol.length >= 3) {
+          ipos.push({
+            symbol,
+            companyName,
+            openDate: parseDate(openDateStr),
+            closeDate: parseDate(closeDateStr),
+            priceRange: priceCell || null,
+            lotSize,
+            issueSize: issueSizeCell || null,
+            detailUrl: absoluteUrl(detailLink),
+            gmp: null,
+            nseSymbol: null,
+          });
+        }
+      });
+    });
+  } catch (err) {
+    console.log("Dashboard scrape failed, trying list page...");
+  }
+  
+  if (ipos.length === 0) {
+    try {
+      const html = await fetchPage(IPO_LIST_2025);
+      const $ = cheerio.load(html);
+      
+      $("table").each((_, table) => {
+        $(table).find("tr").each((_, row) => {
+          const cells = $(row).find("td");
+          if (cells.length < 4) return;
+          
+          const companyCell = cells.eq(0);
+          const companyText = companyCell.text().trim();
+          const detailLink = companyCell.find("a").attr("href");
+          
+          if (!companyText || companyText.length < 3) return;
+          
+          const companyName = companyText.replace(/\s+IPO$/i, "").trim();
+          
+          const symbol = companyName
+            .replace(/\s+(Ltd|Limited|India|Private|Pvt|Technologies|Tech)\.?/gi, "")
+            .replace(/[^a-zA-Z0-9]/g, "")
+            .toUpperCase()
+            .slice(0, 12);
+          
+          const openDateStr = cells.eq(1).text().trim();
+          const closeDateStr = cells.eq(2).text().trim();
+          const priceCell = cells.eq(3).text().trim();
+          const issueSizeCell = cells.eq(4)?.text()?.trim() || "";
+          
+          if (symbol && companyName && symbol.length >= 3) {
+            ipos.push({
+              symbol,
+              companyName,
+              openDate: parseDate(openDateStr),
+              closeDate: parseDate(closeDateStr),
+              priceRange: priceCell || null,
+              lotSize: null,
+              issueSize: issueSizeCell || null,
+              detailUrl: absoluteUrl(detailLink),
+              gmp: null,
+              nseSymbol: null,
+            });
+          }
+        });
+      });
+    } catch (err) {
+      console.error("List page scrape also failed:", err);
+    }
+  }
+  
+  console.log(`✅ Found ${ipos.length} IPOs from Chittorgarh`);
+  return ipos;
+}
+
+// Returns GMP keyed by company (see companyKey)
+export async function scrapeGmpData(): Promise<Map<string, number>> {
+  console.log("💹 Scraping GMP data...");
+  
+  const gmpData = new Map<string, number>();
+  
+  for (const gmpUrl of GMP_URLS) {
+    try {
+      const html = await fetchPage(gmpUrl);
+      const $ = cheerio.load(html);
+      
+      $("table").find("tr").each((_, row) => {
+        const cells = $(row).find("td");
+        if (cells.length < 2) return;
+        
+        const companyName = cells.eq(0).text().trim();
+        if (!companyName || companyName.length < 3) return;
+        if (companyName.toLowerCase().includes("company") || companyName.toLowerCase().includes("ipo name")) return;
+        
+        const gmpText = cells.eq(1).text().trim();
+        const gmpMatch = gmpText.match(/[+-]?\d+/);
+        const gmp = gmpMatch ? parseInt(gmpMatch[0]) : 0;
+        
+        const key = companyKey(companyName);
+        if (key.length >= 3 && !gmpData.has(key)) {
+          gmpData.set(key, gmp);
+        }
+      });
+      
+      if (gmpData.size > 0) break;
+    } catch (error) {
+      console.log(`GMP fetch from ${gmpUrl} failed, trying next...`);
+    }
+  }
+  
+  console.log(`✅ Found GMP data for ${gmpData.size} IPOs`);
+  return gmpData;
+}
+
+export const chittorgarhSource: IpoDataSource = {
+  name: "chittorgarh",
+  async fetchIpos() {
+    const [ipos, gmpData] = await Promise.all([
+      scrapeMainboardIPOs(),
+      scrapeGmpData(),
+    ]);
+    
+    return ipos.map(ipo => ({
+      ...ipo,
+      gmp: gmpData.get(companyKey(ipo.companyName)) ?? null,
+    }));
+  },
+};
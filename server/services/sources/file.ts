@@ -0,0 +1,110 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import type { IpoDataSource, SourceIpoRecord } from "./types";
+import { parseDate, deriveSymbol, parseInteger } from "./utils";
+
+// Splits CSV text into rows of cells, honouring quoted cells with commas, quotes and newlines
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  
+  return rows.filter(cells => cells.some(value => value.trim() !== ""));
+}
+
+function csvToObjects(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const keys = header.map(key => key.trim());
+  return rows.map(cells => Object.fromEntries(keys.map((key, index) => [key, (cells[index] ?? "").trim()])));
+}
+
+function optionalString(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  return text === "" ? null : text;
+}
+
+function optionalNumber(value: unknown): number | null {
+  const text = optionalString(value);
+  if (text === null) return null;
+  const number = parseFloat(text.replace(/[₹,\s]/g, ""));
+  return Number.isFinite(number) ? number : null;
+}
+
+function toRecord(row: Record<string, unknown>): SourceIpoRecord | null {
+  const companyName = optionalString(row.companyName);
+  if (!companyName) return null;
+  
+  return {
+    symbol: optionalString(row.symbol)?.toUpperCase() || deriveSymbol(companyName),
+    companyName,
+    openDate: parseDate(optionalString(row.openDate)),
+    closeDate: parseDate(optionalString(row.closeDate)),
+    priceRange: optionalString(row.priceRange),
+    lotSize: parseInteger(optionalString(row.lotSize)),
+    issueSize: optionalString(row.issueSize),
+    detailUrl: optionalString(row.detailUrl),
+    gmp: optionalNumber(row.gmp),
+    nseSymbol: optionalString(row.nseSymbol)?.toUpperCase() ?? null,
+  };
+}
+
+// Reads IPOs from a local .json (array of objects) or .csv file whose keys or
+// header columns use the SourceIpoRecord field names. Works fully offline.
+export function createFileSource(filePath: string): IpoDataSource {
+  return {
+    name: "file",
+    async fetchIpos() {
+      console.log(`📁 Reading IPOs from ${filePath}...`);
+      
+      const text = await readFile(filePath, "utf-8");
+      const rows: Record<string, unknown>[] = path.extname(filePath).toLowerCase() === ".csv"
+        ? csvToObjects(text)
+        : JSON.parse(text);
+      
+      if (!Array.isArray(rows)) {
+        throw new Error(`${filePath} must contain an array of IPO records`);
+      }
+      
+      const ipos = rows
+        .map(row => toRecord(row))
+        .filter((record): record is SourceIpoRecord => record !== null);
+      
+      console.log(`✅ Found ${ipos.length} IPOs in ${path.basename(filePath)}`);
+      return ipos;
+    },
+  };
+}
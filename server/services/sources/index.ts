@@ -0,0 +1,63 @@
+import type { DataSourceName, IpoDataSource, SourceResult } from "./types";
+import { chittorgarhSource } from "./chittorgarh";
+import { nseSource } from "./nse";
+import { bseSource } from "./bse";
+import { createFileSource } from "./file";
+
+export * from "./types";
+export { mergeSourceRecords, DEFAULT_FIELD_PRECEDENCE } from "./merge";
+
+const DEFAULT_SOURCES: DataSourceName[] = ["chittorgarh", "nse", "bse"];
+
+// Sources come from IPO_DATA_SOURCES (comma separated, defaults to
+// chittorgarh,nse,bse). Setting IPO_SOURCE_FILE adds the file source.
+export function getConfiguredSources(): IpoDataSource[] {
+  const names = process.env.IPO_DATA_SOURCES
+    ? process.env.IPO_DATA_SOURCES.split(",").map(name => name.trim().toLowerCase()).filter(Boolean)
+    : [...DEFAULT_SOURCES];
+  const filePath = process.env.IPO_SOURCE_FILE;
+  if (filePath && !names.includes("file")) names.push("file");
+  
+  const sources: IpoDataSource[] = [];
+  for (const name of names) {
+    switch (name) {
+      case "chittorgarh":
+        sources.push(chittorgarhSource);
+        break;
+      case "nse":
+        sources.push(nseSource);
+        break;
+      case "bse":
+        sources.push(bseSource);
+        break;
+      case "file":
+        if (filePath) {
+          sources.push(createFileSource(filePath));
+        } else {
+          console.warn("⚠️ File data source enabled but IPO_SOURCE_FILE is not set, skipping");
+        }
+        break;
+      default:
+        console.warn(`⚠️ Unknown IPO data source "${name}", skipping`);
+    }
+  }
+  return sources;
+}
+
+// Runs every source independently so one failing site does not fail the sync
+export async function fetchFromSources(sources: IpoDataSource[]): Promise<SourceResult[]> {
+  return Promise.all(sources.map(async (source): Promise<SourceResult> => {
+    try {
+      const records = await source.fetchIpos();
+      return { source: source.name, success: true, records };
+    } catch (error) {
+      console.error(`❌ Data source ${source.name} failed:`, error instanceof Error ? error.message : error);
+      return {
+        source: source.name,
+        success: false,
+        records: [],
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }));
+}
@@ -0,0 +1,98 @@
+import type { DataSourceName, FieldPrecedence, MergedIpoRecord, SourceField, SourceIpoRecord, SourceResult } from "./types";
+import { companyKey } from "./utils";
+
+const FIELDS: SourceField[] = [
+  "symbol",
+  "companyName",
+  "openDate",
+  "closeDate",
+  "priceRange",
+  "lotSize",
+  "issueSize",
+  "detailUrl",
+  "gmp",
+  "nseSymbol",
+];
+
+// Exchanges are authoritative for dates, prices and lot sizes. Symbols and names
+// prefer Chittorgarh so existing rows (upserted by symbol) keep their keys, and
+// detail pages prefer Chittorgarh because that is the layout the RHP parser reads.
+// A local file always wins so it can be used to correct any source.
+export const DEFAULT_FIELD_PRECEDENCE: FieldPrecedence = {
+  default: ["file", "nse", "bse", "chittorgarh"],
+  symbol: ["file", "chittorgarh", "nse", "bse"],
+  companyName: ["file", "chittorgarh", "nse", "bse"],
+  issueSize: ["file", "chittorgarh", "nse", "bse"],
+  detailUrl: ["file", "chittorgarh", "bse", "nse"],
+  gmp: ["file", "chittorgarh"],
+};
+
+function determineStatus(openDate: string | null, closeDate: string | null): "upcoming" | "open" | "closed" {
+  if (!openDate) return "upcoming";
+  
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  
+  const open = new Date(openDate);
+  const close = closeDate ? new Date(closeDate) : null;
+  
+  if (today < open) return "upcoming";
+  if (close && today > close) return "closed";
+  if (today >= open && (!close || today <= close)) return "open";
+  
+  return "upcoming";
+}
+
+function isPresent(value: unknown): boolean {
+  return value !== null && value !== undefined && value !== "";
+}
+
+// Groups records describing the same IPO (by company name, falling back to
+// symbol) and picks each field from the highest-precedence source that has it.
+export function mergeSourceRecords(
+  results: SourceResult[],
+  precedence: FieldPrecedence = DEFAULT_FIELD_PRECEDENCE,
+): MergedIpoRecord[] {
+  const groups: Array<Map<DataSourceName, SourceIpoRecord>> = [];
+  const byKey = new Map<string, number>();
+  const bySymbol = new Map<string, number>();
+  
+  for (const { source, records } of results) {
+    for (const record of records) {
+      const key = companyKey(record.companyName);
+      let groupIndex = byKey.get(key) ?? bySymbol.get(record.symbol);
+      if (groupIndex === undefined) {
+        groupIndex = groups.length;
+        groups.push(new Map());
+      }
+      const group = groups[groupIndex];
+      // The first record a source reports for a company is kept
+      if (!group.has(source)) group.set(source, record);
+      byKey.set(key, groupIndex);
+      bySymbol.set(record.symbol, groupIndex);
+    }
+  }
+  
+  return groups.map(group => {
+    const available = Array.from(group.keys());
+    const merged: Partial<SourceIpoRecord> = {};
+    const fieldSources: MergedIpoRecord["fieldSources"] = {};
+    
+    for (const field of FIELDS) {
+      const preferred = precedence[field] ?? precedence.default;
+      // Sources missing from the precedence list are still used, after the listed ones
+      const order = [...preferred, ...available.filter(source => !preferred.includes(source))];
+      const source = order.find(name => isPresent(group.get(name)?.[field]));
+      (merged as Record<SourceField, unknown>)[field] = source ? group.get(source)![field] : null;
+      if (source) fieldSources[field] = source;
+    }
+    
+    const record = merged as SourceIpoRecord;
+    return {
+      ...record,
+      status: determineStatus(record.openDate, record.closeDate),
+      fieldSources,
+      sources: available,
+    };
+  });
+}
@@ -0,0 +1,88 @@
+import axios from "axios";
+import type { IpoDataSource, SourceIpoRecord } from "./types";
+import { headers, parseDate, deriveSymbol, parseInteger } from "./utils";
+
+const NSE_BASE = "https://www.nseindia.com";
+const NSE_ISSUE_ENDPOINTS = [
+  `${NSE_BASE}/api/ipo-current-issue`,
+  `${NSE_BASE}/api/all-upcoming-issues?category=ipo`,
+];
+
+interface NseIssue {
+  symbol?: string;
+  companyName?: string;
+  series?: string;
+  issueStartDate?: string;
+  issueEndDate?: string;
+  issuePrice?: string;
+  priceBand?: string;
+  issueSize?: string;
+  lotSize?: string | number;
+  minBidQuantity?: string | number;
+}
+
+// The NSE API only answers requests that carry the cookies set by the home page
+async function getSessionCookies(): Promise<string> {
+  const response = await axios.get(NSE_BASE, { headers, timeout: 30000 });
+  const setCookie = response.headers["set-cookie"] || [];
+  return setCookie.map(cookie => cookie.split(";")[0]).join("; ");
+}
+
+function formatPriceRange(price: string | undefined): string | null {
+  if (!price) return null;
+  const prices = price.match(/\d+(?:\.\d+)?/g);
+  if (!prices || prices.length === 0) return null;
+  return prices.length > 1 ? `₹${prices[0]} - ₹${prices[prices.length - 1]}` : `₹${prices[0]}`;
+}
+
+function toRecord(issue: NseIssue): SourceIpoRecord | null {
+  const companyName = issue.companyName?.trim();
+  if (!companyName) return null;
+  
+  return {
+    symbol: issue.symbol?.trim().toUpperCase() || deriveSymbol(companyName),
+    companyName,
+    openDate: parseDate(issue.issueStartDate),
+    closeDate: parseDate(issue.issueEndDate),
+    priceRange: formatPriceRange(issue.issuePrice || issue.priceBand),
+    lotSize: parseInteger(String(issue.lotSize ?? issue.minBidQuantity ?? "")),
+    issueSize: null,
+    detailUrl: null,
+    gmp: null,
+    nseSymbol: issue.symbol?.trim().toUpperCase() || null,
+  };
+}
+
+export const nseSource: IpoDataSource = {
+  name: "nse",
+  async fetchIpos() {
+    console.log("📊 Fetching NSE issue list...");
+    
+    const cookies = await getSessionCookies();
+    const records = new Map<string, SourceIpoRecord>();
+    
+    for (const endpoint of NSE_ISSUE_ENDPOINTS) {
+      try {
+        const response = await axios.get(endpoint, {
+          headers: { ...headers, "Accept": "application/json", "Referer": `${NSE_BASE}/market-data/all-upcoming-issues-ipo`, "Cookie": cookies },
+          timeout: 30000,
+        });
+        const issues: NseIssue[] = Array.isArray(response.data) ? response.data : response.data?.data || [];
+        
+        for (const issue of issues) {
+          // SME issues are listed on NSE Emerge and are out of scope
+          if (issue.series && issue.series.toUpperCase() === "SME") continue;
+          const record = toRecord(issue);
+          if (record && !records.has(record.symbol)) {
+            records.set(record.symbol, record);
+          }
+        }
+      } catch (error) {
+        console.log(`NSE fetch from ${endpoint} failed, trying next...`);
+      }
+    }
+    
+    console.log(`✅ Found ${records.size} IPOs from NSE`);
+    return Array.from(records.values());
+  },
+};
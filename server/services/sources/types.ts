@@ -0,0 +1,40 @@
+export type DataSourceName = "chittorgarh" | "nse" | "bse" | "file";
+
+// One IPO as reported by a single source. Dates are ISO (YYYY-MM-DD) and any
+// field the source does not publish is null.
+export interface SourceIpoRecord {
+  symbol: string;
+  companyName: string;
+  openDate: string | null;
+  closeDate: string | null;
+  priceRange: string | null;
+  lotSize: number | null;
+  issueSize: string | null;
+  detailUrl: string | null;
+  gmp: number | null;
+  nseSymbol: string | null; // NSE trading symbol, only when the source publishes one
+}
+
+export type SourceField = keyof SourceIpoRecord;
+
+export interface IpoDataSource {
+  readonly name: DataSourceName;
+  fetchIpos(): Promise<SourceIpoRecord[]>;
+}
+
+// Order in which sources are trusted, per field. Fields without an entry use `default`.
+export type FieldPrecedence = { default: DataSourceName[] } & Partial<Record<SourceField, DataSourceName[]>>;
+
+export interface MergedIpoRecord extends SourceIpoRecord {
+  status: "upcoming" | "open" | "closed";
+  // Which source supplied each non-null field
+  fieldSources: Partial<Record<SourceField, DataSourceName>>;
+  sources: DataSourceName[];
+}
+
+export interface SourceResult {
+  source: DataSourceName;
+  success: boolean;
+  records: SourceIpoRecord[];
+  error?: string;
+}
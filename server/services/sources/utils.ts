@@ -0,0 +1,88 @@
+import axios from "axios";
+
+export const headers = {
+  "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+  "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
+  "Accept-Language": "en-US,en;q=0.5",
+};
+
+export async function fetchPage(url: string, extraHeaders: Record<string, string> = {}): Promise<string> {
+  try {
+    const response = await axios.get(url, { 
+      headers: { ...headers, ...extraHeaders },
+      timeout: 30000,
+    });
+    return response.data;
+  } catch (error) {
+    console.error(`Error fetching ${url}:`, error instanceof Error ? error.message : error);
+    throw error;
+  }
+}
+
+const MONTHS: { [key: string]: string } = {
+  jan: "01", january: "01",
+  feb: "02", february: "02",
+  mar: "03", march: "03",
+  apr: "04", april: "04",
+  may: "05",
+  jun: "06", june: "06",
+  jul: "07", july: "07",
+  aug: "08", august: "08",
+  sep: "09", sept: "09", september: "09",
+  oct: "10", october: "10",
+  nov: "11", november: "11",
+  dec: "12", december: "12",
+};
+
+// Normalises "17 Dec 2025", "17-Dec-2025", "Dec 17, 2025", "17/12/2025" and ISO dates to YYYY-MM-DD
+export function parseDate(dateStr: string | null | undefined): string | null {
+  if (!dateStr || dateStr.toLowerCase() === "tba" || dateStr === "-") return null;
+  
+  const cleaned = dateStr.trim().replace(/\s+/g, " ");
+  
+  const iso = cleaned.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  
+  const dayFirst = cleaned.match(/(\d{1,2})[\s\-/]*([a-zA-Z]+)[\s\-/]*,?\s*(\d{4})/);
+  if (dayFirst && MONTHS[dayFirst[2].toLowerCase()]) {
+    return `${dayFirst[3]}-${MONTHS[dayFirst[2].toLowerCase()]}-${dayFirst[1].padStart(2, "0")}`;
+  }
+  
+  const monthFirst = cleaned.match(/([a-zA-Z]+)\s*(\d{1,2}),?\s*(\d{4})/);
+  if (monthFirst && MONTHS[monthFirst[1].toLowerCase()]) {
+    return `${monthFirst[3]}-${MONTHS[monthFirst[1].toLowerCase()]}-${monthFirst[2].padStart(2, "0")}`;
+  }
+  
+  const numeric = cleaned.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (numeric) {
+    return `${numeric[3]}-${numeric[2].padStart(2, "0")}-${numeric[1].padStart(2, "0")}`;
+  }
+  
+  return null;
+}
+
+const COMPANY_SUFFIXES = /\b(ltd|limited|ipo|india|private|pvt|technologies|tech|industries|infra)\b\.?/gi;
+
+// Symbol used when a source does not publish an exchange symbol
+export function deriveSymbol(companyName: string): string {
+  return companyName
+    .replace(COMPANY_SUFFIXES, "")
+    .replace(/[^a-zA-Z0-9]/g, "")
+    .toUpperCase()
+    .slice(0, 12);
+}
+
+// Key used to recognise the same company across sources
+export function companyKey(companyName: string): string {
+  return companyName
+    .toLowerCase()
+    .replace(/\(.*?\)/g, "")
+    .replace(COMPANY_SUFFIXES, "")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+export function parseInteger(text: string | null | undefined): number | null {
+  if (!text) return null;
+  const value = parseInt(text.replace(/[^0-9]/g, ""));
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
@@ -0,0 +1,162 @@
+import * as cheerio from "cheerio";
+import type { Ipo, InsertSubscriptionUpdate } from "@shared/schema";
+import { storage } from "../storage";
+import { fetchPage } from "./sources/utils";
+import { runAlertEngine, type IpoChange } from "./alerts";
+import { emitWebhookEvents, subscriptionUpdatedEvent, type WebhookEvent } from "./webhooks";
+
+type SubscriptionField =
+  | "qibSubscription"
+  | "niiSubscription"
+  | "bniiSubscription"
+  | "sniiSubscription"
+  | "retailSubscription"
+  | "employeeSubscription"
+  | "shareholderSubscription"
+  | "totalSubscription";
+
+export type SubscriptionSnapshot = Partial<Record<SubscriptionField, number>>;
+
+// Checked in order; bNII/sNII come before NII so the split rows are not read as the NII total
+const CATEGORY_PATTERNS: Array<{ field: SubscriptionField; pattern: RegExp }> = [
+  { field: "qibSubscription", pattern: /^(qib|qualified\s*institution)/i },
+  { field: "bniiSubscription", pattern: /^(bnii|b\s*-\s*nii|big\s*nii|nii\s*\(?\s*bids\s*above)/i },
+  { field: "sniiSubscription", pattern: /^(snii|s\s*-\s*nii|small\s*nii|nii\s*\(?\s*bids\s*below)/i },
+  { field: "niiSubscription", pattern: /^(nii|hni|non[\s-]*institutional)/i },
+  { field: "retailSubscription", pattern: /^(retail|rii)/i },
+  { field: "employeeSubscription", pattern: /^employee/i },
+  { field: "shareholderSubscription", pattern: /^shareholder/i },
+  { field: "totalSubscription", pattern: /^(total|overall)\b/i },
+];
+
+function parseTimes(text: string): number | null {
+  const match = text.replace(/,/g, "").match(/\d+(?:\.\d+)?/);
+  return match ? parseFloat(match[0]) : null;
+}
+
+// Reads the first table that lists subscription (times) by investor category
+export function parseSubscriptionHtml(html: string): SubscriptionSnapshot | null {
+  const $ = cheerio.load(html);
+  let snapshot: SubscriptionSnapshot | null = null;
+  
+  $("table").each((_, table) => {
+    if (snapshot) return false;
+    
+    const rows = $(table).find("tr").map((_, row) =>
+      [$(row).find("th, td").map((_, cell) => $(cell).text().replace(/\s+/g, " ").trim()).get()]
+    ).get() as string[][];
+    
+    // Prefer the "Subscription (times)" column when the table has a header for it
+    const header = rows.find(cells => cells.some(cell => /subscription|\(x\)|times/i.test(cell)));
+    const timesColumn = header ? header.findIndex((cell, index) => index > 0 && /subscription|\(x\)|times/i.test(cell)) : -1;
+    
+    const found: SubscriptionSnapshot = {};
+    for (const cells of rows) {
+      if (cells.length < 2) continue;
+      const category = CATEGORY_PATTERNS.find(({ pattern }) => pattern.test(cells[0]));
+      if (!category || found[category.field] !== undefined) continue;
+      
+      const value = timesColumn > 0 && cells[timesColumn] !== undefined
+        ? parseTimes(cells[timesColumn])
+        : cells.slice(1).map(parseTimes).find((v): v is number => v !== null) ?? null;
+      if (value !== null) found[category.field] = value;
+    }
+    
+    if (found.qibSubscription !== undefined && found.totalSubscription !== undefined) {
+      snapshot = found;
+    }
+  });
+  
+  return snapshot;
+}
+
+// Chittorgarh keeps live bidding on a dedicated subscription page next to the detail page
+function subscriptionPageUrls(detailUrl: string): string[] {
+  const subscriptionUrl = detailUrl.replace("/ipo/", "/ipo_subscription/");
+  return subscriptionUrl !== detailUrl ? [subscriptionUrl, detailUrl] : [detailUrl];
+}
+
+export async function fetchSubscription(detailUrl: string): Promise<{ snapshot: SubscriptionSnapshot; source: string } | null> {
+  for (const url of subscriptionPageUrls(detailUrl)) {
+    try {
+      const snapshot = parseSubscriptionHtml(await fetchPage(url));
+      if (snapshot) return { snapshot, source: url };
+    } catch (error) {
+      console.log(`Subscription fetch from ${url} failed, trying next...`);
+    }
+  }
+  return null;
+}
+
+function sameSnapshot(a: Partial<Record<SubscriptionField, number | null>>, b: SubscriptionSnapshot): boolean {
+  return CATEGORY_PATTERNS.every(({ field }) => (a[field] ?? null) === (b[field] ?? null));
+}
+
+let recording = false;
+
+// Records a subscription snapshot for every open IPO. Unchanged figures (e.g.
+// outside market hours) are not stored again. The IPO's own subscription
+// columns are kept in step with the latest snapshot.
+export async function recordSubscriptions(): Promise<{ checked: number; recorded: number; errors: Array<{ symbol: string; error: string }> } | null> {
+  if (recording) {
+    console.log("⏭️ Skipping subscription refresh: one is already running");
+    return null;
+  }
+  recording = true;
+  
+  try {
+    const openIpos = (await storage.getIpos({ status: "open" })).filter((ipo): ipo is Ipo & { detailUrl: string } => !!ipo.detailUrl);
+    console.log(`📈 Refreshing subscription status for ${openIpos.length} open IPOs...`);
+    
+    let recorded = 0;
+    const errors: Array<{ symbol: string; error: string }> = [];
+    const changes: IpoChange[] = [];
+    const webhookEvents: WebhookEvent[] = [];
+    
+    for (const ipo of openIpos) {
+      try {
+        const result = await fetchSubscription(ipo.detailUrl);
+        if (!result) {
+          errors.push({ symbol: ipo.symbol, error: "No subscription table found" });
+          continue;
+        }
+        
+        const latest = await storage.getLatestSubscription(ipo.id);
+        if (latest && sameSnapshot(latest, result.snapshot)) continue;
+        
+        const update: InsertSubscriptionUpdate = { ipoId: ipo.id, ...result.snapshot, source: result.source };
+        const snapshot = await storage.addSubscriptionUpdate(update);
+        const updated = await storage.updateIpo(ipo.id, {
+          subscriptionQib: result.snapshot.qibSubscription ?? null,
+          subscriptionHni: result.snapshot.niiSubscription ?? null,
+          subscriptionRetail: result.snapshot.retailSubscription ?? null,
+        });
+        if (updated) changes.push({ previous: ipo, current: updated });
+        webhookEvents.push(subscriptionUpdatedEvent(updated ?? ipo, snapshot));
+        recorded++;
+      } catch (error) {
+        errors.push({ symbol: ipo.symbol, error: error instanceof Error ? error.message : "Unknown error" });
+      }
+    }
+    
+    console.log(`✅ Recorded ${recorded} subscription snapshots (${errors.length} errors)`);
+    
+    // Subscription figures feed alert rules such as "retail subscription above 5x"
+    if (changes.length > 0) {
+      try {
+        await runAlertEngine(changes);
+      } catch (error) {
+        console.error("❌ Alert engine failed after subscription refresh:", error);
+      }
+    }
+    
+    try {
+      await emitWebhookEvents(webhookEvents);
+    } catch (error) {
+      console.error("❌ Webhooks failed after subscription refresh:", error);
+    }
+    return { checked: openIpos.length, recorded, errors };
+  } finally {
+    recording = false;
+  }
+}
@@ -0,0 +1,169 @@
+import type { Ipo, InsertIpo, SyncRun, SyncRunError } from "@shared/schema";
+import { storage } from "../storage";
+import { scrapeAndTransformIPOs, generatePeerCompanies, generateGmpHistory, generateFundUtilization } from "./scraper";
+import { getDefaultScoringProfile } from "./scoring-profiles";
+import { runAlertEngine, type IpoChange } from "./alerts";
+import { emitWebhookEvents, webhookEventsForChanges } from "./webhooks";
+
+export type SyncTrigger = "scheduled" | "manual" | "startup";
+
+// Only one sync may run at a time in this process; later callers are turned away
+let activeRun: Promise<SyncRun> | null = null;
+
+export function isSyncRunning(): boolean {
+  return activeRun !== null;
+}
+
+const TIMELINE_EVENTS = [
+  { type: "drhp_filing", offsetDays: -30, description: "DRHP filed with SEBI" },
+  { type: "price_band", offsetDays: -2, description: "Price band announced" },
+  { type: "open_date", offsetDays: 0, description: "IPO opens for subscription" },
+  { type: "close_date", offsetDays: 3, description: "IPO closes for subscription" },
+  { type: "allotment", offsetDays: 7, description: "Share allotment finalized" },
+  { type: "refund", offsetDays: 9, description: "Refund initiated for unallotted" },
+  { type: "listing", offsetDays: 10, description: "Shares listed on exchange" },
+];
+
+// Saves one scraped IPO and fills in any analytics it does not have yet.
+// Returns the row before and after the save and whether analytics were generated.
+async function syncIpo(ipo: InsertIpo, trigger: SyncTrigger): Promise<{ savedIpo: Ipo; previous: Ipo | undefined; created: boolean; analyticsAdded: boolean }> {
+  const existing = await storage.getIpoBySymbol(ipo.symbol);
+  const savedIpo = await storage.upsertIpo(ipo);
+  
+  const ipoId = savedIpo.id;
+  const sector = savedIpo.sector || "Industrial";
+  let analyticsAdded = false;
+  
+  const existingPeers = await storage.getPeerCompanies(ipoId);
+  if (existingPeers.length === 0) {
+    const peers = generatePeerCompanies(ipoId, sector);
+    for (const peer of peers) {
+      await storage.addPeerCompany(peer);
+    }
+    analyticsAdded = true;
+  }
+  
+  if (savedIpo.gmp !== null && trigger === "startup" && !existing) {
+    // Seed a week of history so charts have data on a fresh database
+    for (const entry of generateGmpHistory(ipoId, savedIpo.gmp)) {
+      await storage.addGmpHistory(entry);
+    }
+  } else if (savedIpo.gmp !== null) {
+    await storage.addGmpHistory({
+      ipoId,
+      gmp: savedIpo.gmp,
+      gmpPercentage: savedIpo.gmp * 0.8, // Approximate percentage
+    });
+  }
+  
+  const existingFunds = await storage.getFundUtilization(ipoId);
+  if (existingFunds.length === 0) {
+    const funds = generateFundUtilization(ipoId);
+    for (const fund of funds) {
+      await storage.addFundUtilization(fund);
+    }
+  }
+  
+  const existingTimeline = await storage.getIpoTimeline(ipoId);
+  if (existingTimeline.length === 0) {
+    // Use expected date if available, otherwise use a future date (30 days from now)
+    const baseDate = savedIpo.expectedDate 
+      ? new Date(savedIpo.expectedDate) 
+      : new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+    
+    for (const event of TIMELINE_EVENTS) {
+      const eventDate = new Date(baseDate);
+      eventDate.setDate(eventDate.getDate() + event.offsetDays);
+      await storage.addTimelineEvent({
+        ipoId,
+        eventType: event.type,
+        eventDate: eventDate.toISOString().split('T')[0],
+        description: event.description,
+        isConfirmed: savedIpo.expectedDate ? event.offsetDays <= 0 : false,
+      });
+    }
+  }
+  
+  return { savedIpo, previous: existing, created: !existing, analyticsAdded };
+}
+
+async function executeSync(trigger: SyncTrigger): Promise<SyncRun> {
+  const run = await storage.createSyncRun({ trigger, status: "running" });
+  console.log(`🔄 Sync run #${run.id} started (${trigger})`);
+  
+  let scrapedIpos: InsertIpo[];
+  try {
+    scrapedIpos = await scrapeAndTransformIPOs(await getDefaultScoringProfile());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Sync failed";
+    console.error(`❌ Sync run #${run.id} failed:`, message);
+    return (await storage.updateSyncRun(run.id, { status: "failed", finishedAt: new Date(), message }))!;
+  }
+  
+  let created = 0;
+  let updated = 0;
+  let analyticsAdded = 0;
+  const errors: SyncRunError[] = [];
+  const changes: IpoChange[] = [];
+  
+  // A failing IPO is recorded and skipped so the rest of the batch still syncs
+  for (const ipo of scrapedIpos) {
+    try {
+      const result = await syncIpo(ipo, trigger);
+      if (result.created) {
+        created++;
+      } else {
+        updated++;
+      }
+      if (result.analyticsAdded) analyticsAdded++;
+      changes.push({ previous: result.previous, current: result.savedIpo });
+    } catch (error) {
+      console.error(`Sync of ${ipo.symbol} failed:`, error);
+      errors.push({ symbol: ipo.symbol, error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  }
+  
+  const status = errors.length === 0 ? "success" : created + updated > 0 ? "partial" : "failed";
+  console.log(`✅ Sync run #${run.id} ${status}: ${created} created, ${updated} updated, ${analyticsAdded} analytics generated, ${errors.length} errors`);
+  
+  // The startup sync fills an empty database, so every IPO would look new;
+  // it still sends open-date reminders
+  try {
+    await runAlertEngine(trigger === "startup" ? [] : changes);
+  } catch (error) {
+    console.error(`❌ Alert engine failed after sync run #${run.id}:`, error);
+  }
+
+  try {
+    await emitWebhookEvents(trigger === "startup" ? [] : webhookEventsForChanges(changes));
+  } catch (error) {
+    console.error(`❌ Webhooks failed after sync run #${run.id}:`, error);
+  }
+  
+  return (await storage.updateSyncRun(run.id, {
+    status,
+    finishedAt: new Date(),
+    total: scrapedIpos.length,
+    created,
+    updated,
+    analyticsAdded,
+    errors,
+    message: status === "failed" ? `All ${errors.length} IPOs failed to sync` : null,
+  }))!;
+}
+
+// Runs a full sync and records it in sync_runs. Resolves to null without
+// starting anything when another sync is already in progress.
+export async function runSync(trigger: SyncTrigger): Promise<SyncRun | null> {
+  if (activeRun) {
+    console.log(`⏭️ Skipping ${trigger} sync: another sync is already running`);
+    return null;
+  }
+  
+  activeRun = executeSync(trigger);
+  try {
+    return await activeRun;
+  } finally {
+    activeRun = null;
+  }
+}
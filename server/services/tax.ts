@@ -0,0 +1,270 @@
+import { addMonths, differenceInCalendarDays, format, parseISO } from "date-fns";
+import type { Ipo, IpoApplication, ListingPerformance, TaxAccountSummary, TaxReport, TaxRule, TaxSale } from "@shared/schema";
+import { financialYear } from "@shared/portfolio";
+import { DEFAULT_TAX_RULES, GAIN_TYPES, financialYearRange } from "@shared/tax";
+import { storage } from "../storage";
+import { csvCell, toPortfolioPosition } from "./portfolio";
+import { renderTextPdf, type PdfLine } from "./pdf";
+
+type ApplicationRow = { application: IpoApplication; ipo: Ipo; listing: ListingPerformance | null };
+
+// Adds the default rules whose effective date has never been stored
+export async function ensureTaxRules(): Promise<void> {
+  const existing = new Set((await storage.getTaxRules()).map(rule => rule.effectiveFrom));
+  for (const rule of DEFAULT_TAX_RULES) {
+    if (existing.has(rule.effectiveFrom)) continue;
+    await storage.createTaxRule({ ...rule });
+    console.log(`🧾 Seeded tax rule effective ${rule.effectiveFrom}`);
+  }
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Rule in force on the date; rules are sorted oldest first
+function ruleOn(rules: TaxRule[], date: string): TaxRule | undefined {
+  let found: TaxRule | undefined;
+  for (const rule of rules) {
+    if (rule.effectiveFrom <= date) found = rule;
+  }
+  return found;
+}
+
+function currentFinancialYear(now: Date): number {
+  return now.getMonth() >= 3 ? now.getFullYear() : now.getFullYear() - 1;
+}
+
+// Null when the sale cannot be dated or no rule covers it
+function toTaxSale(row: ApplicationRow, rules: TaxRule[]): TaxSale | null {
+  const { application, ipo } = row;
+  const position = toPortfolioPosition(row);
+  const soldOn = application.saleDate!;
+  const acquiredOn = application.allottedOn ?? position.listingDate ?? application.appliedOn;
+  const rule = ruleOn(rules, soldOn);
+  if (!acquiredOn || !rule) return null;
+
+  const shares = application.allottedShares ?? 0;
+  const salePrice = application.salePrice!;
+  const gainType = parseISO(soldOn) > addMonths(parseISO(acquiredOn), rule.longTermMonths) ? "long_term" : "short_term";
+
+  let costPrice = position.costPrice;
+  const grandfathered = gainType === "long_term"
+    && rule.grandfatherDate !== null
+    && acquiredOn <= rule.grandfatherDate
+    && application.grandfatheredFmv !== null
+    && Math.min(application.grandfatheredFmv, salePrice) > costPrice;
+  if (grandfathered) costPrice = Math.min(application.grandfatheredFmv!, salePrice);
+
+  const cost = round2(shares * costPrice);
+  const saleValue = round2(shares * salePrice);
+  return {
+    applicationId: application.id,
+    accountLabel: application.accountLabel,
+    symbol: ipo.symbol,
+    companyName: ipo.companyName,
+    shares,
+    acquiredOn,
+    soldOn,
+    holdingDays: differenceInCalendarDays(parseISO(soldOn), parseISO(acquiredOn)),
+    gainType,
+    costPrice,
+    grandfathered,
+    salePrice,
+    cost,
+    saleValue,
+    gain: round2(saleValue - cost),
+    ruleId: rule.id,
+  };
+}
+
+// Gain-weighted rate of the rules the gains were made under, so a year in
+// which the rates changed is taxed at a blend of the old and new rates
+function blendedRate(sales: TaxSale[], rules: TaxRule[], rate: (rule: TaxRule) => number): number {
+  const gains = sales.filter(sale => sale.gain > 0);
+  const total = gains.reduce((sum, sale) => sum + sale.gain, 0);
+  if (total === 0) return 0;
+  return gains.reduce((sum, sale) => sum + sale.gain * rate(rules.find(rule => rule.id === sale.ruleId)!), 0) / total;
+}
+
+// Short-term losses are set off against long-term gains; what is left of
+// either loss is carried forward. The exemption only covers long-term gains.
+function summarizeAccount(accountLabel: string, sales: TaxSale[], rules: TaxRule[], yearRule: TaxRule): TaxAccountSummary {
+  const shortTerm = sales.filter(sale => sale.gainType === "short_term");
+  const longTerm = sales.filter(sale => sale.gainType === "long_term");
+  const shortTermGain = round2(shortTerm.reduce((sum, sale) => sum + sale.gain, 0));
+  const longTermGain = round2(longTerm.reduce((sum, sale) => sum + sale.gain, 0));
+
+  const setOffLoss = shortTermGain < 0 && longTermGain > 0 ? Math.min(-shortTermGain, longTermGain) : 0;
+  const netShortTerm = shortTermGain + setOffLoss;
+  const netLongTerm = longTermGain - setOffLoss;
+  const ltcgExemption = Math.min(Math.max(netLongTerm, 0), yearRule.ltcgExemption);
+  const taxableShortTerm = Math.max(netShortTerm, 0);
+  const taxableLongTerm = Math.max(netLongTerm, 0) - ltcgExemption;
+
+  const shortTermTax = round2(taxableShortTerm * blendedRate(shortTerm, rules, rule => rule.stcgRate) / 100);
+  const longTermTax = round2(taxableLongTerm * blendedRate(longTerm, rules, rule => rule.ltcgRate) / 100);
+  const cess = round2((shortTermTax + longTermTax) * yearRule.cessRate / 100);
+
+  return {
+    accountLabel,
+    shortTermGain,
+    longTermGain,
+    setOffLoss: round2(setOffLoss),
+    ltcgExemption: round2(ltcgExemption),
+    taxableShortTerm: round2(taxableShortTerm),
+    taxableLongTerm: round2(taxableLongTerm),
+    carriedForwardLoss: round2(Math.max(-netShortTerm, 0) + Math.max(-netLongTerm, 0)),
+    shortTermTax,
+    longTermTax,
+    cess,
+    totalTax: round2(shortTermTax + longTermTax + cess),
+  };
+}
+
+export function buildTaxReport(rows: ApplicationRow[], rules: TaxRule[], fy?: number, now: Date = new Date()): TaxReport {
+  const sold = rows.filter(row =>
+    row.application.allotmentStatus === "allotted"
+    && row.application.saleDate !== null
+    && row.application.salePrice !== null);
+
+  const years = Array.from(new Set(sold.map(row => currentFinancialYear(parseISO(row.application.saleDate!)))))
+    .sort((a, b) => b - a);
+  const year = fy ?? years[0] ?? currentFinancialYear(now);
+  const { from, to } = financialYearRange(year);
+  const inYear = sold.filter(row => row.application.saleDate! >= from && row.application.saleDate! <= to);
+
+  const sales: TaxSale[] = [];
+  for (const row of inYear) {
+    const sale = toTaxSale(row, rules);
+    if (sale) sales.push(sale);
+  }
+  sales.sort((a, b) => a.accountLabel.localeCompare(b.accountLabel) || a.soldOn.localeCompare(b.soldOn));
+
+  // The exemption is yearly, so it comes from the rule in force at the end of
+  // the year (or today, for the current year)
+  const today = format(now, "yyyy-MM-dd");
+  const yearRule = ruleOn(rules, to < today ? to : today) ?? rules[rules.length - 1];
+
+  const accounts = yearRule
+    ? Array.from(new Set(sales.map(sale => sale.accountLabel)))
+      .map(account => summarizeAccount(account, sales.filter(sale => sale.accountLabel === account), rules, yearRule))
+    : [];
+
+  const totals = {
+    shortTermGain: 0, longTermGain: 0, setOffLoss: 0, ltcgExemption: 0, taxableShortTerm: 0, taxableLongTerm: 0,
+    carriedForwardLoss: 0, shortTermTax: 0, longTermTax: 0, cess: 0, totalTax: 0,
+  };
+  for (const account of accounts) {
+    for (const key of Object.keys(totals) as (keyof typeof totals)[]) {
+      totals[key] = round2(totals[key] + account[key]);
+    }
+  }
+
+  const usedRuleIds = new Set([...sales.map(sale => sale.ruleId), ...(yearRule ? [yearRule.id] : [])]);
+  return {
+    fy: year,
+    label: financialYear(from),
+    years,
+    sales,
+    accounts,
+    totals,
+    rules: rules.filter(rule => usedRuleIds.has(rule.id)),
+    skipped: inYear.length - sales.length,
+  };
+}
+
+function csvRow(values: (string | number | null)[]): string {
+  return values.map(csvCell).join(",");
+}
+
+// Sales first, then the per-account computation, in the layout of the
+// capital gains schedule of the return
+export function taxReportCsv(report: TaxReport): string {
+  const lines = [
+    csvRow(["Financial Year", "Account", "Company", "Symbol", "Shares", "Acquired On", "Sold On", "Holding Days", "Type", "Cost Price", "Grandfathered", "Sale Price", "Cost", "Sale Value", "Gain"]),
+    ...report.sales.map(sale => csvRow([
+      report.label, sale.accountLabel, sale.companyName, sale.symbol, sale.shares, sale.acquiredOn, sale.soldOn, sale.holdingDays,
+      GAIN_TYPES[sale.gainType], sale.costPrice, sale.grandfathered ? "Yes" : "No", sale.salePrice, sale.cost, sale.saleValue, sale.gain,
+    ])),
+    "",
+    csvRow(["Account", "Net STCG", "Net LTCG", "ST Loss Set Off", "LTCG Exemption", "Taxable STCG", "Taxable LTCG", "Loss Carried Forward", "STCG Tax", "LTCG Tax", "Cess", "Total Tax"]),
+    ...[...report.accounts, { accountLabel: "Total", ...report.totals }].map(account => csvRow([
+      account.accountLabel, account.shortTermGain, account.longTermGain, account.setOffLoss, account.ltcgExemption, account.taxableShortTerm,
+      account.taxableLongTerm, account.carriedForwardLoss, account.shortTermTax, account.longTermTax, account.cess, account.totalTax,
+    ])),
+  ];
+  return lines.join("\n") + "\n";
+}
+
+function money(value: number): string {
+  return value.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+// Fixed-width row: positive widths are left-aligned, negative right-aligned
+function columns(values: (string | number)[], widths: number[]): string {
+  return values.map((value, i) => {
+    const text = String(value).slice(0, Math.abs(widths[i]));
+    return widths[i] < 0 ? text.padStart(-widths[i]) : text.padEnd(widths[i]);
+  }).join("  ");
+}
+
+const SALE_WIDTHS = [14, 10, 10, 6, -7, -10, -13, -10, -13, -13];
+
+export function taxReportPdf(report: TaxReport, generatedAt: Date = new Date()): Buffer {
+  const lines: PdfLine[] = [
+    { text: `Capital Gains Report - ${report.label} (1 Apr ${report.fy} to 31 Mar ${report.fy + 1})`, bold: true },
+    { text: `Listed equity shares from IPO allotments. Generated ${format(generatedAt, "d MMM yyyy")}.` },
+    { text: "" },
+  ];
+
+  if (report.sales.length === 0) {
+    lines.push({ text: "No sales recorded in this financial year." });
+  }
+
+  for (const account of report.accounts) {
+    lines.push({ text: `Account: ${account.accountLabel}`, bold: true });
+    lines.push({ text: columns(["Symbol", "Acquired", "Sold", "Type", "Shares", "Days", "Cost/share", "Sale/share", "Cost", "Gain"], SALE_WIDTHS), bold: true });
+    for (const sale of report.sales.filter(s => s.accountLabel === account.accountLabel)) {
+      lines.push({
+        text: columns([
+          sale.symbol, sale.acquiredOn, sale.soldOn, sale.gainType === "long_term" ? "LTCG" : "STCG", sale.shares, sale.holdingDays,
+          `${money(sale.costPrice)}${sale.grandfathered ? "*" : ""}`, money(sale.salePrice), money(sale.cost), money(sale.gain),
+        ], SALE_WIDTHS),
+      });
+    }
+    lines.push({ text: "" });
+    lines.push({ text: `  Net short-term gain ${money(account.shortTermGain).padStart(16)}    Net long-term gain ${money(account.longTermGain).padStart(16)}` });
+    lines.push({ text: `  Short-term loss set off ${money(account.setOffLoss).padStart(12)}    LTCG exemption used ${money(account.ltcgExemption).padStart(15)}` });
+    lines.push({ text: `  Taxable STCG ${money(account.taxableShortTerm).padStart(23)}    Taxable LTCG ${money(account.taxableLongTerm).padStart(22)}` });
+    lines.push({ text: `  STCG tax ${money(account.shortTermTax).padStart(27)}    LTCG tax ${money(account.longTermTax).padStart(26)}` });
+    lines.push({ text: `  Cess ${money(account.cess).padStart(31)}    Total tax ${money(account.totalTax).padStart(25)}`, bold: true });
+    if (account.carriedForwardLoss > 0) {
+      lines.push({ text: `  Loss to carry forward ${money(account.carriedForwardLoss).padStart(14)}` });
+    }
+    lines.push({ text: "" });
+  }
+
+  if (report.accounts.length > 1) {
+    lines.push({ text: `All accounts: taxable STCG ${money(report.totals.taxableShortTerm)}, taxable LTCG ${money(report.totals.taxableLongTerm)}, total tax ${money(report.totals.totalTax)}`, bold: true });
+    lines.push({ text: "" });
+  }
+
+  lines.push({ text: "Rules applied", bold: true });
+  for (const rule of report.rules) {
+    lines.push({
+      text: `  From ${rule.effectiveFrom}: STCG ${rule.stcgRate}%, LTCG ${rule.ltcgRate}% above ${money(rule.ltcgExemption)} a year, long-term after ${rule.longTermMonths} months, cess ${rule.cessRate}%${rule.description ? ` - ${rule.description}` : ""}`,
+    });
+  }
+  lines.push({ text: "" });
+  if (report.sales.some(sale => sale.grandfathered)) {
+    lines.push({ text: "* Cost raised to the 31 Jan 2018 fair market value (grandfathering)." });
+  }
+  if (report.skipped > 0) {
+    lines.push({ text: `${report.skipped} sale(s) left out because no allotment, listing or application date is recorded.` });
+  }
+  lines.push({ text: "Amounts in Rs. Tax is an estimate before surcharge and rebates; losses brought forward from earlier years are not included." });
+  lines.push({ text: "Check the figures against your broker's capital gains statement before filing." });
+
+  return renderTextPdf(lines, `IPO Analyzer - Capital Gains ${report.label}`);
+}
@@ -0,0 +1,122 @@
+import crypto from "crypto";
+import type { TeamWatchlist, TeamWatchlistInvite, TeamWatchlistDetail, TeamWatchlistSummary, TeamInviteView, ReceivedTeamInvite } from "@shared/schema";
+import {
+  TEAM_ACTIVITY_LIMIT,
+  TEAM_INVITE_EXPIRY_DAYS,
+  TEAM_ROLES,
+  canManageTeamWatchlist,
+  memberDisplayName,
+  type TeamActivityAction,
+  type TeamRole,
+} from "@shared/team-watchlists";
+import { storage } from "../storage";
+import { sendTeamInviteEmail } from "./email";
+
+export async function getTeamWatchlistSummaries(userId: string): Promise<TeamWatchlistSummary[]> {
+  const rows = await storage.getTeamWatchlists(userId);
+  return rows.map(row => ({ ...row.list, role: row.role as TeamRole, memberCount: row.memberCount, itemCount: row.itemCount }));
+}
+
+// Undefined when the user is not a member, so callers answer 404 and do not
+// reveal that the list exists
+export async function getTeamRole(teamWatchlistId: number, userId: string): Promise<TeamRole | undefined> {
+  const member = await storage.getTeamMembership(teamWatchlistId, userId);
+  return member?.role as TeamRole | undefined;
+}
+
+export async function buildTeamWatchlistDetail(list: TeamWatchlist, role: TeamRole): Promise<TeamWatchlistDetail> {
+  const [members, items, invites, activity] = await Promise.all([
+    storage.getTeamMembers(list.id),
+    storage.getTeamWatchlistItems(list.id),
+    canManageTeamWatchlist(role) ? storage.getPendingTeamInvites(list.id, new Date()) : Promise.resolve([]),
+    storage.getTeamActivity(list.id, TEAM_ACTIVITY_LIMIT),
+  ]);
+  return {
+    list,
+    role,
+    members: members.map(({ member, user }) => ({
+      userId: user.id,
+      name: memberDisplayName(user),
+      email: user.email,
+      role: member.role as TeamRole,
+      joinedAt: member.createdAt,
+    })),
+    items: items.map(({ item, ipo, addedBy }) => ({ ...item, ipo, addedByName: addedBy ? memberDisplayName(addedBy) : null })),
+    invites: invites.map(({ token: _token, ...invite }) => invite),
+    activity: activity.map(({ activity, user, ipo }) => ({
+      ...activity,
+      actorName: user ? memberDisplayName(user) : null,
+      ipo: ipo ? { id: ipo.id, symbol: ipo.symbol, companyName: ipo.companyName } : null,
+    })),
+  };
+}
+
+export async function logTeamActivity(
+  teamWatchlistId: number,
+  userId: string,
+  action: TeamActivityAction,
+  details: { ipoId?: number; subject?: string } = {},
+): Promise<void> {
+  await storage.addTeamActivity({ teamWatchlistId, userId, action, ipoId: details.ipoId ?? null, subject: details.subject ?? null });
+}
+
+// Creates the invite and emails its link. The invite stands even when the
+// email cannot be sent; the invitee also sees it on the team watchlists page.
+export async function inviteTeamMember(
+  list: TeamWatchlist,
+  inviterId: string,
+  email: string,
+  role: Exclude<TeamRole, "owner">,
+  baseUrl: string,
+): Promise<TeamInviteView & { emailSent: boolean }> {
+  const token = crypto.randomBytes(24).toString("base64url");
+  const expiresAt = new Date(Date.now() + TEAM_INVITE_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+  const { token: _token, ...invite } = await storage.createTeamInvite({
+    teamWatchlistId: list.id,
+    email,
+    role,
+    token,
+    invitedBy: inviterId,
+    status: "pending",
+    expiresAt,
+  });
+  await logTeamActivity(list.id, inviterId, "member_invited", { subject: email });
+
+  const inviter = await storage.getUser(inviterId);
+  const emailStatus = await sendTeamInviteEmail(email, {
+    listName: list.name,
+    inviterName: inviter ? memberDisplayName(inviter) : "A teammate",
+    role: TEAM_ROLES[role],
+    acceptUrl: `${baseUrl}/team-watchlists?invite=${encodeURIComponent(token)}`,
+    expiresAt,
+  });
+  // A queued email is still on its way; the outbox retries it
+  return { ...invite, emailSent: emailStatus !== "failed" };
+}
+
+export async function getReceivedTeamInvites(email: string): Promise<ReceivedTeamInvite[]> {
+  const rows = await storage.getTeamInvitesForEmail(email, new Date());
+  return rows.map(({ invite, list, invitedBy }) => ({
+    id: invite.id,
+    role: invite.role,
+    token: invite.token,
+    expiresAt: invite.expiresAt,
+    listName: list.name,
+    invitedByName: memberDisplayName(invitedBy),
+  }));
+}
+
+// The invite behind an emailed link, once the route has checked that it is
+// pending and addressed to the signed-in user
+export async function getReceivedTeamInvite(invite: TeamWatchlistInvite): Promise<ReceivedTeamInvite | undefined> {
+  const [list, invitedBy] = await Promise.all([storage.getTeamWatchlist(invite.teamWatchlistId), storage.getUser(invite.invitedBy)]);
+  if (!list) return undefined;
+  return {
+    id: invite.id,
+    role: invite.role,
+    token: invite.token,
+    expiresAt: invite.expiresAt,
+    listName: list.name,
+    invitedByName: invitedBy ? memberDisplayName(invitedBy) : "A teammate",
+  };
+}
@@ -0,0 +1,240 @@
+import crypto from "crypto";
+import type { AlertPreferences, Ipo } from "@shared/schema";
+import { storage } from "../storage";
+
+// TELEGRAM_API_URL points at the Bot API; set it to the local stub
+// (npm run telegram:stub) to test without a real bot
+const apiUrl = (process.env.TELEGRAM_API_URL || "https://api.telegram.org").replace(/\/$/, "");
+const botToken = process.env.TELEGRAM_BOT_TOKEN;
+
+const LINK_TOKEN_TTL_MS = 30 * 60 * 1000;
+const POLL_TIMEOUT_SECONDS = 25;
+const POLL_RETRY_MS = 5000;
+
+interface TelegramUpdate {
+  update_id: number;
+  message?: {
+    message_id: number;
+    chat: { id: number; username?: string; first_name?: string };
+    text?: string;
+  };
+}
+
+let botUsername: string | null = process.env.TELEGRAM_BOT_USERNAME || null;
+let polling = false;
+
+export function isTelegramConfigured(): boolean {
+  return !!botToken;
+}
+
+async function callBotApi<T>(method: string, body: Record<string, unknown>, timeoutMs: number = 15000): Promise<T> {
+  const response = await fetch(`${apiUrl}/bot${botToken}/${method}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  const data = await response.json() as { ok: boolean; result?: T; description?: string };
+  if (!data.ok) {
+    throw new Error(data.description || `Telegram ${method} failed with HTTP ${response.status}`);
+  }
+  return data.result as T;
+}
+
+export async function sendTelegramMessage(chatId: string, text: string): Promise<boolean> {
+  if (!botToken) {
+    console.log("Telegram not configured (TELEGRAM_BOT_TOKEN missing)");
+    return false;
+  }
+
+  try {
+    await callBotApi("sendMessage", {
+      chat_id: chatId,
+      text,
+      parse_mode: "HTML",
+      disable_web_page_preview: true,
+    });
+    return true;
+  } catch (error) {
+    console.error("Failed to send Telegram message:", error instanceof Error ? error.message : error);
+    return false;
+  }
+}
+
+export async function sendIpoTelegramAlert(chatId: string, ipo: Ipo, alertType: string, detail?: string): Promise<boolean> {
+  return sendTelegramMessage(chatId, formatIpoTelegramMessage(ipo, alertType, detail));
+}
+
+// Telegram's HTML parse mode only needs these three escaped
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function getTelegramHeader(alertType: string): string {
+  switch (alertType) {
+    case "new_ipo": return "🆕 New IPO Listed";
+    case "gmp_change": return "📈 Grey Market Premium Update";
+    case "open_date": return "⏰ IPO Opening Soon";
+    case "rule": return "🎯 Alert Rule Matched";
+    case "ai_analysis": return "🤖 AI Analysis Ready";
+    default: return "📊 IPO Alert";
+  }
+}
+
+const RISK_EMOJI: Record<string, string> = {
+  conservative: "🟢",
+  moderate: "🟠",
+  aggressive: "🔴",
+};
+
+// detail is an optional line under the header, e.g. which alert rule matched
+export function formatIpoTelegramMessage(ipo: Ipo, alertType: string, detail?: string): string {
+  const lines = [`<b>${getTelegramHeader(alertType)}</b>`];
+  if (detail) {
+    lines.push(`<i>${escapeHtml(detail)}</i>`);
+  }
+  lines.push(
+    "",
+    `<b>${escapeHtml(ipo.companyName)}</b> (<code>${escapeHtml(ipo.symbol)}</code>)`,
+    `${escapeHtml(ipo.sector || "N/A")} · ${escapeHtml(ipo.priceRange)} · ${ipo.status.toUpperCase()}`,
+  );
+  if (ipo.expectedDate) {
+    lines.push(`Opens: ${ipo.expectedDate}`);
+  }
+
+  lines.push(
+    "",
+    `Score: <b>${ipo.overallScore?.toFixed(1) || "N/A"}/10</b> ${RISK_EMOJI[ipo.riskLevel || ""] || "⚪"} ${escapeHtml(ipo.riskLevel || "N/A")}`,
+    `Fundamentals ${ipo.fundamentalsScore?.toFixed(1) || "N/A"} · Valuation ${ipo.valuationScore?.toFixed(1) || "N/A"} · Governance ${ipo.governanceScore?.toFixed(1) || "N/A"}`,
+  );
+  if (ipo.gmp !== null) {
+    lines.push(`GMP: ₹${ipo.gmp}`);
+  }
+
+  if (ipo.redFlags && ipo.redFlags.length > 0) {
+    lines.push("", "<b>⚠️ Red flags</b>", ...ipo.redFlags.slice(0, 5).map(flag => `• ${escapeHtml(flag)}`));
+  }
+  if (alertType === "ai_analysis" && ipo.aiSummary) {
+    lines.push("", `<i>${escapeHtml(ipo.aiSummary)}</i>`);
+  }
+
+  lines.push("", "<i>Screening tool only, not investment advice.</i>");
+  return lines.join("\n");
+}
+
+// === CHAT LINKING ===
+
+// Issues a one-time token the user sends to the bot to link their chat
+export async function createTelegramLink(userId: string): Promise<{ token: string; command: string; deepLink: string | null; expiresAt: string }> {
+  const token = crypto.randomBytes(16).toString("base64url");
+  const expiresAt = new Date(Date.now() + LINK_TOKEN_TTL_MS);
+  await storage.upsertAlertPreferences(userId, { telegramLinkToken: token, telegramLinkExpiresAt: expiresAt });
+
+  return {
+    token,
+    command: `/start ${token}`,
+    deepLink: botUsername ? `https://t.me/${botUsername}?start=${token}` : null,
+    expiresAt: expiresAt.toISOString(),
+  };
+}
+
+export async function unlinkTelegram(userId: string): Promise<AlertPreferences> {
+  return storage.upsertAlertPreferences(userId, {
+    telegramEnabled: false,
+    telegramChatId: null,
+    telegramLinkToken: null,
+    telegramLinkExpiresAt: null,
+  });
+}
+
+async function handleStart(chatId: string, token: string | undefined) {
+  if (!token) {
+    await sendTelegramMessage(chatId, "Open <b>Settings → Alert Notifications</b> in IPO Analyzer and tap <b>Connect Telegram</b> to link this chat.");
+    return;
+  }
+
+  const prefs = await storage.getAlertPreferencesByTelegramLinkToken(token);
+  if (!prefs || !prefs.telegramLinkExpiresAt || prefs.telegramLinkExpiresAt < new Date()) {
+    await sendTelegramMessage(chatId, "This link has expired. Generate a new one from IPO Analyzer settings.");
+    return;
+  }
+
+  await storage.upsertAlertPreferences(prefs.userId, {
+    telegramEnabled: true,
+    telegramChatId: chatId,
+    telegramLinkToken: null,
+    telegramLinkExpiresAt: null,
+  });
+  console.log(`📨 Linked Telegram chat ${chatId} for user ${prefs.userId}`);
+  await sendTelegramMessage(chatId, "✅ Linked! IPO alerts will be delivered to this chat. Send /stop to pause them.");
+}
+
+async function handleStop(chatId: string) {
+  const prefs = await storage.getAlertPreferencesByTelegramChatId(chatId);
+  if (prefs) {
+    await storage.upsertAlertPreferences(prefs.userId, { telegramEnabled: false });
+  }
+  await sendTelegramMessage(chatId, "Telegram alerts paused. Re-enable them from IPO Analyzer settings.");
+}
+
+export async function handleTelegramUpdate(update: TelegramUpdate) {
+  const text = update.message?.text?.trim();
+  if (!update.message || !text) return;
+
+  const chatId = String(update.message.chat.id);
+  // "/start@BotName token" is how commands arrive in group chats
+  const [command, argument] = text.split(/\s+/, 2);
+  switch (command.split("@")[0]) {
+    case "/start":
+      await handleStart(chatId, argument);
+      break;
+    case "/stop":
+      await handleStop(chatId);
+      break;
+  }
+}
+
+// Long-polls getUpdates so chat linking works without a public webhook URL
+async function pollUpdates() {
+  let offset = 0;
+  while (polling) {
+    try {
+      const updates = await callBotApi<TelegramUpdate[]>(
+        "getUpdates",
+        { offset, timeout: POLL_TIMEOUT_SECONDS, allowed_updates: ["message"] },
+        (POLL_TIMEOUT_SECONDS + 10) * 1000
+      );
+      for (const update of updates) {
+        offset = update.update_id + 1;
+        try {
+          await handleTelegramUpdate(update);
+        } catch (error) {
+          console.error(`Telegram update ${update.update_id} failed:`, error instanceof Error ? error.message : error);
+        }
+      }
+    } catch (error) {
+      console.error("Telegram polling failed:", error instanceof Error ? error.message : error);
+      await new Promise(resolve => setTimeout(resolve, POLL_RETRY_MS));
+    }
+  }
+}
+
+export async function startTelegramBot() {
+  if (!botToken) {
+    console.log("Telegram bot not configured (TELEGRAM_BOT_TOKEN missing)");
+    return;
+  }
+  if (process.env.TELEGRAM_POLLING_ENABLED === "false" || polling) return;
+
+  try {
+    const me = await callBotApi<{ username?: string }>("getMe", {});
+    botUsername = botUsername || me.username || null;
+  } catch (error) {
+    console.error("❌ Telegram getMe failed, bot not started:", error instanceof Error ? error.message : error);
+    return;
+  }
+
+  polling = true;
+  pollUpdates();
+  console.log(`🤖 Telegram bot @${botUsername} polling ${apiUrl}`);
+}
@@ -0,0 +1,315 @@
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import dns from "dns";
+import https from "https";
+import net from "net";
+import type { Ipo, ListingPerformance, SubscriptionUpdate, WebhookDelivery, WebhookEndpoint, WebhookEndpointResponse } from "@shared/schema";
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  type WebhookEventPayload,
+  type WebhookEventType,
+} from "@shared/webhooks";
+import { storage } from "../storage";
+import { getUserApiPlan } from "./quota";
+import type { IpoChange } from "./alerts";
+
+export interface WebhookEvent {
+  type: WebhookEventType;
+  data: Record<string, unknown>;
+}
+
+const SECRET_PREFIX = "whsec_";
+const DELIVERY_TIMEOUT_MS = 10000;
+// Retries wait 1, 2, 4 ... 64 minutes; the delivery fails after the last attempt
+const BASE_RETRY_MS = 60 * 1000;
+const MAX_ATTEMPTS = 8;
+
+// Endpoints must be public hosts. Loopback, private, link-local (including
+// cloud metadata at 169.254.169.254), multicast, NAT64 (which maps onto IPv4,
+// private ranges included) and other reserved ranges are refused when the
+// endpoint is saved and again on every delivery.
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [address, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16], ["172.16.0.0", 12],
+  ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(address, prefix, "ipv4");
+}
+for (const [address, prefix] of [["::", 127], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+  BLOCKED_ADDRESSES.addSubnet(address, prefix, "ipv6");
+}
+
+function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked as IPv4
+  const mapped = /^::ffff:/i.test(address) ? address.slice(7) : address;
+  const family = net.isIP(mapped);
+  if (family === 4) return BLOCKED_ADDRESSES.check(mapped, "ipv4");
+  if (family === 6) return BLOCKED_ADDRESSES.check(mapped, "ipv6");
+  return true;
+}
+
+function urlHost(url: URL): string {
+  return url.hostname.replace(/^\[|\]$/g, "");
+}
+
+// Why an endpoint URL cannot be used, or null when it can
+export async function webhookUrlIssue(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Enter a valid URL";
+  }
+  if (parsed.protocol !== "https:") return "Webhook URLs must use https://";
+
+  const host = urlHost(parsed);
+  let addresses: string[];
+  try {
+    addresses = net.isIP(host) ? [host] : (await dns.promises.lookup(host, { all: true })).map(entry => entry.address);
+  } catch {
+    return `Could not resolve ${host}`;
+  }
+  return addresses.some(isBlockedAddress) ? "Webhook URLs must point to a public address" : null;
+}
+
+// Resolves like dns.lookup but fails when any address is not public, so a
+// host cannot be switched to an internal address after it was saved
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "");
+    if (addresses.length === 0 || addresses.some(entry => isBlockedAddress(entry.address))) {
+      return callback(new Error(`${hostname} does not resolve to a public address`), "");
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// POSTs the body and resolves with the response status. Redirects are not
+// followed and the response body is discarded unread.
+function postWebhook(url: string, headers: Record<string, string>, body: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const parsed = new URL(url);
+    const host = urlHost(parsed);
+    if (parsed.protocol !== "https:") {
+      return reject(new Error("Webhook URLs must use https://"));
+    }
+    if (net.isIP(host) && isBlockedAddress(host)) {
+      return reject(new Error(`${host} is not a public address`));
+    }
+
+    const request = https.request(parsed, {
+      method: "POST",
+      headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+      lookup: publicLookup,
+      timeout: DELIVERY_TIMEOUT_MS,
+    }, (response) => {
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+    request.on("timeout", () => request.destroy(new Error("Delivery timed out")));
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+export function generateWebhookSecret(): string {
+  return `${SECRET_PREFIX}${randomBytes(24).toString("hex")}`;
+}
+
+export function toWebhookEndpointResponse(endpoint: WebhookEndpoint): WebhookEndpointResponse {
+  const { secret: _secret, ...rest } = endpoint;
+  return rest;
+}
+
+// "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${body}`>"; receivers should
+// recompute it and reject old timestamps to prevent replays
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+// Data-change events for IPOs touched by a sync
+export function webhookEventsForChanges(changes: IpoChange[]): WebhookEvent[] {
+  const events: WebhookEvent[] = [];
+  for (const { previous, current } of changes) {
+    if (!previous) {
+      events.push({ type: "ipo.created", data: { ipo: current } });
+      continue;
+    }
+    if (previous.status !== current.status) {
+      events.push({ type: "ipo.status_changed", data: { ipo: current, previousStatus: previous.status } });
+    }
+    if (previous.gmp !== current.gmp) {
+      events.push({ type: "gmp.updated", data: { ipo: current, previousGmp: previous.gmp, gmp: current.gmp } });
+    }
+  }
+  return events;
+}
+
+export function subscriptionUpdatedEvent(ipo: Ipo, subscription: SubscriptionUpdate): WebhookEvent {
+  return { type: "subscription.updated", data: { ipo, subscription } };
+}
+
+export function ipoListedEvent(ipo: Ipo, listing: ListingPerformance): WebhookEvent {
+  return { type: "ipo.listed", data: { ipo, listing } };
+}
+
+// One attempt at POSTing a delivery. Failures (network errors, timeouts,
+// redirects and other non-2xx responses) are retried with exponential backoff.
+async function attemptDelivery(delivery: WebhookDelivery, endpoint: WebhookEndpoint): Promise<WebhookDelivery> {
+  const attempts = delivery.attempts + 1;
+  const body = JSON.stringify(delivery.payload);
+  const started = Date.now();
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    responseStatus = await postWebhook(endpoint.url, {
+      "Content-Type": "application/json",
+      "User-Agent": "IPO-Analyzer-Webhooks/1.0",
+      [WEBHOOK_EVENT_HEADER]: delivery.eventType,
+      [WEBHOOK_DELIVERY_HEADER]: String(delivery.id),
+      [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, Math.floor(started / 1000), body),
+    }, body);
+    if (responseStatus < 200 || responseStatus >= 300) {
+      error = `HTTP ${responseStatus}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : "Delivery failed";
+  }
+
+  const result = { attempts, responseStatus, durationMs: Date.now() - started };
+  let updated: WebhookDelivery | undefined;
+  if (!error) {
+    updated = await storage.updateWebhookDelivery(delivery.id, {
+      ...result,
+      status: "succeeded",
+      error: null,
+      nextAttemptAt: null,
+      deliveredAt: new Date(),
+    });
+  } else if (attempts < MAX_ATTEMPTS) {
+    updated = await storage.updateWebhookDelivery(delivery.id, {
+      ...result,
+      status: "retrying",
+      error,
+      nextAttemptAt: new Date(Date.now() + BASE_RETRY_MS * 2 ** (attempts - 1)),
+    });
+  } else {
+    updated = await storage.updateWebhookDelivery(delivery.id, {
+      ...result,
+      status: "failed",
+      error,
+      nextAttemptAt: null,
+    });
+  }
+  return updated ?? delivery;
+}
+
+// A delivery with nextAttemptAt set is queued for the scheduler; without it
+// the caller sends it itself
+function createDelivery(endpoint: WebhookEndpoint, payload: WebhookEventPayload, nextAttemptAt: Date | null): Promise<WebhookDelivery> {
+  return storage.createWebhookDelivery({
+    endpointId: endpoint.id,
+    eventId: payload.id,
+    eventType: payload.type,
+    payload,
+    status: "pending",
+    nextAttemptAt,
+  });
+}
+
+// Why deliveries to the endpoint must not be sent, or null when they may
+async function endpointIssue(endpoint: WebhookEndpoint | undefined): Promise<string | null> {
+  if (!endpoint || endpoint.status !== "active") return "Endpoint disabled";
+  const plan = await getUserApiPlan(endpoint.userId);
+  return plan.webhooks ? null : `Webhooks are not included in the ${plan.name} plan`;
+}
+
+// Queues each event for every active endpoint subscribed to its type, as long
+// as the endpoint owner's plan still includes webhooks. Nothing is sent here,
+// so slow receivers cannot hold up the sync and refresh jobs that call this.
+export async function emitWebhookEvents(events: WebhookEvent[]): Promise<{ events: number; queued: number }> {
+  const result = { events: events.length, queued: 0 };
+  if (events.length === 0) return result;
+
+  const allowed = new Map<string, boolean>();
+  for (const event of events) {
+    const payload: WebhookEventPayload = {
+      id: randomUUID(),
+      type: event.type,
+      createdAt: new Date().toISOString(),
+      data: event.data,
+    };
+
+    for (const endpoint of await storage.getActiveWebhookEndpoints(event.type)) {
+      if (!allowed.has(endpoint.userId)) {
+        allowed.set(endpoint.userId, (await getUserApiPlan(endpoint.userId)).webhooks);
+      }
+      if (!allowed.get(endpoint.userId)) continue;
+
+      await createDelivery(endpoint, payload, new Date());
+      result.queued++;
+    }
+  }
+
+  console.log(`🪝 Webhooks: ${result.events} event(s), ${result.queued} delivery(ies) queued`);
+  return result;
+}
+
+// Called by the scheduler every minute: sends newly queued deliveries and
+// retries failed ones. Endpoints that were disabled, or whose owner's plan
+// no longer includes webhooks, get their due deliveries marked failed.
+export async function sendDueWebhookDeliveries(now: Date = new Date()): Promise<{ attempted: number; succeeded: number }> {
+  const result = { attempted: 0, succeeded: 0 };
+  const endpoints = new Map<number, { endpoint?: WebhookEndpoint; issue: string | null }>();
+
+  for (const delivery of await storage.getDueWebhookDeliveries(now)) {
+    let cached = endpoints.get(delivery.endpointId);
+    if (!cached) {
+      const endpoint = await storage.getWebhookEndpointById(delivery.endpointId);
+      cached = { endpoint, issue: await endpointIssue(endpoint) };
+      endpoints.set(delivery.endpointId, cached);
+    }
+    const { endpoint, issue } = cached;
+    if (!endpoint || issue) {
+      await storage.updateWebhookDelivery(delivery.id, { status: "failed", nextAttemptAt: null, error: issue });
+      continue;
+    }
+
+    result.attempted++;
+    if ((await attemptDelivery(delivery, endpoint)).status === "succeeded") {
+      result.succeeded++;
+    }
+  }
+
+  if (result.attempted > 0) {
+    console.log(`🪝 Webhook deliveries: ${result.attempted} attempted, ${result.succeeded} succeeded`);
+  }
+  return result;
+}
+
+// Manual redelivery from the API dashboard: sends the same event (same event
+// ID) again now as a new delivery, with its own retries. Refused for disabled
+// endpoints and when the user's plan no longer includes webhooks.
+export async function redeliverWebhook(
+  userId: string,
+  deliveryId: number
+): Promise<{ delivery: WebhookDelivery } | { error: string; status: 403 | 404 }> {
+  const original = await storage.getWebhookDelivery(deliveryId);
+  const endpoint = original ? await storage.getWebhookEndpoint(userId, original.endpointId) : undefined;
+  if (!original || !endpoint) return { error: "Webhook delivery not found", status: 404 };
+
+  if (endpoint.status !== "active") {
+    return { error: "This endpoint is disabled. Enable it before redelivering.", status: 403 };
+  }
+  const plan = await getUserApiPlan(userId);
+  if (!plan.webhooks) {
+    return { error: `Webhooks are not included in the ${plan.name} plan. Upgrade to a paid plan to use them.`, status: 403 };
+  }
+
+  const delivery = await createDelivery(endpoint, original.payload, null);
+  return { delivery: await attemptDelivery(delivery, endpoint) };
+}
@@ -2,22 +2,62 @@ import { db } from "./db";
 import {
   ipos,
   watchlist,
+  teamWatchlists,
+  teamWatchlistMembers,
+  teamWatchlistItems,
+  teamWatchlistInvites,
+  teamWatchlistActivity,
+  users,
+  applications,
   alertPreferences,
   alertLogs,
+  alertRules,
+  screens,
+  pushSubscriptions,
   gmpHistory,
   peerCompanies,
   subscriptionUpdates,
   fundUtilization,
   ipoTimeline,
+  apiKeys,
+  apiUsage,
+  userPlans,
+  syncRuns,
+  listingPerformance,
+  scoringProfiles,
+  userScoringProfiles,
+  webhookEndpoints,
+  webhookDeliveries,
+  emailOutbox,
+  taxRules,
   type Ipo,
   type InsertIpo,
   type WatchlistItem,
   type InsertWatchlistItem,
   type WatchlistResponse,
+  type TeamWatchlist,
+  type InsertTeamWatchlist,
+  type TeamWatchlistMember,
+  type InsertTeamWatchlistMember,
+  type TeamWatchlistItem,
+  type InsertTeamWatchlistItem,
+  type TeamWatchlistInvite,
+  type InsertTeamWatchlistInvite,
+  type TeamWatchlistActivity,
+  type InsertTeamWatchlistActivity,
+  type User,
+  type IpoApplication,
+  type InsertIpoApplication,
   type AlertPreferences,
   type InsertAlertPreferences,
   type AlertLog,
   type InsertAlertLog,
+  type AlertRule,
+  type InsertAlertRule,
+  type Screen,
+  type InsertScreen,
+  type PushSubscription,
+  type InsertPushSubscription,
   type GmpHistoryEntry,
   type InsertGmpHistory,
   type PeerCompany,
@@ -28,13 +68,36 @@ import {
   type InsertFundUtilization,
   type IpoTimelineEvent,
   type InsertIpoTimeline,
+  type ApiKey,
+  type InsertApiKey,
+  type ApiUsageEntry,
+  type InsertApiUsage,
+  type UserPlan,
+  type InsertUserPlan,
+  type SyncRun,
+  type ListingPerformance,
+  type InsertListingPerformance,
+  type InsertSyncRun,
+  type ScoringProfile,
+  type InsertScoringProfile,
+  type UserScoringProfile,
+  type WebhookEndpoint,
+  type InsertWebhookEndpoint,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
+  type OutboxEmail,
+  type InsertOutboxEmail,
+  type TaxRule,
+  type InsertTaxRule,
 } from "@shared/schema";
-import { eq, and, desc, gte } from "drizzle-orm";
+import { eq, and, or, desc, gt, gte, lt, lte, ilike, inArray, isNull, arrayContains, count, sql, type AnyColumn, type SQL } from "drizzle-orm";
+import type { IpoListQuery, IpoSortField } from "@shared/routes";
 import { authStorage, IAuthStorage } from "./replit_integrations/auth/storage";
 
 export interface IStorage extends IAuthStorage {
   // IPOs
-  getIpos(status?: string, sector?: string): Promise<Ipo[]>;
+  getIpos(query?: IpoListFilter): Promise<Ipo[]>;
+  countIpos(query?: IpoListFilter): Promise<number>;
   getIpo(id: number): Promise<Ipo | undefined>;
   getIpoBySymbol(symbol: string): Promise<Ipo | undefined>;
   createIpo(ipo: InsertIpo): Promise<Ipo>;
@@ -47,16 +110,76 @@ export interface IStorage extends IAuthStorage {
   addToWatchlist(userId: string, ipoId: number): Promise<WatchlistItem>;
   removeFromWatchlist(userId: string, id: number): Promise<void>;
   getWatchlistItem(userId: string, ipoId: number): Promise<WatchlistItem | undefined>;
+  updateWatchlistItem(userId: string, id: number, data: Partial<InsertWatchlistItem>): Promise<WatchlistItem | undefined>;
+
+  // Team Watchlists
+  getTeamWatchlists(userId: string): Promise<{ list: TeamWatchlist; role: string; memberCount: number; itemCount: number }[]>;
+  getTeamWatchlist(id: number): Promise<TeamWatchlist | undefined>;
+  countOwnedTeamWatchlists(userId: string): Promise<number>;
+  createTeamWatchlist(list: InsertTeamWatchlist): Promise<TeamWatchlist>;
+  updateTeamWatchlist(id: number, data: Partial<InsertTeamWatchlist>): Promise<TeamWatchlist | undefined>;
+  deleteTeamWatchlist(id: number): Promise<void>;
+  getTeamMembership(teamWatchlistId: number, userId: string): Promise<TeamWatchlistMember | undefined>;
+  getTeamMembers(teamWatchlistId: number): Promise<{ member: TeamWatchlistMember; user: User }[]>;
+  addTeamMember(member: InsertTeamWatchlistMember): Promise<TeamWatchlistMember>;
+  updateTeamMemberRole(teamWatchlistId: number, userId: string, role: string): Promise<TeamWatchlistMember | undefined>;
+  removeTeamMember(teamWatchlistId: number, userId: string): Promise<void>;
+  getTeamWatchlistItems(teamWatchlistId: number): Promise<{ item: TeamWatchlistItem; ipo: Ipo; addedBy: User | null }[]>;
+  getTeamWatchlistItem(teamWatchlistId: number, id: number): Promise<TeamWatchlistItem | undefined>;
+  addTeamWatchlistItem(item: InsertTeamWatchlistItem): Promise<TeamWatchlistItem | undefined>;
+  removeTeamWatchlistItem(teamWatchlistId: number, id: number): Promise<void>;
+  getTeamWatchlistIpoIds(userId: string): Promise<number[]>;
+  getPendingTeamInvites(teamWatchlistId: number, now: Date): Promise<TeamWatchlistInvite[]>;
+  getTeamInvitesForEmail(email: string, now: Date): Promise<{ invite: TeamWatchlistInvite; list: TeamWatchlist; invitedBy: User }[]>;
+  getTeamInviteByToken(token: string): Promise<TeamWatchlistInvite | undefined>;
+  createTeamInvite(invite: InsertTeamWatchlistInvite): Promise<TeamWatchlistInvite>;
+  updateTeamInvite(id: number, data: Partial<TeamWatchlistInvite>): Promise<TeamWatchlistInvite | undefined>;
+  addTeamActivity(entry: InsertTeamWatchlistActivity): Promise<TeamWatchlistActivity>;
+  getTeamActivity(teamWatchlistId: number, limit: number): Promise<{ activity: TeamWatchlistActivity; user: User | null; ipo: Ipo | null }[]>;
+
+  // Applications
+  getApplications(userId: string): Promise<{ application: IpoApplication; ipo: Ipo; listing: ListingPerformance | null }[]>;
+  getApplication(userId: string, id: number): Promise<IpoApplication | undefined>;
+  countApplications(userId: string): Promise<number>;
+  createApplication(application: InsertIpoApplication): Promise<IpoApplication>;
+  updateApplication(userId: string, id: number, data: Partial<InsertIpoApplication>): Promise<IpoApplication | undefined>;
+  deleteApplication(userId: string, id: number): Promise<void>;
 
   // Alert Preferences
   getAlertPreferences(userId: string): Promise<AlertPreferences | undefined>;
   upsertAlertPreferences(userId: string, prefs: Partial<InsertAlertPreferences>): Promise<AlertPreferences>;
   getAllUsersWithAlerts(): Promise<AlertPreferences[]>;
+  getAlertPreferencesByTelegramLinkToken(token: string): Promise<AlertPreferences | undefined>;
+  getAlertPreferencesByTelegramChatId(chatId: string): Promise<AlertPreferences | undefined>;
+  getDigestSubscribers(): Promise<AlertPreferences[]>;
 
   // Alert Logs
   createAlertLog(log: InsertAlertLog): Promise<AlertLog>;
+  claimAlertLog(log: InsertAlertLog): Promise<AlertLog | undefined>;
+  updateAlertLog(id: number, data: Partial<InsertAlertLog>): Promise<AlertLog | undefined>;
   getAlertLogs(userId?: string, limit?: number): Promise<AlertLog[]>;
 
+  // Alert Rules
+  getAlertRules(userId: string): Promise<AlertRule[]>;
+  getEnabledAlertRules(): Promise<AlertRule[]>;
+  createAlertRule(rule: InsertAlertRule): Promise<AlertRule>;
+  updateAlertRule(userId: string, id: number, data: Partial<InsertAlertRule>): Promise<AlertRule | undefined>;
+  deleteAlertRule(userId: string, id: number): Promise<void>;
+
+  // Screens
+  getScreens(userId: string): Promise<Screen[]>;
+  getScreen(userId: string, id: number): Promise<Screen | undefined>;
+  getScreensByIds(ids: number[]): Promise<Screen[]>;
+  createScreen(screen: InsertScreen): Promise<Screen>;
+  updateScreen(userId: string, id: number, data: Partial<InsertScreen>): Promise<Screen | undefined>;
+  deleteScreen(userId: string, id: number): Promise<void>;
+
+  // Push Subscriptions
+  getPushSubscriptions(userId: string): Promise<PushSubscription[]>;
+  savePushSubscription(subscription: InsertPushSubscription): Promise<PushSubscription | undefined>;
+  touchPushSubscription(id: number): Promise<void>;
+  deletePushSubscription(endpoint: string, userId?: string): Promise<void>;
+
   // GMP History
   addGmpHistory(entry: InsertGmpHistory): Promise<GmpHistoryEntry>;
   getGmpHistory(ipoId: number, days?: number): Promise<GmpHistoryEntry[]>;
@@ -80,6 +203,112 @@ export interface IStorage extends IAuthStorage {
   getIpoTimeline(ipoId: number): Promise<IpoTimelineEvent[]>;
   addTimelineEvent(event: InsertIpoTimeline): Promise<IpoTimelineEvent>;
   getAllUpcomingEvents(days?: number): Promise<(IpoTimelineEvent & { ipo: Ipo })[]>;
+
+  // Listing Performance
+  getListingPerformance(ipoId: number): Promise<ListingPerformance | undefined>;
+  upsertListingPerformance(entry: InsertListingPerformance): Promise<ListingPerformance>;
+  getIposWithListingPerformance(): Promise<(Ipo & { listing: ListingPerformance })[]>;
+
+  // API Keys
+  getApiKeys(userId: string): Promise<ApiKey[]>;
+  getApiKey(userId: string, id: number): Promise<ApiKey | undefined>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  createApiKey(key: InsertApiKey): Promise<ApiKey>;
+  rotateApiKey(userId: string, id: number, keyPrefix: string, keyHash: string): Promise<ApiKey | undefined>;
+  revokeApiKey(userId: string, id: number): Promise<ApiKey | undefined>;
+  touchApiKey(id: number): Promise<void>;
+  countActiveApiKeys(userId: string): Promise<number>;
+
+  // Webhooks
+  getWebhookEndpoints(userId: string): Promise<WebhookEndpoint[]>;
+  getWebhookEndpoint(userId: string, id: number): Promise<WebhookEndpoint | undefined>;
+  getWebhookEndpointById(id: number): Promise<WebhookEndpoint | undefined>;
+  getActiveWebhookEndpoints(eventType: string): Promise<WebhookEndpoint[]>;
+  countWebhookEndpoints(userId: string): Promise<number>;
+  createWebhookEndpoint(endpoint: InsertWebhookEndpoint): Promise<WebhookEndpoint>;
+  updateWebhookEndpoint(userId: string, id: number, data: Partial<InsertWebhookEndpoint>): Promise<WebhookEndpoint | undefined>;
+  deleteWebhookEndpoint(userId: string, id: number): Promise<WebhookEndpoint | undefined>;
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  updateWebhookDelivery(id: number, data: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined>;
+  getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveries(endpointId: number, limit?: number): Promise<WebhookDelivery[]>;
+  getDueWebhookDeliveries(now: Date): Promise<WebhookDelivery[]>;
+
+  // API Usage & Plans
+  getUserPlan(userId: string): Promise<UserPlan | undefined>;
+  setUserPlan(plan: InsertUserPlan): Promise<UserPlan>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  reserveApiUsage(entry: InsertApiUsage, windows: { since: Date; limit: number }[]): Promise<{ entry?: ApiUsageEntry; used: number[] }>;
+  updateApiUsage(id: number, data: Partial<InsertApiUsage>): Promise<void>;
+  countApiUsage(userId: string, since: Date): Promise<number>;
+  getApiUsageTrend(userId: string, days?: number): Promise<{ date: string; count: number }[]>;
+
+  // Sync Runs
+  createSyncRun(run: InsertSyncRun): Promise<SyncRun>;
+  updateSyncRun(id: number, data: Partial<InsertSyncRun>): Promise<SyncRun | undefined>;
+  getSyncRuns(limit?: number): Promise<SyncRun[]>;
+  failRunningSyncRuns(message: string): Promise<number>;
+
+  // Scoring Profiles
+  getScoringProfiles(): Promise<ScoringProfile[]>;
+  getScoringProfile(id: number): Promise<ScoringProfile | undefined>;
+  getLatestScoringProfile(slug: string): Promise<ScoringProfile | undefined>;
+  createScoringProfile(profile: InsertScoringProfile): Promise<ScoringProfile>;
+  getUserScoringProfile(userId: string): Promise<UserScoringProfile | undefined>;
+  setUserScoringProfile(userId: string, profileSlug: string): Promise<UserScoringProfile>;
+
+  // Tax Rules
+  getTaxRules(): Promise<TaxRule[]>;
+  createTaxRule(rule: InsertTaxRule): Promise<TaxRule>;
+
+  // Email Outbox
+  createOutboxEmail(email: InsertOutboxEmail): Promise<OutboxEmail>;
+  updateOutboxEmail(id: number, data: Partial<InsertOutboxEmail>): Promise<OutboxEmail | undefined>;
+  getOutboxEmail(id: number): Promise<OutboxEmail | undefined>;
+  getOutboxEmails(limit?: number, status?: string): Promise<OutboxEmail[]>;
+  getDueOutboxEmails(now: Date): Promise<OutboxEmail[]>;
+}
+
+// Issue size is stored as text such as "₹1,234.56 Cr"; the first number is the size in Cr
+const issueSizeCr = sql<number>`substring(replace(${ipos.issueSize}, ',', '') from '[0-9]+(?:\\.[0-9]+)?')::numeric`;
+
+const IPO_SORT_COLUMNS: Record<IpoSortField, SQL | AnyColumn> = {
+  expectedDate: ipos.expectedDate,
+  companyName: ipos.companyName,
+  symbol: ipos.symbol,
+  overallScore: ipos.overallScore,
+  gmp: ipos.gmp,
+  issueSize: issueSizeCr,
+  subscriptionRetail: ipos.subscriptionRetail,
+  createdAt: ipos.createdAt,
+};
+
+// Requests that count against the quota: in flight (no status yet) or answered
+// without an error. Rejected and failed requests give their unit back.
+const countedApiUsage = or(isNull(apiUsage.statusCode), lt(apiUsage.statusCode, 400));
+
+// List query plus filters the server adds itself, such as the IPOs behind a watchlist tag
+export type IpoListFilter = Partial<IpoListQuery> & { ipoIds?: number[] };
+
+function ipoListConditions(query: IpoListFilter): SQL | undefined {
+  const conditions: SQL[] = [];
+  if (query.ipoIds) conditions.push(query.ipoIds.length > 0 ? inArray(ipos.id, query.ipoIds) : sql`false`);
+  if (query.q) {
+    const pattern = `%${query.q.replace(/[\\%_]/g, "\\$&")}%`;
+    conditions.push(or(ilike(ipos.companyName, pattern), ilike(ipos.symbol, pattern))!);
+  }
+  if (query.status) conditions.push(eq(ipos.status, query.status));
+  if (query.sector) conditions.push(eq(ipos.sector, query.sector));
+  if (query.riskLevel) conditions.push(eq(ipos.riskLevel, query.riskLevel));
+  if (query.minScore !== undefined) conditions.push(gte(ipos.overallScore, query.minScore));
+  if (query.maxScore !== undefined) conditions.push(lte(ipos.overallScore, query.maxScore));
+  if (query.minGmp !== undefined) conditions.push(gte(ipos.gmp, query.minGmp));
+  if (query.maxGmp !== undefined) conditions.push(lte(ipos.gmp, query.maxGmp));
+  if (query.openFrom) conditions.push(gte(ipos.expectedDate, query.openFrom));
+  if (query.openTo) conditions.push(lte(ipos.expectedDate, query.openTo));
+  if (query.minIssueSize !== undefined) conditions.push(sql`${issueSizeCr} >= ${query.minIssueSize}`);
+  if (query.maxIssueSize !== undefined) conditions.push(sql`${issueSizeCr} <= ${query.maxIssueSize}`);
+  return conditions.length > 0 ? and(...conditions) : undefined;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -88,16 +317,27 @@ export class DatabaseStorage implements IStorage {
   upsertUser = authStorage.upsertUser;
 
   // IPOs
-  async getIpos(status?: string, sector?: string): Promise<Ipo[]> {
-    let query = db.select().from(ipos);
-    const conditions = [];
-    if (status) conditions.push(eq(ipos.status, status));
-    if (sector) conditions.push(eq(ipos.sector, sector));
-
-    if (conditions.length > 0) {
-      return await query.where(and(...conditions)).orderBy(desc(ipos.expectedDate));
-    }
-    return await query.orderBy(desc(ipos.expectedDate));
+  // Filters, sorting and paging for the IPO list. Without a sort the newest
+  // open dates come first; ties are broken by id so pages are stable.
+  async getIpos(query: IpoListFilter = {}): Promise<Ipo[]> {
+    const order = (query.sort?.length ? query.sort : [{ field: "expectedDate", direction: "desc" } as const])
+      .map(({ field, direction }) => {
+        const column = IPO_SORT_COLUMNS[field];
+        return direction === "desc" ? sql`${column} desc nulls last` : sql`${column} asc nulls last`;
+      });
+
+    const base = db
+      .select()
+      .from(ipos)
+      .where(ipoListConditions(query))
+      .orderBy(...order, ipos.id)
+      .offset(query.offset ?? 0);
+    return query.limit ? await base.limit(query.limit) : await base;
+  }
+
+  async countIpos(query: IpoListFilter = {}): Promise<number> {
+    const [result] = await db.select({ value: count() }).from(ipos).where(ipoListConditions(query));
+    return result.value;
   }
 
   async getIpo(id: number): Promise<Ipo | undefined> {
@@ -187,12 +427,286 @@ export class DatabaseStorage implements IStorage {
     return item;
   }
 
+  async updateWatchlistItem(userId: string, id: number, data: Partial<InsertWatchlistItem>): Promise<WatchlistItem | undefined> {
+    const [updated] = await db
+      .update(watchlist)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(watchlist.id, id), eq(watchlist.userId, userId)))
+      .returning();
+    return updated;
+  }
+
   async removeFromWatchlist(userId: string, id: number): Promise<void> {
     await db
       .delete(watchlist)
       .where(and(eq(watchlist.id, id), eq(watchlist.userId, userId)));
   }
 
+  // Team Watchlists
+  // Lists the user is a member of, by name
+  async getTeamWatchlists(userId: string): Promise<{ list: TeamWatchlist; role: string; memberCount: number; itemCount: number }[]> {
+    return await db
+      .select({
+        list: teamWatchlists,
+        role: teamWatchlistMembers.role,
+        memberCount: sql<number>`(select count(*) from ${teamWatchlistMembers} m where m.team_watchlist_id = ${teamWatchlists.id})`.mapWith(Number),
+        itemCount: sql<number>`(select count(*) from ${teamWatchlistItems} i where i.team_watchlist_id = ${teamWatchlists.id})`.mapWith(Number),
+      })
+      .from(teamWatchlistMembers)
+      .innerJoin(teamWatchlists, eq(teamWatchlistMembers.teamWatchlistId, teamWatchlists.id))
+      .where(eq(teamWatchlistMembers.userId, userId))
+      .orderBy(teamWatchlists.name);
+  }
+
+  async getTeamWatchlist(id: number): Promise<TeamWatchlist | undefined> {
+    const [list] = await db.select().from(teamWatchlists).where(eq(teamWatchlists.id, id));
+    return list;
+  }
+
+  async countOwnedTeamWatchlists(userId: string): Promise<number> {
+    const [result] = await db.select({ value: count() }).from(teamWatchlists).where(eq(teamWatchlists.ownerId, userId));
+    return result.value;
+  }
+
+  // The owner is also stored as a member, so every role check reads one table
+  async createTeamWatchlist(list: InsertTeamWatchlist): Promise<TeamWatchlist> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(teamWatchlists)
+        .values(list)
+        .returning();
+      await tx.insert(teamWatchlistMembers).values({ teamWatchlistId: created.id, userId: list.ownerId, role: "owner" });
+      return created;
+    });
+  }
+
+  async updateTeamWatchlist(id: number, data: Partial<InsertTeamWatchlist>): Promise<TeamWatchlist | undefined> {
+    const [updated] = await db
+      .update(teamWatchlists)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(teamWatchlists.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Members' rules scoped to the list are switched off rather than widened to all IPOs
+  async deleteTeamWatchlist(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(alertRules)
+        .set({ enabled: false, updatedAt: new Date() })
+        .where(eq(alertRules.teamWatchlistId, id));
+      await tx.delete(teamWatchlists).where(eq(teamWatchlists.id, id));
+    });
+  }
+
+  async getTeamMembership(teamWatchlistId: number, userId: string): Promise<TeamWatchlistMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(teamWatchlistMembers)
+      .where(and(eq(teamWatchlistMembers.teamWatchlistId, teamWatchlistId), eq(teamWatchlistMembers.userId, userId)));
+    return member;
+  }
+
+  async getTeamMembers(teamWatchlistId: number): Promise<{ member: TeamWatchlistMember; user: User }[]> {
+    const rows = await db
+      .select()
+      .from(teamWatchlistMembers)
+      .innerJoin(users, eq(teamWatchlistMembers.userId, users.id))
+      .where(eq(teamWatchlistMembers.teamWatchlistId, teamWatchlistId))
+      .orderBy(teamWatchlistMembers.createdAt);
+    return rows.map(row => ({ member: row.team_watchlist_members, user: row.users }));
+  }
+
+  async addTeamMember(member: InsertTeamWatchlistMember): Promise<TeamWatchlistMember> {
+    const [created] = await db
+      .insert(teamWatchlistMembers)
+      .values(member)
+      .returning();
+    return created;
+  }
+
+  async updateTeamMemberRole(teamWatchlistId: number, userId: string, role: string): Promise<TeamWatchlistMember | undefined> {
+    const [updated] = await db
+      .update(teamWatchlistMembers)
+      .set({ role })
+      .where(and(eq(teamWatchlistMembers.teamWatchlistId, teamWatchlistId), eq(teamWatchlistMembers.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  // A former member's rules scoped to the list stop matching (see alert-rules.ts)
+  async removeTeamMember(teamWatchlistId: number, userId: string): Promise<void> {
+    await db
+      .delete(teamWatchlistMembers)
+      .where(and(eq(teamWatchlistMembers.teamWatchlistId, teamWatchlistId), eq(teamWatchlistMembers.userId, userId)));
+  }
+
+  // Most recently added first
+  async getTeamWatchlistItems(teamWatchlistId: number): Promise<{ item: TeamWatchlistItem; ipo: Ipo; addedBy: User | null }[]> {
+    const rows = await db
+      .select()
+      .from(teamWatchlistItems)
+      .innerJoin(ipos, eq(teamWatchlistItems.ipoId, ipos.id))
+      .leftJoin(users, eq(teamWatchlistItems.addedBy, users.id))
+      .where(eq(teamWatchlistItems.teamWatchlistId, teamWatchlistId))
+      .orderBy(desc(teamWatchlistItems.createdAt));
+    return rows.map(row => ({ item: row.team_watchlist_items, ipo: row.ipos, addedBy: row.users }));
+  }
+
+  async getTeamWatchlistItem(teamWatchlistId: number, id: number): Promise<TeamWatchlistItem | undefined> {
+    const [item] = await db
+      .select()
+      .from(teamWatchlistItems)
+      .where(and(eq(teamWatchlistItems.id, id), eq(teamWatchlistItems.teamWatchlistId, teamWatchlistId)));
+    return item;
+  }
+
+  // Undefined when the IPO is already on the list
+  async addTeamWatchlistItem(item: InsertTeamWatchlistItem): Promise<TeamWatchlistItem | undefined> {
+    const [created] = await db
+      .insert(teamWatchlistItems)
+      .values(item)
+      .onConflictDoNothing()
+      .returning();
+    return created;
+  }
+
+  async removeTeamWatchlistItem(teamWatchlistId: number, id: number): Promise<void> {
+    await db
+      .delete(teamWatchlistItems)
+      .where(and(eq(teamWatchlistItems.id, id), eq(teamWatchlistItems.teamWatchlistId, teamWatchlistId)));
+  }
+
+  // IPOs on any team watchlist the user belongs to
+  async getTeamWatchlistIpoIds(userId: string): Promise<number[]> {
+    const rows = await db
+      .selectDistinct({ ipoId: teamWatchlistItems.ipoId })
+      .from(teamWatchlistItems)
+      .innerJoin(teamWatchlistMembers, eq(teamWatchlistMembers.teamWatchlistId, teamWatchlistItems.teamWatchlistId))
+      .where(eq(teamWatchlistMembers.userId, userId));
+    return rows.map(row => row.ipoId);
+  }
+
+  async getPendingTeamInvites(teamWatchlistId: number, now: Date): Promise<TeamWatchlistInvite[]> {
+    return await db
+      .select()
+      .from(teamWatchlistInvites)
+      .where(and(
+        eq(teamWatchlistInvites.teamWatchlistId, teamWatchlistId),
+        eq(teamWatchlistInvites.status, "pending"),
+        gt(teamWatchlistInvites.expiresAt, now),
+      ))
+      .orderBy(teamWatchlistInvites.createdAt);
+  }
+
+  async getTeamInvitesForEmail(email: string, now: Date): Promise<{ invite: TeamWatchlistInvite; list: TeamWatchlist; invitedBy: User }[]> {
+    const rows = await db
+      .select()
+      .from(teamWatchlistInvites)
+      .innerJoin(teamWatchlists, eq(teamWatchlistInvites.teamWatchlistId, teamWatchlists.id))
+      .innerJoin(users, eq(teamWatchlistInvites.invitedBy, users.id))
+      .where(and(
+        eq(teamWatchlistInvites.email, email.toLowerCase()),
+        eq(teamWatchlistInvites.status, "pending"),
+        gt(teamWatchlistInvites.expiresAt, now),
+      ))
+      .orderBy(desc(teamWatchlistInvites.createdAt));
+    return rows.map(row => ({ invite: row.team_watchlist_invites, list: row.team_watchlists, invitedBy: row.users }));
+  }
+
+  async getTeamInviteByToken(token: string): Promise<TeamWatchlistInvite | undefined> {
+    const [invite] = await db.select().from(teamWatchlistInvites).where(eq(teamWatchlistInvites.token, token));
+    return invite;
+  }
+
+  async createTeamInvite(invite: InsertTeamWatchlistInvite): Promise<TeamWatchlistInvite> {
+    const [created] = await db
+      .insert(teamWatchlistInvites)
+      .values(invite)
+      .returning();
+    return created;
+  }
+
+  async updateTeamInvite(id: number, data: Partial<TeamWatchlistInvite>): Promise<TeamWatchlistInvite | undefined> {
+    const [updated] = await db
+      .update(teamWatchlistInvites)
+      .set(data)
+      .where(eq(teamWatchlistInvites.id, id))
+      .returning();
+    return updated;
+  }
+
+  async addTeamActivity(entry: InsertTeamWatchlistActivity): Promise<TeamWatchlistActivity> {
+    const [created] = await db
+      .insert(teamWatchlistActivity)
+      .values(entry)
+      .returning();
+    return created;
+  }
+
+  // Newest first
+  async getTeamActivity(teamWatchlistId: number, limit: number): Promise<{ activity: TeamWatchlistActivity; user: User | null; ipo: Ipo | null }[]> {
+    const rows = await db
+      .select()
+      .from(teamWatchlistActivity)
+      .leftJoin(users, eq(teamWatchlistActivity.userId, users.id))
+      .leftJoin(ipos, eq(teamWatchlistActivity.ipoId, ipos.id))
+      .where(eq(teamWatchlistActivity.teamWatchlistId, teamWatchlistId))
+      .orderBy(desc(teamWatchlistActivity.createdAt), desc(teamWatchlistActivity.id))
+      .limit(limit);
+    return rows.map(row => ({ activity: row.team_watchlist_activity, user: row.users, ipo: row.ipos }));
+  }
+
+  // Applications
+  // Newest first, with the listing prices used for P&L
+  async getApplications(userId: string): Promise<{ application: IpoApplication; ipo: Ipo; listing: ListingPerformance | null }[]> {
+    const rows = await db
+      .select()
+      .from(applications)
+      .innerJoin(ipos, eq(applications.ipoId, ipos.id))
+      .leftJoin(listingPerformance, eq(listingPerformance.ipoId, applications.ipoId))
+      .where(eq(applications.userId, userId))
+      .orderBy(desc(applications.appliedOn), desc(applications.id));
+    return rows.map(row => ({ application: row.applications, ipo: row.ipos, listing: row.listing_performance }));
+  }
+
+  async getApplication(userId: string, id: number): Promise<IpoApplication | undefined> {
+    const [application] = await db
+      .select()
+      .from(applications)
+      .where(and(eq(applications.id, id), eq(applications.userId, userId)));
+    return application;
+  }
+
+  async countApplications(userId: string): Promise<number> {
+    const [result] = await db.select({ value: count() }).from(applications).where(eq(applications.userId, userId));
+    return result.value;
+  }
+
+  async createApplication(application: InsertIpoApplication): Promise<IpoApplication> {
+    const [created] = await db
+      .insert(applications)
+      .values(application)
+      .returning();
+    return created;
+  }
+
+  async updateApplication(userId: string, id: number, data: Partial<InsertIpoApplication>): Promise<IpoApplication | undefined> {
+    const [updated] = await db
+      .update(applications)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(applications.id, id), eq(applications.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteApplication(userId: string, id: number): Promise<void> {
+    await db
+      .delete(applications)
+      .where(and(eq(applications.id, id), eq(applications.userId, userId)));
+  }
+
   // Alert Preferences
   async getAlertPreferences(userId: string): Promise<AlertPreferences | undefined> {
     const [prefs] = await db
@@ -202,6 +716,22 @@ export class DatabaseStorage implements IStorage {
     return prefs;
   }
 
+  async getAlertPreferencesByTelegramLinkToken(token: string): Promise<AlertPreferences | undefined> {
+    const [prefs] = await db
+      .select()
+      .from(alertPreferences)
+      .where(eq(alertPreferences.telegramLinkToken, token));
+    return prefs;
+  }
+
+  async getAlertPreferencesByTelegramChatId(chatId: string): Promise<AlertPreferences | undefined> {
+    const [prefs] = await db
+      .select()
+      .from(alertPreferences)
+      .where(eq(alertPreferences.telegramChatId, chatId));
+    return prefs;
+  }
+
   async upsertAlertPreferences(userId: string, prefs: Partial<InsertAlertPreferences>): Promise<AlertPreferences> {
     const existing = await this.getAlertPreferences(userId);
     
@@ -228,7 +758,21 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(alertPreferences)
-      .where(eq(alertPreferences.emailEnabled, true));
+      .where(or(
+        eq(alertPreferences.emailEnabled, true),
+        eq(alertPreferences.telegramEnabled, true),
+        eq(alertPreferences.pushEnabled, true),
+      ));
+  }
+
+  async getDigestSubscribers(): Promise<AlertPreferences[]> {
+    return await db
+      .select()
+      .from(alertPreferences)
+      .where(and(
+        eq(alertPreferences.emailEnabled, true),
+        inArray(alertPreferences.digestMode, ["daily", "weekly"])
+      ));
   }
 
   // Alert Logs
@@ -240,6 +784,26 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  // Inserts the log unless one with the same user, channel and dedupe key
+  // exists; returns undefined when the alert was already claimed
+  async claimAlertLog(log: InsertAlertLog): Promise<AlertLog | undefined> {
+    const [claimed] = await db
+      .insert(alertLogs)
+      .values(log)
+      .onConflictDoNothing()
+      .returning();
+    return claimed;
+  }
+
+  async updateAlertLog(id: number, data: Partial<InsertAlertLog>): Promise<AlertLog | undefined> {
+    const [updated] = await db
+      .update(alertLogs)
+      .set(data)
+      .where(eq(alertLogs.id, id))
+      .returning();
+    return updated;
+  }
+
   async getAlertLogs(userId?: string, limit: number = 50): Promise<AlertLog[]> {
     let query = db.select().from(alertLogs);
     
@@ -255,6 +819,132 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  // Alert Rules
+  async getAlertRules(userId: string): Promise<AlertRule[]> {
+    return await db
+      .select()
+      .from(alertRules)
+      .where(eq(alertRules.userId, userId))
+      .orderBy(alertRules.createdAt);
+  }
+
+  async getEnabledAlertRules(): Promise<AlertRule[]> {
+    return await db
+      .select()
+      .from(alertRules)
+      .where(eq(alertRules.enabled, true));
+  }
+
+  async createAlertRule(rule: InsertAlertRule): Promise<AlertRule> {
+    const [created] = await db
+      .insert(alertRules)
+      .values(rule)
+      .returning();
+    return created;
+  }
+
+  async updateAlertRule(userId: string, id: number, data: Partial<InsertAlertRule>): Promise<AlertRule | undefined> {
+    const [updated] = await db
+      .update(alertRules)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(alertRules.id, id), eq(alertRules.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteAlertRule(userId: string, id: number): Promise<void> {
+    await db
+      .delete(alertRules)
+      .where(and(eq(alertRules.id, id), eq(alertRules.userId, userId)));
+  }
+
+  // Screens
+  async getScreens(userId: string): Promise<Screen[]> {
+    return await db
+      .select()
+      .from(screens)
+      .where(eq(screens.userId, userId))
+      .orderBy(screens.name);
+  }
+
+  async getScreen(userId: string, id: number): Promise<Screen | undefined> {
+    const [screen] = await db
+      .select()
+      .from(screens)
+      .where(and(eq(screens.id, id), eq(screens.userId, userId)));
+    return screen;
+  }
+
+  async getScreensByIds(ids: number[]): Promise<Screen[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(screens).where(inArray(screens.id, ids));
+  }
+
+  async createScreen(screen: InsertScreen): Promise<Screen> {
+    const [created] = await db
+      .insert(screens)
+      .values(screen)
+      .returning();
+    return created;
+  }
+
+  async updateScreen(userId: string, id: number, data: Partial<InsertScreen>): Promise<Screen | undefined> {
+    const [updated] = await db
+      .update(screens)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(screens.id, id), eq(screens.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteScreen(userId: string, id: number): Promise<void> {
+    await db
+      .delete(screens)
+      .where(and(eq(screens.id, id), eq(screens.userId, userId)));
+  }
+
+  // Push Subscriptions
+  async getPushSubscriptions(userId: string): Promise<PushSubscription[]> {
+    return await db
+      .select()
+      .from(pushSubscriptions)
+      .where(eq(pushSubscriptions.userId, userId));
+  }
+
+  // A browser keeps its endpoint across sign-ins, so an existing endpoint moves to the new user
+  // Re-subscribing refreshes the keys; an endpoint registered by another user
+  // is left alone and undefined is returned
+  async savePushSubscription(subscription: InsertPushSubscription): Promise<PushSubscription | undefined> {
+    const [saved] = await db
+      .insert(pushSubscriptions)
+      .values(subscription)
+      .onConflictDoUpdate({
+        target: pushSubscriptions.endpoint,
+        set: {
+          p256dh: subscription.p256dh,
+          auth: subscription.auth,
+          userAgent: subscription.userAgent,
+        },
+        setWhere: eq(pushSubscriptions.userId, subscription.userId),
+      })
+      .returning();
+    return saved;
+  }
+
+  async touchPushSubscription(id: number): Promise<void> {
+    await db
+      .update(pushSubscriptions)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(pushSubscriptions.id, id));
+  }
+
+  async deletePushSubscription(endpoint: string, userId?: string): Promise<void> {
+    const condition = userId
+      ? and(eq(pushSubscriptions.endpoint, endpoint), eq(pushSubscriptions.userId, userId))
+      : eq(pushSubscriptions.endpoint, endpoint);
+    await db.delete(pushSubscriptions).where(condition);
+  }
+
   // GMP History
   async addGmpHistory(entry: InsertGmpHistory): Promise<GmpHistoryEntry> {
     const [created] = await db.insert(gmpHistory).values(entry).returning();
@@ -371,6 +1061,388 @@ export class DatabaseStorage implements IStorage {
     
     return events.map(e => ({ ...e.event, ipo: e.ipo }));
   }
+
+  // Listing Performance
+  async getListingPerformance(ipoId: number): Promise<ListingPerformance | undefined> {
+    const [entry] = await db.select().from(listingPerformance).where(eq(listingPerformance.ipoId, ipoId));
+    return entry;
+  }
+
+  async upsertListingPerformance(entry: InsertListingPerformance): Promise<ListingPerformance> {
+    const [saved] = await db
+      .insert(listingPerformance)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: listingPerformance.ipoId,
+        set: { ...entry, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getIposWithListingPerformance(): Promise<(Ipo & { listing: ListingPerformance })[]> {
+    const rows = await db
+      .select()
+      .from(listingPerformance)
+      .innerJoin(ipos, eq(listingPerformance.ipoId, ipos.id))
+      .orderBy(desc(listingPerformance.listingDate));
+    return rows.map(row => ({ ...row.ipos, listing: row.listing_performance }));
+  }
+
+  // API Keys
+  async getApiKeys(userId: string): Promise<ApiKey[]> {
+    return await db
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.userId, userId))
+      .orderBy(desc(apiKeys.createdAt));
+  }
+
+  async getApiKey(userId: string, id: number): Promise<ApiKey | undefined> {
+    const [key] = await db
+      .select()
+      .from(apiKeys)
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId)));
+    return key;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [key] = await db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
+    return key;
+  }
+
+  async createApiKey(key: InsertApiKey): Promise<ApiKey> {
+    const [created] = await db.insert(apiKeys).values(key).returning();
+    return created;
+  }
+
+  async rotateApiKey(userId: string, id: number, keyPrefix: string, keyHash: string): Promise<ApiKey | undefined> {
+    const [updated] = await db
+      .update(apiKeys)
+      .set({ keyPrefix, keyHash, lastUsedAt: null })
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId), eq(apiKeys.status, "active")))
+      .returning();
+    return updated;
+  }
+
+  async revokeApiKey(userId: string, id: number): Promise<ApiKey | undefined> {
+    const [updated] = await db
+      .update(apiKeys)
+      .set({ status: "revoked", revokedAt: new Date() })
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async touchApiKey(id: number): Promise<void> {
+    await db.update(apiKeys).set({ lastUsedAt: new Date() }).where(eq(apiKeys.id, id));
+  }
+
+  async countActiveApiKeys(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ value: count() })
+      .from(apiKeys)
+      .where(and(eq(apiKeys.userId, userId), eq(apiKeys.status, "active")));
+    return result.value;
+  }
+
+  // Webhooks
+  async getWebhookEndpoints(userId: string): Promise<WebhookEndpoint[]> {
+    return await db
+      .select()
+      .from(webhookEndpoints)
+      .where(eq(webhookEndpoints.userId, userId))
+      .orderBy(desc(webhookEndpoints.createdAt));
+  }
+
+  async getWebhookEndpoint(userId: string, id: number): Promise<WebhookEndpoint | undefined> {
+    const [endpoint] = await db
+      .select()
+      .from(webhookEndpoints)
+      .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.userId, userId)));
+    return endpoint;
+  }
+
+  async getWebhookEndpointById(id: number): Promise<WebhookEndpoint | undefined> {
+    const [endpoint] = await db.select().from(webhookEndpoints).where(eq(webhookEndpoints.id, id));
+    return endpoint;
+  }
+
+  async getActiveWebhookEndpoints(eventType: string): Promise<WebhookEndpoint[]> {
+    return await db
+      .select()
+      .from(webhookEndpoints)
+      .where(and(eq(webhookEndpoints.status, "active"), arrayContains(webhookEndpoints.events, [eventType])));
+  }
+
+  async countWebhookEndpoints(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ value: count() })
+      .from(webhookEndpoints)
+      .where(eq(webhookEndpoints.userId, userId));
+    return result.value;
+  }
+
+  async createWebhookEndpoint(endpoint: InsertWebhookEndpoint): Promise<WebhookEndpoint> {
+    const [created] = await db.insert(webhookEndpoints).values(endpoint).returning();
+    return created;
+  }
+
+  async updateWebhookEndpoint(userId: string, id: number, data: Partial<InsertWebhookEndpoint>): Promise<WebhookEndpoint | undefined> {
+    const [updated] = await db
+      .update(webhookEndpoints)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  // Deliveries are removed with the endpoint (ON DELETE CASCADE)
+  async deleteWebhookEndpoint(userId: string, id: number): Promise<WebhookEndpoint | undefined> {
+    const [deleted] = await db
+      .delete(webhookEndpoints)
+      .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.userId, userId)))
+      .returning();
+    return deleted;
+  }
+
+  async createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [created] = await db.insert(webhookDeliveries).values(delivery).returning();
+    return created;
+  }
+
+  async updateWebhookDelivery(id: number, data: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const [updated] = await db
+      .update(webhookDeliveries)
+      .set(data)
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery;
+  }
+
+  async getWebhookDeliveries(endpointId: number, limit: number = 50): Promise<WebhookDelivery[]> {
+    return await db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.endpointId, endpointId))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  async getDueWebhookDeliveries(now: Date): Promise<WebhookDelivery[]> {
+    return await db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(inArray(webhookDeliveries.status, ["pending", "retrying"]), lte(webhookDeliveries.nextAttemptAt, now)))
+      .orderBy(webhookDeliveries.nextAttemptAt);
+  }
+
+  // API Usage & Plans
+  async getUserPlan(userId: string): Promise<UserPlan | undefined> {
+    const [plan] = await db.select().from(userPlans).where(eq(userPlans.userId, userId));
+    return plan;
+  }
+
+  async setUserPlan(plan: InsertUserPlan): Promise<UserPlan> {
+    const [saved] = await db
+      .insert(userPlans)
+      .values(plan)
+      .onConflictDoUpdate({
+        target: userPlans.userId,
+        set: { planId: plan.planId, currentPeriodEnd: plan.currentPeriodEnd ?? null, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(sql`lower(${users.email}) = ${email.toLowerCase()}`);
+    return user;
+  }
+
+  // Counts each window and records the request only if every window has room.
+  // A per-user advisory lock serializes concurrent requests so none can overshoot.
+  async reserveApiUsage(
+    entry: InsertApiUsage,
+    windows: { since: Date; limit: number }[],
+  ): Promise<{ entry?: ApiUsageEntry; used: number[] }> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`api_usage:${entry.userId}`}))`);
+      const used = await Promise.all(windows.map(async (window) => {
+        const [result] = await tx
+          .select({ value: count() })
+          .from(apiUsage)
+          .where(and(eq(apiUsage.userId, entry.userId), gte(apiUsage.createdAt, window.since), countedApiUsage));
+        return result.value;
+      }));
+      if (windows.some((window, index) => used[index] >= window.limit)) {
+        return { used };
+      }
+      const [created] = await tx.insert(apiUsage).values(entry).returning();
+      return { entry: created, used };
+    });
+  }
+
+  async updateApiUsage(id: number, data: Partial<InsertApiUsage>): Promise<void> {
+    await db.update(apiUsage).set(data).where(eq(apiUsage.id, id));
+  }
+
+  async countApiUsage(userId: string, since: Date): Promise<number> {
+    const [result] = await db
+      .select({ value: count() })
+      .from(apiUsage)
+      .where(and(eq(apiUsage.userId, userId), gte(apiUsage.createdAt, since), countedApiUsage));
+    return result.value;
+  }
+
+  async getApiUsageTrend(userId: string, days: number = 30): Promise<{ date: string; count: number }[]> {
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - days);
+
+    const day = sql<string>`to_char(${apiUsage.createdAt}, 'YYYY-MM-DD')`;
+    return await db
+      .select({ date: day, count: count() })
+      .from(apiUsage)
+      .where(and(eq(apiUsage.userId, userId), gte(apiUsage.createdAt, startDate)))
+      .groupBy(day)
+      .orderBy(day);
+  }
+
+  // Sync Runs
+  async createSyncRun(run: InsertSyncRun): Promise<SyncRun> {
+    const [created] = await db.insert(syncRuns).values(run).returning();
+    return created;
+  }
+
+  async updateSyncRun(id: number, data: Partial<InsertSyncRun>): Promise<SyncRun | undefined> {
+    const [updated] = await db
+      .update(syncRuns)
+      .set(data)
+      .where(eq(syncRuns.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getSyncRuns(limit: number = 20): Promise<SyncRun[]> {
+    return await db
+      .select()
+      .from(syncRuns)
+      .orderBy(desc(syncRuns.startedAt))
+      .limit(limit);
+  }
+
+  async failRunningSyncRuns(message: string): Promise<number> {
+    const failed = await db
+      .update(syncRuns)
+      .set({ status: "failed", finishedAt: new Date(), message })
+      .where(eq(syncRuns.status, "running"))
+      .returning({ id: syncRuns.id });
+    return failed.length;
+  }
+
+  // Scoring Profiles
+  async getScoringProfiles(): Promise<ScoringProfile[]> {
+    return await db
+      .select()
+      .from(scoringProfiles)
+      .orderBy(scoringProfiles.slug, desc(scoringProfiles.version));
+  }
+
+  async getScoringProfile(id: number): Promise<ScoringProfile | undefined> {
+    const [profile] = await db.select().from(scoringProfiles).where(eq(scoringProfiles.id, id));
+    return profile;
+  }
+
+  async getLatestScoringProfile(slug: string): Promise<ScoringProfile | undefined> {
+    const [profile] = await db
+      .select()
+      .from(scoringProfiles)
+      .where(eq(scoringProfiles.slug, slug))
+      .orderBy(desc(scoringProfiles.version))
+      .limit(1);
+    return profile;
+  }
+
+  async createScoringProfile(profile: InsertScoringProfile): Promise<ScoringProfile> {
+    const [created] = await db.insert(scoringProfiles).values(profile).returning();
+    return created;
+  }
+
+  async getUserScoringProfile(userId: string): Promise<UserScoringProfile | undefined> {
+    const [selection] = await db.select().from(userScoringProfiles).where(eq(userScoringProfiles.userId, userId));
+    return selection;
+  }
+
+  async setUserScoringProfile(userId: string, profileSlug: string): Promise<UserScoringProfile> {
+    const [selection] = await db
+      .insert(userScoringProfiles)
+      .values({ userId, profileSlug })
+      .onConflictDoUpdate({
+        target: userScoringProfiles.userId,
+        set: { profileSlug, updatedAt: new Date() },
+      })
+      .returning();
+    return selection;
+  }
+
+  // Tax Rules
+  // Oldest first; each rule applies until the next one's effective date
+  async getTaxRules(): Promise<TaxRule[]> {
+    return await db.select().from(taxRules).orderBy(taxRules.effectiveFrom);
+  }
+
+  async createTaxRule(rule: InsertTaxRule): Promise<TaxRule> {
+    const [created] = await db
+      .insert(taxRules)
+      .values(rule)
+      .returning();
+    return created;
+  }
+
+  // Email Outbox
+  async createOutboxEmail(email: InsertOutboxEmail): Promise<OutboxEmail> {
+    const [created] = await db.insert(emailOutbox).values(email).returning();
+    return created;
+  }
+
+  async updateOutboxEmail(id: number, data: Partial<InsertOutboxEmail>): Promise<OutboxEmail | undefined> {
+    const [updated] = await db
+      .update(emailOutbox)
+      .set(data)
+      .where(eq(emailOutbox.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getOutboxEmail(id: number): Promise<OutboxEmail | undefined> {
+    const [email] = await db.select().from(emailOutbox).where(eq(emailOutbox.id, id));
+    return email;
+  }
+
+  async getOutboxEmails(limit: number = 100, status?: string): Promise<OutboxEmail[]> {
+    const query = db.select().from(emailOutbox);
+    if (status) {
+      return await query
+        .where(eq(emailOutbox.status, status))
+        .orderBy(desc(emailOutbox.createdAt))
+        .limit(limit);
+    }
+    return await query.orderBy(desc(emailOutbox.createdAt)).limit(limit);
+  }
+
+  // Retrying emails whose next attempt is due, oldest first
+  async getDueOutboxEmails(now: Date): Promise<OutboxEmail[]> {
+    return await db
+      .select()
+      .from(emailOutbox)
+      .where(and(eq(emailOutbox.status, "retrying"), lte(emailOutbox.nextAttemptAt, now)))
+      .orderBy(emailOutbox.nextAttemptAt);
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,113 @@
+import { z } from "zod";
+
+// ============================================
+// ALERT RULES
+// Condition model for user-defined alert rules and saved screener screens.
+// A rule or screen is a list of conditions on IPO fields; it matches an IPO
+// when all of them hold. Text fields compare case-insensitively with = and ≠ only.
+// ============================================
+export type AlertRuleFieldType = 'number' | 'text';
+
+export interface AlertRuleFieldInfo {
+  label: string;
+  type: AlertRuleFieldType;
+  options?: string[]; // Fixed choices for text fields
+}
+
+export const ALERT_RULE_FIELDS = {
+  gmp: { label: 'GMP (₹)', type: 'number' },
+  gmpPercentage: { label: 'GMP % of issue price', type: 'number' },
+  overallScore: { label: 'Overall score', type: 'number' },
+  fundamentalsScore: { label: 'Fundamentals score', type: 'number' },
+  valuationScore: { label: 'Valuation score', type: 'number' },
+  governanceScore: { label: 'Governance score', type: 'number' },
+  subscriptionRetail: { label: 'Retail subscription (x)', type: 'number' },
+  subscriptionHni: { label: 'HNI subscription (x)', type: 'number' },
+  subscriptionQib: { label: 'QIB subscription (x)', type: 'number' },
+  peRatio: { label: 'P/E ratio', type: 'number' },
+  sectorPeMedian: { label: 'Sector median P/E', type: 'number' },
+  peVsSectorMedian: { label: 'P/E premium to sector median %', type: 'number' },
+  pbRatio: { label: 'P/B ratio', type: 'number' },
+  revenueGrowth: { label: 'Revenue growth %', type: 'number' },
+  ebitdaMargin: { label: 'EBITDA margin %', type: 'number' },
+  patMargin: { label: 'PAT margin %', type: 'number' },
+  roe: { label: 'ROE %', type: 'number' },
+  roce: { label: 'ROCE %', type: 'number' },
+  debtToEquity: { label: 'Debt/Equity', type: 'number' },
+  issueSizeCr: { label: 'Issue size (₹ Cr)', type: 'number' },
+  freshIssue: { label: 'Fresh issue share (0-1)', type: 'number' },
+  ofsRatio: { label: 'OFS ratio (0-1)', type: 'number' },
+  lotSize: { label: 'Lot size (shares)', type: 'number' },
+  promoterHolding: { label: 'Pre-IPO promoter holding %', type: 'number' },
+  postIpoPromoterHolding: { label: 'Post-IPO promoter holding %', type: 'number' },
+  sector: { label: 'Sector', type: 'text' },
+  riskLevel: { label: 'Risk level', type: 'text', options: ['conservative', 'moderate', 'aggressive'] },
+  status: { label: 'Status', type: 'text', options: ['upcoming', 'open', 'closed'] },
+} satisfies Record<string, AlertRuleFieldInfo>;
+
+export type AlertRuleField = keyof typeof ALERT_RULE_FIELDS;
+
+export const ALERT_RULE_OPERATORS = {
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  eq: '=',
+  neq: '≠',
+} as const;
+
+export type AlertRuleOperator = keyof typeof ALERT_RULE_OPERATORS;
+
+export const OPERATORS_BY_TYPE: Record<AlertRuleFieldType, AlertRuleOperator[]> = {
+  number: ['gt', 'gte', 'lt', 'lte', 'eq'],
+  text: ['eq', 'neq'],
+};
+
+export const MAX_ALERT_RULES = 20;
+export const MAX_RULE_CONDITIONS = 5;
+
+const fieldNames = Object.keys(ALERT_RULE_FIELDS) as [AlertRuleField, ...AlertRuleField[]];
+const operatorNames = Object.keys(ALERT_RULE_OPERATORS) as [AlertRuleOperator, ...AlertRuleOperator[]];
+
+export const alertRuleConditionSchema = z.object({
+  field: z.enum(fieldNames),
+  operator: z.enum(operatorNames),
+  value: z.union([z.number(), z.string().trim().min(1)]),
+}).superRefine((condition, ctx) => {
+  const type = ALERT_RULE_FIELDS[condition.field].type;
+  if (!OPERATORS_BY_TYPE[type].includes(condition.operator)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['operator'], message: `Operator ${ALERT_RULE_OPERATORS[condition.operator]} does not apply to ${condition.field}` });
+  }
+  if (type === 'number' && typeof condition.value !== 'number') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: `${condition.field} must be compared with a number` });
+  }
+  if (type === 'text' && typeof condition.value !== 'string') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: `${condition.field} must be compared with text` });
+  }
+});
+
+export type AlertRuleCondition = z.infer<typeof alertRuleConditionSchema>;
+
+// "GMP % of issue price > 30"
+export function describeCondition(condition: AlertRuleCondition): string {
+  return `${ALERT_RULE_FIELDS[condition.field].label} ${ALERT_RULE_OPERATORS[condition.operator]} ${condition.value}`;
+}
+
+// Compares an IPO's field value with a condition. Missing values never match.
+export function matchesCondition(condition: AlertRuleCondition, actual: number | string | null): boolean {
+  if (actual === null) return false;
+
+  if (typeof actual === 'string' || typeof condition.value === 'string') {
+    const equal = String(actual).toLowerCase() === String(condition.value).toLowerCase();
+    return condition.operator === 'neq' ? !equal : condition.operator === 'eq' && equal;
+  }
+
+  switch (condition.operator) {
+    case 'gt': return actual > condition.value;
+    case 'gte': return actual >= condition.value;
+    case 'lt': return actual < condition.value;
+    case 'lte': return actual <= condition.value;
+    case 'eq': return actual === condition.value;
+    case 'neq': return actual !== condition.value;
+  }
+}
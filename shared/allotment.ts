@@ -0,0 +1,57 @@
+// ============================================
+// ALLOTMENT
+// Bid categories for mainboard IPOs and the shape of a bid plan. Retail
+// bids go up to ₹2 lakh, small NII (sHNI) from ₹2 to ₹10 lakh and big NII
+// (bHNI) above ₹10 lakh. When a category is oversubscribed SEBI allots by
+// lottery: each winning application gets the category's minimum bid size
+// (one lot for retail), so extra lots in one application do not raise the
+// odds; extra applications from other PANs do.
+// ============================================
+import { z } from "zod";
+
+export const BID_CATEGORIES = {
+  retail: { label: 'Retail', maxAmount: 200000, issueShare: 0.35 },
+  snii: { label: 'Small HNI (sNII)', maxAmount: 1000000, issueShare: 0.05 }, // One third of the 15% NII quota
+  bnii: { label: 'Big HNI (bNII)', maxAmount: null, issueShare: 0.10 }, // Two thirds of the NII quota
+} as const;
+
+export type BidCategory = keyof typeof BID_CATEGORIES;
+
+export const bidCategorySchema = z.enum(Object.keys(BID_CATEGORIES) as [BidCategory, ...BidCategory[]]);
+
+export const MAX_PLANNED_APPLICATIONS = 10;
+
+export const bidPlanInputSchema = z.object({
+  category: bidCategorySchema.default('retail'),
+  lots: z.coerce.number().int().min(1).max(10000).optional(), // The category's minimum bid when unset
+  applications: z.coerce.number().int().min(1).max(MAX_PLANNED_APPLICATIONS).default(1), // e.g. one per family PAN
+});
+
+export type BidPlanInput = z.infer<typeof bidPlanInputSchema>;
+
+// Outcome of applying the same bid from 1, 2 … n accounts. Expected values
+// are null until the category has subscription figures.
+export interface BidPlanRow {
+  applications: number;
+  chanceOfAllotment: number | null; // At least one application allotted, 0-1
+  expectedShares: number | null;
+  expectedProfit: number | null; // At the current GMP
+  blockedCapital: number;
+}
+
+export interface BidPlan {
+  category: BidCategory;
+  lots: number;
+  issuePrice: number; // Upper end of the price band
+  lotSize: number;
+  lotPrice: number;
+  minLots: number; // Smallest bid in the category; what a lottery winner gets
+  maxLots: number | null;
+  subscription: number | null; // Times subscribed in the category
+  subscriptionRecordedAt: string | null;
+  probability: number | null; // Per application, 0-1
+  sharesIfAllotted: number;
+  estimatedWinners: number | null; // Applications that can be allotted, from the issue size
+  gmp: number | null;
+  rows: BidPlanRow[];
+}
@@ -0,0 +1,102 @@
+// ============================================
+// API PLANS
+// Single source of truth for plan limits. The server enforces these
+// quotas and the billing pages render them.
+// ============================================
+export type PlanId = 'free' | 'pro_1000' | 'pro_2500' | 'pro_5000';
+
+export interface ApiPlan {
+  id: PlanId;
+  name: string;
+  price: number; // Rs per month, excl. GST
+  description: string;
+  monthlyRequests: number;
+  dailyRequests: number | null; // null = no daily cap
+  maxApiKeys: number | null; // null = unlimited
+  maxIposPerRequest: number;
+  advancedQueryParams: boolean; // false = only currently open IPOs
+  advancedAnalytics: boolean;
+  webhooks: boolean; // Outbound webhooks for data changes
+}
+
+export const DEFAULT_PLAN_ID: PlanId = 'free';
+
+export const plans: Record<PlanId, ApiPlan> = {
+  free: {
+    id: 'free',
+    name: 'Free',
+    price: 0,
+    description: 'Start for free. No credit card required.',
+    monthlyRequests: 750,
+    dailyRequests: 25,
+    maxApiKeys: 1,
+    maxIposPerRequest: 1,
+    advancedQueryParams: false,
+    advancedAnalytics: false,
+    webhooks: false,
+  },
+  pro_1000: {
+    id: 'pro_1000',
+    name: 'Pro 1000 (Monthly)',
+    price: 499,
+    description: 'Ideal for mobile and web applications with growing user base.',
+    monthlyRequests: 1000,
+    dailyRequests: null,
+    maxApiKeys: null,
+    maxIposPerRequest: 3,
+    advancedQueryParams: true,
+    advancedAnalytics: true,
+    webhooks: true,
+  },
+  pro_2500: {
+    id: 'pro_2500',
+    name: 'Pro 2500 (Monthly)',
+    price: 999,
+    description: 'Ideal for mobile and web applications with growing user base.',
+    monthlyRequests: 2500,
+    dailyRequests: null,
+    maxApiKeys: null,
+    maxIposPerRequest: 3,
+    advancedQueryParams: true,
+    advancedAnalytics: true,
+    webhooks: true,
+  },
+  pro_5000: {
+    id: 'pro_5000',
+    name: 'Pro 5000 (Monthly)',
+    price: 1499,
+    description: 'Ideal for mobile and web applications with growing user base.',
+    monthlyRequests: 5000,
+    dailyRequests: null,
+    maxApiKeys: null,
+    maxIposPerRequest: 3,
+    advancedQueryParams: true,
+    advancedAnalytics: true,
+    webhooks: true,
+  },
+};
+
+export const paidPlans: ApiPlan[] = [plans.pro_1000, plans.pro_2500, plans.pro_5000];
+
+export function getPlan(planId: string | null | undefined): ApiPlan {
+  return plans[planId as PlanId] ?? plans[DEFAULT_PLAN_ID];
+}
+
+// Human-readable feature list for billing pages, derived from the limits above
+export function describePlanFeatures(plan: ApiPlan): string[] {
+  const perRequest = plan.price > 0
+    ? ` (Rs ${(plan.price / plan.monthlyRequests).toFixed(2)} / request)`
+    : '';
+  const ipoLabel = plan.maxIposPerRequest === 1 ? 'IPO' : 'IPOs';
+
+  return [
+    plan.maxApiKeys === null ? 'Unlimited API Keys' : `${plan.maxApiKeys} API Key${plan.maxApiKeys > 1 ? 's' : ''}`,
+    `Up to ${plan.monthlyRequests} requests / month${perRequest}`,
+    plan.dailyRequests === null ? 'No daily request cap' : `Request cap at ${plan.dailyRequests} requests per day`,
+    plan.advancedAnalytics ? 'Advanced usage analytics' : 'Basic usage analytics',
+    plan.advancedQueryParams ? 'Advanced query params' : 'Basic query params (only currently open ipos)',
+    `Max Limit: ${plan.maxIposPerRequest} ${ipoLabel} / request`,
+    ...(plan.webhooks ? ['Webhooks for IPO, GMP, subscription and listing updates'] : []),
+    'Community support',
+  ];
+}
@@ -0,0 +1,61 @@
+// ============================================
+// PORTFOLIO
+// Application tracker states and the Indian financial year (April to March)
+// used to group realized P&L for tax filing. Each application is one bid from
+// one PAN/demat account; allotment and sale details are filled in later.
+// ============================================
+import { z } from "zod";
+
+export const UPI_MANDATE_STATUSES = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  expired: 'Expired',
+} as const;
+
+export type UpiMandateStatus = keyof typeof UPI_MANDATE_STATUSES;
+
+export const upiMandateStatusSchema = z.enum(
+  Object.keys(UPI_MANDATE_STATUSES) as [UpiMandateStatus, ...UpiMandateStatus[]],
+);
+
+export const ALLOTMENT_STATUSES = {
+  pending: 'Awaiting allotment',
+  allotted: 'Allotted',
+  not_allotted: 'Not allotted',
+} as const;
+
+export type AllotmentStatus = keyof typeof ALLOTMENT_STATUSES;
+
+export const allotmentStatusSchema = z.enum(
+  Object.keys(ALLOTMENT_STATUSES) as [AllotmentStatus, ...AllotmentStatus[]],
+);
+
+export const MAX_PORTFOLIO_APPLICATIONS = 500;
+
+// "2025-03-31" -> "FY 2024-25"
+export function financialYear(date: string | Date): string {
+  const d = typeof date === "string" ? new Date(`${date.slice(0, 10)}T00:00:00Z`) : date;
+  const start = d.getUTCMonth() >= 3 ? d.getUTCFullYear() : d.getUTCFullYear() - 1;
+  return `FY ${start}-${String((start + 1) % 100).padStart(2, "0")}`;
+}
+
+// Rules that span several fields, checked on the merged record so partial
+// updates cannot leave an application inconsistent
+export function applicationIssue(app: {
+  allotmentStatus: string;
+  allottedShares?: number | null;
+  salePrice?: number | null;
+  saleDate?: string | null;
+}): { message: string; field: string } | null {
+  if (app.allotmentStatus === "allotted" && !app.allottedShares) {
+    return { message: "Enter the number of shares allotted", field: "allottedShares" };
+  }
+  if (app.allotmentStatus !== "allotted" && (app.salePrice != null || app.saleDate != null)) {
+    return { message: "Only allotted applications can have a sale", field: "allotmentStatus" };
+  }
+  if ((app.salePrice == null) !== (app.saleDate == null)) {
+    return { message: "Enter both the sale price and the sale date", field: app.salePrice == null ? "salePrice" : "saleDate" };
+  }
+  return null;
+}
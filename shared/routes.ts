@@ -1,5 +1,9 @@
 import { z } from 'zod';
-import { insertIpoSchema, insertWatchlistSchema, ipos, watchlist } from './schema';
+import { insertIpoSchema, insertWatchlistSchema, insertWebhookEndpointSchema, insertScreenSchema, insertApplicationSchema, insertTeamWatchlistInviteSchema, ipos, watchlist, type TeamWatchlist, type TeamWatchlistItem, type TeamWatchlistMember, type TeamWatchlistSummary, type TeamWatchlistDetail, type TeamInviteView, type ReceivedTeamInvite, type IpoApplication, type PortfolioResponse, type TaxReport, type ApiKeyResponse, type CreatedApiKeyResponse, type ApiUsageSummary, type WebhookEndpointResponse, type CreatedWebhookEndpointResponse, type WebhookDelivery, type Screen, type ScreenerRow, type IpoComparison } from './schema';
+import { screenConditionsSchema } from './screener';
+import { taxReportQuerySchema } from './tax';
+import { watchlistTagSchema } from './watchlist';
+import { teamMemberRoleSchema, teamWatchlistNameSchema } from './team-watchlists';
 
 // ============================================
 // SHARED ERROR SCHEMAS
@@ -15,8 +19,29 @@ export const errorSchemas = {
   internal: z.object({
     message: z.string(),
   }),
+  forbidden: z.object({
+    message: z.string(),
+  }),
+  rateLimited: z.object({
+    message: z.string(),
+  }),
 };
 
+// ============================================
+// IPO LIST QUERY
+// ============================================
+export const IPO_SORT_FIELDS = ['expectedDate', 'companyName', 'symbol', 'overallScore', 'gmp', 'issueSize', 'subscriptionRetail', 'createdAt'] as const;
+export type IpoSortField = typeof IPO_SORT_FIELDS[number];
+export type IpoSortKey = { field: IpoSortField; direction: 'asc' | 'desc' };
+export const IPO_TOTAL_COUNT_HEADER = 'X-Total-Count';
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+// ============================================
+// IPO COMPARISON
+// ============================================
+export const MAX_COMPARE_IPOS = 4;
+
 // ============================================
 // API CONTRACT
 // ============================================
@@ -25,12 +50,43 @@ export const api = {
     list: {
       method: 'GET' as const,
       path: '/api/ipos',
+      // Query string parameters, so numbers are coerced. The response body stays
+      // a plain array; X-Total-Count carries the number of matches before paging.
       input: z.object({
+        q: z.string().trim().min(1).max(100).optional(), // Company name or symbol contains
         status: z.enum(['upcoming', 'open', 'closed']).optional(),
         sector: z.string().optional(),
-      }).optional(),
+        riskLevel: z.enum(['conservative', 'moderate', 'aggressive']).optional(),
+        minScore: z.coerce.number().min(0).max(10).optional(),
+        maxScore: z.coerce.number().min(0).max(10).optional(),
+        minGmp: z.coerce.number().optional(),
+        maxGmp: z.coerce.number().optional(),
+        openFrom: isoDate.optional(), // Open (expected) date range, inclusive
+        openTo: isoDate.optional(),
+        minIssueSize: z.coerce.number().min(0).optional(), // Issue size in Cr
+        maxIssueSize: z.coerce.number().min(0).optional(),
+        tag: watchlistTagSchema.optional(), // On the signed-in user's watchlist with this tag
+        // Comma-separated fields, "-" for descending, e.g. "-overallScore,companyName"
+        sort: z.string().optional().transform((value, ctx) => {
+          if (!value) return undefined;
+          const keys: IpoSortKey[] = [];
+          for (const part of value.split(',').map(p => p.trim()).filter(Boolean)) {
+            const field = part.replace(/^[-+]/, '');
+            if (!(IPO_SORT_FIELDS as readonly string[]).includes(field)) {
+              ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Cannot sort by "${field}". Use one of: ${IPO_SORT_FIELDS.join(', ')}` });
+              return z.NEVER;
+            }
+            keys.push({ field: field as IpoSortField, direction: part.startsWith('-') ? 'desc' : 'asc' });
+          }
+          return keys.slice(0, 3);
+        }),
+        limit: z.coerce.number().int().min(1).max(100).optional(), // All matches when unset
+        offset: z.coerce.number().int().min(0).default(0),
+      }),
       responses: {
         200: z.array(z.custom<typeof ipos.$inferSelect>()),
+        400: errorSchemas.validation,
+        429: errorSchemas.rateLimited,
       },
     },
     get: {
@@ -39,6 +95,7 @@ export const api = {
       responses: {
         200: z.custom<typeof ipos.$inferSelect>(),
         404: errorSchemas.notFound,
+        429: errorSchemas.rateLimited,
       },
     },
   },
@@ -61,6 +118,16 @@ export const api = {
         400: errorSchemas.validation,
       },
     },
+    update: {
+      method: 'PATCH' as const,
+      path: '/api/watchlist/:id',
+      input: insertWatchlistSchema.pick({ notes: true, tags: true, targetGmp: true }).partial(),
+      responses: {
+        200: z.custom<typeof watchlist.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
     remove: {
       method: 'DELETE' as const,
       path: '/api/watchlist/:id',
@@ -70,6 +137,407 @@ export const api = {
       },
     },
   },
+  teamWatchlists: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/team-watchlists',
+      responses: {
+        200: z.array(z.custom<TeamWatchlistSummary>()),
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/team-watchlists',
+      input: z.object({ name: teamWatchlistNameSchema }),
+      responses: {
+        201: z.custom<TeamWatchlist>(),
+        400: errorSchemas.validation,
+      },
+    },
+    get: {
+      method: 'GET' as const,
+      path: '/api/team-watchlists/:id',
+      responses: {
+        200: z.custom<TeamWatchlistDetail>(),
+        404: errorSchemas.notFound,
+      },
+    },
+    update: {
+      method: 'PATCH' as const,
+      path: '/api/team-watchlists/:id',
+      input: z.object({ name: teamWatchlistNameSchema }),
+      responses: {
+        200: z.custom<TeamWatchlist>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    remove: {
+      method: 'DELETE' as const,
+      path: '/api/team-watchlists/:id',
+      responses: {
+        204: z.void(),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    addItem: {
+      method: 'POST' as const,
+      path: '/api/team-watchlists/:id/items',
+      input: z.object({ ipoId: z.number().int() }),
+      responses: {
+        201: z.custom<TeamWatchlistItem>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    removeItem: {
+      method: 'DELETE' as const,
+      path: '/api/team-watchlists/:id/items/:itemId',
+      responses: {
+        204: z.void(),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    invite: {
+      method: 'POST' as const,
+      path: '/api/team-watchlists/:id/invites',
+      input: insertTeamWatchlistInviteSchema.pick({ email: true, role: true }),
+      responses: {
+        201: z.custom<TeamInviteView & { emailSent: boolean }>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    revokeInvite: {
+      method: 'DELETE' as const,
+      path: '/api/team-watchlists/:id/invites/:inviteId',
+      responses: {
+        204: z.void(),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    updateMember: {
+      method: 'PATCH' as const,
+      path: '/api/team-watchlists/:id/members/:userId',
+      input: z.object({ role: teamMemberRoleSchema }),
+      responses: {
+        200: z.custom<TeamWatchlistMember>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    // The owner removes members; any other member may remove themselves
+    removeMember: {
+      method: 'DELETE' as const,
+      path: '/api/team-watchlists/:id/members/:userId',
+      responses: {
+        204: z.void(),
+        400: errorSchemas.validation, // The owner cannot leave
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  teamInvites: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/team-invites',
+      responses: {
+        200: z.array(z.custom<ReceivedTeamInvite>()),
+      },
+    },
+    get: {
+      method: 'GET' as const,
+      path: '/api/team-invites/:token',
+      responses: {
+        200: z.custom<ReceivedTeamInvite>(),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    accept: {
+      method: 'POST' as const,
+      path: '/api/team-invites/:token/accept',
+      responses: {
+        200: z.custom<TeamWatchlist>(),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    decline: {
+      method: 'POST' as const,
+      path: '/api/team-invites/:token/decline',
+      responses: {
+        204: z.void(),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  portfolio: {
+    get: {
+      method: 'GET' as const,
+      path: '/api/portfolio',
+      responses: {
+        200: z.custom<PortfolioResponse>(),
+      },
+    },
+    // text/csv download of every application with its P&L
+    export: {
+      method: 'GET' as const,
+      path: '/api/portfolio/export',
+      responses: {
+        200: z.string(),
+      },
+    },
+  },
+  tax: {
+    // Capital gains for one financial year; `fy` is the year it starts in
+    report: {
+      method: 'GET' as const,
+      path: '/api/tax/report',
+      input: taxReportQuerySchema,
+      responses: {
+        200: z.custom<TaxReport>(),
+        400: errorSchemas.validation,
+      },
+    },
+    // The same report as a download
+    csv: {
+      method: 'GET' as const,
+      path: '/api/tax/report/csv',
+      input: taxReportQuerySchema,
+      responses: {
+        200: z.string(),
+        400: errorSchemas.validation,
+      },
+    },
+    pdf: {
+      method: 'GET' as const,
+      path: '/api/tax/report/pdf',
+      input: taxReportQuerySchema,
+      responses: {
+        200: z.custom<Buffer>(),
+        400: errorSchemas.validation,
+      },
+    },
+  },
+  applications: {
+    create: {
+      method: 'POST' as const,
+      path: '/api/applications',
+      input: insertApplicationSchema.omit({ userId: true }),
+      responses: {
+        201: z.custom<IpoApplication>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    update: {
+      method: 'PATCH' as const,
+      path: '/api/applications/:id',
+      input: insertApplicationSchema.omit({ userId: true, ipoId: true }).partial(),
+      responses: {
+        200: z.custom<IpoApplication>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    remove: {
+      method: 'DELETE' as const,
+      path: '/api/applications/:id',
+      responses: {
+        204: z.void(),
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  apiKeys: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/keys',
+      responses: {
+        200: z.array(z.custom<ApiKeyResponse>()),
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/keys',
+      input: z.object({
+        identifier: z.string().trim().min(1, "Identifier is required").max(64),
+      }),
+      responses: {
+        201: z.custom<CreatedApiKeyResponse>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+      },
+    },
+    rotate: {
+      method: 'POST' as const,
+      path: '/api/keys/:id/rotate',
+      responses: {
+        200: z.custom<CreatedApiKeyResponse>(),
+        404: errorSchemas.notFound,
+      },
+    },
+    revoke: {
+      method: 'DELETE' as const,
+      path: '/api/keys/:id',
+      responses: {
+        200: z.custom<ApiKeyResponse>(),
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  webhooks: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/webhooks',
+      responses: {
+        200: z.array(z.custom<WebhookEndpointResponse>()),
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/webhooks',
+      input: insertWebhookEndpointSchema.pick({ url: true, description: true, events: true }),
+      responses: {
+        201: z.custom<CreatedWebhookEndpointResponse>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+      },
+    },
+    update: {
+      method: 'PATCH' as const,
+      path: '/api/webhooks/:id',
+      input: insertWebhookEndpointSchema.pick({ url: true, description: true, events: true, status: true }).partial(),
+      responses: {
+        200: z.custom<WebhookEndpointResponse>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    rotateSecret: {
+      method: 'POST' as const,
+      path: '/api/webhooks/:id/rotate-secret',
+      responses: {
+        200: z.custom<CreatedWebhookEndpointResponse>(),
+        404: errorSchemas.notFound,
+      },
+    },
+    remove: {
+      method: 'DELETE' as const,
+      path: '/api/webhooks/:id',
+      responses: {
+        204: z.void(),
+        404: errorSchemas.notFound,
+      },
+    },
+    deliveries: {
+      method: 'GET' as const,
+      path: '/api/webhooks/:id/deliveries',
+      responses: {
+        200: z.array(z.custom<WebhookDelivery>()),
+        404: errorSchemas.notFound,
+      },
+    },
+    redeliver: {
+      method: 'POST' as const,
+      path: '/api/webhooks/deliveries/:id/redeliver',
+      responses: {
+        200: z.custom<WebhookDelivery>(),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  compare: {
+    get: {
+      method: 'GET' as const,
+      path: '/api/compare',
+      // Comma-separated IPO ids, e.g. "12,15,18"; unknown ids are left out of the response
+      input: z.object({
+        ids: z.string().transform((value, ctx) => {
+          const ids = Array.from(new Set(value.split(',').map(id => Number(id.trim())).filter(id => Number.isInteger(id) && id > 0)));
+          if (ids.length === 0 || ids.length > MAX_COMPARE_IPOS) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Pick between 1 and ${MAX_COMPARE_IPOS} IPOs to compare` });
+            return z.NEVER;
+          }
+          return ids;
+        }),
+      }),
+      responses: {
+        200: z.array(z.custom<IpoComparison>()),
+        400: errorSchemas.validation,
+      },
+    },
+  },
+  screener: {
+    // Every IPO matching all the conditions, scored under the user's profile.
+    // Rows are unsorted; the screener table sorts them.
+    run: {
+      method: 'POST' as const,
+      path: '/api/screener/run',
+      input: z.object({ conditions: screenConditionsSchema }),
+      responses: {
+        200: z.array(z.custom<ScreenerRow>()),
+        400: errorSchemas.validation,
+      },
+    },
+  },
+  screens: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/screens',
+      responses: {
+        200: z.array(z.custom<Screen>()),
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/screens',
+      input: insertScreenSchema.omit({ userId: true }),
+      responses: {
+        201: z.custom<Screen>(),
+        400: errorSchemas.validation,
+      },
+    },
+    update: {
+      method: 'PATCH' as const,
+      path: '/api/screens/:id',
+      input: insertScreenSchema.omit({ userId: true }).partial(),
+      responses: {
+        200: z.custom<Screen>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    remove: {
+      method: 'DELETE' as const,
+      path: '/api/screens/:id',
+      responses: {
+        204: z.void(),
+        400: errorSchemas.validation, // Still used by an alert rule
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  usage: {
+    get: {
+      method: 'GET' as const,
+      path: '/api/usage',
+      responses: {
+        200: z.custom<ApiUsageSummary>(),
+      },
+    },
+  },
 };
 
 // ============================================
@@ -91,6 +559,9 @@ export function buildUrl(path: string, params?: Record<string, string | number>)
 // TYPE HELPERS
 // ============================================
 export type IpoResponse = z.infer<typeof api.ipos.get.responses[200]>;
+export type IpoListQuery = z.infer<typeof api.ipos.list.input>;
+export type IpoListParams = z.input<typeof api.ipos.list.input>;
 export type WatchlistListResponse = z.infer<typeof api.watchlist.list.responses[200]>;
+export type ApiKeyListResponse = z.infer<typeof api.apiKeys.list.responses[200]>;
 export type ValidationError = z.infer<typeof errorSchemas.validation>;
 export type NotFoundError = z.infer<typeof errorSchemas.notFound>;
@@ -1,12 +1,57 @@
-import { pgTable, text, serial, integer, boolean, timestamp, date, real } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, date, real, jsonb, unique } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { users } from "./models/auth";
+import type { ScoringConfig } from "./scoring";
+import { alertRuleConditionSchema, MAX_RULE_CONDITIONS, type AlertRuleCondition, type AlertRuleField } from "./alert-rules";
+import { webhookEventTypeSchema, type WebhookEventPayload } from "./webhooks";
+import { screenConditionsSchema, screenSortSchema, type ScreenSort } from "./screener";
+import { bidCategorySchema } from "./allotment";
+import { allotmentStatusSchema, upiMandateStatusSchema } from "./portfolio";
+import type { GainType } from "./tax";
+import { MAX_WATCHLIST_NOTES_LENGTH, watchlistTagsSchema } from "./watchlist";
+import { teamMemberRoleSchema, teamWatchlistNameSchema, type TeamRole } from "./team-watchlists";
 
 export * from "./models/auth";
 export * from "./models/chat";
 
+export type SyncRunError = {
+  symbol: string;
+  error: string;
+};
+
+// Provenance of a scraped metric value
+export type MetricSource = {
+  status: 'extracted' | 'derived' | 'unavailable';
+  source: string | null; // 'chittorgarh_detail', 'bse_detail', 'sector_benchmark', ...
+  url: string | null;
+  confidence: number; // 0-1, 0 when unavailable
+  label?: string; // Row label the value was read from
+};
+
+export type ScoreSection = 'fundamentals' | 'valuation' | 'governance';
+
+// One scoring rule that fired for an IPO
+export type ScoreContribution = {
+  bucket: ScoreSection; // Section score the points went to
+  metric: string; // 'revenueGrowth', 'peVsSector', 'promoterDilution', ...
+  value: number; // Observed value of the metric
+  rule: string; // Threshold band that matched, e.g. 'strong', 'expensive'
+  comparison: '>' | '<';
+  threshold: number;
+  delta: number; // Points added to (or taken from) the section score
+};
+
+// How an IPO's scores were built: section base + contributions + clamping to 0-10,
+// then the weighted average of the sections
+export type ScoreBreakdown = {
+  baseScores: Record<ScoreSection, number>;
+  weights: Record<ScoreSection, number>;
+  contributions: ScoreContribution[];
+  clampAdjustments: Record<ScoreSection, number>; // Points removed or added by clamping
+};
+
 // === TABLE DEFINITIONS ===
 export const ipos = pgTable("ipos", {
   id: serial("id").primaryKey(),
@@ -15,9 +60,12 @@ export const ipos = pgTable("ipos", {
   priceRange: text("price_range").notNull(),
   totalShares: text("total_shares"),
   expectedDate: date("expected_date"),
+  closeDate: date("close_date"), // Last day of bidding
+  nseSymbol: text("nse_symbol"), // NSE trading symbol once an exchange publishes it; used to find the listing
   status: text("status").notNull(), // 'upcoming', 'open', 'closed'
   description: text("description"),
   sector: text("sector"),
+  detailUrl: text("detail_url"), // Source page used for financials and subscription status
   
   // Financial Metrics
   revenueGrowth: real("revenue_growth"), // 3-year CAGR %
@@ -34,7 +82,7 @@ export const ipos = pgTable("ipos", {
   
   // Offer Details
   issueSize: text("issue_size"), // Total issue size in Cr
-  freshIssue: real("fresh_issue"), // % of fresh issue
+  freshIssue: real("fresh_issue"), // Fresh issue share of the offer (0-1)
   ofsRatio: real("ofs_ratio"), // Offer for Sale ratio (0-1)
   lotSize: integer("lot_size"),
   minInvestment: text("min_investment"),
@@ -48,12 +96,17 @@ export const ipos = pgTable("ipos", {
   // Promoter Info
   promoterHolding: real("promoter_holding"), // Pre-IPO promoter holding %
   postIpoPromoterHolding: real("post_ipo_promoter_holding"), // Post-IPO %
+
+  // Source and extraction confidence for each metric above, keyed by field name
+  metricSources: jsonb("metric_sources").$type<Record<string, MetricSource>>(),
   
   // Computed Scores (0-10 scale)
   fundamentalsScore: real("fundamentals_score"),
   valuationScore: real("valuation_score"),
   governanceScore: real("governance_score"),
   overallScore: real("overall_score"),
+  scoringProfileId: integer("scoring_profile_id").references(() => scoringProfiles.id), // Profile version that produced the scores
+  scoreBreakdown: jsonb("score_breakdown").$type<ScoreBreakdown>(), // Rule-by-rule audit trail of the scores
   
   // Risk Assessment
   riskLevel: text("risk_level"), // 'conservative', 'moderate', 'aggressive'
@@ -72,7 +125,84 @@ export const watchlist = pgTable("watchlist", {
   id: serial("id").primaryKey(),
   userId: text("user_id").notNull().references(() => users.id),
   ipoId: integer("ipo_id").notNull().references(() => ipos.id),
+  notes: text("notes"), // Private to the user
+  tags: text("tags").array().notNull().default([]), // Lowercase, see shared/watchlist.ts
+  targetGmp: integer("target_gmp"), // ₹; highlighted once the GMP reaches it
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Named watchlists shared by a team; see shared/team-watchlists.ts for the roles
+export const teamWatchlists = pgTable("team_watchlists", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  ownerId: text("owner_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Members of a team watchlist, including its owner
+export const teamWatchlistMembers = pgTable("team_watchlist_members", {
+  id: serial("id").primaryKey(),
+  teamWatchlistId: integer("team_watchlist_id").notNull().references(() => teamWatchlists.id, { onDelete: "cascade" }),
+  userId: text("user_id").notNull().references(() => users.id),
+  role: text("role").notNull(), // 'owner', 'editor', 'viewer'
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique().on(table.teamWatchlistId, table.userId)]);
+
+export const teamWatchlistItems = pgTable("team_watchlist_items", {
+  id: serial("id").primaryKey(),
+  teamWatchlistId: integer("team_watchlist_id").notNull().references(() => teamWatchlists.id, { onDelete: "cascade" }),
+  ipoId: integer("ipo_id").notNull().references(() => ipos.id),
+  addedBy: text("added_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique().on(table.teamWatchlistId, table.ipoId)]);
+
+// Email invites to a team watchlist; the token in the emailed link accepts it
+export const teamWatchlistInvites = pgTable("team_watchlist_invites", {
+  id: serial("id").primaryKey(),
+  teamWatchlistId: integer("team_watchlist_id").notNull().references(() => teamWatchlists.id, { onDelete: "cascade" }),
+  email: text("email").notNull(), // Lowercase
+  role: text("role").notNull(), // 'editor', 'viewer'
+  token: text("token").notNull().unique(),
+  invitedBy: text("invited_by").notNull().references(() => users.id),
+  status: text("status").notNull().default("pending"), // 'pending', 'accepted', 'declined', 'revoked'
+  expiresAt: timestamp("expires_at").notNull(),
+  respondedAt: timestamp("responded_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Who did what on a team watchlist, newest last
+export const teamWatchlistActivity = pgTable("team_watchlist_activity", {
+  id: serial("id").primaryKey(),
+  teamWatchlistId: integer("team_watchlist_id").notNull().references(() => teamWatchlists.id, { onDelete: "cascade" }),
+  userId: text("user_id").references(() => users.id), // Who made the change
+  action: text("action").notNull(), // see TeamActivityAction in shared/team-watchlists.ts
+  ipoId: integer("ipo_id").references(() => ipos.id), // For ipo_added / ipo_removed
+  subject: text("subject"), // Other detail, e.g. the invited email, the affected member or the new name
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// IPO applications a user logged, one per bid from one PAN/demat account.
+// Allotment and sale details are filled in as they become known.
+export const applications = pgTable("applications", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id),
+  ipoId: integer("ipo_id").notNull().references(() => ipos.id),
+  accountLabel: text("account_label").notNull(), // Whose PAN/demat the bid is from, e.g. "Self", "Mother"
+  category: text("category").notNull().default("retail"), // 'retail', 'snii', 'bnii' (see shared/allotment.ts)
+  lots: integer("lots").notNull(),
+  bidPrice: real("bid_price").notNull(), // Per share; cut-off bids use the upper price band
+  upiMandateStatus: text("upi_mandate_status").notNull().default("pending"), // 'pending', 'accepted', 'rejected', 'expired'
+  appliedOn: date("applied_on"),
+  allotmentStatus: text("allotment_status").notNull().default("pending"), // 'pending', 'allotted', 'not_allotted'
+  allottedShares: integer("allotted_shares"),
+  allottedOn: date("allotted_on"), // Start of the holding period for tax; the listing date when unset
+  grandfatheredFmv: real("grandfathered_fmv"), // Per share on 31 Jan 2018, for shares allotted before then
+  salePrice: real("sale_price"), // Per share; all allotted shares are sold together
+  saleDate: date("sale_date"),
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 export const alertPreferences = pgTable("alert_preferences", {
@@ -82,24 +212,70 @@ export const alertPreferences = pgTable("alert_preferences", {
   email: text("email"),
   telegramEnabled: boolean("telegram_enabled").default(false),
   telegramChatId: text("telegram_chat_id"),
+  telegramLinkToken: text("telegram_link_token").unique(), // One-time token the user sends to the bot as /start <token>
+  telegramLinkExpiresAt: timestamp("telegram_link_expires_at"),
+  pushEnabled: boolean("push_enabled").default(false), // Browser notifications, sent to every device in push_subscriptions
   alertOnNewIpo: boolean("alert_on_new_ipo").default(true),
   alertOnGmpChange: boolean("alert_on_gmp_change").default(true),
   alertOnOpenDate: boolean("alert_on_open_date").default(true),
   alertOnWatchlistOnly: boolean("alert_on_watchlist_only").default(false),
+  digestMode: text("digest_mode").default("off"), // 'off', 'daily', 'weekly'; a digest replaces per-event alert emails
+  digestTime: text("digest_time").default("08:00"), // HH:MM in the user's time zone
+  digestDay: integer("digest_day").default(1), // Weekly digest day, 0 = Sunday
+  timezone: text("timezone").default("Asia/Kolkata"), // IANA time zone for the digest schedule
+  lastDigestAt: timestamp("last_digest_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Web Push subscriptions, one per browser/device a user enabled notifications on
+export const pushSubscriptions = pgTable("push_subscriptions", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id),
+  endpoint: text("endpoint").notNull().unique(), // Push service URL, unique per browser subscription
+  p256dh: text("p256dh").notNull(),
+  auth: text("auth").notNull(),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastUsedAt: timestamp("last_used_at"),
+});
+
 export const alertLogs = pgTable("alert_logs", {
   id: serial("id").primaryKey(),
   userId: text("user_id").references(() => users.id),
   ipoId: integer("ipo_id").references(() => ipos.id),
-  alertType: text("alert_type").notNull(), // 'new_ipo', 'gmp_change', 'open_date', 'ai_analysis'
-  channel: text("channel").notNull(), // 'email'
-  status: text("status").notNull(), // 'sent', 'failed', 'pending'
+  alertType: text("alert_type").notNull(), // 'new_ipo', 'gmp_change', 'open_date', 'rule', 'ai_analysis'
+  channel: text("channel").notNull(), // 'email', 'telegram', 'push'
+  status: text("status").notNull(), // 'sent', 'failed', 'pending', 'retrying' (email waiting in the outbox for a retry)
+  dedupeKey: text("dedupe_key"), // Identifies the event, e.g. 'gmp_change:12:45'; null for manual alerts
   message: text("message"),
   error: text("error"),
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique().on(table.userId, table.channel, table.dedupeKey)]);
+
+// Saved screener screens; same condition model as alert rules
+export const screens = pgTable("screens", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  conditions: jsonb("conditions").$type<AlertRuleCondition[]>().notNull(), // see shared/alert-rules.ts
+  sort: jsonb("sort").$type<ScreenSort>().notNull(), // see shared/screener.ts
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// User-defined alert rules; a rule fires for an IPO when all its conditions hold
+export const alertRules = pgTable("alert_rules", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  screenId: integer("screen_id").references(() => screens.id), // Optional saved screen whose conditions also have to hold
+  conditions: jsonb("conditions").$type<AlertRuleCondition[]>().notNull(), // see shared/alert-rules.ts
+  watchlistOnly: boolean("watchlist_only").default(false),
+  teamWatchlistId: integer("team_watchlist_id").references(() => teamWatchlists.id, { onDelete: "set null" }), // Only IPOs on this list; alerts every member
+  enabled: boolean("enabled").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // GMP History for trend tracking
@@ -134,8 +310,13 @@ export const subscriptionUpdates = pgTable("subscription_updates", {
   ipoId: integer("ipo_id").notNull().references(() => ipos.id),
   qibSubscription: real("qib_subscription"),
   niiSubscription: real("nii_subscription"), // HNI/NII
+  bniiSubscription: real("bnii_subscription"), // NII bids above ₹10L
+  sniiSubscription: real("snii_subscription"), // NII bids below ₹10L
   retailSubscription: real("retail_subscription"),
+  employeeSubscription: real("employee_subscription"),
+  shareholderSubscription: real("shareholder_subscription"),
   totalSubscription: real("total_subscription"),
+  source: text("source"), // Page the snapshot was read from
   recordedAt: timestamp("recorded_at").defaultNow(),
 });
 
@@ -166,6 +347,162 @@ export const ipoTimeline = pgTable("ipo_timeline", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Post-listing price performance (one row per listed IPO). Gains and returns
+// are % versus the issue price; a return stays null until its horizon has passed.
+export const listingPerformance = pgTable("listing_performance", {
+  id: serial("id").primaryKey(),
+  ipoId: integer("ipo_id").notNull().references(() => ipos.id).unique(),
+  exchangeSymbol: text("exchange_symbol"), // Ticker used to fetch prices, e.g. "TATATECH.NS"
+  issuePrice: real("issue_price"),
+  listingDate: date("listing_date"),
+  listingOpen: real("listing_open"),
+  listingHigh: real("listing_high"),
+  listingLow: real("listing_low"),
+  listingClose: real("listing_close"),
+  listingGain: real("listing_gain"), // Listing open vs issue price
+  listingCloseGain: real("listing_close_gain"), // Listing-day close vs issue price
+  return1w: real("return_1w"),
+  return1m: real("return_1m"),
+  return3m: real("return_3m"),
+  return6m: real("return_6m"),
+  currentPrice: real("current_price"),
+  source: text("source"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// API keys for the public IPO API (only the hash of the secret is stored)
+export const apiKeys = pgTable("api_keys", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id),
+  identifier: text("identifier").notNull(), // User-facing label, e.g. "IPO-ANALYSIS-APP"
+  keyPrefix: text("key_prefix").notNull(), // First characters of the key, safe to display
+  keyHash: text("key_hash").notNull().unique(), // SHA-256 of the full key
+  status: text("status").notNull().default("active"), // 'active', 'revoked'
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Usage ledger: one row per request authenticated with an API key
+export const apiUsage = pgTable("api_usage", {
+  id: serial("id").primaryKey(),
+  apiKeyId: integer("api_key_id").notNull().references(() => apiKeys.id),
+  userId: text("user_id").notNull().references(() => users.id),
+  method: text("method").notNull(),
+  path: text("path").notNull(),
+  statusCode: integer("status_code"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Webhook endpoints registered by API users; the secret signs every delivery
+export const webhookEndpoints = pgTable("webhook_endpoints", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id),
+  url: text("url").notNull(),
+  description: text("description"),
+  events: text("events").array().notNull(), // Subscribed event types, see shared/webhooks.ts
+  secret: text("secret").notNull(), // HMAC key, only shown to the user on create/rotate
+  status: text("status").notNull().default("active"), // 'active', 'disabled'
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Delivery log: one row per event sent to an endpoint, updated on every attempt
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  endpointId: integer("endpoint_id").notNull().references(() => webhookEndpoints.id, { onDelete: "cascade" }),
+  eventId: text("event_id").notNull(),
+  eventType: text("event_type").notNull(),
+  payload: jsonb("payload").$type<WebhookEventPayload>().notNull(),
+  status: text("status").notNull(), // 'pending', 'succeeded', 'retrying', 'failed'
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at"), // Set while queued for the scheduler or retrying
+  responseStatus: integer("response_status"),
+  error: text("error"),
+  durationMs: integer("duration_ms"),
+  createdAt: timestamp("created_at").defaultNow(),
+  deliveredAt: timestamp("delivered_at"),
+});
+
+// API plan per user; users without a row are on the free plan
+export const userPlans = pgTable("user_plans", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id).unique(),
+  planId: text("plan_id").notNull(), // see shared/plans.ts
+  currentPeriodEnd: timestamp("current_period_end"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// History of data sync jobs (scheduled, manual and on startup)
+export const syncRuns = pgTable("sync_runs", {
+  id: serial("id").primaryKey(),
+  trigger: text("trigger").notNull(), // 'scheduled', 'manual', 'startup'
+  status: text("status").notNull().default("running"), // 'running', 'success', 'partial', 'failed'
+  startedAt: timestamp("started_at").defaultNow(),
+  finishedAt: timestamp("finished_at"),
+  total: integer("total").default(0),
+  created: integer("created").default(0),
+  updated: integer("updated").default(0),
+  analyticsAdded: integer("analytics_added").default(0),
+  errors: jsonb("errors").$type<SyncRunError[]>().default([]), // Per-IPO failures
+  message: text("message"), // Set when the whole run fails
+});
+
+// Versioned scoring models; editing a profile adds a new version and keeps the old ones
+export const scoringProfiles = pgTable("scoring_profiles", {
+  id: serial("id").primaryKey(),
+  slug: text("slug").notNull(), // 'default', 'growth', 'value', ...
+  version: integer("version").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  config: jsonb("config").$type<ScoringConfig>().notNull(), // see shared/scoring.ts
+  createdBy: text("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique().on(table.slug, table.version)]);
+
+// Personal scoring profile per user; users without a row see the default profile
+export const userScoringProfiles = pgTable("user_scoring_profiles", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id).unique(),
+  profileSlug: text("profile_slug").notNull(), // Always resolves to the latest version
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Capital gains tax rates and thresholds, one row per change in the law;
+// each row applies from its effective date until the next (see shared/tax.ts)
+export const taxRules = pgTable("tax_rules", {
+  id: serial("id").primaryKey(),
+  effectiveFrom: date("effective_from").notNull().unique(),
+  stcgRate: real("stcg_rate").notNull(), // %
+  ltcgRate: real("ltcg_rate").notNull(), // %
+  ltcgExemption: real("ltcg_exemption").notNull(), // ₹ of long-term gains per financial year that are not taxed
+  longTermMonths: integer("long_term_months").notNull().default(12), // Held longer than this is long-term
+  grandfatherDate: date("grandfather_date"), // Shares acquired on or before this date may use its fair market value as cost
+  cessRate: real("cess_rate").notNull().default(4), // % on top of the tax
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Every outgoing email and its delivery state; transient provider errors are retried with backoff
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  toAddress: text("to_address").notNull(),
+  fromAddress: text("from_address").notNull(),
+  subject: text("subject").notNull(),
+  html: text("html").notNull(),
+  transport: text("transport").notNull(), // 'resend', 'smtp', 'outbox'
+  status: text("status").notNull(), // 'pending', 'sent', 'retrying', 'failed', 'captured' (outbox transport, never sent)
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at"), // Set while retrying
+  lastError: text("last_error"),
+  providerMessageId: text("provider_message_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+  sentAt: timestamp("sent_at"),
+});
+
 // === RELATIONS ===
 export const iposRelations = relations(ipos, ({ many }) => ({
   watchlistItems: many(watchlist),
@@ -183,23 +520,120 @@ export const watchlistRelations = relations(watchlist, ({ one }) => ({
 }));
 
 // === BASE SCHEMAS ===
+function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const isoDateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
 export const insertIpoSchema = createInsertSchema(ipos).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertWatchlistSchema = createInsertSchema(watchlist).omit({ id: true, createdAt: true });
-export const insertAlertPreferencesSchema = createInsertSchema(alertPreferences).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertWatchlistSchema = createInsertSchema(watchlist).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  notes: z.string().trim().max(MAX_WATCHLIST_NOTES_LENGTH).nullish(),
+  tags: watchlistTagsSchema.optional(),
+  targetGmp: z.number().int().nullish(),
+});
+export const insertTeamWatchlistSchema = createInsertSchema(teamWatchlists).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  name: teamWatchlistNameSchema,
+});
+export const insertTeamWatchlistMemberSchema = createInsertSchema(teamWatchlistMembers).omit({ id: true, createdAt: true });
+export const insertTeamWatchlistItemSchema = createInsertSchema(teamWatchlistItems).omit({ id: true, createdAt: true });
+export const insertTeamWatchlistInviteSchema = createInsertSchema(teamWatchlistInvites).omit({ id: true, createdAt: true, respondedAt: true }).extend({
+  email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+  role: teamMemberRoleSchema,
+});
+export const insertTeamWatchlistActivitySchema = createInsertSchema(teamWatchlistActivity).omit({ id: true, createdAt: true });
+export const insertApplicationSchema = createInsertSchema(applications).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  accountLabel: z.string().trim().min(1, "Account name is required").max(40),
+  category: bidCategorySchema,
+  lots: z.number().int().min(1, "Lots must be at least 1"),
+  bidPrice: z.number().positive("Bid price must be positive"),
+  upiMandateStatus: upiMandateStatusSchema,
+  appliedOn: z.string().regex(isoDateRegex, "Dates must be YYYY-MM-DD").nullish(),
+  allotmentStatus: allotmentStatusSchema,
+  allottedShares: z.number().int().min(1, "Allotted shares must be at least 1").nullish(),
+  allottedOn: z.string().regex(isoDateRegex, "Dates must be YYYY-MM-DD").nullish(),
+  grandfatheredFmv: z.number().positive("Fair market value must be positive").nullish(),
+  salePrice: z.number().positive("Sale price must be positive").nullish(),
+  saleDate: z.string().regex(isoDateRegex, "Dates must be YYYY-MM-DD").nullish(),
+});
+export const insertAlertPreferencesSchema = createInsertSchema(alertPreferences).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  digestMode: z.enum(["off", "daily", "weekly"]).optional(),
+  digestTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Digest time must be HH:MM").optional(),
+  digestDay: z.number().int().min(0).max(6).optional(),
+  timezone: z.string().refine(isTimeZone, "Unknown time zone").optional(),
+});
+// Rules based on a screen may have no conditions of their own; routes check
+// that a rule has at least one condition or a screen
+export const insertAlertRuleSchema = createInsertSchema(alertRules).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  name: z.string().trim().min(1, "Rule name is required").max(80),
+  conditions: z.array(alertRuleConditionSchema).max(MAX_RULE_CONDITIONS),
+});
+export const insertScreenSchema = createInsertSchema(screens).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  name: z.string().trim().min(1, "Screen name is required").max(80),
+  conditions: screenConditionsSchema,
+  sort: screenSortSchema,
+});
+export const insertPushSubscriptionSchema = createInsertSchema(pushSubscriptions).omit({ id: true, createdAt: true, lastUsedAt: true });
 export const insertAlertLogSchema = createInsertSchema(alertLogs).omit({ id: true, createdAt: true });
 export const insertGmpHistorySchema = createInsertSchema(gmpHistory).omit({ id: true, recordedAt: true });
 export const insertPeerCompanySchema = createInsertSchema(peerCompanies).omit({ id: true, createdAt: true });
 export const insertSubscriptionUpdateSchema = createInsertSchema(subscriptionUpdates).omit({ id: true, recordedAt: true });
 export const insertFundUtilizationSchema = createInsertSchema(fundUtilization).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertIpoTimelineSchema = createInsertSchema(ipoTimeline).omit({ id: true, createdAt: true });
+export const insertApiUsageSchema = createInsertSchema(apiUsage).omit({ id: true, createdAt: true });
+export const insertUserPlanSchema = createInsertSchema(userPlans).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertApiKeySchema = createInsertSchema(apiKeys).omit({ id: true, createdAt: true, lastUsedAt: true, revokedAt: true });
+export const insertListingPerformanceSchema = createInsertSchema(listingPerformance).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertSyncRunSchema = createInsertSchema(syncRuns).omit({ id: true, startedAt: true });
+export const insertWebhookEndpointSchema = createInsertSchema(webhookEndpoints).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  url: z.string().trim().url("Enter a valid URL").refine(url => url.startsWith("https://"), "Webhook URLs must use https://"),
+  description: z.string().trim().max(200).nullish(),
+  events: z.array(webhookEventTypeSchema).min(1, "Choose at least one event"),
+  status: z.enum(["active", "disabled"]).optional(),
+});
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).omit({ id: true, createdAt: true });
+export const insertTaxRuleSchema = createInsertSchema(taxRules).omit({ id: true, createdAt: true }).extend({
+  effectiveFrom: z.string().regex(isoDateRegex, "Dates must be YYYY-MM-DD"),
+  stcgRate: z.number().min(0).max(100),
+  ltcgRate: z.number().min(0).max(100),
+  ltcgExemption: z.number().min(0),
+  longTermMonths: z.number().int().min(1).optional(),
+  grandfatherDate: z.string().regex(isoDateRegex, "Dates must be YYYY-MM-DD").nullish(),
+  cessRate: z.number().min(0).max(100).optional(),
+});
+export const insertEmailOutboxSchema = createInsertSchema(emailOutbox).omit({ id: true, createdAt: true });
+export const insertScoringProfileSchema = createInsertSchema(scoringProfiles).omit({ id: true, createdAt: true });
 
 // === EXPLICIT API CONTRACT TYPES ===
 export type Ipo = typeof ipos.$inferSelect;
 export type InsertIpo = z.infer<typeof insertIpoSchema>;
 export type WatchlistItem = typeof watchlist.$inferSelect;
 export type InsertWatchlistItem = z.infer<typeof insertWatchlistSchema>;
+export type TeamWatchlist = typeof teamWatchlists.$inferSelect;
+export type InsertTeamWatchlist = z.infer<typeof insertTeamWatchlistSchema>;
+export type TeamWatchlistMember = typeof teamWatchlistMembers.$inferSelect;
+export type InsertTeamWatchlistMember = z.infer<typeof insertTeamWatchlistMemberSchema>;
+export type TeamWatchlistItem = typeof teamWatchlistItems.$inferSelect;
+export type InsertTeamWatchlistItem = z.infer<typeof insertTeamWatchlistItemSchema>;
+export type TeamWatchlistInvite = typeof teamWatchlistInvites.$inferSelect;
+export type InsertTeamWatchlistInvite = z.infer<typeof insertTeamWatchlistInviteSchema>;
+export type TeamWatchlistActivity = typeof teamWatchlistActivity.$inferSelect;
+export type InsertTeamWatchlistActivity = z.infer<typeof insertTeamWatchlistActivitySchema>;
+export type IpoApplication = typeof applications.$inferSelect;
+export type InsertIpoApplication = z.infer<typeof insertApplicationSchema>;
 export type AlertPreferences = typeof alertPreferences.$inferSelect;
 export type InsertAlertPreferences = z.infer<typeof insertAlertPreferencesSchema>;
+export type PushSubscription = typeof pushSubscriptions.$inferSelect;
+export type InsertPushSubscription = z.infer<typeof insertPushSubscriptionSchema>;
+export type AlertRule = typeof alertRules.$inferSelect;
+export type InsertAlertRule = z.infer<typeof insertAlertRuleSchema>;
+export type Screen = typeof screens.$inferSelect;
+export type InsertScreen = z.infer<typeof insertScreenSchema>;
 export type AlertLog = typeof alertLogs.$inferSelect;
 export type InsertAlertLog = z.infer<typeof insertAlertLogSchema>;
 export type GmpHistoryEntry = typeof gmpHistory.$inferSelect;
@@ -212,10 +646,164 @@ export type FundUtilizationEntry = typeof fundUtilization.$inferSelect;
 export type InsertFundUtilization = z.infer<typeof insertFundUtilizationSchema>;
 export type IpoTimelineEvent = typeof ipoTimeline.$inferSelect;
 export type InsertIpoTimeline = z.infer<typeof insertIpoTimelineSchema>;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+export type ApiUsageEntry = typeof apiUsage.$inferSelect;
+export type InsertApiUsage = z.infer<typeof insertApiUsageSchema>;
+export type UserPlan = typeof userPlans.$inferSelect;
+export type InsertUserPlan = z.infer<typeof insertUserPlanSchema>;
+export type ListingPerformance = typeof listingPerformance.$inferSelect;
+export type InsertListingPerformance = z.infer<typeof insertListingPerformanceSchema>;
+export type SyncRun = typeof syncRuns.$inferSelect;
+export type InsertSyncRun = z.infer<typeof insertSyncRunSchema>;
+export type ScoringProfile = typeof scoringProfiles.$inferSelect;
+export type InsertScoringProfile = z.infer<typeof insertScoringProfileSchema>;
+export type UserScoringProfile = typeof userScoringProfiles.$inferSelect;
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type InsertWebhookEndpoint = z.infer<typeof insertWebhookEndpointSchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+export type TaxRule = typeof taxRules.$inferSelect;
+export type InsertTaxRule = z.infer<typeof insertTaxRuleSchema>;
+export type OutboxEmail = typeof emailOutbox.$inferSelect;
+export type InsertOutboxEmail = z.infer<typeof insertEmailOutboxSchema>;
 
 // API Responses
 export type IpoResponse = Ipo;
 export type WatchlistResponse = WatchlistItem & { ipo: Ipo };
+// Team watchlists the user belongs to, with their role
+export type TeamWatchlistSummary = TeamWatchlist & { role: TeamRole; memberCount: number; itemCount: number };
+export type TeamMemberView = { userId: string; name: string; email: string | null; role: TeamRole; joinedAt: Date | null };
+export type TeamActivityEntry = TeamWatchlistActivity & { actorName: string | null; ipo: Pick<Ipo, "id" | "symbol" | "companyName"> | null };
+// Invite tokens are only sent to the invitee, never listed for the team
+export type TeamInviteView = Omit<TeamWatchlistInvite, "token">;
+export type TeamWatchlistDetail = {
+  list: TeamWatchlist;
+  role: TeamRole;
+  members: TeamMemberView[];
+  items: (TeamWatchlistItem & { ipo: Ipo; addedByName: string | null })[];
+  invites: TeamInviteView[]; // Pending invites, owner only
+  activity: TeamActivityEntry[]; // Newest first
+};
+// Pending invites addressed to the signed-in user's email
+export type ReceivedTeamInvite = Pick<TeamWatchlistInvite, "id" | "role" | "token" | "expiresAt"> & {
+  listName: string;
+  invitedByName: string;
+};
+// Key hash is never sent to clients; the plaintext key is only returned on create/rotate
+export type ApiKeyResponse = Omit<ApiKey, "keyHash">;
+export type CreatedApiKeyResponse = ApiKeyResponse & { key: string };
+// Like API keys, the signing secret is only returned on create/rotate
+export type WebhookEndpointResponse = Omit<WebhookEndpoint, "secret">;
+export type CreatedWebhookEndpointResponse = WebhookEndpointResponse & { secret: string };
+// Screener result: the IPO plus every condition field's value, including
+// derived ones such as GMP % and P/E premium to the sector median
+export type ScreenerRow = {
+  ipo: Ipo;
+  values: Record<AlertRuleField, number | string | null>;
+};
+// One column of the comparison page: the screener values plus the 7-day GMP
+// trend and the latest subscription snapshot
+export type IpoComparison = ScreenerRow & {
+  gmpHistory: GmpHistoryEntry[];
+  subscription: SubscriptionUpdate | null;
+};
+// One logged application with its P&L. Allotted shares cost the final issue
+// price once the IPO has listed (the bid price until then); sold positions
+// have realized P&L, held ones are marked to the latest price.
+export type PortfolioPosition = {
+  application: IpoApplication;
+  ipo: Pick<Ipo, "id" | "symbol" | "companyName" | "status" | "expectedDate">;
+  costPrice: number;
+  invested: number; // Allotted shares x cost price
+  blockedAmount: number; // Bid amount held by the UPI mandate
+  listingDate: string | null;
+  listingPrice: number | null; // Listing-day open
+  markPrice: number | null; // Latest price, falling back to the listing-day close
+  listingPnl: number | null; // Had the shares been sold at the listing price
+  realizedPnl: number | null;
+  unrealizedPnl: number | null;
+  financialYear: string; // Year of the sale, or of the application while unsold
+};
+export type PortfolioSummaryRow = {
+  key: string; // Account label or financial year
+  applications: number;
+  allotted: number;
+  invested: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+};
+export type PortfolioResponse = {
+  positions: PortfolioPosition[];
+  totals: Omit<PortfolioSummaryRow, "key">;
+  byAccount: PortfolioSummaryRow[];
+  byYear: PortfolioSummaryRow[];
+};
+// One sale in the tax report. Gains are per sale; tax is only worked out per
+// account because losses are set off and the exemption applies per PAN.
+export type TaxSale = {
+  applicationId: number;
+  accountLabel: string;
+  symbol: string;
+  companyName: string;
+  shares: number;
+  acquiredOn: string;
+  soldOn: string;
+  holdingDays: number;
+  gainType: GainType;
+  costPrice: number; // Per share, after grandfathering
+  grandfathered: boolean;
+  salePrice: number;
+  cost: number;
+  saleValue: number;
+  gain: number; // Negative for a loss
+  ruleId: number;
+};
+export type TaxAccountSummary = {
+  accountLabel: string;
+  shortTermGain: number; // Net of short-term losses
+  longTermGain: number; // Net of long-term losses
+  setOffLoss: number; // Net short-term loss set off against long-term gains
+  ltcgExemption: number; // Exemption used
+  taxableShortTerm: number;
+  taxableLongTerm: number;
+  carriedForwardLoss: number; // Losses left after set-off, to carry forward in the return
+  shortTermTax: number;
+  longTermTax: number;
+  cess: number;
+  totalTax: number;
+};
+export type TaxReport = {
+  fy: number; // 2024 is FY 2024-25
+  label: string;
+  years: number[]; // Every financial year with a sale, newest first
+  sales: TaxSale[];
+  accounts: TaxAccountSummary[];
+  totals: Omit<TaxAccountSummary, "accountLabel">;
+  rules: TaxRule[]; // Rules used by the report's sales and exemption
+  skipped: number; // Sales left out because no allotment, listing or application date is known
+};
+// Outbox listings leave out the HTML body
+export type OutboxEmailSummary = Omit<OutboxEmail, "html">;
+export type ScoreBreakdownResponse = ScoreBreakdown & {
+  ipoId: number;
+  profile: Pick<ScoringProfile, "id" | "slug" | "name" | "version">;
+  scores: Record<ScoreSection | "overall", number | null>;
+};
+
+export type QuotaWindow = {
+  used: number;
+  limit: number | null; // null = no cap for this window
+  resetsAt: string;
+};
+
+export type ApiUsageSummary = {
+  planId: string;
+  daily: QuotaWindow;
+  monthly: QuotaWindow;
+  apiKeys: { active: number; limit: number | null };
+  trend: { date: string; count: number }[];
+};
 
 // Score Summary Type for frontend
 export type IpoScoreSummary = {
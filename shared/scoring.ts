@@ -0,0 +1,162 @@
+import { z } from "zod";
+
+// ============================================
+// SCORING PROFILES
+// Every threshold and weight used by the IPO scoring model. Profiles are
+// stored versioned in scoring_profiles; the presets below seed version 1.
+// A threshold is compared with ">" for upside bands and "<" for downside
+// bands, and the matching points are added to the section score.
+// ============================================
+const points = z.number().min(-10).max(10);
+
+export const scoringConfigSchema = z.object({
+  weights: z.object({
+    fundamentals: z.number().min(0).max(1),
+    valuation: z.number().min(0).max(1),
+    governance: z.number().min(0).max(1),
+  }).refine(
+    w => Math.abs(w.fundamentals + w.valuation + w.governance - 1) < 0.001,
+    { message: "Weights must add up to 1" }
+  ),
+  baseScores: z.object({
+    fundamentals: z.number().min(0).max(10),
+    valuation: z.number().min(0).max(10),
+    governance: z.number().min(0).max(10),
+  }),
+  fundamentals: z.object({
+    revenueGrowth: z.object({ strong: z.number(), strongPoints: points, healthy: z.number(), healthyPoints: points, weak: z.number(), weakPoints: points }),
+    roe: z.object({ excellent: z.number(), excellentPoints: points, good: z.number(), goodPoints: points, poor: z.number(), poorPoints: points }),
+    ebitdaMargin: z.object({ strong: z.number(), strongPoints: points, thin: z.number(), thinPoints: points }),
+    debtToEquity: z.object({ low: z.number(), lowPoints: points, high: z.number(), highPoints: points, elevated: z.number(), elevatedPoints: points }),
+  }),
+  valuation: z.object({
+    // P/E as a multiple of the sector median
+    peVsSector: z.object({
+      cheap: z.number(), cheapPoints: points,
+      fair: z.number(), fairPoints: points,
+      expensive: z.number(), expensivePoints: points,
+      premium: z.number(), premiumPoints: points,
+    }),
+    // Used only when there is no sector median
+    absolutePe: z.object({ veryHigh: z.number(), veryHighPoints: points, high: z.number(), highPoints: points, reasonable: z.number(), reasonablePoints: points }),
+    gmp: z.object({ strong: z.number(), negativePoints: points }),
+  }),
+  governance: z.object({
+    ofs: z.object({
+      aggressive: z.number(), aggressivePoints: points,
+      significant: z.number(), significantPoints: points,
+      freshIssueMaxOfs: z.number(), freshIssueMinFresh: z.number(), freshIssuePoints: points,
+    }),
+    promoterHolding: z.object({ high: z.number(), highPoints: points, low: z.number(), lowPoints: points }),
+    dilution: z.object({ large: z.number(), largePoints: points }),
+  }),
+  riskLevel: z.object({
+    conservativeMinScore: z.number(),
+    conservativeMaxRedFlags: z.number().int().min(0),
+    moderateMinScore: z.number(),
+    moderateMaxRedFlags: z.number().int().min(0),
+  }),
+});
+
+export type ScoringConfig = z.infer<typeof scoringConfigSchema>;
+
+export const DEFAULT_SCORING_PROFILE = "default";
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  weights: { fundamentals: 0.4, valuation: 0.35, governance: 0.25 },
+  baseScores: { fundamentals: 5, valuation: 5, governance: 6 },
+  fundamentals: {
+    revenueGrowth: { strong: 30, strongPoints: 2, healthy: 15, healthyPoints: 1, weak: 5, weakPoints: -1 },
+    roe: { excellent: 20, excellentPoints: 1.5, good: 15, goodPoints: 1, poor: 10, poorPoints: -0.5 },
+    ebitdaMargin: { strong: 25, strongPoints: 1, thin: 10, thinPoints: -1 },
+    debtToEquity: { low: 0.3, lowPoints: 1, high: 1.5, highPoints: -1.5, elevated: 1, elevatedPoints: -0.5 },
+  },
+  valuation: {
+    peVsSector: {
+      cheap: 0.8, cheapPoints: 3,
+      fair: 1.0, fairPoints: 1.5,
+      expensive: 1.5, expensivePoints: -2.5,
+      premium: 1.2, premiumPoints: -1,
+    },
+    absolutePe: { veryHigh: 50, veryHighPoints: -2, high: 35, highPoints: -1, reasonable: 15, reasonablePoints: 2 },
+    gmp: { strong: 100, negativePoints: -1 },
+  },
+  governance: {
+    ofs: {
+      aggressive: 0.7, aggressivePoints: -2,
+      significant: 0.5, significantPoints: -1,
+      freshIssueMaxOfs: 0.2, freshIssueMinFresh: 0.8, freshIssuePoints: 1.5,
+    },
+    promoterHolding: { high: 70, highPoints: 1, low: 25, lowPoints: -1 },
+    dilution: { large: 30, largePoints: -1 },
+  },
+  riskLevel: {
+    conservativeMinScore: 7,
+    conservativeMaxRedFlags: 1,
+    moderateMinScore: 5,
+    moderateMaxRedFlags: 2,
+  },
+};
+
+export interface ScoringPreset {
+  slug: string;
+  name: string;
+  description: string;
+  config: ScoringConfig;
+}
+
+export const SCORING_PRESETS: ScoringPreset[] = [
+  {
+    slug: DEFAULT_SCORING_PROFILE,
+    name: "Balanced",
+    description: "The house model. Stored IPO scores are computed with the latest version of this profile.",
+    config: DEFAULT_SCORING_CONFIG,
+  },
+  {
+    slug: "growth",
+    name: "Growth tilt",
+    description: "Rewards revenue growth and margins, and is more forgiving of premium valuations.",
+    config: {
+      ...DEFAULT_SCORING_CONFIG,
+      weights: { fundamentals: 0.5, valuation: 0.25, governance: 0.25 },
+      fundamentals: {
+        ...DEFAULT_SCORING_CONFIG.fundamentals,
+        revenueGrowth: { strong: 30, strongPoints: 3, healthy: 15, healthyPoints: 1.5, weak: 10, weakPoints: -1.5 },
+        ebitdaMargin: { strong: 25, strongPoints: 1.5, thin: 10, thinPoints: -1 },
+      },
+      valuation: {
+        ...DEFAULT_SCORING_CONFIG.valuation,
+        peVsSector: {
+          cheap: 0.8, cheapPoints: 2,
+          fair: 1.0, fairPoints: 1.5,
+          expensive: 1.8, expensivePoints: -1.5,
+          premium: 1.3, premiumPoints: -0.5,
+        },
+        absolutePe: { veryHigh: 70, veryHighPoints: -1.5, high: 45, highPoints: -0.5, reasonable: 20, reasonablePoints: 1.5 },
+      },
+    },
+  },
+  {
+    slug: "value",
+    name: "Value tilt",
+    description: "Weights valuation most heavily and penalises expensive issues and leverage harder.",
+    config: {
+      ...DEFAULT_SCORING_CONFIG,
+      weights: { fundamentals: 0.3, valuation: 0.5, governance: 0.2 },
+      fundamentals: {
+        ...DEFAULT_SCORING_CONFIG.fundamentals,
+        debtToEquity: { low: 0.3, lowPoints: 1.5, high: 1.2, highPoints: -2, elevated: 0.8, elevatedPoints: -1 },
+      },
+      valuation: {
+        ...DEFAULT_SCORING_CONFIG.valuation,
+        peVsSector: {
+          cheap: 0.8, cheapPoints: 3.5,
+          fair: 1.0, fairPoints: 1.5,
+          expensive: 1.3, expensivePoints: -3,
+          premium: 1.1, premiumPoints: -1.5,
+        },
+        absolutePe: { veryHigh: 40, veryHighPoints: -2.5, high: 25, highPoints: -1, reasonable: 15, reasonablePoints: 2.5 },
+      },
+    },
+  },
+];
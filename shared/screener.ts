@@ -0,0 +1,77 @@
+// ============================================
+// SCREENER
+// Saved screens are named lists of alert-rule conditions (shared/alert-rules.ts)
+// plus a sort column. Screens travel in the /screener URL as repeated
+// c=field:operator:value params and sort=[-]field, so a link reproduces the
+// screen for anyone who opens it.
+// ============================================
+import { z } from "zod";
+import {
+  ALERT_RULE_FIELDS,
+  alertRuleConditionSchema,
+  type AlertRuleCondition,
+  type AlertRuleField,
+} from "./alert-rules";
+
+export const MAX_SAVED_SCREENS = 20;
+export const MAX_SCREEN_CONDITIONS = 10;
+
+// Columns the results table always shows; fields used in conditions are added
+export const DEFAULT_SCREENER_COLUMNS: AlertRuleField[] = [
+  'overallScore',
+  'gmp',
+  'gmpPercentage',
+  'subscriptionRetail',
+  'peRatio',
+  'peVsSectorMedian',
+  'roe',
+  'debtToEquity',
+  'ofsRatio',
+  'promoterHolding',
+];
+
+const fieldNames = Object.keys(ALERT_RULE_FIELDS) as [AlertRuleField, ...AlertRuleField[]];
+
+export const screenSortSchema = z.object({
+  field: z.enum(fieldNames),
+  direction: z.enum(['asc', 'desc']),
+});
+
+export type ScreenSort = z.infer<typeof screenSortSchema>;
+
+export const DEFAULT_SCREEN_SORT: ScreenSort = { field: 'overallScore', direction: 'desc' };
+
+export const screenConditionsSchema = z.array(alertRuleConditionSchema).max(MAX_SCREEN_CONDITIONS);
+
+export function encodeScreenParams(conditions: AlertRuleCondition[], sort: ScreenSort): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const { field, operator, value } of conditions) {
+    params.append('c', `${field}:${operator}:${value}`);
+  }
+  params.set('sort', `${sort.direction === 'desc' ? '-' : ''}${sort.field}`);
+  return params;
+}
+
+// Conditions that do not parse are dropped, so an old or hand-edited link
+// still opens with whatever is valid in it
+export function decodeScreenParams(params: URLSearchParams): { conditions: AlertRuleCondition[]; sort: ScreenSort } {
+  const conditions: AlertRuleCondition[] = [];
+  for (const raw of params.getAll('c')) {
+    const [field, operator, ...rest] = raw.split(':');
+    const text = rest.join(':');
+    const type = ALERT_RULE_FIELDS[field as AlertRuleField]?.type;
+    const parsed = alertRuleConditionSchema.safeParse({
+      field,
+      operator,
+      value: type === 'number' && text.trim() !== '' ? Number(text) : text,
+    });
+    if (parsed.success && conditions.length < MAX_SCREEN_CONDITIONS) conditions.push(parsed.data);
+  }
+
+  const rawSort = params.get('sort') ?? '';
+  const sort = screenSortSchema.safeParse({
+    field: rawSort.replace(/^-/, ''),
+    direction: rawSort.startsWith('-') ? 'desc' : 'asc',
+  });
+  return { conditions, sort: sort.success ? sort.data : DEFAULT_SCREEN_SORT };
+}
@@ -0,0 +1,64 @@
+// ============================================
+// CAPITAL GAINS TAX
+// Indian rules for listed equity shares sold on an exchange (sections 111A
+// and 112A). Shares held for more than 12 months give long-term gains, taxed
+// above a yearly exemption; anything sooner is short-term. Shares acquired
+// before the grandfathering date use the higher of their cost and the lower
+// of the 31 Jan 2018 fair market value and the sale price as cost.
+//
+// The rates live in the tax_rules table; these are the rows seeded into it.
+// A sale uses the rule in force on its sale date, the exemption comes from
+// the rule in force at the end of the financial year.
+// ============================================
+import { z } from "zod";
+
+export const DEFAULT_TAX_RULES = [
+  {
+    effectiveFrom: '2008-04-01',
+    stcgRate: 15,
+    ltcgRate: 0, // Exempt under section 10(38)
+    ltcgExemption: 0,
+    longTermMonths: 12,
+    grandfatherDate: null,
+    cessRate: 3,
+    description: 'STCG 15%; LTCG on listed equity exempt',
+  },
+  {
+    effectiveFrom: '2018-04-01',
+    stcgRate: 15,
+    ltcgRate: 10,
+    ltcgExemption: 100000,
+    longTermMonths: 12,
+    grandfatherDate: '2018-01-31',
+    cessRate: 4,
+    description: 'Finance Act 2018: LTCG 10% above ₹1 lakh, grandfathered to 31 Jan 2018',
+  },
+  {
+    effectiveFrom: '2024-07-23',
+    stcgRate: 20,
+    ltcgRate: 12.5,
+    ltcgExemption: 125000,
+    longTermMonths: 12,
+    grandfatherDate: '2018-01-31',
+    cessRate: 4,
+    description: 'Finance (No. 2) Act 2024: STCG 20%, LTCG 12.5% above ₹1.25 lakh',
+  },
+] as const;
+
+export type GainType = 'short_term' | 'long_term';
+
+export const GAIN_TYPES: Record<GainType, string> = {
+  short_term: 'Short-term (STCG)',
+  long_term: 'Long-term (LTCG)',
+};
+
+// Financial year by its starting calendar year: 2024 is FY 2024-25
+export const taxReportQuerySchema = z.object({
+  fy: z.coerce.number().int().min(2000).max(2100).optional(), // The latest year with a sale when unset
+});
+
+export type TaxReportQuery = z.infer<typeof taxReportQuerySchema>;
+
+export function financialYearRange(fy: number): { from: string; to: string } {
+  return { from: `${fy}-04-01`, to: `${fy + 1}-03-31` };
+}
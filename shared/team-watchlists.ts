@@ -0,0 +1,52 @@
+// ============================================
+// TEAM WATCHLISTS
+// Named watchlists shared by a team. The owner manages the list and its
+// members, editors add and remove IPOs, viewers only read. People join by
+// accepting an emailed invite; every change is recorded in the activity feed.
+// An alert rule scoped to a team watchlist notifies every member.
+// ============================================
+import { z } from "zod";
+
+export type TeamRole = 'owner' | 'editor' | 'viewer';
+
+export const TEAM_ROLES: Record<TeamRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+// A list has exactly one owner, so invites and role changes stop at editor
+export const teamMemberRoleSchema = z.enum(['editor', 'viewer']);
+
+export type TeamActivityAction =
+  | 'created'
+  | 'renamed'
+  | 'ipo_added'
+  | 'ipo_removed'
+  | 'member_invited'
+  | 'invite_revoked'
+  | 'member_joined'
+  | 'role_changed'
+  | 'member_removed'
+  | 'member_left';
+
+export const MAX_TEAM_WATCHLISTS = 10; // Owned per user
+export const MAX_TEAM_MEMBERS = 25; // Including pending invites
+export const MAX_TEAM_WATCHLIST_ITEMS = 200;
+export const TEAM_INVITE_EXPIRY_DAYS = 14;
+export const TEAM_ACTIVITY_LIMIT = 50; // Entries shown on the list page
+
+export const teamWatchlistNameSchema = z.string().trim().min(1, "List name is required").max(60);
+
+export function canEditTeamWatchlist(role: TeamRole): boolean {
+  return role === 'owner' || role === 'editor';
+}
+
+export function canManageTeamWatchlist(role: TeamRole): boolean {
+  return role === 'owner';
+}
+
+export function memberDisplayName(user: { firstName: string | null; lastName: string | null; email: string | null }): string {
+  const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+  return name || user.email || 'Unknown user';
+}
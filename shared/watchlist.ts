@@ -0,0 +1,22 @@
+// ============================================
+// WATCHLIST
+// Private notes, tags and a target GMP per watchlisted IPO. Tags are free
+// text chosen by the user, stored lowercase so "Apply" and "apply" match.
+// ============================================
+import { z } from "zod";
+
+export const SUGGESTED_WATCHLIST_TAGS = ['apply', 'skip', 'family'] as const;
+
+export const MAX_WATCHLIST_TAGS = 10; // Per item
+export const MAX_WATCHLIST_NOTES_LENGTH = 2000;
+
+export const watchlistTagSchema = z.string()
+  .trim()
+  .toLowerCase()
+  .min(1, "Tags cannot be empty")
+  .max(24, "Tags can be at most 24 characters")
+  .regex(/^[a-z0-9][a-z0-9 _-]*$/, "Tags may only contain letters, digits, spaces, dashes and underscores");
+
+export const watchlistTagsSchema = z.array(watchlistTagSchema)
+  .max(MAX_WATCHLIST_TAGS, `At most ${MAX_WATCHLIST_TAGS} tags per IPO`)
+  .transform(tags => Array.from(new Set(tags)));
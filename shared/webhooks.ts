@@ -0,0 +1,36 @@
+// ============================================
+// WEBHOOKS
+// Event types API customers can subscribe webhook endpoints to, and the
+// signature scheme used on every delivery.
+// ============================================
+import { z } from "zod";
+
+export const WEBHOOK_EVENT_TYPES = {
+  "ipo.created": "A new IPO was added",
+  "ipo.status_changed": "An IPO moved between upcoming, open and closed",
+  "gmp.updated": "An IPO's grey market premium changed",
+  "subscription.updated": "New category-wise subscription figures were recorded",
+  "ipo.listed": "An IPO listed on the exchange; includes listing-day prices",
+} as const;
+
+export type WebhookEventType = keyof typeof WEBHOOK_EVENT_TYPES;
+
+export const webhookEventTypeSchema = z.enum(
+  Object.keys(WEBHOOK_EVENT_TYPES) as [WebhookEventType, ...WebhookEventType[]],
+);
+
+export const MAX_WEBHOOK_ENDPOINTS = 5;
+
+// Deliveries are POSTed as JSON with these headers. The signature is
+// "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${body}` with the endpoint secret>".
+export const WEBHOOK_SIGNATURE_HEADER = "X-IPO-Signature";
+export const WEBHOOK_EVENT_HEADER = "X-IPO-Event";
+export const WEBHOOK_DELIVERY_HEADER = "X-IPO-Delivery";
+
+// Body of every delivery
+export interface WebhookEventPayload<T = unknown> {
+  id: string; // Event ID; redeliveries of the same event keep it
+  type: WebhookEventType;
+  createdAt: string;
+  data: T;
+}